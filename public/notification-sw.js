@@ -0,0 +1,27 @@
+/* Fantasy dashboard notification service worker.
+ * Registered under its own scope so it never competes with the MSW simulation
+ * worker; it only displays notifications and refocuses the dashboard on click.
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const targetUrl = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const dashboard = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (dashboard) {
+        return dashboard.focus();
+      }
+      return self.clients.openWindow(targetUrl);
+    })
+  );
+});
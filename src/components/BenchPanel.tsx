@@ -0,0 +1,104 @@
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { Button } from './ui/button';
+import { Alert, AlertDescription } from './ui/alert';
+import { Skeleton } from './ui/skeleton';
+import { LeagueConfig } from '../types/config';
+import { useBenchPoints } from '../hooks/useBenchPoints';
+
+interface BenchPanelProps {
+  leagueConfig?: LeagueConfig;
+  lastUpdated?: string;
+}
+
+export const BenchPanel = ({ leagueConfig, lastUpdated }: BenchPanelProps) => {
+  const { live, weekResults, seasonTally, loading, error, refetch } = useBenchPoints(leagueConfig, lastUpdated);
+
+  if (!leagueConfig) {
+    return <p className="text-sm text-muted-foreground">Bench tracking needs a connected league.</p>;
+  }
+
+  const thisWeek = live ? weekResults.find(result => result.week === live.week) : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm">
+          Bench this week <span className="font-semibold">{(live?.points ?? 0).toFixed(1)}</span> pts
+        </div>
+        <Button size="sm" variant="outline" onClick={refetch} disabled={loading}>
+          <RotateCcw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-destructive/50 bg-destructive/10">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && weekResults.length === 0 ? (
+        <Skeleton className="h-16 w-full" />
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Week {live?.week}</p>
+            {thisWeek ? (
+              <p className="text-sm">
+                Scored <span className="font-semibold">{thisWeek.actualPoints.toFixed(1)}</span> of a possible{' '}
+                <span className="font-semibold">{thisWeek.optimalPoints.toFixed(1)}</span>
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">Optimal vs actual shows once this week's games are final</p>
+            )}
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Season ({seasonTally.weeks} {seasonTally.weeks === 1 ? 'week' : 'weeks'})</p>
+            <p className="text-sm">
+              <span className="font-semibold">{seasonTally.pointsLeftOnBench.toFixed(1)}</span> left on bench ·{' '}
+              {seasonTally.benchPoints.toFixed(1)} bench pts
+            </p>
+          </div>
+        </div>
+      )}
+
+      {weekResults.length > 0 && (
+        <div className="border rounded-lg overflow-hidden">
+          <div className="grid grid-cols-4 gap-2 px-3 py-2 bg-muted text-xs font-medium">
+            <span>Week</span>
+            <span>Actual</span>
+            <span>Optimal</span>
+            <span>Left on bench</span>
+          </div>
+          {weekResults.map(result => (
+            <div key={result.week} className="grid grid-cols-4 gap-2 px-3 py-2 text-sm border-t">
+              <span className="font-medium">{result.week}</span>
+              <span>{result.actualPoints.toFixed(1)}</span>
+              <span>{result.optimalPoints.toFixed(1)}</span>
+              <span>{(result.optimalPoints - result.actualPoints).toFixed(1)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {live && live.events.length > 0 ? (
+          live.events.map(event => (
+            <div key={event.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg text-sm">
+              <span className="truncate">
+                <span className="font-medium">{event.playerName}</span>{' '}
+                <span className="text-muted-foreground">{event.description}</span>
+              </span>
+              <span className="shrink-0 text-muted-foreground">
+                {event.fantasyPoints > 0 ? '+' : ''}{event.fantasyPoints.toFixed(1)}
+              </span>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground">No bench scoring yet this week</p>
+        )}
+      </div>
+    </div>
+  );
+};
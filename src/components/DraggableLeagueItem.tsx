@@ -85,6 +85,36 @@ export const DraggableLeagueItem = ({ league, onUpdate, onRemove }: DraggableLea
                 </p>
               </div>
             )}
+
+            {league.platform === 'ESPN' && (
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label>ESPN Team ID</Label>
+                  <Input
+                    value={league.teamId || ''}
+                    onChange={(e) => onUpdate(league.id, { teamId: e.target.value || undefined })}
+                    placeholder="Found from SWID if blank"
+                  />
+                </div>
+                <div>
+                  <Label>espn_s2</Label>
+                  <Input
+                    type="password"
+                    value={league.espnS2 || ''}
+                    onChange={(e) => onUpdate(league.id, { espnS2: e.target.value || undefined })}
+                    placeholder="Private leagues only"
+                  />
+                </div>
+                <div>
+                  <Label>SWID</Label>
+                  <Input
+                    value={league.swid || ''}
+                    onChange={(e) => onUpdate(league.id, { swid: e.target.value || undefined })}
+                    placeholder="{XXXXXXXX-XXXX-...}"
+                  />
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
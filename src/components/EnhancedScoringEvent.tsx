@@ -1,5 +1,5 @@
 import { ScoringEvent as ScoringEventType, ScoringEventForDisplay } from '../types/fantasy';
-import { User, TrendingUp, TrendingDown, Target } from 'lucide-react';
+import { User, TrendingUp, TrendingDown, Target, AlertTriangle, RotateCcw } from 'lucide-react';
 
 interface EnhancedScoringEventProps {
   event: ScoringEventType | ScoringEventForDisplay;
@@ -14,6 +14,14 @@ export const EnhancedScoringEvent = ({ event, isRecent = false, compact = false
   const position = 'position' in event ? event.position : 'N/A';
   const action = 'action' in event ? event.action : event.description || 'Scoring event';
   const weeklyPoints = 'weeklyPoints' in event ? event.weeklyPoints : event.points || 0;
+  const eventType = 'event_type' in event ? event.event_type : undefined;
+  
+  // Negative-impact plays get their own treatment so they stand out from scoring plays
+  const isCorrection = eventType === 'correction';
+  const isTurnover = (eventType === 'interception' || eventType === 'fumble') && scoreImpact < 0;
+  const isBackfilled = 'isBackfilled' in event && !!event.isBackfilled;
+  const isAgainst = 'impact' in event && event.impact === 'against';
+  const isBench = 'isBench' in event && !!event.isBench;
   
   // Format timestamp as game time (e.g., "12:31 - Q4") if available
   const formatTimestamp = () => {
@@ -28,7 +36,9 @@ export const EnhancedScoringEvent = ({ event, isRecent = false, compact = false
   const timestamp = formatTimestamp();
 
   const getImpactBadgeStyle = () => {
-    if (scoreImpact > 0) {
+    if (isAgainst) {
+      return 'bg-purple-500/20 text-purple-300 border border-purple-500/30';
+    } else if (scoreImpact > 0) {
       return 'bg-green-500/20 text-green-400 border border-green-500/30';
     } else if (scoreImpact < 0) {
       return 'bg-red-500/20 text-red-400 border border-red-500/30';
@@ -38,6 +48,9 @@ export const EnhancedScoringEvent = ({ event, isRecent = false, compact = false
   };
 
   const getPositionIcon = () => {
+    if (isCorrection) return <RotateCcw className="h-3 w-3" />;
+    if (isTurnover) return <AlertTriangle className="h-3 w-3" />;
+
     switch (position) {
       case 'QB':
         return <User className="h-3 w-3" />;
@@ -54,9 +67,25 @@ export const EnhancedScoringEvent = ({ event, isRecent = false, compact = false
     }
   };
 
+  const getIconStyle = () => {
+    if (isAgainst) return 'bg-purple-500/20 text-purple-300';
+    if (isCorrection) return 'bg-amber-400/20 text-amber-400';
+    if (isTurnover) return 'bg-red-500/20 text-red-400';
+    return 'bg-primary/20 text-primary';
+  };
+
+  const getNegativeEventClasses = () => {
+    if (isAgainst) return 'border-l-2 border-purple-500/60 bg-purple-500/5 pl-2';
+    if (isCorrection) return 'border-l-2 border-amber-400/60 bg-amber-400/5 pl-2';
+    if (isTurnover) return 'border-l-2 border-red-500/60 bg-red-500/5 pl-2';
+    return '';
+  };
+
   const eventClasses = isRecent 
     ? 'opacity-100 text-sm border border-primary/30 bg-primary/5 rounded-md p-2 recent-event-glow' 
-    : 'opacity-80 text-xs';
+    : isBench ? 'opacity-60 text-xs' : 'opacity-80 text-xs';
+
+  const negativeLabel = isAgainst ? 'Opponent' : isCorrection ? 'Correction' : isTurnover ? 'Turnover' : null;
 
   const playerNameClasses = isRecent 
     ? 'font-bold text-white' 
@@ -64,9 +93,9 @@ export const EnhancedScoringEvent = ({ event, isRecent = false, compact = false
 
   if (compact) {
     return (
-      <div className={`scoring-event transition-all duration-300 ${eventClasses}`}>
+      <div className={`scoring-event transition-all duration-300 ${eventClasses} ${getNegativeEventClasses()}`}>
         <div className="flex items-center gap-2">
-          <div className="w-4 h-4 rounded-full bg-primary/20 flex items-center justify-center text-primary">
+          <div className={`w-4 h-4 rounded-full flex items-center justify-center ${getIconStyle()}`}>
             {getPositionIcon()}
           </div>
           
@@ -89,11 +118,11 @@ export const EnhancedScoringEvent = ({ event, isRecent = false, compact = false
   }
 
   return (
-    <div className={`scoring-event transition-all duration-300 ${eventClasses}`}>
+    <div className={`scoring-event transition-all duration-300 ${eventClasses} ${getNegativeEventClasses()}`}>
       <div className="flex items-start gap-2">
         {/* Player Icon */}
         <div className="flex-shrink-0 mt-0.5">
-          <div className="w-5 h-5 rounded-full bg-primary/20 flex items-center justify-center text-primary">
+          <div className={`w-5 h-5 rounded-full flex items-center justify-center ${getIconStyle()}`}>
             {getPositionIcon()}
           </div>
         </div>
@@ -112,6 +141,21 @@ export const EnhancedScoringEvent = ({ event, isRecent = false, compact = false
               <span className={isRecent ? 'text-sm text-white/80' : 'text-xs text-white/70'}>
                 {weeklyPoints} pts
               </span>
+              {negativeLabel && (
+                <span className={`text-[10px] uppercase font-semibold tracking-wide ${isAgainst ? 'text-purple-300' : isCorrection ? 'text-amber-400' : 'text-red-400'}`}>
+                  {negativeLabel}
+                </span>
+              )}
+              {isBench && (
+                <span className="text-[10px] uppercase font-semibold tracking-wide text-white/50">
+                  Bench
+                </span>
+              )}
+              {isBackfilled && (
+                <span className="text-[10px] uppercase font-semibold tracking-wide text-white/50">
+                  Catch-up
+                </span>
+              )}
             </div>
           </div>
 
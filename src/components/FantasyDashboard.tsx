@@ -16,12 +16,17 @@ import { useResponsiveBreakpoint, useIsMobile, useDeviceCapabilities } from "../
 import { usePullToRefresh } from "../hooks/usePullToRefresh";
 import { useHapticFeedback } from "../hooks/useHapticFeedback";
 import { useEventAnimations } from "../hooks/useEventAnimations";
+import { useNotifications } from "../hooks/useNotifications";
+import { useLineupReminders } from "../hooks/useLineupReminders";
+import { useSoundCues } from "../hooks/useSoundCues";
 import { LeagueBlock } from "./LeagueBlock";
 import { SettingsModal } from "./SettingsModal";
 import { ExportShareModal } from "./ExportShareModal";
 import { ConnectionStatusBanner } from "./ConnectionStatusBanner";
 import { LiveEventIndicator } from "./LiveEventIndicator";
 import { PerformanceDashboard } from "./PerformanceDashboard";
+import { UpcomingRemindersPanel } from "./UpcomingRemindersPanel";
+import { LeagueDetailModal } from "./LeagueDetailModal";
 import { LoadingScreen } from "./LoadingScreen";
 import { LoadingOverlay } from "./LoadingOverlay";
 import { OfflineBanner } from "./OfflineBanner";
@@ -50,6 +55,7 @@ const DashboardContent = () => {
   } = useFantasyDashboardWithLiveEvents();
 const [settingsOpen, setSettingsOpen] = useState(false);
 const [exportShareOpen, setExportShareOpen] = useState(false);
+const [selectedLeagueId, setSelectedLeagueId] = useState<string | null>(null);
 const [isRefreshing, setIsRefreshing] = useState(false);
 const [currentLeagueIndex, setCurrentLeagueIndex] = useState(0);
 
@@ -98,6 +104,13 @@ useEffect(() => {
   }, [demoLeague, enhancedLeagues]);
 
 
+  // Browser notifications and sound cues for the real leagues (the demo league is excluded)
+  useNotifications(config.config.notifications, enhancedLeagues);
+  useSoundCues(config.config.notifications, config.config.display, enhancedLeagues);
+
+  // Bye, OUT and empty-slot warnings before kickoff
+  const { reminders: lineupReminders } = useLineupReminders(config.config.leagues, config.config.notifications);
+
   // Loading and error states from enhanced dashboard
   const isLoading = dashboardLoading;
   const error = dashboardError;
@@ -174,10 +187,10 @@ useEffect(() => {
   }, [enhancedLeagues.length, isMobile]);
 
   const handleLeagueClick = (league: LeagueData) => {
-    console.log('League clicked:', league.leagueName);
     if (hasHaptics) {
       navigator.vibrate?.(50);
     }
+    setSelectedLeagueId(league.id);
   };
 
   // Performance monitoring
@@ -283,6 +296,9 @@ useEffect(() => {
           </Alert>
         )}
 
+        {/* Lineup problems before kickoff */}
+        <UpcomingRemindersPanel reminders={lineupReminders} />
+
         {/* Leagues Grid */}
         {isMobile ? (
           /* Mobile: Card-based layout with swipe navigation */
@@ -303,6 +319,7 @@ useEffect(() => {
                 key={league.id}
                 league={league}
                 onClick={() => handleLeagueClick(league)}
+                showWinProbabilityTrend={config.config.display?.showWinProbabilityTrends ?? true}
               />
             ))}
           </div>
@@ -322,6 +339,12 @@ useEffect(() => {
       {/* Modals */}
       <SettingsModal open={settingsOpen} onOpenChange={setSettingsOpen} />
       <ExportShareModal open={exportShareOpen} onOpenChange={setExportShareOpen} />
+      <LeagueDetailModal
+        league={displayLeagues.find(league => league.id === selectedLeagueId) ?? null}
+        leagueConfig={config.config.leagues.find(league => league.leagueId === selectedLeagueId)}
+        open={selectedLeagueId !== null}
+        onOpenChange={(open) => !open && setSelectedLeagueId(null)}
+      />
     </div>
   );
 };
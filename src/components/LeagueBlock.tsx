@@ -1,16 +1,19 @@
 import React, { useCallback, useRef, useMemo, useEffect } from 'react';
+import { TrendingUp, TrendingDown } from 'lucide-react';
 import { LeagueData } from '../types/fantasy';
 import { EnhancedScoringEvent } from './EnhancedScoringEvent';
+import { PlayersRemainingSection } from './PlayersRemainingSection';
 import { useEventAnimations } from '../hooks/useEventAnimations';
 import { safeLower } from '../utils/strings';
 
 interface LeagueBlockProps {
   league: LeagueData;
   onClick?: () => void;
+  showWinProbabilityTrend?: boolean;
 }
 
 // Memoized LeagueBlock component to prevent unnecessary re-renders
-export const LeagueBlock = React.memo(({ league, onClick }: LeagueBlockProps) => {
+export const LeagueBlock = React.memo(({ league, onClick, showWinProbabilityTrend = true }: LeagueBlockProps) => {
   const { triggerPulseAnimation, cleanup } = useEventAnimations();
   const prevEventsRef = useRef<string[]>([]);
 
@@ -115,6 +118,30 @@ export const LeagueBlock = React.memo(({ league, onClick }: LeagueBlockProps) =>
           </div>
         </div>
 
+        {/* Projection and Win Probability */}
+        {(league.winProbability !== undefined || league.myProjectedScore !== undefined) && (
+          <div className="flex items-center justify-center gap-2 -mt-2 mb-4 text-sm text-white/90">
+            {league.myProjectedScore !== undefined && league.opponentProjectedScore !== undefined && (
+              <span>projected {league.myProjectedScore.toFixed(1)} – {league.opponentProjectedScore.toFixed(1)}</span>
+            )}
+            {league.winProbability !== undefined && league.myProjectedScore !== undefined && <span>•</span>}
+            {league.winProbability !== undefined && (
+              <span>Win probability {league.winProbability.toFixed(0)}%</span>
+            )}
+            {showWinProbabilityTrend && !!league.winProbabilityTrend && (
+              <span className="flex items-center gap-0.5 text-xs text-white/70">
+                {league.winProbabilityTrend > 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                {Math.abs(league.winProbabilityTrend).toFixed(1)}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Players Remaining */}
+        {league.playersRemaining && (
+          <PlayersRemainingSection playersRemaining={league.playersRemaining} opponentName={league.opponentName} />
+        )}
+
         {/* Recent Activity */}
         <div className="flex-1 overflow-hidden">
           <div className="flex justify-between items-center mb-3">
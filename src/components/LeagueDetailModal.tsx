@@ -0,0 +1,55 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { EnhancedScoringEvent } from './EnhancedScoringEvent';
+import { LineupPanel } from './LineupPanel';
+import { BenchPanel } from './BenchPanel';
+import { LeagueData } from '../types/fantasy';
+import { LeagueConfig } from '../types/config';
+
+interface LeagueDetailModalProps {
+  league: LeagueData | null;
+  leagueConfig?: LeagueConfig; // Missing for the demo league
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const LeagueDetailModal = ({ league, leagueConfig, open, onOpenChange }: LeagueDetailModalProps) => {
+  if (!league) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{league.leagueName}</DialogTitle>
+          <p className="text-sm text-muted-foreground">
+            {league.teamName} {league.myScore.toFixed(1)} – {league.opponentScore.toFixed(1)} {league.opponentName}
+          </p>
+        </DialogHeader>
+
+        <Tabs defaultValue="activity">
+          <TabsList>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
+            <TabsTrigger value="lineup">Lineup</TabsTrigger>
+            <TabsTrigger value="bench">Bench</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="activity" className="space-y-2">
+            {league.scoringEvents.length > 0 ? (
+              league.scoringEvents.map(event => <EnhancedScoringEvent key={event.id} event={event} />)
+            ) : (
+              <p className="text-sm text-muted-foreground">No scoring events yet</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="lineup">
+            <LineupPanel leagueConfig={leagueConfig} />
+          </TabsContent>
+
+          <TabsContent value="bench">
+            <BenchPanel leagueConfig={leagueConfig} lastUpdated={league.lastUpdated} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,124 @@
+import { AlertTriangle, ArrowUpCircle, Ban, Lock, RotateCcw, UserX } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Skeleton } from './ui/skeleton';
+import { LeagueConfig } from '../types/config';
+import { LineupPlayer, LineupWarningType } from '../services/LineupOptimizerService';
+import { useLineupAnalysis } from '../hooks/useLineupAnalysis';
+
+interface LineupPanelProps {
+  leagueConfig?: LeagueConfig;
+}
+
+const WARNING_ICONS: Record<LineupWarningType, typeof Ban> = {
+  inactive_starter: UserX,
+  bye_starter: Ban,
+  empty_slot: AlertTriangle,
+  bench_upgrade: ArrowUpCircle
+};
+
+const PlayerCell = ({ player }: { player: LineupPlayer | null }) => {
+  if (!player) {
+    return <span className="text-muted-foreground">Empty</span>;
+  }
+
+  const out = !player.isActive || player.onBye;
+  return (
+    <span className={`flex items-center gap-1 ${out ? 'text-destructive' : ''}`}>
+      {player.locked && <Lock className="h-3 w-3 text-muted-foreground" aria-label="Locked" />}
+      {player.name}
+      <span className="text-xs text-muted-foreground">
+        {player.position} · {out ? (player.onBye ? 'BYE' : player.injuryStatus || 'OUT') : player.projectedPoints.toFixed(1)}
+      </span>
+    </span>
+  );
+};
+
+export const LineupPanel = ({ leagueConfig }: LineupPanelProps) => {
+  const { analysis, loading, error, refetch } = useLineupAnalysis(leagueConfig);
+
+  if (!leagueConfig) {
+    return <p className="text-sm text-muted-foreground">Lineup checks need a connected league.</p>;
+  }
+
+  if (loading && !analysis) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-full" />
+        <Skeleton className="h-8 w-full" />
+        <Skeleton className="h-8 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert className="border-destructive/50 bg-destructive/10">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!analysis) return null;
+
+  const gain = Math.round((analysis.optimalProjection - analysis.currentProjection) * 10) / 10;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm">
+          Projected <span className="font-semibold">{analysis.currentProjection.toFixed(1)}</span>
+          {gain > 0 && (
+            <span className="text-muted-foreground"> · optimal {analysis.optimalProjection.toFixed(1)} (+{gain.toFixed(1)})</span>
+          )}
+        </div>
+        <Button size="sm" variant="outline" onClick={refetch} disabled={loading}>
+          <RotateCcw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {analysis.warnings.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No lineup problems found.</p>
+      ) : (
+        <div className="space-y-2">
+          {analysis.warnings.map(warning => {
+            const Icon = WARNING_ICONS[warning.type];
+            return (
+              <div key={`${warning.type}-${warning.slot}-${warning.playerId}`} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                <span className="flex items-center gap-2 text-sm">
+                  <Icon className="h-4 w-4 shrink-0" />
+                  {warning.message}
+                </span>
+                {warning.pointsGained > 0 && <Badge variant="outline">+{warning.pointsGained.toFixed(1)}</Badge>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="border rounded-lg overflow-hidden">
+        <div className="grid grid-cols-[4rem_1fr_1fr] gap-2 px-3 py-2 bg-muted text-xs font-medium">
+          <span>Slot</span>
+          <span>Current</span>
+          <span>Optimal</span>
+        </div>
+        {analysis.assignments.map((assignment, index) => {
+          const changed = assignment.current?.playerId !== assignment.optimal?.playerId;
+          return (
+            <div
+              key={`${assignment.slot}-${index}`}
+              className={`grid grid-cols-[4rem_1fr_1fr] gap-2 px-3 py-2 text-sm border-t ${changed ? 'bg-primary/5' : ''}`}
+            >
+              <span className="font-medium">{assignment.slot}</span>
+              <PlayerCell player={assignment.current} />
+              <PlayerCell player={assignment.optimal} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
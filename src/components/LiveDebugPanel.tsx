@@ -21,6 +21,7 @@ import { debugLogger } from '../utils/debugLogger';
 import { useYahooData } from '../hooks/useYahooData';
 import { useYahooOAuth } from '../hooks/useYahooOAuth';
 import { tank01NFLDataService } from '../services/Tank01NFLDataService';
+import { liveStatProviderManager } from '../services/LiveStatProvider';
 import { useConfig } from '../hooks/useConfig';
 
 interface LiveDebugPanelProps {
@@ -33,6 +34,7 @@ export const LiveDebugPanel = ({ open, onOpenChange }: LiveDebugPanelProps) => {
   const [testResults, setTestResults] = useState<string>('');
   const [isRunningTest, setIsRunningTest] = useState(false);
   const [tank01Stats, setTank01Stats] = useState(tank01NFLDataService.getServiceStatus());
+  const [liveStatsStatus, setLiveStatsStatus] = useState(liveStatProviderManager.getServiceStatus());
 
   const { isConnected: yahooConnected } = useYahooOAuth();
   const yahooData = useYahooData();
@@ -42,6 +44,7 @@ export const LiveDebugPanel = ({ open, onOpenChange }: LiveDebugPanelProps) => {
   useEffect(() => {
     const interval = setInterval(() => {
       setTank01Stats(tank01NFLDataService.getServiceStatus());
+      setLiveStatsStatus(liveStatProviderManager.getServiceStatus());
     }, 2000);
     return () => clearInterval(interval);
   }, []);
@@ -231,6 +234,17 @@ export const LiveDebugPanel = ({ open, onOpenChange }: LiveDebugPanelProps) => {
     });
   };
 
+  // Switch Tank01 between box-score diffs and per-play events
+  const toggleIngestionMode = () => {
+    const nextMode = tank01NFLDataService.getIngestionMode() === 'boxscore' ? 'playbyplay' : 'boxscore';
+    tank01NFLDataService.setIngestionMode(nextMode);
+    setTank01Stats(tank01NFLDataService.getServiceStatus());
+    toast({
+      title: 'Ingestion Mode Changed',
+      description: nextMode === 'playbyplay' ? 'Emitting one event per play' : 'Emitting box score stat changes',
+    });
+  };
+
   // Reset emergency stop
   const resetEmergencyStop = () => {
     tank01NFLDataService.resetEmergencyStop();
@@ -434,6 +448,10 @@ export const LiveDebugPanel = ({ open, onOpenChange }: LiveDebugPanelProps) => {
                     <TestTube className="w-4 h-4 mr-2" />
                     Trigger Test Event
                   </Button>
+                  <Button onClick={toggleIngestionMode} variant="outline">
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    {tank01Stats.ingestionMode === 'playbyplay' ? 'Mode: Play-by-Play' : 'Mode: Box Score'}
+                  </Button>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
@@ -446,6 +464,17 @@ export const LiveDebugPanel = ({ open, onOpenChange }: LiveDebugPanelProps) => {
                           {tank01Stats.emergencyStop ? 'EMERGENCY STOP' : tank01Stats.isPolling ? 'Active' : 'Inactive'}
                         </Badge>
                       </div>
+                      <div className="flex items-center justify-between">
+                        <span>Provider:</span>
+                        <Badge variant={liveStatsStatus.activeProvider === 'espn' ? 'destructive' : 'secondary'}>
+                          {liveStatsStatus.activeProvider === 'espn' ? 'ESPN (failover)'
+                            : liveStatsStatus.activeProvider === 'server' ? 'Server (Realtime)' : 'Tank01'}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span>Ingestion:</span>
+                        <span>{tank01Stats.ingestionMode === 'playbyplay' ? 'Play-by-Play' : 'Box Score'}</span>
+                      </div>
                       <div className="flex items-center justify-between">
                         <span>Active Games:</span>
                         <span>{tank01Stats.activeGames}</span>
@@ -1,5 +1,6 @@
 import { LeagueData } from '../types/fantasy'
 import { EnhancedScoringEvent } from './EnhancedScoringEvent'
+import { PlayersRemainingSection } from './PlayersRemainingSection'
 import { useEventAnimations } from '../hooks/useEventAnimations'
 import { useEffect, useRef } from 'react'
 import { useSwipeable } from 'react-swipeable'
@@ -165,8 +166,15 @@ export const MobileLeagueCard = ({ league, onClick, onRemove, onLongPress }: Mob
 
           <div className="text-xs text-white/70 text-center mb-3">
             vs {league.opponentName}
+            {league.myProjectedScore !== undefined && league.opponentProjectedScore !== undefined && (
+              <div>projected {league.myProjectedScore.toFixed(1)} – {league.opponentProjectedScore.toFixed(1)}</div>
+            )}
           </div>
 
+          {league.playersRemaining && (
+            <PlayersRemainingSection playersRemaining={league.playersRemaining} opponentName={league.opponentName} />
+          )}
+
           {/* Recent Activity - Compact */}
           <div>
             <h4 className="text-sm font-bold text-white mb-2">
@@ -0,0 +1,280 @@
+import { useState } from 'react';
+import { Bell, Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { LeagueConfig, NotificationConfig, NotificationRule, ScoringNotificationRule } from '../types/config';
+import { notificationService } from '../services/NotificationService';
+
+interface NotificationSettingsProps {
+  notifications: NotificationConfig;
+  leagues: LeagueConfig[];
+  onChange: (notifications: NotificationConfig) => void;
+}
+
+const ALL_LEAGUES = 'all';
+
+const describeRule = (rule: NotificationRule, leagues: LeagueConfig[]): string => {
+  const league = rule.leagueId
+    ? leagues.find(l => l.leagueId === rule.leagueId)?.customTeamName || rule.leagueId
+    : 'All leagues';
+
+  if (rule.type === 'win_probability') {
+    return `${league}: win probability crosses ${rule.threshold}%`;
+  }
+
+  const what = rule.events === 'touchdowns' ? 'TDs' : 'Scoring plays';
+  const who = rule.playerName || (rule.startersOnly ? 'starters' : 'players');
+  const side = rule.side === 'for' ? 'my' : rule.side === 'against' ? "opponent's" : 'any';
+  const minimum = rule.minPoints > 0 ? ` worth ${rule.minPoints}+ pts` : '';
+  return `${league}: ${what} by ${side} ${who}${minimum}`;
+};
+
+export const NotificationSettings = ({ notifications, leagues, onChange }: NotificationSettingsProps) => {
+  const [permission, setPermission] = useState(() => notificationService.getPermission());
+  const [ruleType, setRuleType] = useState<NotificationRule['type']>('scoring');
+  const [ruleLeague, setRuleLeague] = useState(ALL_LEAGUES);
+  const [events, setEvents] = useState<ScoringNotificationRule['events']>('touchdowns');
+  const [side, setSide] = useState<ScoringNotificationRule['side']>('for');
+  const [startersOnly, setStartersOnly] = useState(true);
+  const [playerName, setPlayerName] = useState('');
+  const [minPoints, setMinPoints] = useState(0);
+  const [threshold, setThreshold] = useState(50);
+
+  const update = (changes: Partial<NotificationConfig>) => onChange({ ...notifications, ...changes });
+
+  const enableBrowserNotifications = async (enabled: boolean) => {
+    if (enabled && permission !== 'granted') {
+      const result = await notificationService.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') return;
+    }
+    update({ browserNotifications: enabled });
+  };
+
+  const addRule = () => {
+    const base = {
+      id: `rule_${Date.now()}`,
+      enabled: true,
+      leagueId: ruleLeague === ALL_LEAGUES ? null : ruleLeague,
+    };
+    const rule: NotificationRule = ruleType === 'win_probability'
+      ? { ...base, type: 'win_probability', threshold }
+      : { ...base, type: 'scoring', events, side, startersOnly, playerName: playerName.trim() || null, minPoints };
+
+    update({ rules: [...notifications.rules, rule] });
+    setPlayerName('');
+  };
+
+  const updateRule = (ruleId: string, enabled: boolean) => {
+    update({ rules: notifications.rules.map(rule => rule.id === ruleId ? { ...rule, enabled } : rule) });
+  };
+
+  const removeRule = (ruleId: string) => {
+    update({ rules: notifications.rules.filter(rule => rule.id !== ruleId) });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Browser Notifications
+          </CardTitle>
+          <CardDescription>
+            System notifications, even when the dashboard is in a background tab
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Enable Browser Notifications</Label>
+              <p className="text-sm text-muted-foreground">
+                Permission: <Badge variant="outline">{permission}</Badge>
+              </p>
+            </div>
+            <Switch
+              checked={notifications.browserNotifications && permission === 'granted'}
+              disabled={permission === 'unsupported' || permission === 'denied'}
+              onCheckedChange={enableBrowserNotifications}
+            />
+          </div>
+          {permission === 'denied' && (
+            <p className="text-sm text-muted-foreground">
+              Notifications are blocked for this site. Allow them in your browser's site settings to turn them on.
+            </p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Quiet Hours</Label>
+              <p className="text-sm text-muted-foreground">
+                Hold off notifications overnight
+              </p>
+            </div>
+            <Switch
+              checked={notifications.quietHours.enabled}
+              onCheckedChange={(enabled) => update({ quietHours: { ...notifications.quietHours, enabled } })}
+            />
+          </div>
+          {notifications.quietHours.enabled && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="quiet-start">From</Label>
+                <Input
+                  id="quiet-start"
+                  type="time"
+                  value={notifications.quietHours.start}
+                  onChange={(e) => update({ quietHours: { ...notifications.quietHours, start: e.target.value } })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="quiet-end">Until</Label>
+                <Input
+                  id="quiet-end"
+                  type="time"
+                  value={notifications.quietHours.end}
+                  onChange={(e) => update({ quietHours: { ...notifications.quietHours, end: e.target.value } })}
+                />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Notification Rules</CardTitle>
+          <CardDescription>
+            You're notified when an event matches any enabled rule
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {notifications.rules.length === 0 && (
+              <p className="text-sm text-muted-foreground">No rules yet</p>
+            )}
+            {notifications.rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                <span className="text-sm">{describeRule(rule, leagues)}</span>
+                <div className="flex items-center gap-2">
+                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateRule(rule.id, enabled)} />
+                  <Button size="sm" variant="ghost" onClick={() => removeRule(rule.id)} aria-label="Remove rule">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Rule Type</Label>
+              <Select value={ruleType} onValueChange={(value: NotificationRule['type']) => setRuleType(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="scoring">Scoring plays</SelectItem>
+                  <SelectItem value="win_probability">Win probability</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>League</Label>
+              <Select value={ruleLeague} onValueChange={setRuleLeague}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LEAGUES}>All leagues</SelectItem>
+                  {leagues.map(league => (
+                    <SelectItem key={league.id} value={league.leagueId}>
+                      {league.customTeamName || `${league.platform} ${league.leagueId}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {ruleType === 'scoring' ? (
+              <>
+                <div>
+                  <Label>Events</Label>
+                  <Select value={events} onValueChange={(value: ScoringNotificationRule['events']) => setEvents(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="touchdowns">Touchdowns only</SelectItem>
+                      <SelectItem value="all">All scoring plays</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Team</Label>
+                  <Select value={side} onValueChange={(value: ScoringNotificationRule['side']) => setSide(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="for">My team</SelectItem>
+                      <SelectItem value="against">My opponent</SelectItem>
+                      <SelectItem value="both">Either</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="rule-player">Player (optional)</Label>
+                  <Input
+                    id="rule-player"
+                    placeholder="Any player"
+                    value={playerName}
+                    onChange={(e) => setPlayerName(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="rule-min-points">Minimum Points</Label>
+                  <Input
+                    id="rule-min-points"
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={minPoints}
+                    onChange={(e) => setMinPoints(Number(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={startersOnly} onCheckedChange={setStartersOnly} />
+                  <Label>Starters only</Label>
+                </div>
+              </>
+            ) : (
+              <div>
+                <Label htmlFor="rule-threshold">Threshold (%)</Label>
+                <Input
+                  id="rule-threshold"
+                  type="number"
+                  min={1}
+                  max={99}
+                  value={threshold}
+                  onChange={(e) => setThreshold(Math.min(99, Math.max(1, Number(e.target.value) || 50)))}
+                />
+              </div>
+            )}
+          </div>
+
+          <Button onClick={addRule} variant="outline" className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </CardContent>
+      </Card>
+    </>
+  );
+};
@@ -7,6 +7,8 @@ import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { databasePlayerMappingService, DatabasePlayerMapping, SyncMetadata } from '@/services/DatabasePlayerMappingService';
+import { platformRegistry } from '@/services/PlatformRegistry';
+import { Platform } from '@/types/fantasy';
 import { Loader2, Database, Search, RefreshCw, AlertCircle, CheckCircle, Clock } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -23,7 +25,7 @@ export const PlayerMappingDebugPanel: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [syncing, setSyncing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchPlatform, setSearchPlatform] = useState<'espn' | 'yahoo' | 'sleeper'>('espn');
+  const [searchPlatform, setSearchPlatform] = useState<Platform>('ESPN');
   const [searchResult, setSearchResult] = useState<DatabasePlayerMapping | null>(null);
   const [searchLoading, setSearchLoading] = useState(false);
 
@@ -227,12 +229,12 @@ export const PlayerMappingDebugPanel: React.FC = () => {
                       <div className="flex gap-2">
                         <select 
                           value={searchPlatform} 
-                          onChange={(e) => setSearchPlatform(e.target.value as 'espn' | 'yahoo' | 'sleeper')}
+                          onChange={(e) => setSearchPlatform(e.target.value as Platform)}
                           className="border rounded px-3 py-2"
                         >
-                          <option value="espn">ESPN ID</option>
-                          <option value="yahoo">Yahoo ID</option>
-                          <option value="sleeper">Sleeper ID</option>
+                          {platformRegistry.list().map(adapter => (
+                            <option key={adapter.platform} value={adapter.platform}>{adapter.platform} ID</option>
+                          ))}
                         </select>
                         <Input 
                           placeholder={`Enter ${searchPlatform.toUpperCase()} player ID`}
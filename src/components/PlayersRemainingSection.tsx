@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { PlayersRemaining, StarterGameStatus } from '../types/fantasy';
+import { playersRemainingService } from '../services/PlayersRemainingService';
+
+interface PlayersRemainingSectionProps {
+  playersRemaining: PlayersRemaining;
+  opponentName: string;
+}
+
+const describeStatus = (starter: StarterGameStatus): string => {
+  switch (starter.state) {
+    case 'in_progress':
+      return starter.period && starter.period > 4 ? `OT ${starter.clock}` : `Q${starter.period} ${starter.clock}`;
+    case 'yet_to_play':
+      return 'Yet to play';
+    case 'finished':
+      return 'Final';
+    default:
+      return '—';
+  }
+};
+
+const StarterList = ({ title, starters }: { title: string; starters: StarterGameStatus[] }) => (
+  <div className="flex-1 min-w-0">
+    <div className="text-xs font-semibold text-white/80 mb-1 truncate">{title}</div>
+    <ul className="space-y-0.5">
+      {starters.map(starter => (
+        <li
+          key={starter.playerId}
+          className={`flex justify-between gap-2 text-xs ${starter.state === 'finished' ? 'text-white/50' : 'text-white/90'}`}
+        >
+          <span className="truncate">
+            {starter.name} <span className="text-white/60">{starter.position}</span>
+          </span>
+          <span className="whitespace-nowrap">
+            {starter.state === 'in_progress' && <span className="inline-block h-1.5 w-1.5 mr-1 rounded-full bg-green-400 align-middle" />}
+            {describeStatus(starter)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export const PlayersRemainingSection = ({ playersRemaining, opponentName }: PlayersRemainingSectionProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const myRemaining = playersRemainingService.countRemaining(playersRemaining.myStarters);
+  const opponentRemaining = playersRemainingService.countRemaining(playersRemaining.opponentStarters);
+
+  return (
+    <Collapsible open={isExpanded} onOpenChange={setIsExpanded}>
+      {/* Keep toggling from opening the league */}
+      <CollapsibleTrigger asChild onClick={(e) => e.stopPropagation()}>
+        <button className="w-full flex items-center justify-between text-xs text-white/80 hover:text-white mb-2">
+          <span>
+            Players remaining: {myRemaining} vs {opponentRemaining}
+          </span>
+          <ChevronDown className={`h-3 w-3 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent onClick={(e) => e.stopPropagation()}>
+        <div className="flex gap-4 mb-3 bg-white/10 rounded-lg p-2">
+          <StarterList title="My Team" starters={playersRemaining.myStarters} />
+          <StarterList title={opponentName} starters={playersRemaining.opponentStarters} />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
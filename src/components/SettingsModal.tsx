@@ -15,12 +15,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Separator } from './ui/separator';
 import { Badge } from './ui/badge';
 import { toast } from './ui/use-toast';
-import { Trash2, Plus, Download, Upload, Loader2, GripVertical, Check, Zap, RefreshCw } from 'lucide-react';
+import { Trash2, Plus, Download, Upload, Loader2, GripVertical, Check, Zap, RefreshCw, CloudUpload, CloudDownload } from 'lucide-react';
 import { DashboardConfig, LeagueConfig, DEFAULT_CONFIG } from '../types/config';
 import { Platform } from '../types/fantasy';
 import { sleeperAPIEnhanced } from '../services/SleeperAPIEnhanced';
+import { espnFantasyAPI } from '../services/ESPNFantasyAPI';
+import { platformRegistry } from '../services/PlatformRegistry';
 import { useConfig } from '../hooks/useConfig';
+import { migrateConfig } from '../utils/configMigrations';
+import { configProfileService, ConfigProfile, ProfileSyncConflictError } from '../services/ConfigProfileService';
 import { DraggableLeagueItem } from './DraggableLeagueItem';
+import { NotificationSettings } from './NotificationSettings';
+import { SoundSettings } from './SoundSettings';
 import { generateMockScoringEvent } from '../utils/mockEventGenerator';
 import { TestingTab } from './TestingTab';
 
@@ -73,9 +79,19 @@ export const SettingsModal = ({ open, onOpenChange, onMockEvent }: SettingsModal
   const [newLeagueId, setNewLeagueId] = useState('');
   const [newLeaguePlatform, setNewLeaguePlatform] = useState<Platform>('Sleeper');
   const [globalSleeperUsername, setGlobalSleeperUsername] = useState('swiftarm');
+  // ESPN: team ID and cookies for private leagues
+  const [espnTeamId, setEspnTeamId] = useState('');
+  const [espnS2, setEspnS2] = useState('');
+  const [espnSwid, setEspnSwid] = useState('');
   const [isValidLeague, setIsValidLeague] = useState(false);
   const [showDataHealth, setShowDataHealth] = useState(false);
   const [showLiveDebug, setShowLiveDebug] = useState(false);
+  // Profiles: named configs that can be switched, exported and synced
+  const [profileState, setProfileState] = useState(() => configProfileService.getProfiles(config));
+  const [newProfileName, setNewProfileName] = useState('');
+  const [syncPassphrase, setSyncPassphrase] = useState('');
+  const [profileSyncing, setProfileSyncing] = useState<'push' | 'pull' | null>(null);
+  const [syncConflictAt, setSyncConflictAt] = useState<string | null>(null);
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -112,6 +128,9 @@ export const SettingsModal = ({ open, onOpenChange, onMockEvent }: SettingsModal
         }
         // Yahoo validation via API would require an authenticated call; assume valid when connected
         setIsValidLeague(true);
+      } else if (newLeaguePlatform === 'ESPN') {
+        // Private leagues can only be checked with cookies; validated on add
+        setIsValidLeague(/^\d+$/.test(leagueId.trim()));
       } else {
         setIsValidLeague(true);
       }
@@ -163,6 +182,39 @@ export const SettingsModal = ({ open, onOpenChange, onMockEvent }: SettingsModal
           title: 'Success',
           description: `Added league: ${league.name}`,
         });
+      } else if (newLeaguePlatform === 'ESPN') {
+        const espnLeague: LeagueConfig = {
+          id: `league_${Date.now()}`,
+          leagueId: newLeagueId.trim(),
+          platform: newLeaguePlatform,
+          enabled: true,
+          teamId: espnTeamId.trim() || undefined,
+          espnS2: espnS2.trim() || undefined,
+          swid: espnSwid.trim() || undefined,
+        };
+
+        const league = await espnFantasyAPI.getLeague(espnLeague);
+        if (!espnFantasyAPI.findUserTeam(league.teams, espnLeague)) {
+          throw new Error('Could not find your team - enter your ESPN team ID or SWID');
+        }
+
+        const newLeague: LeagueConfig = {
+          ...espnLeague,
+          customTeamName: league.settings?.name,
+        };
+
+        setLocalConfig(prev => ({
+          ...prev,
+          leagues: [...prev.leagues, newLeague],
+        }));
+
+        setNewLeagueId('');
+        setIsValidLeague(false);
+
+        toast({
+          title: 'Success',
+          description: `Added ESPN league: ${league.settings?.name || newLeagueId}`,
+        });
       } else if (newLeaguePlatform === 'Yahoo') {
         if (!isYahooConnected) {
           throw new Error('Please connect your Yahoo account first');
@@ -344,9 +396,9 @@ export const SettingsModal = ({ open, onOpenChange, onMockEvent }: SettingsModal
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const imported = JSON.parse((e.target?.result as string) ?? '');
-        setLocalConfig({ ...DEFAULT_CONFIG, ...imported });
-        updateConfig({ ...DEFAULT_CONFIG, ...imported }); // Auto-save
+        const imported = migrateConfig(JSON.parse((e.target?.result as string) ?? ''));
+        setLocalConfig(imported);
+        updateConfig(imported); // Auto-save
         toast({
           title: 'Success',
           description: 'Configuration imported',
@@ -365,6 +417,127 @@ export const SettingsModal = ({ open, onOpenChange, onMockEvent }: SettingsModal
     event.target.value = '';
   };
 
+  const refreshProfiles = () => {
+    setProfileState(configProfileService.getProfiles(config));
+  };
+
+  const switchProfile = (profileId: string) => {
+    try {
+      const profileConfig = configProfileService.switchProfile(profileId, config);
+      updateConfig(profileConfig);
+      refreshProfiles();
+      toast({
+        title: 'Profile Switched',
+        description: `Now using ${profileState.profiles.find(p => p.id === profileId)?.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to switch profile',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const createProfile = () => {
+    const profile = configProfileService.createProfile(newProfileName, config);
+    setNewProfileName('');
+    refreshProfiles();
+    toast({
+      title: 'Success',
+      description: `Saved current settings as ${profile.name}`,
+    });
+  };
+
+  const deleteProfile = (profileId: string) => {
+    try {
+      configProfileService.deleteProfile(profileId);
+      refreshProfiles();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete profile',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const exportProfile = (profile: ConfigProfile) => {
+    const dataBlob = new Blob([configProfileService.exportProfile(profile)], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `fantasy-dashboard-profile-${profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  };
+
+  const importProfile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const profile = configProfileService.importProfile(
+          (e.target?.result as string) ?? '',
+          file.name.replace(/\.json$/i, '')
+        );
+        refreshProfiles();
+        toast({
+          title: 'Success',
+          description: `Imported profile ${profile.name}`,
+        });
+      } catch {
+        toast({
+          title: 'Error',
+          description: 'Invalid profile file',
+          variant: 'destructive',
+        });
+      }
+    };
+    reader.readAsText(file);
+
+    event.target.value = '';
+  };
+
+  const syncProfiles = async (action: 'push' | 'pull', force = false) => {
+    setProfileSyncing(action);
+    try {
+      if (action === 'push') {
+        const count = await configProfileService.pushToCloud(syncPassphrase, config, force);
+        toast({
+          title: 'Profiles Uploaded',
+          description: `Synced ${count} profile${count === 1 ? '' : 's'}`,
+        });
+      } else {
+        const { imported, skipped, activeConfig } = await configProfileService.pullFromCloud(syncPassphrase);
+        if (activeConfig) {
+          updateConfig(activeConfig);
+        }
+        toast({
+          title: 'Profiles Downloaded',
+          description: `Loaded ${imported} profile${imported === 1 ? '' : 's'}${skipped > 0 ? `, skipped ${skipped} invalid` : ''}`,
+        });
+      }
+      setSyncConflictAt(null);
+      refreshProfiles();
+    } catch (error) {
+      if (error instanceof ProfileSyncConflictError) {
+        setSyncConflictAt(error.remoteUpdatedAt);
+      }
+      toast({
+        title: 'Sync Failed',
+        description: error instanceof Error ? error.message : 'Profile sync failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setProfileSyncing(null);
+    }
+  };
+
   const resetToDefaults = () => {
     setLocalConfig(DEFAULT_CONFIG);
     updateConfig(DEFAULT_CONFIG);
@@ -488,10 +661,10 @@ export const SettingsModal = ({ open, onOpenChange, onMockEvent }: SettingsModal
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="Sleeper">Sleeper</SelectItem>
-                          <SelectItem value="Yahoo">Yahoo</SelectItem>
-                          <SelectItem value="NFL.com">NFL.com (Coming Soon)</SelectItem>
-                          <SelectItem value="ESPN">ESPN (Coming Soon)</SelectItem>
+                          {platformRegistry.list().map(adapter => (
+                            <SelectItem key={adapter.platform} value={adapter.platform}>{adapter.platform}</SelectItem>
+                          ))}
+                          <SelectItem value="NFL.com" disabled>NFL.com (Coming Soon)</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -534,6 +707,42 @@ export const SettingsModal = ({ open, onOpenChange, onMockEvent }: SettingsModal
                     </div>
                   </div>
 
+                  {newLeaguePlatform === 'ESPN' && (
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <Label htmlFor="espnTeamId">ESPN Team ID</Label>
+                        <Input
+                          id="espnTeamId"
+                          value={espnTeamId}
+                          onChange={(e) => setEspnTeamId(e.target.value)}
+                          placeholder="Optional with SWID"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="espnS2">espn_s2</Label>
+                        <Input
+                          id="espnS2"
+                          type="password"
+                          value={espnS2}
+                          onChange={(e) => setEspnS2(e.target.value)}
+                          placeholder="Private leagues only"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="espnSwid">SWID</Label>
+                        <Input
+                          id="espnSwid"
+                          value={espnSwid}
+                          onChange={(e) => setEspnSwid(e.target.value)}
+                          placeholder="{XXXXXXXX-XXXX-...}"
+                        />
+                      </div>
+                      <p className="col-span-3 text-xs text-muted-foreground">
+                        Private leagues need the espn_s2 and SWID cookies from a logged-in espn.com session.
+                      </p>
+                    </div>
+                  )}
+
                   <div>
                     <Label htmlFor="globalSleeperUsername">Sleeper Username</Label>
                     <Input
@@ -798,7 +1007,7 @@ export const SettingsModal = ({ open, onOpenChange, onMockEvent }: SettingsModal
                   <div>
                     <Label>Game Start Reminders</Label>
                     <p className="text-sm text-muted-foreground">
-                      Remind you when games are about to start
+                      Warn before kickoff about starters on bye or listed OUT, and empty lineup slots
                     </p>
                   </div>
                   <Switch
@@ -809,12 +1018,31 @@ export const SettingsModal = ({ open, onOpenChange, onMockEvent }: SettingsModal
                     }))}
                   />
                 </div>
+                {localConfig.notifications.gameStartReminders && (
+                  <div>
+                    <Label htmlFor="reminder-lead">Minutes Before Kickoff</Label>
+                    <Input
+                      id="reminder-lead"
+                      type="number"
+                      min={5}
+                      max={1440}
+                      value={localConfig.notifications.reminderLeadMinutes}
+                      onChange={(e) => setLocalConfig(prev => ({
+                        ...prev,
+                        notifications: {
+                          ...prev.notifications,
+                          reminderLeadMinutes: Math.min(1440, Math.max(5, Number(e.target.value) || 60))
+                        }
+                      }))}
+                    />
+                  </div>
+                )}
 
                 <div className="flex items-center justify-between">
                   <div>
                     <Label>Play Sound</Label>
                     <p className="text-sm text-muted-foreground">
-                      Play notification sounds
+                      Play audio cues for touchdowns, field goals, interceptions and lead changes
                     </p>
                   </div>
                   <Switch
@@ -827,6 +1055,20 @@ export const SettingsModal = ({ open, onOpenChange, onMockEvent }: SettingsModal
                 </div>
               </CardContent>
             </Card>
+
+            <NotificationSettings
+              notifications={localConfig.notifications}
+              leagues={localConfig.leagues}
+              onChange={(notifications) => setLocalConfig(prev => ({ ...prev, notifications }))}
+            />
+
+            <SoundSettings
+              notifications={localConfig.notifications}
+              display={localConfig.display}
+              leagues={localConfig.leagues}
+              onNotificationsChange={(notifications) => setLocalConfig(prev => ({ ...prev, notifications }))}
+              onDisplayChange={(display) => setLocalConfig(prev => ({ ...prev, display }))}
+            />
           </TabsContent>
 
           <TabsContent value="testing" className="space-y-4">
@@ -934,6 +1176,123 @@ export const SettingsModal = ({ open, onOpenChange, onMockEvent }: SettingsModal
           </TabsContent>
 
           <TabsContent value="data" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Profiles</CardTitle>
+                <CardDescription>
+                  Keep separate league and display setups, e.g. "Sunday TV" and "Phone"
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  {profileState.profiles.map(profile => {
+                    const isActive = profile.id === profileState.activeProfileId;
+                    return (
+                      <div key={profile.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className="font-medium truncate">{profile.name}</span>
+                          {isActive && <Badge variant="secondary">Active</Badge>}
+                        </div>
+                        <div className="flex gap-1">
+                          {!isActive && (
+                            <Button size="sm" variant="outline" onClick={() => switchProfile(profile.id)}>
+                              <Check className="h-4 w-4 mr-1" />
+                              Use
+                            </Button>
+                          )}
+                          <Button size="sm" variant="ghost" onClick={() => exportProfile(profile)} aria-label={`Export ${profile.name}`}>
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          {!isActive && (
+                            <Button size="sm" variant="ghost" onClick={() => deleteProfile(profile.id)} aria-label={`Delete ${profile.name}`}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="New profile name"
+                    value={newProfileName}
+                    onChange={(e) => setNewProfileName(e.target.value)}
+                  />
+                  <Button onClick={createProfile} disabled={!newProfileName.trim()}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Save Current
+                  </Button>
+                  <div className="relative">
+                    <Button variant="outline" onClick={() => document.getElementById('profile-import')?.click()}>
+                      <Upload className="h-4 w-4 mr-2" />
+                      Import
+                    </Button>
+                    <input
+                      id="profile-import"
+                      type="file"
+                      accept=".json"
+                      onChange={importProfile}
+                      className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                    />
+                  </div>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label htmlFor="profile-passphrase">Sync Passphrase</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="profile-passphrase"
+                      type="password"
+                      placeholder="At least 8 characters"
+                      value={syncPassphrase}
+                      onChange={(e) => {
+                        setSyncPassphrase(e.target.value);
+                        setSyncConflictAt(null);
+                      }}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => syncProfiles('push')}
+                      disabled={syncPassphrase.length < 8 || profileSyncing !== null}
+                    >
+                      {profileSyncing === 'push' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CloudUpload className="h-4 w-4 mr-2" />}
+                      Upload
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => syncProfiles('pull')}
+                      disabled={syncPassphrase.length < 8 || profileSyncing !== null}
+                    >
+                      {profileSyncing === 'pull' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CloudDownload className="h-4 w-4 mr-2" />}
+                      Download
+                    </Button>
+                  </div>
+                  {syncConflictAt && (
+                    <div className="flex items-center justify-between gap-2 p-2 border border-destructive/50 rounded-lg text-sm">
+                      <span>
+                        The cloud copy was changed {new Date(syncConflictAt).toLocaleString()}. Download it first, or overwrite it with this device's profiles.
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => syncProfiles('push', true)}
+                        disabled={profileSyncing !== null}
+                      >
+                        Overwrite
+                      </Button>
+                    </div>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    Use the same passphrase on another device to load these profiles. They're encrypted with it before upload, including ESPN cookies, so a forgotten passphrase can't be recovered.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Configuration Backup</CardTitle>
@@ -0,0 +1,233 @@
+import { useEffect, useRef, useState } from 'react';
+import { Play, Trash2, Upload, Volume2, VolumeX } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { DisplayConfig, LeagueConfig, NotificationConfig, SoundCueEvent } from '../types/config';
+import { BUILTIN_SOUNDS, CUSTOM_SOUND_PREFIX, soundService } from '../services/SoundService';
+import { CustomSound, soundLibraryStore } from '../services/SoundLibraryStore';
+import { toast } from './ui/use-toast';
+
+interface SoundSettingsProps {
+  notifications: NotificationConfig;
+  display: DisplayConfig;
+  leagues: LeagueConfig[];
+  onNotificationsChange: (notifications: NotificationConfig) => void;
+  onDisplayChange: (display: DisplayConfig) => void;
+}
+
+const CUE_LABELS: Record<SoundCueEvent, string> = {
+  touchdown: 'Touchdown',
+  field_goal: 'Field goal',
+  interception_against: 'Interception against you',
+  lead_change: 'Lead change'
+};
+
+// Select items can't have empty values
+const NO_SOUND = 'none';
+const USE_DEFAULT = 'default';
+const DEFAULT_CUES = 'all';
+
+export const SoundSettings = ({ notifications, display, leagues, onNotificationsChange, onDisplayChange }: SoundSettingsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [customSounds, setCustomSounds] = useState<CustomSound[]>([]);
+  const [editingLeague, setEditingLeague] = useState(DEFAULT_CUES);
+  const { sounds } = notifications;
+
+  useEffect(() => {
+    soundLibraryStore.list().then(setCustomSounds);
+  }, []);
+
+  const updateSounds = (changes: Partial<NotificationConfig['sounds']>) =>
+    onNotificationsChange({ ...notifications, sounds: { ...sounds, ...changes } });
+
+  const cueValue = (event: SoundCueEvent): string => {
+    if (editingLeague === DEFAULT_CUES) {
+      return sounds.cues[event] ?? NO_SOUND;
+    }
+    const override = sounds.leagueCues[editingLeague];
+    return override && event in override ? override[event] ?? NO_SOUND : USE_DEFAULT;
+  };
+
+  const setCue = (event: SoundCueEvent, value: string) => {
+    const cue = value === NO_SOUND ? null : value;
+    if (editingLeague === DEFAULT_CUES) {
+      updateSounds({ cues: { ...sounds.cues, [event]: cue } });
+      return;
+    }
+
+    const override = { ...sounds.leagueCues[editingLeague], [event]: cue };
+    if (value === USE_DEFAULT) {
+      delete override[event];
+    }
+    updateSounds({ leagueCues: { ...sounds.leagueCues, [editingLeague]: override } });
+  };
+
+  const uploadSound = async (file: File) => {
+    try {
+      const sound = await soundLibraryStore.add(file);
+      setCustomSounds(prev => [...prev, sound]);
+      toast({ title: 'Sound added', description: sound.name });
+    } catch (error) {
+      toast({
+        title: 'Could not add sound',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const removeSound = async (sound: CustomSound) => {
+    const soundId = `${CUSTOM_SOUND_PREFIX}${sound.id}`;
+    await soundLibraryStore.remove(sound.id);
+    soundService.forget(soundId);
+    setCustomSounds(prev => prev.filter(s => s.id !== sound.id));
+
+    // Anything that used the deleted sound falls silent rather than pointing at nothing
+    const clear = <T extends Partial<Record<SoundCueEvent, string | null>>>(cues: T): T =>
+      Object.fromEntries(Object.entries(cues).map(([event, cue]) => [event, cue === soundId ? null : cue])) as T;
+    updateSounds({
+      cues: clear(sounds.cues),
+      leagueCues: Object.fromEntries(Object.entries(sounds.leagueCues).map(([leagueId, cues]) => [leagueId, clear(cues)]))
+    });
+  };
+
+  const testCue = (event: SoundCueEvent) => {
+    const soundId = editingLeague === DEFAULT_CUES
+      ? sounds.cues[event]
+      : soundService.resolveCue(sounds, event, editingLeague);
+    if (soundId) {
+      soundService.preview(soundId);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {display.soundMuted ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
+          Sounds
+        </CardTitle>
+        <CardDescription>
+          Audio cues for big moments, played when Play Sound is on
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label>Mute</Label>
+          <Switch
+            checked={display.soundMuted}
+            onCheckedChange={(soundMuted) => onDisplayChange({ ...display, soundMuted })}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="sound-volume">Volume: {display.soundVolume}%</Label>
+          <Input
+            id="sound-volume"
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={display.soundVolume}
+            onChange={(e) => onDisplayChange({ ...display, soundVolume: Number(e.target.value) })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Gentle Sounds with Reduced Motion</Label>
+            <p className="text-sm text-muted-foreground">
+              Play one soft tone when your system asks for reduced motion
+            </p>
+          </div>
+          <Switch
+            checked={sounds.respectReducedMotion}
+            onCheckedChange={(respectReducedMotion) => updateSounds({ respectReducedMotion })}
+          />
+        </div>
+
+        <div>
+          <Label>Cues For</Label>
+          <Select value={editingLeague} onValueChange={setEditingLeague}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_CUES}>All leagues (default)</SelectItem>
+              {leagues.map(league => (
+                <SelectItem key={league.id} value={league.leagueId}>
+                  {league.customTeamName || `${league.platform} ${league.leagueId}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          {(Object.keys(CUE_LABELS) as SoundCueEvent[]).map(event => (
+            <div key={event} className="flex items-center gap-2">
+              <Label className="w-48 shrink-0">{CUE_LABELS[event]}</Label>
+              <Select value={cueValue(event)} onValueChange={(value) => setCue(event, value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {editingLeague !== DEFAULT_CUES && <SelectItem value={USE_DEFAULT}>Use default</SelectItem>}
+                  <SelectItem value={NO_SOUND}>No sound</SelectItem>
+                  {Object.entries(BUILTIN_SOUNDS).map(([soundId, sound]) => (
+                    <SelectItem key={soundId} value={soundId}>{sound.name}</SelectItem>
+                  ))}
+                  {customSounds.map(sound => (
+                    <SelectItem key={sound.id} value={`${CUSTOM_SOUND_PREFIX}${sound.id}`}>{sound.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="outline" onClick={() => testCue(event)} aria-label={`Test ${CUE_LABELS[event]} sound`}>
+                <Play className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Custom Sounds</Label>
+          {customSounds.length === 0 && (
+            <p className="text-sm text-muted-foreground">Upload short audio clips (1 MB max) to use as cues</p>
+          )}
+          {customSounds.map(sound => (
+            <div key={sound.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+              <span className="text-sm truncate">{sound.name}</span>
+              <div className="flex items-center gap-1">
+                <Button size="sm" variant="ghost" onClick={() => soundService.preview(`${CUSTOM_SOUND_PREFIX}${sound.id}`)} aria-label="Play sound">
+                  <Play className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => removeSound(sound)} aria-label="Remove sound">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) uploadSound(file);
+              e.target.value = '';
+            }}
+          />
+          <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="w-full">
+            <Upload className="h-4 w-4 mr-2" />
+            Upload Sound
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { AlertTriangle, CalendarClock, UserX, Ban } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { LineupReminder, LineupReminderReason } from '../services/LineupReminderService';
+
+interface UpcomingRemindersPanelProps {
+  reminders: LineupReminder[];
+  className?: string;
+}
+
+const REASON_LABELS: Record<LineupReminderReason, { label: string; icon: typeof Ban }> = {
+  bye: { label: 'Bye', icon: Ban },
+  out: { label: 'Out', icon: UserX },
+  empty_slot: { label: 'Empty', icon: AlertTriangle }
+};
+
+const formatKickoff = (kickoff: Date): string =>
+  kickoff.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+
+export const UpcomingRemindersPanel: React.FC<UpcomingRemindersPanelProps> = ({ reminders, className = '' }) => {
+  if (reminders.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarClock className="h-5 w-5" />
+          Upcoming
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {reminders.map(reminder => {
+          const { label, icon: Icon } = REASON_LABELS[reminder.reason];
+          return (
+            <div key={reminder.id} className="flex items-center justify-between gap-3 p-2 border rounded-lg">
+              <div className="flex items-center gap-2 min-w-0">
+                <Badge variant="outline" className="flex items-center gap-1 shrink-0">
+                  <Icon className="h-3 w-3" />
+                  {label}
+                </Badge>
+                <span className="text-sm truncate">{reminder.message}</span>
+              </div>
+              <div className="text-right shrink-0">
+                <p className="text-xs font-medium">{reminder.teamName}</p>
+                <p className="text-xs text-muted-foreground">Locks {formatKickoff(reminder.kickoff)}</p>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
@@ -11,6 +11,11 @@ export const FEATURE_FLAGS = {
   DEMO_MODE_ENABLED: false,
   YAHOO_OAUTH_ENABLED: true,
   SLEEPER_ENABLED: true,
+  
+  // Receive NFL events and game status from the nfl-ingestion-worker edge function
+  // over Realtime instead of polling Tank01 from every open dashboard. Off until
+  // the worker's cron job and its Vault secrets are set up on the project
+  SERVER_SIDE_INGESTION: false,
 } as const;
 
 export type FeatureFlags = typeof FEATURE_FLAGS;
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { DEFAULT_CONFIG } from '../../types/config';
+import { CONFIG_VERSION } from '../../utils/configMigrations';
+import { useConfig } from '../useConfig';
+import { VERSION_1_3_0_CONFIG } from '../../utils/__tests__/fixtures/configVersions';
+
+const CONFIG_KEY = 'fantasy_dashboard_config';
+const QUARANTINE_KEY = 'fantasy_dashboard_config_quarantine';
+
+const readQuarantine = () => JSON.parse(localStorage.getItem(QUARANTINE_KEY) || '[]');
+
+describe('useConfig', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('migrates a stored config and saves the upgrade', () => {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(VERSION_1_3_0_CONFIG));
+
+    const { result } = renderHook(() => useConfig());
+
+    expect(result.current.config.version).toBe(CONFIG_VERSION);
+    expect(result.current.config.notifications.reminderLeadMinutes).toBe(90);
+    expect(JSON.parse(localStorage.getItem(CONFIG_KEY)!).version).toBe(CONFIG_VERSION);
+    expect(readQuarantine()).toEqual([]);
+  });
+
+  it('quarantines a config that fails validation and falls back to defaults', () => {
+    const raw = JSON.stringify({ ...VERSION_1_3_0_CONFIG, display: { ...VERSION_1_3_0_CONFIG.display, soundVolume: 150 } });
+    localStorage.setItem(CONFIG_KEY, raw);
+
+    const { result } = renderHook(() => useConfig());
+
+    expect(result.current.config).toEqual(DEFAULT_CONFIG);
+    expect(localStorage.getItem(CONFIG_KEY)).toBeNull();
+    expect(readQuarantine()).toEqual([
+      expect.objectContaining({
+        raw,
+        reason: 'Config failed validation',
+        issues: ['display.soundVolume should be between 0 and 100']
+      })
+    ]);
+  });
+
+  it('quarantines a config that is not valid JSON', () => {
+    localStorage.setItem(CONFIG_KEY, '{"leagues": [');
+
+    const { result } = renderHook(() => useConfig());
+
+    expect(result.current.config).toEqual(DEFAULT_CONFIG);
+    expect(readQuarantine()).toEqual([expect.objectContaining({ raw: '{"leagues": [', issues: [] })]);
+  });
+
+  it('keeps only the most recent quarantined configs', () => {
+    for (let attempt = 0; attempt < 7; attempt++) {
+      localStorage.setItem(CONFIG_KEY, JSON.stringify({ ...DEFAULT_CONFIG, version: `9.0.${attempt}` }));
+      renderHook(() => useConfig());
+    }
+
+    const quarantined = readQuarantine();
+    expect(quarantined).toHaveLength(5);
+    expect(quarantined.map((entry: { reason: string }) => entry.reason)).toEqual(
+      [2, 3, 4, 5, 6].map(attempt => `Unknown config version 9.0.${attempt}`)
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LeagueConfig } from '../types/config';
+import { benchPointsService, LiveBenchPoints } from '../services/BenchPointsService';
+import { LineupWeekResult } from '../services/SupabaseScoringEventService';
+import { debugLogger } from '../utils/debugLogger';
+
+/**
+ * This week's bench points for one league, refreshed whenever the league's
+ * events update, plus the finished weeks recorded so far this season
+ */
+export const useBenchPoints = (leagueConfig: LeagueConfig | undefined, lastUpdated?: string) => {
+  const [live, setLive] = useState<LiveBenchPoints | null>(null);
+  const [weekResults, setWeekResults] = useState<LineupWeekResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWeekResults = useCallback(async () => {
+    if (!leagueConfig) {
+      setWeekResults([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setWeekResults(await benchPointsService.getWeekResults(leagueConfig));
+      setError(null);
+    } catch (err) {
+      debugLogger.error('BENCH_POINTS', `Failed to load week results for league ${leagueConfig.leagueId}`, err);
+      setError(err instanceof Error ? err.message : 'Failed to load bench history');
+    } finally {
+      setLoading(false);
+    }
+  }, [leagueConfig]);
+
+  useEffect(() => {
+    fetchWeekResults();
+  }, [fetchWeekResults]);
+
+  useEffect(() => {
+    setLive(leagueConfig ? benchPointsService.getLiveBenchPoints(leagueConfig.leagueId) : null);
+  }, [leagueConfig, lastUpdated]);
+
+  return {
+    live,
+    weekResults,
+    seasonTally: benchPointsService.getSeasonTally(weekResults),
+    loading,
+    error,
+    refetch: fetchWeekResults
+  };
+};
@@ -1,20 +1,39 @@
 import { useState, useEffect } from 'react';
 import { DashboardConfig, DEFAULT_CONFIG } from '../types/config';
+import { CONFIG_VERSION, ConfigMigrationError, migrateConfig } from '../utils/configMigrations';
+import { quarantineConfig } from '../utils/configQuarantine';
+import { configProfileService } from '../services/ConfigProfileService';
 
 const CONFIG_KEY = 'fantasy_dashboard_config';
 const INIT_KEY = 'fantasy_dashboard_config_init';
+// Lets every mounted useConfig pick up a save or profile switch made elsewhere
+const CONFIG_UPDATED_EVENT = 'fantasy-dashboard-config-updated';
+
+// Move a stored config we couldn't load out of the way, keeping a copy to recover by hand
+const quarantineStoredConfig = (raw: string, error: unknown) => {
+  quarantineConfig(
+    raw,
+    error instanceof Error ? error.message : String(error),
+    error instanceof ConfigMigrationError ? error.issues : []
+  );
+  localStorage.removeItem(CONFIG_KEY);
+};
 
 export const useConfig = () => {
   const [config, setConfig] = useState<DashboardConfig>(() => {
     // Initialize with stored config if available, otherwise use default
-    try {
-      const savedConfig = localStorage.getItem(CONFIG_KEY);
-      if (savedConfig) {
+    const savedConfig = localStorage.getItem(CONFIG_KEY);
+    if (savedConfig) {
+      try {
         const parsed = JSON.parse(savedConfig);
-        return { ...DEFAULT_CONFIG, ...parsed };
+        const migrated = migrateConfig(parsed);
+        if (parsed.version !== migrated.version) {
+          localStorage.setItem(CONFIG_KEY, JSON.stringify(migrated));
+        }
+        return migrated;
+      } catch (error) {
+        quarantineStoredConfig(savedConfig, error);
       }
-    } catch (error) {
-      console.error('Failed to load config during initialization:', error);
     }
     return DEFAULT_CONFIG;
   });
@@ -28,12 +47,21 @@ export const useConfig = () => {
     }
   }, []);
 
+  useEffect(() => {
+    const handleConfigUpdated = (event: Event) => {
+      setConfig((event as CustomEvent<DashboardConfig>).detail);
+    };
+    window.addEventListener(CONFIG_UPDATED_EVENT, handleConfigUpdated);
+    return () => window.removeEventListener(CONFIG_UPDATED_EVENT, handleConfigUpdated);
+  }, []);
+
   // Save config to localStorage
   const updateConfig = (newConfig: DashboardConfig) => {
     try {
-      const configToSave = { ...newConfig, version: DEFAULT_CONFIG.version };
+      const configToSave = { ...newConfig, version: CONFIG_VERSION };
       localStorage.setItem(CONFIG_KEY, JSON.stringify(configToSave));
-      setConfig(configToSave);
+      configProfileService.saveActiveProfile(configToSave);
+      window.dispatchEvent(new CustomEvent(CONFIG_UPDATED_EVENT, { detail: configToSave }));
     } catch (error) {
       console.error('Failed to save config to localStorage:', error);
     }
@@ -44,7 +72,7 @@ export const useConfig = () => {
     try {
       localStorage.removeItem(CONFIG_KEY);
       localStorage.removeItem(INIT_KEY);
-      setConfig(DEFAULT_CONFIG);
+      window.dispatchEvent(new CustomEvent(CONFIG_UPDATED_EVENT, { detail: DEFAULT_CONFIG }));
     } catch (error) {
       console.error('Failed to clear config:', error);
     }
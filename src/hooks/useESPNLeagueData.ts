@@ -0,0 +1,247 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { LeagueData } from '../types/fantasy';
+import { LeagueConfig } from '../types/config';
+import {
+  espnFantasyAPI,
+  ESPNFantasyLeague,
+  ESPNRosterEntry,
+  ESPNTeam,
+  ESPN_POSITIONS,
+  ESPN_PRO_TEAMS
+} from '../services/ESPNFantasyAPI';
+import { getOrdinalSuffix } from '../utils/strings';
+import { nflCalendarService } from '../services/NFLCalendarService';
+import { winProbabilityService } from '../services/WinProbabilityService';
+import { projectionService, StarterOutlook } from '../services/ProjectionService';
+import { playersRemainingService, MatchupStarter } from '../services/PlayersRemainingService';
+
+interface UseESPNLeagueDataReturn {
+  leagues: LeagueData[];
+  loading: boolean;
+  error: string | null;
+  lastUpdated: Date | null;
+  refetch: () => void;
+}
+
+const isESPNConfig = (config: LeagueConfig): boolean =>
+  config.enabled && config.platform === 'ESPN';
+
+const buildStarterOutlooks = (entries: ESPNRosterEntry[], week: number): (StarterOutlook & MatchupStarter)[] =>
+  entries
+    .filter(entry => espnFantasyAPI.isStarter(entry))
+    .map(entry => {
+      const player = entry.playerPoolEntry.player;
+      return {
+        playerId: String(player.id),
+        name: player.fullName,
+        position: ESPN_POSITIONS[player.defaultPositionId] || '',
+        team: ESPN_PRO_TEAMS[player.proTeamId] || '',
+        currentPoints: espnFantasyAPI.getPlayerPoints(entry, week, 0),
+        projectedPoints: espnFantasyAPI.getPlayerProjection(entry, week)
+      };
+    });
+
+const calculateLeaguePosition = (teams: ESPNTeam[], team: ESPNTeam): string => {
+  let position = team.playoffSeed;
+  if (!position) {
+    const winPct = (t: ESPNTeam) => {
+      const { wins = 0, losses = 0, ties = 0 } = t.record?.overall ?? {};
+      return wins + losses + ties > 0 ? (wins + ties / 2) / (wins + losses + ties) : 0;
+    };
+    position = [...teams].sort((a, b) => winPct(b) - winPct(a)).findIndex(t => t.id === team.id) + 1;
+  }
+  return `${position}${getOrdinalSuffix(position)} place`;
+};
+
+const processESPNData = (league: ESPNFantasyLeague, week: number, config: LeagueConfig): LeagueData => {
+  const userTeam = espnFantasyAPI.findUserTeam(league.teams, config);
+  if (!userTeam) {
+    throw new Error(`Could not find your team in ESPN league ${config.leagueId}; set a team ID or SWID`);
+  }
+
+  const matchup = league.schedule?.find(m =>
+    m.matchupPeriodId === week && (m.home.teamId === userTeam.id || m.away?.teamId === userTeam.id)
+  );
+  if (!matchup?.away) {
+    throw new Error('Could not find opponent matchup');
+  }
+
+  const [mySide, opponentSide] = matchup.home.teamId === userTeam.id
+    ? [matchup.home, matchup.away]
+    : [matchup.away, matchup.home];
+  const opponentTeam = league.teams.find(team => team.id === opponentSide.teamId);
+
+  const myScore = mySide.totalPointsLive ?? mySide.totalPoints ?? 0;
+  const opponentScore = opponentSide.totalPointsLive ?? opponentSide.totalPoints ?? 0;
+
+  // Project finals and win probability from starters' projections and remaining game time
+  const myStarters = buildStarterOutlooks(mySide.rosterForCurrentScoringPeriod?.entries ?? [], week);
+  const opponentStarters = buildStarterOutlooks(opponentSide.rosterForCurrentScoringPeriod?.entries ?? [], week);
+  const { winProbability, winProbabilityTrend } = winProbabilityService.calculateForStarters(
+    config.leagueId,
+    myStarters,
+    opponentStarters
+  );
+
+  // Determine status based on score difference
+  const scoreDiff = myScore - opponentScore;
+  let status: 'winning' | 'losing' | 'neutral' = 'neutral';
+  if (scoreDiff >= 10) status = 'winning';
+  else if (scoreDiff <= -10) status = 'losing';
+
+  const { wins = 0, losses = 0, ties = 0 } = userTeam.record?.overall ?? {};
+
+  return {
+    id: config.leagueId,
+    leagueName: config.customTeamName || league.settings?.name || `ESPN League ${config.leagueId}`,
+    platform: 'ESPN',
+    teamName: config.customTeamName || espnFantasyAPI.getTeamName(userTeam),
+    myScore,
+    opponentScore,
+    opponentName: opponentTeam ? espnFantasyAPI.getTeamName(opponentTeam) : 'Unknown',
+    record: `${wins}-${losses}${ties > 0 ? `-${ties}` : ''}`,
+    leaguePosition: calculateLeaguePosition(league.teams, userTeam),
+    status,
+    scoringEvents: [],
+    lastUpdated: new Date().toLocaleTimeString(),
+    scoresFetchedAt: new Date().toISOString(),
+    winProbability,
+    winProbabilityTrend,
+    myProjectedScore: projectionService.projectTeam(myStarters),
+    opponentProjectedScore: projectionService.projectTeam(opponentStarters),
+    playersRemaining: playersRemainingService.buildPlayersRemaining(myStarters, opponentStarters),
+  };
+};
+
+export const useESPNLeagueData = (leagueConfigs: LeagueConfig[], pollingIntervalSeconds: number): UseESPNLeagueDataReturn => {
+  const [leagues, setLeagues] = useState<LeagueData[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  // Same request cancellation and throttling as the Sleeper pipeline
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const requestTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const lastRequestTimeRef = useRef<number>(0);
+  const loadingRef = useRef(false);
+
+  // Configs arrive as fresh arrays each render; key effects on their content instead
+  const configKey = JSON.stringify(
+    leagueConfigs
+      .filter(isESPNConfig)
+      .map(l => [l.leagueId, l.teamId, l.customTeamName, l.espnS2, l.swid])
+  );
+  const configsRef = useRef(leagueConfigs);
+  configsRef.current = leagueConfigs;
+
+  const fetchESPNLeagueData = useCallback(async () => {
+    const enabledLeagues = configsRef.current.filter(isESPNConfig);
+    if (enabledLeagues.length === 0) {
+      setLeagues([]);
+      return;
+    }
+
+    // Prevent concurrent fetches with debouncing (minimum 2 seconds between requests)
+    const now = Date.now();
+    if (loadingRef.current || (now - lastRequestTimeRef.current < 2000)) {
+      console.log('ESPN request debounced - too frequent or already loading');
+      return;
+    }
+
+    // Cancel previous request if still pending
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    lastRequestTimeRef.current = now;
+
+    loadingRef.current = true;
+    setLoading(true);
+    setError(null);
+
+    try {
+      if (requestTimeoutRef.current) {
+        clearTimeout(requestTimeoutRef.current);
+      }
+
+      // Set request timeout (30 seconds)
+      requestTimeoutRef.current = setTimeout(() => controller.abort(), 30000);
+
+      const { week } = await nflCalendarService.getState();
+
+      const processedLeagues = await Promise.all(enabledLeagues.map(async (config) => {
+        try {
+          const league = await espnFantasyAPI.getMatchups(config, week, controller.signal);
+          return processESPNData(league, week, config);
+        } catch (error) {
+          console.error(`Error fetching ESPN data for league ${config.leagueId}:`, error);
+          throw error;
+        }
+      }));
+
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      setLeagues(processedLeagues);
+      setLastUpdated(new Date());
+    } catch (error) {
+      // Don't set error if request was cancelled
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      console.error('Error fetching ESPN league data:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch league data');
+    } finally {
+      if (requestTimeoutRef.current) {
+        clearTimeout(requestTimeoutRef.current);
+        requestTimeoutRef.current = null;
+      }
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      loadingRef.current = false;
+      setLoading(false);
+    }
+  }, []);
+
+  const refetch = () => {
+    fetchESPNLeagueData();
+  };
+
+  // Initial fetch, then poll at the configured interval
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      fetchESPNLeagueData();
+    }, 100); // Small delay to prevent rapid consecutive calls
+
+    const intervalId = setInterval(() => {
+      fetchESPNLeagueData();
+    }, Math.max(pollingIntervalSeconds, 15) * 1000);
+
+    return () => {
+      clearTimeout(timeoutId);
+      clearInterval(intervalId);
+      // Cancel ongoing requests on unmount or dependency change
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort();
+        abortControllerRef.current = null;
+      }
+      if (requestTimeoutRef.current) {
+        clearTimeout(requestTimeoutRef.current);
+        requestTimeoutRef.current = null;
+      }
+    };
+  }, [configKey, pollingIntervalSeconds, fetchESPNLeagueData]);
+
+  return {
+    leagues,
+    loading,
+    error,
+    lastUpdated,
+    refetch,
+  };
+};
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from "react";
 import { useYahooData } from "./useYahooData";
 import { useSleeperData } from "./useSleeperData";
+import { useYahooLeagueData } from "./useYahooLeagueData";
+import { useESPNLeagueData } from "./useESPNLeagueData";
 import { useLiveEventsSystem } from "./useLiveEventsSystem";
 import { useConfig } from "./useConfig";
 import { useWindowServiceExposure } from "./useWindowServiceExposure";
@@ -8,6 +10,7 @@ import { LeagueData } from "../types/fantasy";
 import { LeagueConfig } from "../types/config";
 import { debugLogger } from "../utils/debugLogger";
 import { FEATURE_FLAGS } from "../config/features";
+import { nflCalendarService } from "../services/NFLCalendarService";
 
 interface UseFantasyDashboardReturn {
   leagues: LeagueData[];
@@ -22,53 +25,15 @@ interface UseFantasyDashboardReturn {
   refreshRosters: () => Promise<void>;
 }
 
-export const useFantasyDashboardWithLiveEvents = (): UseFantasyDashboardReturn => {
-  // 🚨 KILL SWITCH - Completely disable live events
-  if (FEATURE_FLAGS.LIVE_EVENTS_DISABLED) {
-    debugLogger.warning('DASHBOARD', '🚨 LIVE EVENTS DISABLED BY FEATURE FLAG 🚨');
-    
-    const { config } = useConfig();
-    const { leagues: yahooLeagues, isLoading: yahooLoading, error: yahooError, refreshData: refreshYahooData } = useYahooData();
-    const sleeperConfigs = config.leagues.filter(league => 
-      (league.platform === 'sleeper' || league.platform === 'Sleeper') && league.enabled
-    );
-    const { leagues: sleeperLeagues, loading: sleeperLoading, error: sleeperError, refetch: refreshSleeperData } = useSleeperData(sleeperConfigs);
-    
-    const allStaticLeagues = [...yahooLeagues, ...sleeperLeagues];
-    const stillLoading = yahooLoading || sleeperLoading;
-    const combinedError = yahooError || sleeperError;
-    
-    return {
-      leagues: allStaticLeagues,
-      isLoading: stillLoading,
-      error: combinedError,
-      lastUpdated: stillLoading ? null : new Date().toISOString(),
-      liveEventsState: {
-        isActive: false,
-        isPolling: false,
-        connectedLeagues: 0,
-        eventCount: 0,
-        lastEventTime: null,
-        nflWeek: 1,
-        activeGames: 0
-      },
-      isLiveSystemReady: false,
-      startLiveEvents: async () => {
-        debugLogger.warning('DASHBOARD', 'Live events disabled - start call ignored');
-      },
-      stopLiveEvents: () => {
-        debugLogger.warning('DASHBOARD', 'Live events disabled - stop call ignored');
-      },
-      refreshData: async () => {
-        await Promise.allSettled([refreshYahooData(), refreshSleeperData()]);
-      },
-      refreshRosters: async () => {
-        debugLogger.warning('DASHBOARD', 'Live events disabled - roster refresh ignored');
-      }
-    };
-  }
+// Yahoo leagues can be added from settings (dashboard config) or the Yahoo selector (saved selections)
+const getYahooConfigs = (configLeagues: LeagueConfig[], savedSelections: LeagueConfig[]): LeagueConfig[] => {
+  const enabled = [...configLeagues, ...savedSelections].filter(league =>
+    league.platform === 'Yahoo' && league.enabled
+  );
+  return enabled.filter((league, index) => enabled.findIndex(l => l.leagueId === league.leagueId) === index);
+};
 
-  // ✅ NORMAL OPERATION (when kill switch is disabled)
+export const useFantasyDashboardWithLiveEvents = (): UseFantasyDashboardReturn => {
   const [combinedLeagues, setCombinedLeagues] = useState<LeagueData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -77,17 +42,32 @@ export const useFantasyDashboardWithLiveEvents = (): UseFantasyDashboardReturn =
   const { config } = useConfig();
   useWindowServiceExposure();
 
-  const { leagues: yahooLeagues, isLoading: yahooLoading, error: yahooError, savedSelections: yahooSelections, refreshData: refreshYahooData } = useYahooData();
+  const { isLoading: yahooAccountLoading, error: yahooAccountError, savedSelections: yahooSelections, refreshData: refreshYahooAccount } = useYahooData();
+  const yahooConfigs = getYahooConfigs(config.leagues, yahooSelections);
+  const { leagues: yahooLeagues, loading: yahooLeaguesLoading, error: yahooLeaguesError, refetch: refreshYahooLeagues } = useYahooLeagueData(yahooConfigs, config.polling.updateFrequency);
+  const yahooLoading = yahooAccountLoading || yahooLeaguesLoading;
+  const yahooError = yahooAccountError || yahooLeaguesError;
+
+  const refreshYahooData = useCallback(async () => {
+    await refreshYahooAccount();
+    refreshYahooLeagues();
+  }, [refreshYahooAccount, refreshYahooLeagues]);
 
   const sleeperConfigs = config.leagues.filter(league => 
-    (league.platform === 'sleeper' || league.platform === 'Sleeper') && league.enabled
+    league.platform === 'Sleeper' && league.enabled
   );
 
   const { leagues: sleeperLeagues, loading: sleeperLoading, error: sleeperError, refetch: refreshSleeperData } = useSleeperData(sleeperConfigs);
 
+  const espnConfigs = config.leagues.filter(league =>
+    league.platform === 'ESPN' && league.enabled
+  );
+  const { leagues: espnLeagues, loading: espnLoading, error: espnError, refetch: refreshESPNData } = useESPNLeagueData(espnConfigs, config.polling.updateFrequency);
+
   const allLeagueConfigs: LeagueConfig[] = [
-    ...yahooSelections.filter(config => config.enabled),
-    ...sleeperConfigs
+    ...yahooConfigs,
+    ...sleeperConfigs,
+    ...espnConfigs
   ];
 
   const {
@@ -99,25 +79,39 @@ export const useFantasyDashboardWithLiveEvents = (): UseFantasyDashboardReturn =
     refreshRosters,
     getLeagueEvents
   } = useLiveEventsSystem({
-    enabled: allLeagueConfigs.length > 0,
+    enabled: !FEATURE_FLAGS.LIVE_EVENTS_DISABLED && allLeagueConfigs.length > 0,
     leagues: allLeagueConfigs,
     pollingInterval: 300000 // 5 minutes
   });
 
   const enrichLeaguesWithLiveEvents = useCallback((leagues: LeagueData[]): LeagueData[] => {
+    const week = nflCalendarService.getCachedState().week;
     return leagues.map(league => {
-      const liveEvents = getLeagueEvents(league.id);
+      const liveEvents = getLeagueEvents(league.id, week);
       
       const allEvents = [...liveEvents, ...league.scoringEvents];
       const uniqueEvents = allEvents
         .filter((event, index, arr) => arr.findIndex(e => e.id === event.id) === index)
         .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
       
-      const livePoints = liveEvents.reduce((total, event) => total + event.scoreImpact, 0);
+      // The platform's scores already include everything up to its last fetch, so only
+      // newer events are added on top. Opponent events carry a negative swing; credit
+      // them to the opponent's score. Bench points are shown but never count toward either side
+      const fetchedAt = league.scoresFetchedAt ? new Date(league.scoresFetchedAt).getTime() : Infinity;
+      const startingEvents = liveEvents.filter(event =>
+        !event.isBench && new Date(event.timestamp).getTime() > fetchedAt
+      );
+      const livePoints = startingEvents
+        .filter(event => event.impact !== 'against')
+        .reduce((total, event) => total + event.scoreImpact, 0);
+      const opponentLivePoints = startingEvents
+        .filter(event => event.impact === 'against')
+        .reduce((total, event) => total - event.scoreImpact, 0);
       
       return {
         ...league,
         myScore: league.myScore + livePoints,
+        opponentScore: league.opponentScore + opponentLivePoints,
         scoringEvents: uniqueEvents.slice(0, 10),
         lastUpdated: liveEvents.length > 0 ? new Date().toISOString() : league.lastUpdated
       };
@@ -126,15 +120,15 @@ export const useFantasyDashboardWithLiveEvents = (): UseFantasyDashboardReturn =
 
   useEffect(() => {
     try {
-      const allStaticLeagues = [...yahooLeagues, ...sleeperLeagues];
+      const allStaticLeagues = [...yahooLeagues, ...sleeperLeagues, ...espnLeagues];
       const enrichedLeagues = isLiveSystemReady ? enrichLeaguesWithLiveEvents(allStaticLeagues) : allStaticLeagues;
       
       setCombinedLeagues(enrichedLeagues);
       
-      const stillLoading = yahooLoading || sleeperLoading;
+      const stillLoading = yahooLoading || sleeperLoading || espnLoading;
       setIsLoading(stillLoading);
       
-      const combinedError = yahooError || sleeperError;
+      const combinedError = yahooError || sleeperError || espnError;
       setError(combinedError);
       
       if (!stillLoading && enrichedLeagues.length > 0) {
@@ -144,18 +138,20 @@ export const useFantasyDashboardWithLiveEvents = (): UseFantasyDashboardReturn =
       debugLogger.info('DASHBOARD', 'Leagues updated', {
         total: enrichedLeagues.length,
         yahoo: yahooLeagues.length,
-        sleeper: sleeperLeagues.length
+        sleeper: sleeperLeagues.length,
+        espn: espnLeagues.length
       });
     } catch (error) {
       debugLogger.error('DASHBOARD', 'Failed to combine league data', error);
       setError(error instanceof Error ? error.message : 'Unknown error');
     }
-  }, [yahooLeagues, sleeperLeagues, yahooLoading, sleeperLoading, yahooError, sleeperError, isLiveSystemReady, enrichLeaguesWithLiveEvents]);
+  }, [yahooLeagues, sleeperLeagues, espnLeagues, yahooLoading, sleeperLoading, espnLoading, yahooError, sleeperError, espnError, isLiveSystemReady, enrichLeaguesWithLiveEvents]);
 
   const refreshData = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
+      refreshESPNData();
       await Promise.allSettled([refreshYahooData(), refreshSleeperData()]);
       debugLogger.info('DASHBOARD', 'All data refreshed successfully');
     } catch (error) {
@@ -164,7 +160,7 @@ export const useFantasyDashboardWithLiveEvents = (): UseFantasyDashboardReturn =
     } finally {
       setIsLoading(false);
     }
-  }, [refreshYahooData, refreshSleeperData]);
+  }, [refreshYahooData, refreshSleeperData, refreshESPNData]);
   // ✅ AUTO-START LIVE EVENTS SYSTEM
   useEffect(() => {
     if (!FEATURE_FLAGS.LIVE_EVENTS_DISABLED && allLeagueConfigs.length > 0 && !isLiveSystemReady) {
@@ -180,7 +176,40 @@ export const useFantasyDashboardWithLiveEvents = (): UseFantasyDashboardReturn =
       return () => clearTimeout(timer);
     }
   }, [allLeagueConfigs.length, isLiveSystemReady, startLiveEvents]);
-  
+
+  // 🚨 KILL SWITCH - Completely disable live events. Hooks above still run so the
+  // call order never changes; the live system just stays off and the leagues stay static
+  if (FEATURE_FLAGS.LIVE_EVENTS_DISABLED) {
+    debugLogger.warning('DASHBOARD', '🚨 LIVE EVENTS DISABLED BY FEATURE FLAG 🚨');
+
+    return {
+      leagues: combinedLeagues,
+      isLoading,
+      error,
+      lastUpdated,
+      liveEventsState: {
+        isActive: false,
+        isPolling: false,
+        connectedLeagues: 0,
+        eventCount: 0,
+        lastEventTime: null,
+        nflWeek: nflCalendarService.getCachedState().week,
+        activeGames: 0
+      },
+      isLiveSystemReady: false,
+      startLiveEvents: async () => {
+        debugLogger.warning('DASHBOARD', 'Live events disabled - start call ignored');
+      },
+      stopLiveEvents: () => {
+        debugLogger.warning('DASHBOARD', 'Live events disabled - stop call ignored');
+      },
+      refreshData,
+      refreshRosters: async () => {
+        debugLogger.warning('DASHBOARD', 'Live events disabled - roster refresh ignored');
+      }
+    };
+  }
+
   return {
     leagues: combinedLeagues,
     isLoading,
@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LeagueConfig } from '../types/config';
+import { lineupOptimizerService, LineupAnalysis } from '../services/LineupOptimizerService';
+import { debugLogger } from '../utils/debugLogger';
+
+/**
+ * Start/sit warnings and the optimal lineup for one league, loaded on demand
+ */
+export const useLineupAnalysis = (leagueConfig: LeagueConfig | undefined) => {
+  const [analysis, setAnalysis] = useState<LineupAnalysis | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalysis = useCallback(async () => {
+    if (!leagueConfig) {
+      setAnalysis(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const lineup = await lineupOptimizerService.loadLineup(leagueConfig);
+      setAnalysis(lineupOptimizerService.analyze(lineup));
+      setError(null);
+    } catch (err) {
+      debugLogger.error('LINEUP_OPTIMIZER', `Failed to analyze lineup for league ${leagueConfig.leagueId}`, err);
+      setError(err instanceof Error ? err.message : 'Failed to load lineup');
+    } finally {
+      setLoading(false);
+    }
+  }, [leagueConfig]);
+
+  useEffect(() => {
+    fetchAnalysis();
+  }, [fetchAnalysis]);
+
+  return { analysis, loading, error, refetch: fetchAnalysis };
+};
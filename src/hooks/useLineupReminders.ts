@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LeagueConfig, NotificationConfig } from '../types/config';
+import { lineupReminderService, LineupReminder } from '../services/LineupReminderService';
+import { notificationService } from '../services/NotificationService';
+import { debugLogger } from '../utils/debugLogger';
+
+const REFRESH_INTERVAL = 10 * 60 * 1000; // Rosters and injuries change slowly
+const DUE_CHECK_INTERVAL = 60 * 1000;
+
+/**
+ * Upcoming lineup problems for the enabled leagues, delivered as notifications
+ * when they come due if game start reminders are on
+ */
+export const useLineupReminders = (leagueConfigs: LeagueConfig[], notificationConfig: NotificationConfig) => {
+  const [reminders, setReminders] = useState<LineupReminder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { reminderLeadMinutes, gameStartReminders } = notificationConfig;
+
+  const fetchReminders = useCallback(async () => {
+    setLoading(true);
+    try {
+      setReminders(await lineupReminderService.getReminders(leagueConfigs, reminderLeadMinutes));
+      setError(null);
+    } catch (err) {
+      debugLogger.error('LINEUP_REMINDERS', 'Failed to load lineup reminders', err);
+      setError(err instanceof Error ? err.message : 'Failed to load lineup reminders');
+    } finally {
+      setLoading(false);
+    }
+  }, [leagueConfigs, reminderLeadMinutes]);
+
+  useEffect(() => {
+    fetchReminders();
+    const interval = setInterval(fetchReminders, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchReminders]);
+
+  useEffect(() => {
+    if (!gameStartReminders || reminders.length === 0) return;
+
+    // Only reminders that were queued count as delivered; held-back ones are retried each check
+    const deliverDue = () => lineupReminderService.markDelivered(
+      notificationService.handleLineupReminders(lineupReminderService.getDue(reminders))
+    );
+    deliverDue();
+    const interval = setInterval(deliverDue, DUE_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [gameStartReminders, reminders]);
+
+  return { reminders, loading, error, refetch: fetchReminders };
+};
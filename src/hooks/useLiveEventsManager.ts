@@ -1,6 +1,6 @@
 // src/hooks/useLiveEventsManager.ts
 import { useEffect, useRef } from 'react';
-import { tank01NFLDataService } from '@/services/Tank01NFLDataService';
+import { liveStatProviderManager } from '@/services/LiveStatProvider';
 import { eventAttributionService } from '@/services/EventAttributionService';
 import { eventStorageService } from '@/services/EventStorageService';
 import { debugLogger } from '@/utils/debugLogger';
@@ -43,12 +43,12 @@ export const useLiveEventsManager = () => {
         debugLogger.info('LIVEMANAGER', 'Starting live events system...');
         
         try {
-          // Start Tank01 polling
-          await tank01NFLDataService.startPolling();
-          debugLogger.success('LIVEMANAGER', 'Tank01 polling started');
+          // Start live stat polling (Tank01 with ESPN failover)
+          await liveStatProviderManager.startPolling();
+          debugLogger.success('LIVEMANAGER', 'Live stat polling started');
           
           // Register scoring event callback
-          tank01NFLDataService.onScoringEvent((event) => {
+          liveStatProviderManager.onScoringEvent((event) => {
             debugLogger.info('LIVEMANAGER', 'Scoring event detected', event);
             manager._lastEventTime = new Date().toISOString();
             manager._eventCount++;
@@ -66,7 +66,7 @@ export const useLiveEventsManager = () => {
       },
       
       stopSystem: (): void => {
-        tank01NFLDataService.stopPolling();
+        liveStatProviderManager.stopPolling();
         manager._isActive = false;
         manager._eventCount = 0;
         debugLogger.info('LIVEMANAGER', 'Live events system stopped');
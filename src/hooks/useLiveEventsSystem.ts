@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { debugLogger } from "../utils/debugLogger";
 import { tank01NFLDataService, NFLScoringEvent } from "../services/Tank01NFLDataService";
+import { liveStatProviderManager } from "../services/LiveStatProvider";
 import { eventAttributionService } from "../services/EventAttributionService";
 import { eventStorageService, ConfigScoringEvent } from "../services/EventStorageService";
 import { supabaseScoringEventService } from "../services/SupabaseScoringEventService";
+import { nflCalendarService } from "../services/NFLCalendarService";
 import { LeagueConfig } from "../types/config";
 import { ScoringEvent } from "../types/fantasy";
 
@@ -17,6 +19,50 @@ export interface LiveEventsState {
   activeGames: number;
 }
 
+// Collapse storage event types into the display categories EnhancedScoringEvent styles
+const toDisplayEventType = (eventType: ConfigScoringEvent['eventType']): ScoringEvent['event_type'] => {
+  switch (eventType) {
+    case 'passing_td':
+    case 'rushing_td':
+    case 'receiving_td':
+    case 'defensive_td':
+      return 'touchdown';
+    case 'field_goal':
+    case 'extra_point':
+      return 'field_goal';
+    case 'interception':
+      return 'interception';
+    case 'fumble':
+    case 'fumble_lost':
+      return 'fumble';
+    case 'passing_yards':
+    case 'rushing_yards':
+    case 'receiving_yards':
+    case 'reception':
+      return 'yardage';
+    case 'stat_correction':
+      return 'correction';
+    default:
+      return 'other';
+  }
+};
+
+const toDisplayEvent = (event: ConfigScoringEvent): ScoringEvent => ({
+  id: event.id,
+  playerName: event.playerName,
+  position: event.teamAbbr,
+  weeklyPoints: event.fantasyPoints,
+  action: event.description,
+  // Opponent points are a swing against us
+  scoreImpact: event.impact === 'against' ? -event.fantasyPoints : event.fantasyPoints,
+  impact: event.impact ?? 'for',
+  event_type: toDisplayEventType(event.eventType),
+  timestamp: event.timestamp.toISOString(),
+  isRecent: !event.backfilled && Date.now() - event.timestamp.getTime() < 300000,
+  isBackfilled: event.backfilled,
+  isBench: event.isStarter === false
+});
+
 interface UseLiveEventsOptions {
   leagues: LeagueConfig[];
   enabled: boolean;
@@ -30,7 +76,7 @@ export const useLiveEventsSystem = ({ leagues, enabled, pollingInterval = 300000
     connectedLeagues: 0,
     eventCount: 0,
     lastEventTime: null,
-    nflWeek: 1,
+    nflWeek: nflCalendarService.getCachedState().week,
     activeGames: 0
   });
 
@@ -53,32 +99,32 @@ export const useLiveEventsSystem = ({ leagues, enabled, pollingInterval = 300000
         enabled
       });
 
+      const { week: nflWeek } = await nflCalendarService.getState();
+      setLiveState(prev => ({ ...prev, nflWeek }));
+
       // Load rosters for enabled leagues
       const enabledLeagues = leagues.filter(l => l.enabled);
       if (enabledLeagues.length > 0) {
         await eventAttributionService.loadRosters(enabledLeagues);
       }
 
-      // Hydrate from Supabase if localStorage is empty (current week only)
-      const localStorageEvents = eventStorageService.getAllEvents();
-      if (localStorageEvents.length === 0 && enabledLeagues.length > 0) {
-        debugLogger.info('LIVEEVENTS', 'Hydrating from Supabase (localStorage empty)');
+      // Hydrate from Supabase (current week only), merging anything other devices recorded
+      if (enabledLeagues.length > 0) {
+        debugLogger.info('LIVEEVENTS', 'Hydrating from Supabase');
         
         const leagueIds = enabledLeagues.map(l => l.leagueId);
         const supabaseEvents = await supabaseScoringEventService.getCurrentWeekEvents(
           leagueIds,
-          liveState.nflWeek
+          nflWeek
         );
 
         debugLogger.info('LIVEEVENTS', 'Loaded events from Supabase', {
           count: supabaseEvents.length,
-          week: liveState.nflWeek
+          week: nflWeek
         });
 
-        // Populate localStorage with Supabase events (no dual-write needed)
-        if (supabaseEvents.length > 0) {
-          localStorage.setItem('fantasy_scoring_events', JSON.stringify(supabaseEvents));
-        }
+        // Merge into localStorage (no dual-write needed)
+        eventStorageService.mergeRemoteEvents(supabaseEvents);
 
         updateRecentEvents();
       }
@@ -108,7 +154,14 @@ export const useLiveEventsSystem = ({ leagues, enabled, pollingInterval = 300000
             'fumble': 'fumble',
             'fumble_lost': 'fumble_lost',
             'field_goal': 'field_goal',
+            'extra_point': 'extra_point',
             'safety': 'safety',
+            'sack': 'sack',
+            'defensive_interception': 'defensive_interception',
+            'fumble_recovery': 'fumble_recovery',
+            'defensive_td': 'defensive_td',
+            'points_allowed': 'points_allowed',
+            'stat_correction': 'stat_correction',
             'two_point_conversion': 'two_point_conversion'
           };
 
@@ -123,8 +176,11 @@ export const useLiveEventsSystem = ({ leagues, enabled, pollingInterval = 300000
             description: impact.description,
             fantasyPoints: impact.pointsScored,
             timestamp: attribution.timestamp,
-            week: liveState.nflWeek,
-            leagueId: impact.leagueId
+            week: nflCalendarService.getCachedState().week,
+            leagueId: impact.leagueId,
+            backfilled: attribution.nflEvent.backfilled,
+            impact: impact.impact,
+            isStarter: impact.isStarter
           };
 
           eventStorageService.addEvent(impact.leagueId, storageEvent);
@@ -134,8 +190,8 @@ export const useLiveEventsSystem = ({ leagues, enabled, pollingInterval = 300000
         updateRecentEvents();
       });
 
-      // ✅ Subscribe to Tank01 scoring events
-      unsubscribeRef.current = tank01NFLDataService.onScoringEvent((nflEvent: NFLScoringEvent) => {
+      // ✅ Subscribe to live stat events (Tank01, or ESPN while Tank01 is down)
+      unsubscribeRef.current = liveStatProviderManager.onScoringEvent((nflEvent: NFLScoringEvent) => {
         debugLogger.info('LIVEEVENTS', 'Received NFL scoring event', {
           player: nflEvent.player.name,
           type: nflEvent.eventType,
@@ -178,7 +234,7 @@ export const useLiveEventsSystem = ({ leagues, enabled, pollingInterval = 300000
     } finally {
       isInitializing.current = false;
     }
-  }, [enabled, leagues, liveState.nflWeek]);
+  }, [enabled, leagues]);
 
   // Start the live events system
   const startSystem = useCallback(async () => {
@@ -192,10 +248,10 @@ export const useLiveEventsSystem = ({ leagues, enabled, pollingInterval = 300000
     }
 
     try {
-      debugLogger.info('LIVEEVENTS', 'Starting Tank01 polling', { pollingInterval });
+      debugLogger.info('LIVEEVENTS', 'Starting live stat polling', { pollingInterval });
 
-      // Start Tank01 NFL data polling
-      await tank01NFLDataService.startPolling(pollingInterval);
+      // Start live stat polling with ESPN failover
+      await liveStatProviderManager.startPolling(pollingInterval);
 
       setLiveState(prev => ({
         ...prev,
@@ -217,8 +273,8 @@ export const useLiveEventsSystem = ({ leagues, enabled, pollingInterval = 300000
       return;
     }
 
-    // Stop Tank01 polling
-    tank01NFLDataService.stopPolling();
+    // Stop live stat polling
+    liveStatProviderManager.stopPolling();
 
     // Unsubscribe from events
     if (unsubscribeRef.current) {
@@ -243,16 +299,7 @@ export const useLiveEventsSystem = ({ leagues, enabled, pollingInterval = 300000
       const leagueEvents = eventStorageService.getEvents(league.leagueId);
       const recentLeagueEvents = leagueEvents
         .slice(-10)
-        .map(event => ({
-          id: event.id,
-          playerName: event.playerName,
-          position: event.teamAbbr,
-          weeklyPoints: event.fantasyPoints,
-          action: event.description,
-          scoreImpact: event.fantasyPoints,
-          timestamp: event.timestamp.toISOString(),
-          isRecent: Date.now() - event.timestamp.getTime() < 300000
-        }));
+        .map(toDisplayEvent);
 
       allEvents.push(...recentLeagueEvents);
     }
@@ -261,19 +308,26 @@ export const useLiveEventsSystem = ({ leagues, enabled, pollingInterval = 300000
     setRecentEvents(allEvents.slice(0, 20));
   }, [leagues]);
 
+  // Keep a stable handle so the Realtime subscription doesn't resubscribe on every render
+  const updateRecentEventsRef = useRef(updateRecentEvents);
+  updateRecentEventsRef.current = updateRecentEvents;
+
+  // Subscribe to scoring events written by other devices for the configured leagues
+  const enabledLeagueIds = leagues.filter(l => l.enabled).map(l => l.leagueId).sort().join(',');
+  useEffect(() => {
+    if (!enabled || !enabledLeagueIds) return;
+
+    return supabaseScoringEventService.subscribeToLeagueEvents(enabledLeagueIds.split(','), (event) => {
+      if (eventStorageService.mergeRemoteEvents([event]) > 0) {
+        updateRecentEventsRef.current();
+      }
+    });
+  }, [enabled, enabledLeagueIds]);
+
   // Get events for a specific league
-  const getLeagueEvents = useCallback((leagueId: string): ScoringEvent[] => {
-    const events = eventStorageService.getEvents(leagueId);
-    return events.map(event => ({
-      id: event.id,
-      playerName: event.playerName,
-      position: event.teamAbbr,
-      weeklyPoints: event.fantasyPoints,
-      action: event.description,
-      scoreImpact: event.fantasyPoints,
-      timestamp: event.timestamp.toISOString(),
-      isRecent: Date.now() - event.timestamp.getTime() < 300000
-    }));
+  const getLeagueEvents = useCallback((leagueId: string, week?: number): ScoringEvent[] => {
+    const events = eventStorageService.getEvents(leagueId, week);
+    return events.map(toDisplayEvent);
   }, []);
 
   // Refresh rosters manually
@@ -374,7 +428,8 @@ export const useLiveEventsSystem = ({ leagues, enabled, pollingInterval = 300000
     return {
       storage: eventStorageService.getCacheStats(),
       attribution: eventAttributionService.getCacheStats(),
-      tank01Data: tank01NFLDataService.getServiceStatus()
+      tank01Data: tank01NFLDataService.getServiceStatus(),
+      liveStats: liveStatProviderManager.getServiceStatus()
     };
   }, []);
 
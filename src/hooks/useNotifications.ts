@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+import { NotificationConfig } from '../types/config';
+import { LeagueData } from '../types/fantasy';
+import { eventAttributionService } from '../services/EventAttributionService';
+import { notificationService } from '../services/NotificationService';
+
+/**
+ * Feed attributed events and league updates to the notification service
+ */
+export const useNotifications = (notificationConfig: NotificationConfig, leagues: LeagueData[]) => {
+  useEffect(() => {
+    notificationService.configure(notificationConfig);
+  }, [notificationConfig]);
+
+  useEffect(() => {
+    return eventAttributionService.onEventAttribution(attribution => {
+      notificationService.handleAttribution(attribution);
+    });
+  }, []);
+
+  useEffect(() => {
+    notificationService.handleLeagueUpdates(leagues);
+  }, [leagues]);
+};
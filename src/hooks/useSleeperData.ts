@@ -1,8 +1,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { sleeperAPI, SleeperLeague, SleeperUser, SleeperRoster, SleeperMatchup } from '../services/SleeperAPI';
+import { sleeperAPI, SleeperLeague, SleeperUser, SleeperRoster, SleeperMatchup, SleeperPlayer, SleeperProjection } from '../services/SleeperAPI';
 import { LeagueData, ScoringEvent } from '../types/fantasy';
 import { LeagueConfig } from '../types/config';
-import { safeLower } from '../utils/strings';
+import { safeLower, getOrdinalSuffix } from '../utils/strings';
+import { nflCalendarService } from '../services/NFLCalendarService';
+import { winProbabilityService } from '../services/WinProbabilityService';
+import { projectionService, StarterOutlook } from '../services/ProjectionService';
+import { playersRemainingService, MatchupStarter } from '../services/PlayersRemainingService';
 
 interface SleeperLeagueData {
   league: SleeperLeague;
@@ -10,6 +14,8 @@ interface SleeperLeagueData {
   rosters: SleeperRoster[];
   matchups: SleeperMatchup[];
   currentWeek: number;
+  players: Record<string, SleeperPlayer>;
+  projections: Record<string, SleeperProjection>;
 }
 
 interface UseSleeperDataReturn {
@@ -33,7 +39,7 @@ export const useSleeperData = (leagueConfigs: LeagueConfig[]): UseSleeperDataRet
   const lastRequestTimeRef = useRef<number>(0);
 
   const processSleeperData = useCallback(async (leagueData: SleeperLeagueData, config: LeagueConfig, prevMatchups: Record<string, SleeperMatchup[]>): Promise<LeagueData> => {
-    const { league, users, rosters, matchups, currentWeek } = leagueData;
+    const { league, users, rosters, matchups, players, projections } = leagueData;
     
     // Find user's roster based on username if provided, otherwise use first roster
     let userRoster = rosters[0]; // Default fallback
@@ -72,11 +78,17 @@ export const useSleeperData = (leagueConfigs: LeagueConfig[]): UseSleeperDataRet
     const opponentRoster = rosters.find(r => r.roster_id === opponentMatchup.roster_id);
     const opponentUser = users.find(u => u.user_id === opponentRoster?.owner_id);
 
-    // Calculate win probability
     const myScore = userMatchup.points || 0;
     const opponentScore = opponentMatchup.points || 0;
-    const totalScore = myScore + opponentScore;
-    const winProbability = totalScore > 0 ? (myScore / totalScore) * 100 : 50;
+
+    // Project finals and win probability from starters' projections and remaining game time
+    const myStarters = buildStarterOutlooks(userMatchup, league, players, projections);
+    const opponentStarters = buildStarterOutlooks(opponentMatchup, league, players, projections);
+    const { winProbability, winProbabilityTrend } = winProbabilityService.calculateForStarters(
+      config.leagueId,
+      myStarters,
+      opponentStarters
+    );
 
     // Determine status based on score difference
     const scoreDiff = myScore - opponentScore;
@@ -86,9 +98,10 @@ export const useSleeperData = (leagueConfigs: LeagueConfig[]): UseSleeperDataRet
     else status = 'neutral';
 
     // Generate scoring events by comparing with previous data
-    const scoringEvents = await generateScoringEvents(
+    const scoringEvents = generateScoringEvents(
       userMatchup,
-      prevMatchups[config.leagueId] || []
+      prevMatchups[config.leagueId] || [],
+      players
     );
 
     // Calculate record and position (simplified)
@@ -115,13 +128,47 @@ export const useSleeperData = (leagueConfigs: LeagueConfig[]): UseSleeperDataRet
       status,
       scoringEvents,
       lastUpdated: new Date().toLocaleTimeString(),
+      scoresFetchedAt: new Date().toISOString(),
+      winProbability,
+      winProbabilityTrend,
+      myProjectedScore: projectionService.projectTeam(myStarters),
+      opponentProjectedScore: projectionService.projectTeam(opponentStarters),
+      playersRemaining: playersRemainingService.buildPlayersRemaining(myStarters, opponentStarters),
     };
   }, []); // Empty dependency array to prevent recreation
 
-  const generateScoringEvents = async (
+  const buildStarterOutlooks = (
+    matchup: SleeperMatchup,
+    league: SleeperLeague,
+    players: Record<string, SleeperPlayer>,
+    projections: Record<string, SleeperProjection>
+  ): (StarterOutlook & MatchupStarter)[] => {
+    // Match the projection to the league's points-per-reception setting
+    const reception = league.scoring_settings?.rec ?? 0;
+    const projectionKey = reception >= 1 ? 'pts_ppr' : reception >= 0.5 ? 'pts_half_ppr' : 'pts_std';
+
+    return (matchup.starters || [])
+      .map((playerId, index) => ({ playerId, points: matchup.starters_points?.[index] || 0 }))
+      .filter(({ playerId }) => playerId && playerId !== '0') // Empty slots
+      .map(({ playerId, points }) => {
+        // Team defenses are keyed by team abbreviation
+        const isDefense = isNaN(Number(playerId));
+        return {
+          playerId,
+          name: players[playerId]?.full_name || (isDefense ? `${playerId} D/ST` : `Player ${playerId}`),
+          position: players[playerId]?.position || (isDefense ? 'DEF' : ''),
+          team: players[playerId]?.team || (isDefense ? playerId : ''),
+          currentPoints: points,
+          projectedPoints: projections[playerId]?.stats?.[projectionKey]
+        };
+      });
+  };
+
+  const generateScoringEvents = (
     currentMatchup: SleeperMatchup,
-    previousMatchups: SleeperMatchup[]
-  ): Promise<ScoringEvent[]> => {
+    previousMatchups: SleeperMatchup[],
+    players: Record<string, SleeperPlayer>
+  ): ScoringEvent[] => {
     const events: ScoringEvent[] = [];
     const previousMatchup = previousMatchups.find(m => m.roster_id === currentMatchup.roster_id);
     
@@ -136,13 +183,11 @@ export const useSleeperData = (leagueConfigs: LeagueConfig[]): UseSleeperDataRet
       
       if (pointDifference > 0.5) { // Significant point change
         try {
-          const playerName = await sleeperAPI.getPlayerName(playerId);
-          const players = await sleeperAPI.getPlayers();
           const player = players[playerId];
           
           events.push({
             id: `${currentMatchup.roster_id}-${playerId}-${Date.now()}`,
-            playerName: playerName || `Player ${playerId}`,
+            playerName: player?.full_name || `Player ${playerId}`,
             position: player?.position || 'UNKNOWN',
             weeklyPoints: currentPoints,
             action: generateActionText(pointDifference),
@@ -179,15 +224,6 @@ export const useSleeperData = (leagueConfigs: LeagueConfig[]): UseSleeperDataRet
     return `${position}${getOrdinalSuffix(position)} place`;
   };
 
-  const getOrdinalSuffix = (num: number): string => {
-    const j = num % 10;
-    const k = num % 100;
-    if (j === 1 && k !== 11) return 'st';
-    if (j === 2 && k !== 12) return 'nd';
-    if (j === 3 && k !== 13) return 'rd';
-    return 'th';
-  };
-
   const fetchSleeperData = useCallback(async () => {
     const enabledLeagues = leagueConfigs.filter(l => l.enabled && l.platform === 'Sleeper');
     if (enabledLeagues.length === 0) {
@@ -227,7 +263,19 @@ export const useSleeperData = (leagueConfigs: LeagueConfig[]): UseSleeperDataRet
         }
       }, 30000);
 
-      const currentWeek = await sleeperAPI.getCurrentWeek();
+      const { season, week: currentWeek } = await nflCalendarService.getState();
+
+      // Shared by every league; the win probability model degrades without them
+      const [players, projections] = await Promise.all([
+        sleeperAPI.getPlayers().catch(error => {
+          console.warn('Sleeper players unavailable:', error);
+          return {} as Record<string, SleeperPlayer>;
+        }),
+        sleeperAPI.getProjections(season, currentWeek).catch(error => {
+          console.warn('Sleeper projections unavailable:', error);
+          return {} as Record<string, SleeperProjection>;
+        })
+      ]);
       const leagueDataPromises = enabledLeagues.map(async (config) => {
         try {
           // OPTIMIZATION: Use cached static data (league, users, rosters) and only fetch fresh matchups
@@ -241,6 +289,8 @@ export const useSleeperData = (leagueConfigs: LeagueConfig[]): UseSleeperDataRet
             rosters: staticData.rosters,
             matchups,
             currentWeek,
+            players,
+            projections,
           };
 
           return await processSleeperData(sleeperLeagueData, config, previousMatchups);
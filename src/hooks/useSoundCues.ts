@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { DisplayConfig, NotificationConfig } from '../types/config';
+import { LeagueData } from '../types/fantasy';
+import { eventAttributionService } from '../services/EventAttributionService';
+import { soundService } from '../services/SoundService';
+import { useAccessibility } from '../components/AccessibilityProvider';
+
+/**
+ * Feed attributed events and league updates to the sound service
+ */
+export const useSoundCues = (notificationConfig: NotificationConfig, displayConfig: DisplayConfig, leagues: LeagueData[]) => {
+  const { reducedMotion } = useAccessibility();
+
+  useEffect(() => {
+    soundService.configure({
+      enabled: notificationConfig.playSound,
+      volume: displayConfig.soundVolume,
+      muted: displayConfig.soundMuted,
+      sounds: notificationConfig.sounds,
+      reducedMotion
+    });
+  }, [notificationConfig, displayConfig, reducedMotion]);
+
+  useEffect(() => {
+    return eventAttributionService.onEventAttribution(attribution => {
+      soundService.handleAttribution(attribution);
+    });
+  }, []);
+
+  useEffect(() => {
+    soundService.handleLeagueUpdates(leagues);
+  }, [leagues]);
+};
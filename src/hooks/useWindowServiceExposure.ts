@@ -1,6 +1,8 @@
 import { useEffect } from 'react';
 import { debugLogger } from '../utils/debugLogger';
 import { tank01NFLDataService } from '../services/Tank01NFLDataService';
+import { liveStatProviderManager } from '../services/LiveStatProvider';
+import { espnLiveStatService } from '../services/ESPNLiveStatService';
 import { eventAttributionService } from '../services/EventAttributionService';
 import { eventStorageService } from '../services/EventStorageService';
 
@@ -14,6 +16,8 @@ export const useWindowServiceExposure = () => {
     try {
       // Core services
       (window as any).tank01NFLDataService = tank01NFLDataService;
+      window.espnLiveStatService = espnLiveStatService;
+      window.liveStatProviderManager = liveStatProviderManager;
       (window as any).eventAttributionService = eventAttributionService;
       (window as any).eventStorageService = eventStorageService;
       (window as any).debugLogger = debugLogger;
@@ -23,6 +27,8 @@ export const useWindowServiceExposure = () => {
         // Quick status check
         getStatus: () => ({
           tank01NFL: tank01NFLDataService.getServiceStatus(),
+          espnLive: espnLiveStatService.getServiceStatus(),
+          liveStats: liveStatProviderManager.getServiceStatus(),
           attribution: eventAttributionService.getCacheStats(),
           storage: eventStorageService.getCacheStats(),
           liveManager: (window as any).liveEventsManager?.state || 'Not initialized'
@@ -55,6 +61,8 @@ export const useWindowServiceExposure = () => {
       debugLogger.success('DEBUG', '🪟 All live events services exposed to window for debugging', {
         services: [
           'window.tank01NFLDataService',
+          'window.espnLiveStatService',
+          'window.liveStatProviderManager',
           'window.eventAttributionService', 
           'window.eventStorageService',
           'window.debugLogger',
@@ -83,6 +91,8 @@ export const useWindowServiceExposure = () => {
     return () => {
       try {
         delete (window as any).tank01NFLDataService;
+        delete window.espnLiveStatService;
+        delete window.liveStatProviderManager;
         delete (window as any).eventAttributionService;
         delete (window as any).eventStorageService;
         delete (window as any).liveEventsDebug;
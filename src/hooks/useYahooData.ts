@@ -4,6 +4,7 @@ import { LeagueData } from '../types/fantasy';
 import { LeagueConfig } from '../types/config';
 import { YahooLeague } from '../types/yahoo';
 import { YahooDataService } from '../services/YahooDataService';
+import { nflCalendarService } from '../services/NFLCalendarService';
 
 interface UseYahooDataState {
   leagues: LeagueData[];
@@ -94,8 +95,7 @@ export const useYahooData = (): UseYahooDataState & UseYahooDataActions => {
         status: 'neutral' as const,
         scoringEvents: [],
         lastUpdated: new Date().toISOString(),
-        week: 1,
-        winProbability: 50,
+        week: nflCalendarService.getCachedState().week,
         wins: 0,
         losses: 0,
         rank: 0,
@@ -221,8 +221,8 @@ export const useYahooData = (): UseYahooDataState & UseYahooDataActions => {
                 setSavedSelections(converted);
                 localStorage.setItem('yahoo_league_selections', JSON.stringify(converted));
               } else {
-                // New format
-                setSavedSelections(parsed);
+                // New format; older builds stored the platform as 'yahoo'
+                setSavedSelections(parsed.map((selection: LeagueConfig) => ({ ...selection, platform: 'Yahoo' as const })));
               }
             }
           } catch (error) {
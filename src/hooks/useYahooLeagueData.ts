@@ -0,0 +1,222 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { LeagueData } from '../types/fantasy';
+import { LeagueConfig } from '../types/config';
+import { YahooScoreboard, YahooStandingsTeam } from '../types/yahoo';
+import { YahooDataService } from '../services/YahooDataService';
+import { yahooOAuth } from '../utils/yahooOAuth';
+import { getOrdinalSuffix } from '../utils/strings';
+import { nflCalendarService } from '../services/NFLCalendarService';
+import { winProbabilityService } from '../services/WinProbabilityService';
+
+interface UseYahooLeagueDataReturn {
+  leagues: LeagueData[];
+  loading: boolean;
+  error: string | null;
+  lastUpdated: Date | null;
+  refetch: () => void;
+}
+
+const processYahooData = (
+  scoreboard: YahooScoreboard,
+  standings: YahooStandingsTeam[],
+  config: LeagueConfig
+): LeagueData => {
+  const userMatchup = YahooDataService.findUserMatchup(scoreboard, config.teamId);
+  if (!userMatchup) {
+    throw new Error(`Could not find user team in Yahoo league ${config.leagueId}`);
+  }
+
+  const { myTeam, opponent } = userMatchup;
+  if (!opponent) {
+    throw new Error('Could not find opponent matchup');
+  }
+
+  const myScore = myTeam.points;
+  const opponentScore = opponent.points;
+
+  // Yahoo only reports team-level projections
+  const { winProbability, winProbabilityTrend } = winProbabilityService.calculateForTeamTotals(
+    config.leagueId,
+    { currentPoints: myScore, projectedPoints: myTeam.projected_points ?? myScore },
+    { currentPoints: opponentScore, projectedPoints: opponent.projected_points ?? opponentScore }
+  );
+
+  // Determine status based on score difference
+  const scoreDiff = myScore - opponentScore;
+  let status: 'winning' | 'losing' | 'neutral' = 'neutral';
+  if (scoreDiff >= 10) status = 'winning';
+  else if (scoreDiff <= -10) status = 'losing';
+
+  const standing = standings.find(team => team.team_key === myTeam.team_key);
+  const record = standing
+    ? `${standing.wins}-${standing.losses}${standing.ties > 0 ? `-${standing.ties}` : ''}`
+    : '0-0';
+  const leaguePosition = standing?.rank
+    ? `${standing.rank}${getOrdinalSuffix(standing.rank)} place`
+    : 'TBD';
+
+  return {
+    id: config.leagueId,
+    leagueName: config.customTeamName || scoreboard.league_name || config.leagueId,
+    platform: 'Yahoo',
+    teamName: config.customTeamName || myTeam.name,
+    myScore,
+    opponentScore,
+    opponentName: opponent.name || `${opponent.manager_name || 'Unknown'}'s Team`,
+    record,
+    leaguePosition,
+    status,
+    scoringEvents: [],
+    lastUpdated: new Date().toLocaleTimeString(),
+    scoresFetchedAt: new Date().toISOString(),
+    winProbability,
+    winProbabilityTrend,
+    myProjectedScore: myTeam.projected_points,
+    opponentProjectedScore: opponent.projected_points,
+  };
+};
+
+export const useYahooLeagueData = (leagueConfigs: LeagueConfig[], pollingIntervalSeconds: number): UseYahooLeagueDataReturn => {
+  const [leagues, setLeagues] = useState<LeagueData[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  // Same request cancellation and throttling as the Sleeper pipeline
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const requestTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const lastRequestTimeRef = useRef<number>(0);
+  const loadingRef = useRef(false);
+
+  // Configs arrive as fresh arrays each render; key effects on their content instead
+  const configKey = JSON.stringify(
+    leagueConfigs
+      .filter(l => l.enabled && l.platform === 'Yahoo')
+      .map(l => [l.leagueId, l.teamId, l.customTeamName])
+  );
+  const configsRef = useRef(leagueConfigs);
+  configsRef.current = leagueConfigs;
+
+  const fetchYahooLeagueData = useCallback(async () => {
+    const enabledLeagues = configsRef.current.filter(l => l.enabled && l.platform === 'Yahoo');
+    if (enabledLeagues.length === 0 || !yahooOAuth.isConnected()) {
+      setLeagues([]);
+      return;
+    }
+
+    // Prevent concurrent fetches with debouncing (minimum 2 seconds between requests)
+    const now = Date.now();
+    if (loadingRef.current || (now - lastRequestTimeRef.current < 2000)) {
+      console.log('Yahoo request debounced - too frequent or already loading');
+      return;
+    }
+
+    // Cancel previous request if still pending
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    lastRequestTimeRef.current = now;
+
+    loadingRef.current = true;
+    setLoading(true);
+    setError(null);
+
+    try {
+      if (requestTimeoutRef.current) {
+        clearTimeout(requestTimeoutRef.current);
+      }
+
+      // Set request timeout (30 seconds)
+      requestTimeoutRef.current = setTimeout(() => controller.abort(), 30000);
+
+      const { week } = await nflCalendarService.getState();
+
+      const processedLeagues = await Promise.all(enabledLeagues.map(async (config) => {
+        try {
+          const [scoreboard, standings] = await Promise.all([
+            YahooDataService.fetchLeagueScoreboard(config.leagueId, week, controller.signal),
+            // Standings only feed rank and record; keep scores flowing without them
+            YahooDataService.fetchLeagueStandings(config.leagueId, controller.signal).catch(error => {
+              console.warn(`Yahoo standings unavailable for ${config.leagueId}:`, error);
+              return [] as YahooStandingsTeam[];
+            })
+          ]);
+
+          return processYahooData(scoreboard, standings, config);
+        } catch (error) {
+          console.error(`Error fetching Yahoo data for league ${config.leagueId}:`, error);
+          throw error;
+        }
+      }));
+
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      setLeagues(processedLeagues);
+      setLastUpdated(new Date());
+    } catch (error) {
+      // Don't set error if request was cancelled
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      console.error('Error fetching Yahoo league data:', error);
+      setError(
+        error instanceof Error && error.message === 'REAUTH_REQUIRED'
+          ? 'Yahoo authentication expired. Please reconnect your account.'
+          : error instanceof Error ? error.message : 'Failed to fetch league data'
+      );
+    } finally {
+      if (requestTimeoutRef.current) {
+        clearTimeout(requestTimeoutRef.current);
+        requestTimeoutRef.current = null;
+      }
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      loadingRef.current = false;
+      setLoading(false);
+    }
+  }, []);
+
+  const refetch = () => {
+    fetchYahooLeagueData();
+  };
+
+  // Initial fetch, then poll at the configured interval
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      fetchYahooLeagueData();
+    }, 100); // Small delay to prevent rapid consecutive calls
+
+    const intervalId = setInterval(() => {
+      fetchYahooLeagueData();
+    }, Math.max(pollingIntervalSeconds, 15) * 1000);
+
+    return () => {
+      clearTimeout(timeoutId);
+      clearInterval(intervalId);
+      // Cancel ongoing requests on unmount or dependency change
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort();
+        abortControllerRef.current = null;
+      }
+      if (requestTimeoutRef.current) {
+        clearTimeout(requestTimeoutRef.current);
+        requestTimeoutRef.current = null;
+      }
+    };
+  }, [configKey, pollingIntervalSeconds, fetchYahooLeagueData]);
+
+  return {
+    leagues,
+    loading,
+    error,
+    lastUpdated,
+    refetch,
+  };
+};
@@ -14,6 +14,207 @@ export type Database = {
   }
   public: {
     Tables: {
+      config_profile_sync: {
+        Row: {
+          payload: Json
+          sync_key: string
+          updated_at: string
+        }
+        Insert: {
+          payload: Json
+          sync_key: string
+          updated_at?: string
+        }
+        Update: {
+          payload?: Json
+          sync_key?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      config_profile_sync_rate_limits: {
+        Row: {
+          client_key: string
+          requests: number
+          window_started_at: string
+        }
+        Insert: {
+          client_key: string
+          requests?: number
+          window_started_at?: string
+        }
+        Update: {
+          client_key?: string
+          requests?: number
+          window_started_at?: string
+        }
+        Relationships: []
+      }
+      lineup_week_results: {
+        Row: {
+          actual_points: number
+          bench_points: number
+          league_id: string
+          nfl_week: number
+          optimal_points: number
+          season: number
+          updated_at: string
+        }
+        Insert: {
+          actual_points: number
+          bench_points: number
+          league_id: string
+          nfl_week: number
+          optimal_points: number
+          season: number
+          updated_at?: string
+        }
+        Update: {
+          actual_points?: number
+          bench_points?: number
+          league_id?: string
+          nfl_week?: number
+          optimal_points?: number
+          season?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      nfl_game_snapshots: {
+        Row: {
+          game_id: string
+          player_stats: Json
+          updated_at: string
+        }
+        Insert: {
+          game_id: string
+          player_stats?: Json
+          updated_at?: string
+        }
+        Update: {
+          game_id?: string
+          player_stats?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      nfl_game_status: {
+        Row: {
+          away: string
+          game_clock: string
+          game_id: string
+          game_status: string
+          game_status_code: string
+          home: string
+          kickoff: string | null
+          period: string
+          updated_at: string
+        }
+        Insert: {
+          away: string
+          game_clock?: string
+          game_id: string
+          game_status?: string
+          game_status_code?: string
+          home: string
+          kickoff?: string | null
+          period?: string
+          updated_at?: string
+        }
+        Update: {
+          away?: string
+          game_clock?: string
+          game_id?: string
+          game_status?: string
+          game_status_code?: string
+          home?: string
+          kickoff?: string | null
+          period?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      nfl_ingestion_quota: {
+        Row: {
+          day: string
+          requests: number
+        }
+        Insert: {
+          day: string
+          requests?: number
+        }
+        Update: {
+          day?: string
+          requests?: number
+        }
+        Relationships: []
+      }
+      nfl_ingestion_state: {
+        Row: {
+          id: boolean
+          next_run_at: string
+          schedule_loaded_at: string | null
+        }
+        Insert: {
+          id?: boolean
+          next_run_at?: string
+          schedule_loaded_at?: string | null
+        }
+        Update: {
+          id?: boolean
+          next_run_at?: string
+          schedule_loaded_at?: string | null
+        }
+        Relationships: []
+      }
+      nfl_stat_events: {
+        Row: {
+          clock: string | null
+          created_at: string
+          description: string
+          event_type: string
+          game_id: string
+          id: string
+          period: number
+          player_id: string
+          player_name: string
+          position: string | null
+          scoring_play: boolean
+          stats: Json
+          team: string
+        }
+        Insert: {
+          clock?: string | null
+          created_at?: string
+          description: string
+          event_type: string
+          game_id: string
+          id: string
+          period?: number
+          player_id: string
+          player_name: string
+          position?: string | null
+          scoring_play?: boolean
+          stats?: Json
+          team: string
+        }
+        Update: {
+          clock?: string | null
+          created_at?: string
+          description?: string
+          event_type?: string
+          game_id?: string
+          id?: string
+          period?: number
+          player_id?: string
+          player_name?: string
+          position?: string | null
+          scoring_play?: boolean
+          stats?: Json
+          team?: string
+        }
+        Relationships: []
+      }
       player_mappings: {
         Row: {
           alternate_names: Json | null
@@ -69,9 +270,12 @@ export type Database = {
         Row: {
           created_at: string
           description: string
+          event_key: string | null
           event_type: string
           fantasy_points: number
           id: string
+          impact: string
+          is_starter: boolean
           league_id: string
           nfl_game_id: string | null
           nfl_week: number
@@ -87,9 +291,12 @@ export type Database = {
         Insert: {
           created_at?: string
           description: string
+          event_key?: string | null
           event_type: string
           fantasy_points: number
           id?: string
+          impact?: string
+          is_starter?: boolean
           league_id: string
           nfl_game_id?: string | null
           nfl_week: number
@@ -105,9 +312,12 @@ export type Database = {
         Update: {
           created_at?: string
           description?: string
+          event_key?: string | null
           event_type?: string
           fantasy_points?: number
           id?: string
+          impact?: string
+          is_starter?: boolean
           league_id?: string
           nfl_game_id?: string | null
           nfl_week?: number
@@ -166,6 +376,10 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      config_profile_sync_allow_request: {
+        Args: { p_client_key: string; p_max_requests: number; p_window: string }
+        Returns: boolean
+      }
       get_player_by_platform: {
         Args: { platform_column: string; player_id: string }
         Returns: {
@@ -186,6 +400,12 @@ export type Database = {
         }[]
       }
       handle_tank01_player_list: { Args: never; Returns: undefined }
+      nfl_ingestion_allow_request: {
+        Args: { p_max_requests: number }
+        Returns: boolean
+      }
+      nfl_ingestion_due: { Args: never; Returns: boolean }
+      nfl_ingestion_games_on: { Args: never; Returns: boolean }
       secure_player_sync: {
         Args: { players_data: Json }
         Returns: {
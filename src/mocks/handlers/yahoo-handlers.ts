@@ -123,7 +123,7 @@ const yahooApiHandler = http.post('*/functions/v1/yahoo-api', async ({ request }
 
   try {
     const body = await request.json() as any;
-    const { endpoint, leagueKey, week } = body;
+    const { endpoint, leagueKey, teamKey, week } = body;
     
     // Get current snapshot from bridge (0-based)
     const currentSnapshotIndex = simulationBridge.getCurrentSnapshot();
@@ -215,6 +215,27 @@ const yahooApiHandler = http.post('*/functions/v1/yahoo-api', async ({ request }
         });
       }
 
+      case 'getTeamRoster': {
+        // Snapshots only carry scoreboards, so simulated rosters are empty
+        const mockRoster = {
+          fantasy_content: {
+            team: [
+              [{ team_key: teamKey }],
+              { roster: { week: week ?? 7, '0': { players: { count: 0 } } } }
+            ]
+          },
+          _simulation: {
+            enabled: true,
+            endpoint: endpoint,
+            timestamp: new Date().toISOString()
+          }
+        };
+
+        return HttpResponse.json(mockRoster, { 
+          headers: createSimulationHeaders() 
+        });
+      }
+
       case 'getLeagueStandings':
       case 'getLeagueSettings': {
         // For other endpoints, return basic mock data
@@ -0,0 +1,178 @@
+import { debugLogger } from '../utils/debugLogger';
+import { LeagueConfig } from '../types/config';
+import { eventStorageService, ConfigScoringEvent } from './EventStorageService';
+import { supabaseScoringEventService, LineupWeekResult } from './SupabaseScoringEventService';
+import { lineupOptimizerService, LineupPlayer } from './LineupOptimizerService';
+import { tank01NFLDataService } from './Tank01NFLDataService';
+import { nflCalendarService, REGULAR_SEASON_WEEKS } from './NFLCalendarService';
+
+export interface LiveBenchPoints {
+  week: number;
+  points: number;
+  events: ConfigScoringEvent[]; // Newest first
+}
+
+export interface BenchSeasonTally {
+  weeks: number;
+  benchPoints: number;
+  pointsLeftOnBench: number; // Optimal minus actual, summed over finished weeks
+}
+
+// A game is treated as final this long after kickoff
+const GAME_LENGTH_MS = 4 * 60 * 60 * 1000;
+
+const round = (points: number): number => Math.round(points * 10) / 10;
+
+/**
+ * Bench Points Service
+ * Totals the points a league's bench players score as events arrive and, once
+ * a week's games are final, records what the lineup scored against the best
+ * lineup that could have been set, from the platform's final scores. Finished
+ * weeks are saved to Supabase alongside scoring events so the season tally
+ * survives reloads.
+ */
+export class BenchPointsService {
+  private static instance: BenchPointsService;
+  private readonly recording = new Map<string, Promise<LineupWeekResult | null>>();
+  // Weeks that couldn't be recorded (no matchup, platform errors); not retried until reload
+  private readonly unrecordable = new Set<string>();
+  // Recorded weeks scored again this session to pick up stat corrections
+  private readonly rescored = new Set<string>();
+
+  private constructor() {}
+
+  public static getInstance(): BenchPointsService {
+    if (!BenchPointsService.instance) {
+      BenchPointsService.instance = new BenchPointsService();
+    }
+    return BenchPointsService.instance;
+  }
+
+  /**
+   * Points the user's bench has scored this week, from stored scoring events
+   */
+  getLiveBenchPoints(leagueId: string, week: number = nflCalendarService.getCachedState().week): LiveBenchPoints {
+    const events = eventStorageService
+      .getEvents(leagueId, week)
+      .filter(event => event.isStarter === false && event.impact !== 'against');
+
+    return {
+      week,
+      points: round(events.reduce((total, event) => total + event.fantasyPoints, 0)),
+      events
+    };
+  }
+
+  /**
+   * Every finished week recorded for a league this season, oldest first. Past
+   * regular season weeks that haven't been recorded yet are backfilled from the
+   * platform, and this week is recorded once its games are final. Stat
+   * corrections land in the days after a week, so the latest recorded week is
+   * scored again once a session.
+   */
+  async getWeekResults(config: LeagueConfig): Promise<LineupWeekResult[]> {
+    const { week, season, seasonType } = await nflCalendarService.getState();
+    const results = await supabaseScoringEventService.getLineupWeekResults(config.leagueId);
+    if (seasonType === 'pre' || seasonType === 'off') {
+      return results;
+    }
+
+    const latest = results[results.length - 1];
+    const latestKey = latest && this.weekKey(config, season, latest.week);
+    if (latest && latest.week >= week - 1 && !this.rescored.has(latestKey)) {
+      this.rescored.add(latestKey);
+      const rescored = await this.recordFinishedWeek(config, latest.week, season);
+      if (rescored) results[results.length - 1] = rescored;
+    }
+
+    const recorded = new Set(results.map(result => result.week));
+    const lastWeek = Math.min(week, REGULAR_SEASON_WEEKS);
+    for (let missingWeek = 1; missingWeek <= lastWeek; missingWeek++) {
+      if (recorded.has(missingWeek) || this.unrecordable.has(this.weekKey(config, season, missingWeek))) continue;
+      if (missingWeek === week && !await this.isWeekFinished(week, season)) continue;
+
+      const result = await this.recordFinishedWeek(config, missingWeek, season);
+      if (result) results.push(result);
+    }
+
+    return results.sort((a, b) => a.week - b.week);
+  }
+
+  /**
+   * Season totals across a league's finished weeks
+   */
+  getSeasonTally(results: LineupWeekResult[]): BenchSeasonTally {
+    return {
+      weeks: results.length,
+      benchPoints: round(results.reduce((total, result) => total + result.benchPoints, 0)),
+      pointsLeftOnBench: round(results.reduce((total, result) => total + result.optimalPoints - result.actualPoints, 0))
+    };
+  }
+
+  private async isWeekFinished(week: number, season: number): Promise<boolean> {
+    try {
+      const schedule = await tank01NFLDataService.getWeekSchedule(week, season);
+      if (schedule.length === 0) return false;
+
+      const lastKickoff = Math.max(...schedule.map(game => game.kickoff.getTime()));
+      return lastKickoff + GAME_LENGTH_MS <= Date.now();
+    } catch (error) {
+      debugLogger.warning('BENCH_POINTS', `No NFL schedule for week ${week}; can't tell if it's finished`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Score a finished week from the platform. Concurrent callers for the same
+   * league and week share one recording.
+   */
+  private recordFinishedWeek(config: LeagueConfig, week: number, season: number): Promise<LineupWeekResult | null> {
+    const key = this.weekKey(config, season, week);
+    const pending = this.recording.get(key);
+    if (pending) return pending;
+
+    const recording = this.scoreWeek(config, week, season).finally(() => this.recording.delete(key));
+    this.recording.set(key, recording);
+    return recording;
+  }
+
+  private async scoreWeek(config: LeagueConfig, week: number, season: number): Promise<LineupWeekResult | null> {
+    try {
+      const { lineup, finalPoints, matchupPoints } = await lineupOptimizerService.loadFinishedWeek(config, week);
+      const pointsFor = (player: LineupPlayer) => finalPoints[player.playerId] ?? 0;
+      const { optimalPoints } = lineupOptimizerService.scoreFinishedWeek(lineup, pointsFor);
+
+      const result: LineupWeekResult = {
+        leagueId: config.leagueId,
+        season,
+        week,
+        // The matchup score is the platform's own total, so it can include stat
+        // corrections the player points don't; the best lineup never scores less
+        actualPoints: round(matchupPoints),
+        optimalPoints: Math.max(optimalPoints, round(matchupPoints)),
+        benchPoints: round(lineup.players
+          .filter(player => player.slot === null)
+          .reduce((total, player) => total + pointsFor(player), 0))
+      };
+
+      // The edge function rescores the team from the platform; its result is the one kept
+      const recorded = await supabaseScoringEventService.saveLineupWeekResult(config, result);
+      if (!recorded) {
+        throw new Error('The week could not be saved');
+      }
+      debugLogger.success('BENCH_POINTS', `Recorded week ${week} for league ${config.leagueId}`, recorded);
+      return recorded;
+    } catch (error) {
+      debugLogger.error('BENCH_POINTS', `Failed to record week ${week} for league ${config.leagueId}`, error);
+      this.unrecordable.add(this.weekKey(config, season, week));
+      return null;
+    }
+  }
+
+  private weekKey(config: LeagueConfig, season: number, week: number): string {
+    return `${config.leagueId}-${season}-${week}`;
+  }
+}
+
+// Export singleton instance
+export const benchPointsService = BenchPointsService.getInstance();
@@ -0,0 +1,286 @@
+import { debugLogger } from '../utils/debugLogger';
+import { DashboardConfig } from '../types/config';
+import { migrateConfig } from '../utils/configMigrations';
+import { decryptProfiles, deriveSyncId, encryptProfiles, EncryptedProfiles } from '../utils/profileCrypto';
+
+export interface ConfigProfile {
+  id: string;
+  name: string;
+  config: DashboardConfig;
+  updatedAt: string;
+}
+
+interface StoredProfiles {
+  activeProfileId: string | null;
+  profiles: ConfigProfile[];
+}
+
+// Shape of an exported profile file
+interface ProfileFile {
+  kind: typeof PROFILE_FILE_KIND;
+  name: string;
+  exportedAt: string;
+  config: unknown;
+}
+
+const PROFILES_KEY = 'fantasy_dashboard_profiles';
+const PROFILE_FILE_KIND = 'fantasy-dashboard-profile';
+const DEFAULT_PROFILE_NAME = 'Default';
+
+// Thrown when the cloud copy was changed more recently than anything being uploaded
+export class ProfileSyncConflictError extends Error {
+  constructor(public remoteUpdatedAt: string) {
+    super('Profiles in the cloud are newer than the ones on this device');
+    this.name = 'ProfileSyncConflictError';
+  }
+}
+
+// ESPN cookies sign in to the user's ESPN account, so they never go into a plain file
+const withoutLeagueCookies = (config: DashboardConfig): DashboardConfig => ({
+  ...config,
+  leagues: config.leagues.map(({ espnS2: _espnS2, swid: _swid, ...league }) => league)
+});
+
+/**
+ * Config Profile Service
+ * Named snapshots of the dashboard config ("Sunday TV", "Phone") that can be
+ * switched, exported to validated JSON files, and synced through Supabase
+ * under a passphrase. Synced profiles are encrypted on this device, so the
+ * server only holds ciphertext. The active config itself stays in useConfig's key.
+ */
+export class ConfigProfileService {
+  private static instance: ConfigProfileService;
+
+  private constructor() {}
+
+  public static getInstance(): ConfigProfileService {
+    if (!ConfigProfileService.instance) {
+      ConfigProfileService.instance = new ConfigProfileService();
+    }
+    return ConfigProfileService.instance;
+  }
+
+  /**
+   * All profiles, creating a default one from the current config on first use
+   */
+  getProfiles(currentConfig: DashboardConfig): StoredProfiles {
+    const stored = this.load();
+    if (stored.profiles.length > 0) {
+      return stored;
+    }
+
+    const profile = this.buildProfile(DEFAULT_PROFILE_NAME, currentConfig);
+    const initial = { activeProfileId: profile.id, profiles: [profile] };
+    this.save(initial);
+    return initial;
+  }
+
+  /**
+   * Save the current config as a new named profile and make it active
+   */
+  createProfile(name: string, currentConfig: DashboardConfig): ConfigProfile {
+    const stored = this.withActiveSaved(currentConfig);
+    const profile = this.buildProfile(this.uniqueName(name, stored.profiles), currentConfig);
+    this.save({ activeProfileId: profile.id, profiles: [...stored.profiles, profile] });
+    debugLogger.info('CONFIG_PROFILES', `Created profile ${profile.name}`);
+    return profile;
+  }
+
+  /**
+   * Store the current config in the active profile and return the target profile's config
+   */
+  switchProfile(profileId: string, currentConfig: DashboardConfig): DashboardConfig {
+    const stored = this.withActiveSaved(currentConfig);
+    const target = stored.profiles.find(profile => profile.id === profileId);
+    if (!target) {
+      throw new Error('Profile not found');
+    }
+
+    // Profiles may have been saved by an older version
+    const config = migrateConfig(target.config);
+    this.save({ ...stored, activeProfileId: profileId });
+    debugLogger.info('CONFIG_PROFILES', `Switched to profile ${target.name}`);
+    return config;
+  }
+
+  /**
+   * Keep the active profile in step with config saves
+   */
+  saveActiveProfile(currentConfig: DashboardConfig): void {
+    const stored = this.load();
+    if (stored.activeProfileId) {
+      this.save(this.withActiveSaved(currentConfig, stored));
+    }
+  }
+
+  deleteProfile(profileId: string): void {
+    const stored = this.load();
+    if (stored.activeProfileId === profileId) {
+      throw new Error('Switch to another profile before deleting this one');
+    }
+    this.save({ ...stored, profiles: stored.profiles.filter(profile => profile.id !== profileId) });
+  }
+
+  /**
+   * Profile as a JSON file. ESPN cookies are left out and need re-entering after import.
+   */
+  exportProfile(profile: ConfigProfile): string {
+    const file: ProfileFile = {
+      kind: PROFILE_FILE_KIND,
+      name: profile.name,
+      exportedAt: new Date().toISOString(),
+      config: withoutLeagueCookies(profile.config)
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Validate an exported profile (or a bare config export) and add it as a new profile
+   */
+  importProfile(contents: string, fallbackName: string): ConfigProfile {
+    const parsed: unknown = JSON.parse(contents);
+    const isProfileFile = typeof parsed === 'object' && parsed !== null && (parsed as ProfileFile).kind === PROFILE_FILE_KIND;
+    const name = isProfileFile ? (parsed as ProfileFile).name || fallbackName : fallbackName;
+    const config = migrateConfig(isProfileFile ? (parsed as ProfileFile).config : parsed);
+
+    const stored = this.load();
+    const profile = this.buildProfile(this.uniqueName(name, stored.profiles), config);
+    this.save({ ...stored, profiles: [...stored.profiles, profile] });
+    debugLogger.success('CONFIG_PROFILES', `Imported profile ${profile.name}`);
+    return profile;
+  }
+
+  /**
+   * Encrypt and upload every profile under a passphrase. Throws ProfileSyncConflictError
+   * rather than replace a cloud copy edited after these profiles, unless forced.
+   */
+  async pushToCloud(passphrase: string, currentConfig: DashboardConfig, force = false): Promise<number> {
+    const stored = this.withActiveSaved(currentConfig);
+    this.save(stored);
+
+    const [syncId, payload] = await Promise.all([
+      deriveSyncId(passphrase),
+      encryptProfiles(passphrase, stored.profiles)
+    ]);
+    const updatedAt = stored.profiles.reduce((latest, profile) => profile.updatedAt > latest ? profile.updatedAt : latest, '');
+    await this.callSync({ action: 'push', syncId, payload, updatedAt, force });
+
+    debugLogger.success('CONFIG_PROFILES', `Pushed ${stored.profiles.length} profiles`);
+    return stored.profiles.length;
+  }
+
+  /**
+   * Download profiles saved under a passphrase, replacing local profiles with the same ID.
+   * Profiles that fail validation are skipped. Returns the active profile's config when it changed.
+   */
+  async pullFromCloud(passphrase: string): Promise<{ imported: number; skipped: number; activeConfig?: DashboardConfig }> {
+    const { payload } = await this.callSync({ action: 'pull', syncId: await deriveSyncId(passphrase) });
+    const remote = await decryptProfiles(passphrase, payload as EncryptedProfiles);
+    const stored = this.load();
+    const merged = new Map(stored.profiles.map(profile => [profile.id, profile]));
+    let imported = 0;
+    let skipped = 0;
+    let activeConfig: DashboardConfig | undefined;
+
+    for (const entry of Array.isArray(remote) ? remote : []) {
+      try {
+        const profile = entry as ConfigProfile;
+        if (typeof profile.id !== 'string' || typeof profile.name !== 'string') {
+          throw new Error('Missing profile id or name');
+        }
+        const config = migrateConfig(profile.config);
+        merged.set(profile.id, { ...profile, config });
+        if (profile.id === stored.activeProfileId) {
+          activeConfig = config;
+        }
+        imported++;
+      } catch (error) {
+        skipped++;
+        debugLogger.warning('CONFIG_PROFILES', 'Skipping invalid synced profile', error);
+      }
+    }
+
+    this.save({ ...stored, profiles: [...merged.values()] });
+    return { imported, skipped, activeConfig };
+  }
+
+  private async callSync(body: Record<string, unknown>): Promise<{ payload?: unknown }> {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/config-profile-sync`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 409 && typeof data.updatedAt === 'string') {
+      throw new ProfileSyncConflictError(data.updatedAt);
+    }
+    if (!response.ok) {
+      const error = new Error(data.error || `HTTP ${response.status}: ${response.statusText}`);
+      debugLogger.error('CONFIG_PROFILES', `Profile sync ${String(body.action)} failed`, error);
+      throw error;
+    }
+    return data;
+  }
+
+  // updatedAt only moves when the config changed, so sync can tell which copy is newer
+  private withActiveSaved(currentConfig: DashboardConfig, stored = this.getProfiles(currentConfig)): StoredProfiles {
+    return {
+      ...stored,
+      profiles: stored.profiles.map(profile =>
+        profile.id === stored.activeProfileId && JSON.stringify(profile.config) !== JSON.stringify(currentConfig)
+          ? { ...profile, config: currentConfig, updatedAt: new Date().toISOString() }
+          : profile
+      )
+    };
+  }
+
+  private buildProfile(name: string, config: DashboardConfig): ConfigProfile {
+    return {
+      id: `profile_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      config,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private uniqueName(name: string, profiles: ConfigProfile[]): string {
+    const base = name.trim() || 'Profile';
+    const names = new Set(profiles.map(profile => profile.name));
+    let candidate = base;
+    for (let i = 2; names.has(candidate); i++) {
+      candidate = `${base} (${i})`;
+    }
+    return candidate;
+  }
+
+  private load(): StoredProfiles {
+    try {
+      const raw = localStorage.getItem(PROFILES_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw);
+        if (Array.isArray(parsed.profiles)) {
+          return { activeProfileId: parsed.activeProfileId ?? null, profiles: parsed.profiles };
+        }
+      }
+    } catch (error) {
+      debugLogger.error('CONFIG_PROFILES', 'Failed to load profiles', error);
+    }
+    return { activeProfileId: null, profiles: [] };
+  }
+
+  private save(stored: StoredProfiles): void {
+    try {
+      localStorage.setItem(PROFILES_KEY, JSON.stringify(stored));
+    } catch (error) {
+      debugLogger.error('CONFIG_PROFILES', 'Failed to save profiles', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const configProfileService = ConfigProfileService.getInstance();
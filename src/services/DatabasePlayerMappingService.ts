@@ -1,5 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { debugLogger } from '@/utils/debugLogger';
+import { Platform } from '@/types/fantasy';
+import { platformRegistry } from '@/services/PlatformRegistry';
 
 // Tank01 API Player data structure
 export interface Tank01Player {
@@ -158,29 +160,21 @@ export class DatabasePlayerMappingService {
   /**
    * Find player mapping by platform and ID
    */
-  async findPlayerByPlatformId(platform: 'espn' | 'yahoo' | 'sleeper', playerId: string): Promise<DatabasePlayerMapping | null> {
+  async findPlayerByPlatformId(platform: Platform, playerId: string): Promise<DatabasePlayerMapping | null> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
+    const column = platformRegistry.get(platform).playerIdColumn;
+
     // First check cache
     for (const [_, player] of this.playerCache) {
-      if (
-        (platform === 'espn' && player.espn_id === playerId) ||
-        (platform === 'yahoo' && player.yahoo_id === playerId) ||
-        (platform === 'sleeper' && player.sleeper_id === playerId)
-      ) {
+      if (player[column] === playerId) {
         return player;
       }
     }
 
     // Fallback to database query using RPC to avoid TypeScript issues
-    let column: string;
-    switch (platform) {
-      case 'espn': column = 'espn_id'; break;
-      case 'yahoo': column = 'yahoo_id'; break;
-      case 'sleeper': column = 'sleeper_id'; break;
-    }
 
     try {
       const { data, error } = await this.supabase
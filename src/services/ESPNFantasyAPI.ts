@@ -0,0 +1,372 @@
+import { debugLogger } from '../utils/debugLogger';
+import { LeagueConfig } from '../types/config';
+import { fantasyPointsCalculator, YahooScoringSettings } from './FantasyPointsCalculator';
+import { nflCalendarService } from './NFLCalendarService';
+
+export interface ESPNPlayerStats {
+  scoringPeriodId: number;
+  statSourceId: number; // 0 = actual, 1 = projected
+  appliedTotal: number;
+}
+
+export interface ESPNFantasyPlayer {
+  id: number;
+  fullName: string;
+  defaultPositionId: number;
+  proTeamId: number;
+  injuryStatus?: string; // 'ACTIVE', 'QUESTIONABLE', 'OUT', 'INJURY_RESERVE', ...
+  eligibleSlots?: number[]; // Lineup slot IDs the player can fill
+  stats?: ESPNPlayerStats[];
+}
+
+export interface ESPNRosterEntry {
+  playerId: number;
+  lineupSlotId: number;
+  playerPoolEntry: {
+    id: number;
+    appliedStatTotal?: number;
+    player: ESPNFantasyPlayer;
+  };
+}
+
+export interface ESPNTeam {
+  id: number;
+  abbrev: string;
+  name?: string;
+  location?: string;
+  nickname?: string;
+  primaryOwner?: string;
+  owners?: string[];
+  playoffSeed?: number;
+  record?: {
+    overall: { wins: number; losses: number; ties: number };
+  };
+  roster?: { entries: ESPNRosterEntry[] };
+}
+
+export interface ESPNMatchupSide {
+  teamId: number;
+  totalPoints: number;
+  totalPointsLive?: number;
+  rosterForCurrentScoringPeriod?: { entries: ESPNRosterEntry[] };
+}
+
+export interface ESPNScheduleMatchup {
+  id: number;
+  matchupPeriodId: number;
+  home: ESPNMatchupSide;
+  away?: ESPNMatchupSide; // Missing on bye weeks
+}
+
+export interface ESPNScoringItem {
+  statId: number;
+  points: number;
+  pointsOverrides?: Record<string, number>; // Keyed by lineup slot, e.g. D/ST
+}
+
+export interface ESPNFantasyLeague {
+  id: number;
+  seasonId: number;
+  scoringPeriodId: number;
+  status?: { currentMatchupPeriod: number };
+  settings?: {
+    name: string;
+    scoringSettings?: { scoringItems: ESPNScoringItem[] };
+    rosterSettings?: { lineupSlotCounts: Record<string, number> }; // Lineup slot ID -> count
+  };
+  members?: Array<{ id: string; displayName: string }>;
+  teams: ESPNTeam[];
+  schedule?: ESPNScheduleMatchup[];
+}
+
+type ESPNView = 'league' | 'roster' | 'matchup' | 'scoring';
+
+// ESPN defaultPositionId -> position
+export const ESPN_POSITIONS: Record<number, string> = {
+  1: 'QB',
+  2: 'RB',
+  3: 'WR',
+  4: 'TE',
+  5: 'K',
+  16: 'DEF'
+};
+
+// ESPN proTeamId -> NFL team abbreviation (Tank01 spelling)
+export const ESPN_PRO_TEAMS: Record<number, string> = {
+  1: 'ATL', 2: 'BUF', 3: 'CHI', 4: 'CIN', 5: 'CLE', 6: 'DAL', 7: 'DEN', 8: 'DET',
+  9: 'GB', 10: 'TEN', 11: 'IND', 12: 'KC', 13: 'LV', 14: 'LAR', 15: 'MIA', 16: 'MIN',
+  17: 'NE', 18: 'NO', 19: 'NYG', 20: 'NYJ', 21: 'PHI', 22: 'ARI', 23: 'PIT', 24: 'LAC',
+  25: 'SF', 26: 'SEA', 27: 'TB', 28: 'WSH', 29: 'CAR', 30: 'JAX', 33: 'BAL', 34: 'HOU'
+};
+
+// Bench and injured reserve lineup slots
+const ESPN_RESERVE_SLOTS = new Set([20, 21]);
+
+// ESPN starting lineup slot ID -> slot name
+export const ESPN_LINEUP_SLOTS: Record<number, string> = {
+  0: 'QB',
+  2: 'RB',
+  3: 'RB/WR',
+  4: 'WR',
+  5: 'WR/TE',
+  6: 'TE',
+  7: 'OP', // Offensive player (superflex)
+  16: 'DEF',
+  17: 'K',
+  23: 'FLEX'
+};
+
+type ESPNModifierKey = Exclude<keyof YahooScoringSettings, 'fieldGoals' | 'defensePoints' | 'bonuses'>;
+
+// ESPN statId -> calculator setting for per-unit modifiers
+const ESPN_STAT_MODIFIERS: Record<number, ESPNModifierKey> = {
+  3: 'passingYards',
+  4: 'passingTDs',
+  20: 'interceptions',
+  24: 'rushingYards',
+  25: 'rushingTDs',
+  42: 'receivingYards',
+  43: 'receivingTDs',
+  53: 'receptions',
+  72: 'fumbles',
+  86: 'extraPoints',
+  94: 'defenseTDs',
+  95: 'defenseInterceptions',
+  96: 'fumbleRecoveries',
+  98: 'safeties',
+  99: 'sacks'
+};
+
+const ESPN_FIELD_GOAL_STATS: Record<string, number> = {
+  '0-39': 80,
+  '40-49': 77,
+  '50+': 74
+};
+
+// ESPN's points-allowed tiers don't line up exactly with ours; nearest tier wins
+const ESPN_POINTS_ALLOWED_STATS: Record<string, number> = {
+  '0': 89,
+  '1-6': 90,
+  '7-13': 91,
+  '14-20': 92,  // 14-17
+  '21-27': 124, // 22-27
+  '28-34': 125,
+  '35+': 126    // 35-45
+};
+
+const STATIC_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+const SCORING_CACHE_DURATION = 60 * 60 * 1000; // 1 hour
+
+/**
+ * ESPN Fantasy API
+ * Client for the espn-fantasy-api edge function. Private leagues need the
+ * espn_s2 and SWID cookies from the league config.
+ */
+export class ESPNFantasyAPI {
+  private static instance: ESPNFantasyAPI;
+  private leagueCache = new Map<string, { data: ESPNFantasyLeague; timestamp: number }>();
+  private scoringCache = new Map<string, { data: YahooScoringSettings; timestamp: number }>();
+
+  private constructor() {}
+
+  public static getInstance(): ESPNFantasyAPI {
+    if (!ESPNFantasyAPI.instance) {
+      ESPNFantasyAPI.instance = new ESPNFantasyAPI();
+    }
+    return ESPNFantasyAPI.instance;
+  }
+
+  /**
+   * League settings, members and teams with records (cached for 5 minutes)
+   */
+  async getLeague(config: LeagueConfig): Promise<ESPNFantasyLeague> {
+    const cached = this.leagueCache.get(config.leagueId);
+    if (cached && Date.now() - cached.timestamp < STATIC_CACHE_DURATION) {
+      return cached.data;
+    }
+
+    const league = await this.callAPI('league', config);
+    this.leagueCache.set(config.leagueId, { data: league, timestamp: Date.now() });
+    return league;
+  }
+
+  /**
+   * Every team's roster for a scoring period
+   */
+  async getRosters(config: LeagueConfig, week: number): Promise<ESPNTeam[]> {
+    const league = await this.callAPI('roster', config, week);
+    return league.teams || [];
+  }
+
+  /**
+   * Live matchup scores and lineups for a week, with teams for names and records
+   */
+  async getMatchups(config: LeagueConfig, week: number, signal?: AbortSignal): Promise<ESPNFantasyLeague> {
+    return this.callAPI('matchup', config, week, signal);
+  }
+
+  /**
+   * League scoring rules in the calculator's shape (cached for 1 hour)
+   */
+  async getLeagueScoring(config: LeagueConfig): Promise<YahooScoringSettings> {
+    const cached = this.scoringCache.get(config.leagueId);
+    if (cached && Date.now() - cached.timestamp < SCORING_CACHE_DURATION) {
+      return cached.data;
+    }
+
+    const league = await this.callAPI('scoring', config);
+    const settings = this.parseScoringItems(league.settings?.scoringSettings?.scoringItems);
+    this.scoringCache.set(config.leagueId, { data: settings, timestamp: Date.now() });
+
+    debugLogger.success('ESPN_FANTASY', `Parsed scoring settings for league ${config.leagueId}`, {
+      passingTDs: settings.passingTDs,
+      receptions: settings.receptions
+    });
+
+    return settings;
+  }
+
+  /**
+   * Find the user's team: explicit team ID first, then the SWID cookie's owner ID
+   */
+  findUserTeam(teams: ESPNTeam[], config: LeagueConfig): ESPNTeam | undefined {
+    if (config.teamId) {
+      return teams.find(team => String(team.id) === config.teamId);
+    }
+    if (config.swid) {
+      const swid = config.swid.toUpperCase();
+      return teams.find(team =>
+        team.primaryOwner?.toUpperCase() === swid ||
+        team.owners?.some(owner => owner.toUpperCase() === swid)
+      );
+    }
+    return undefined;
+  }
+
+  getTeamName(team: ESPNTeam): string {
+    return team.name || [team.location, team.nickname].filter(Boolean).join(' ') || team.abbrev;
+  }
+
+  isStarter(entry: ESPNRosterEntry): boolean {
+    return !ESPN_RESERVE_SLOTS.has(entry.lineupSlotId);
+  }
+
+  /**
+   * Starting lineup slots the league has that a team's entries leave empty
+   * (undefined when the league settings don't include lineup slots)
+   */
+  countEmptyStarterSlots(league: ESPNFantasyLeague, entries: ESPNRosterEntry[]): number | undefined {
+    const slotCounts = league.settings?.rosterSettings?.lineupSlotCounts;
+    if (!slotCounts) return undefined;
+
+    const starterSlots = Object.entries(slotCounts)
+      .filter(([slotId]) => !ESPN_RESERVE_SLOTS.has(Number(slotId)))
+      .reduce((total, [, count]) => total + count, 0);
+    const filled = entries.filter(entry => this.isStarter(entry)).length;
+    return Math.max(0, starterSlots - filled);
+  }
+
+  /**
+   * A player's actual (statSourceId 0) or projected (1) points for a week
+   */
+  getPlayerPoints(entry: ESPNRosterEntry, week: number, statSourceId: 0 | 1): number {
+    const stat = entry.playerPoolEntry.player.stats?.find(s =>
+      s.scoringPeriodId === week && s.statSourceId === statSourceId
+    );
+    if (stat) {
+      return stat.appliedTotal;
+    }
+    return statSourceId === 0 ? entry.playerPoolEntry.appliedStatTotal || 0 : 0;
+  }
+
+  /**
+   * A player's projected points for a week, or undefined when ESPN has no projection
+   */
+  getPlayerProjection(entry: ESPNRosterEntry, week: number): number | undefined {
+    return entry.playerPoolEntry.player.stats?.find(s =>
+      s.scoringPeriodId === week && s.statSourceId === 1
+    )?.appliedTotal;
+  }
+
+  /**
+   * Convert ESPN scoring items into calculator settings. Stats the league
+   * doesn't score are zeroed; yardage milestone bonuses aren't mapped.
+   */
+  private parseScoringItems(scoringItems?: ESPNScoringItem[]): YahooScoringSettings {
+    const standard = fantasyPointsCalculator.getYahooStandardSettings();
+    if (!scoringItems || scoringItems.length === 0) {
+      debugLogger.warning('ESPN_FANTASY', 'No scoring items in league settings, using standard scoring');
+      return standard;
+    }
+
+    const items = new Map(scoringItems.map(item => [item.statId, item.points]));
+    const valueOf = (statId: number): number => items.get(statId) ?? 0;
+
+    const settings: YahooScoringSettings = {
+      ...standard,
+      fieldGoals: {},
+      defensePoints: {},
+      bonuses: { passingYards: [], rushingYards: [], receivingYards: [] }
+    };
+
+    Object.entries(ESPN_STAT_MODIFIERS).forEach(([statId, key]) => {
+      settings[key] = valueOf(Number(statId));
+    });
+    // Defensive TDs include pick-sixes
+    settings.interceptionTDs = settings.defenseTDs;
+
+    Object.entries(ESPN_FIELD_GOAL_STATS).forEach(([bucket, statId]) => {
+      settings.fieldGoals[bucket] = valueOf(statId);
+    });
+    Object.entries(ESPN_POINTS_ALLOWED_STATS).forEach(([range, statId]) => {
+      settings.defensePoints[range] = valueOf(statId);
+    });
+
+    return settings;
+  }
+
+  private async callAPI(view: ESPNView, config: LeagueConfig, week?: number, signal?: AbortSignal): Promise<ESPNFantasyLeague> {
+    const startTime = Date.now();
+    const { season } = await nflCalendarService.getState();
+    const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/espn-fantasy-api`;
+
+    debugLogger.logAPICall(`${url} (${view})`, 'POST', startTime);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+      },
+      body: JSON.stringify({
+        view,
+        leagueId: config.leagueId,
+        season,
+        week,
+        espnS2: config.espnS2,
+        swid: config.swid
+      }),
+      signal
+    });
+
+    const responseTime = Date.now() - startTime;
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const error = new Error(
+        response.status === 401
+          ? 'ESPN league is private; add your espn_s2 and SWID cookies in settings'
+          : errorData.error || `HTTP ${response.status}: ${response.statusText}`
+      );
+      debugLogger.logAPIError(error, errorData, responseTime);
+      throw error;
+    }
+
+    const data: ESPNFantasyLeague = await response.json();
+    debugLogger.logAPIResponse(response.status, response.statusText, { view, teams: data.teams?.length }, responseTime);
+    return data;
+  }
+}
+
+// Export singleton instance
+export const espnFantasyAPI = ESPNFantasyAPI.getInstance();
@@ -0,0 +1,379 @@
+import { debugLogger } from "../utils/debugLogger";
+import { supabase } from "../integrations/supabase/client";
+import type { LiveStatProvider } from "./LiveStatProvider";
+import {
+  tank01NFLDataService,
+  NFLScoringEvent,
+  Tank01BoxScoreBody,
+  Tank01DefenseStats,
+  Tank01PlayerStats
+} from "./Tank01NFLDataService";
+
+// ESPN summary box score: one stat category per entry, values positional by `keys`
+interface ESPNStatCategory {
+  name: string;
+  keys: string[];
+  athletes: Array<{
+    athlete: { id: string; displayName: string; position?: { abbreviation: string } };
+    stats: string[];
+  }>;
+}
+
+interface ESPNCompetitor {
+  homeAway: 'home' | 'away';
+  score?: string;
+  team: { id: string; abbreviation: string };
+}
+
+interface ESPNGameSummary {
+  header?: {
+    id: string;
+    competitions: Array<{
+      date: string;
+      competitors: ESPNCompetitor[];
+      status: {
+        period: number;
+        displayClock: string;
+        type: { state: 'pre' | 'in' | 'post'; name: string };
+      };
+    }>;
+  };
+  boxscore?: {
+    players?: Array<{
+      team: { id: string; abbreviation: string };
+      statistics: ESPNStatCategory[];
+    }>;
+  };
+}
+
+/**
+ * ESPN Live Stat Service - FALLBACK PROVIDER
+ * Polls the espn-api proxy while Tank01 is unavailable. ESPN box scores are
+ * normalized into Tank01's shape (ESPN athlete IDs reconciled to Tank01 IDs via
+ * player_mappings.espn_id) and fed through Tank01's stat differ, so a failover
+ * mid-game picks up from the same snapshots instead of re-emitting the game.
+ */
+export class ESPNLiveStatService implements LiveStatProvider {
+  private static instance: ESPNLiveStatService;
+  public readonly name = 'espn';
+  private pollingInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private finishedGames = new Set<string>();
+  private espnToTank01 = new Map<string, string | null>(); // null = known unmapped
+  private lastPollTime: Date | null = null;
+  private requestCount = 0;
+  private failedRequests = 0;
+
+  private constructor() {}
+
+  public static getInstance(): ESPNLiveStatService {
+    if (!ESPNLiveStatService.instance) {
+      ESPNLiveStatService.instance = new ESPNLiveStatService();
+    }
+    return ESPNLiveStatService.instance;
+  }
+
+  /**
+   * Events are emitted by the shared Tank01 stat differ
+   */
+  public onScoringEvent(callback: (event: NFLScoringEvent) => void): () => void {
+    return tank01NFLDataService.onScoringEvent(callback);
+  }
+
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public async startPolling(intervalMs: number = 90000): Promise<void> {
+    if (this.isPolling) {
+      debugLogger.warning('ESPN_LIVE', 'Already polling');
+      return;
+    }
+
+    this.isPolling = true;
+    debugLogger.success('ESPN_LIVE', `Polling started with ${intervalMs}ms interval`);
+
+    await this.runPollingCycle();
+
+    this.pollingInterval = setInterval(async () => {
+      await this.runPollingCycle();
+    }, intervalMs);
+  }
+
+  public stopPolling(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+    if (this.isPolling) {
+      debugLogger.info('ESPN_LIVE', 'Polling stopped');
+    }
+    this.isPolling = false;
+  }
+
+  /**
+   * Fetch today's events, then ingest the box score of every game in progress
+   */
+  private async runPollingCycle(): Promise<void> {
+    try {
+      this.lastPollTime = new Date();
+      const eventIds = await this.fetchEventIds();
+
+      for (const eventId of eventIds) {
+        if (this.finishedGames.has(eventId)) continue;
+
+        const summary = await this.invoke<ESPNGameSummary>({ endpoint: 'game-summary', gameId: eventId });
+        const competition = summary?.header?.competitions?.[0];
+        if (!competition) continue;
+
+        if (competition.status.type.state === 'post') {
+          this.finishedGames.add(eventId);
+        }
+        if (competition.status.type.state !== 'in') continue;
+
+        const body = await this.toTank01BoxScore(summary);
+        if (body) {
+          await tank01NFLDataService.ingestBoxScore(body);
+        }
+      }
+    } catch (error) {
+      debugLogger.error('ESPN_LIVE', 'Polling cycle failed', error);
+    }
+  }
+
+  private async fetchEventIds(): Promise<string[]> {
+    const data = await this.invoke<{ items?: Array<{ id?: string; $ref?: string }> }>({ endpoint: 'scoreboard' });
+    const items = data?.items || [];
+
+    // Core API returns bare $ref links; the event ID is the last path segment
+    return items
+      .map(item => item.id || item.$ref?.match(/events\/(\d+)/)?.[1])
+      .filter((id): id is string => !!id);
+  }
+
+  private async invoke<T>(body: Record<string, string>): Promise<T | null> {
+    this.requestCount++;
+    const response = await supabase.functions.invoke('espn-api', { body });
+
+    if (response.error) {
+      this.failedRequests++;
+      debugLogger.error('ESPN_LIVE', `ESPN ${body.endpoint} request failed`, response.error);
+      return null;
+    }
+    return response.data as T;
+  }
+
+  /**
+   * Normalize an ESPN summary into the Tank01 box score shape. Stats ESPN doesn't
+   * report (safeties, FG yards) are left unset so ingestion keeps their last known values.
+   */
+  private async toTank01BoxScore(summary: ESPNGameSummary): Promise<Tank01BoxScoreBody | null> {
+    const competition = summary.header?.competitions?.[0];
+    const teams = summary.boxscore?.players || [];
+    if (!competition || teams.length === 0) return null;
+
+    const away = competition.competitors.find(c => c.homeAway === 'away');
+    const home = competition.competitors.find(c => c.homeAway === 'home');
+    if (!away || !home) return null;
+
+    const athleteIds = teams.flatMap(team =>
+      team.statistics.flatMap(category => category.athletes.map(a => a.athlete.id))
+    );
+    await this.resolveTank01Ids(athleteIds);
+
+    const playerStats: Record<string, Tank01PlayerStats> = {};
+    const defenses: Record<string, Tank01DefenseStats> = {};
+
+    for (const team of teams) {
+      const teamAbv = team.team.abbreviation;
+      const defense: Tank01DefenseStats = defenses[teamAbv] = {
+        teamAbv,
+        teamID: team.team.id,
+        sacks: '0',
+        defensiveInterceptions: '0',
+        fumblesRecovered: '0',
+        defTD: '0'
+      };
+
+      for (const category of team.statistics) {
+        for (const { athlete, stats } of category.athletes) {
+          const values = this.zipStats(category.keys, stats);
+
+          // Team defense totals come from every defender, mapped or not
+          if (category.name === 'defensive') {
+            defense.sacks = String(parseFloat(defense.sacks!) + (values.sacks || 0));
+            defense.defTD = String(parseInt(defense.defTD!) + (values.defensiveTouchdowns || 0));
+          } else if (category.name === 'interceptions') {
+            defense.defensiveInterceptions = String(parseInt(defense.defensiveInterceptions!) + (values.interceptions || 0));
+          } else if (category.name === 'fumbles') {
+            defense.fumblesRecovered = String(parseInt(defense.fumblesRecovered!) + (values.fumblesRecovered || 0));
+          }
+
+          const tank01Id = this.espnToTank01.get(athlete.id);
+          if (!tank01Id) continue;
+
+          const player = playerStats[tank01Id] ||= {
+            gameID: '',
+            longName: athlete.displayName,
+            playerName: athlete.displayName,
+            team: teamAbv,
+            teamAbv,
+            teamID: team.team.id,
+            pos: athlete.position?.abbreviation || ''
+          };
+
+          this.applyCategory(player, category.name, values);
+        }
+      }
+    }
+
+    const awayDefense = defenses[away.team.abbreviation];
+    const homeDefense = defenses[home.team.abbreviation];
+    if (awayDefense) awayDefense.ptsAllowed = home.score || '0';
+    if (homeDefense) homeDefense.ptsAllowed = away.score || '0';
+
+    const gameID = this.toTank01GameId(competition.date, away.team.abbreviation, home.team.abbreviation);
+    for (const player of Object.values(playerStats)) {
+      player.gameID = gameID;
+    }
+
+    const period = competition.status.period;
+    return {
+      gameID,
+      away: away.team.abbreviation,
+      home: home.team.abbreviation,
+      awayPts: away.score || '0',
+      homePts: home.score || '0',
+      currentPeriod: period > 4 ? 'OT' : `Q${period}`,
+      gameClock: competition.status.displayClock,
+      gameStatus: 'Live - In Progress',
+      gameStatusCode: '1',
+      playerStats,
+      DST: awayDefense && homeDefense ? { away: awayDefense, home: homeDefense } : undefined
+    };
+  }
+
+  /**
+   * Copy one ESPN stat category onto the matching Tank01 stat block
+   */
+  private applyCategory(player: Tank01PlayerStats, category: string, values: Record<string, number>): void {
+    switch (category) {
+      case 'passing':
+        player.Passing = {
+          passYds: String(values.passingYards || 0),
+          passTD: String(values.passingTouchdowns || 0),
+          int: String(values.interceptions || 0),
+          passCompletions: String(values.completions || 0),
+          passAttempts: String(values.passingAttempts || 0)
+        };
+        break;
+      case 'rushing':
+        player.Rushing = {
+          rushYds: String(values.rushingYards || 0),
+          rushTD: String(values.rushingTouchdowns || 0),
+          carries: String(values.rushingAttempts || 0),
+          longRush: String(values.longRushing || 0)
+        };
+        break;
+      case 'receiving':
+        player.Receiving = {
+          receptions: String(values.receptions || 0),
+          recYds: String(values.receivingYards || 0),
+          recTD: String(values.receivingTouchdowns || 0),
+          targets: String(values.receivingTargets || 0),
+          longRec: String(values.longReception || 0)
+        };
+        break;
+      case 'fumbles':
+        player.Defense = {
+          fumbles: String(values.fumbles || 0),
+          fumblesLost: String(values.fumblesLost || 0)
+        };
+        break;
+      case 'kicking':
+        player.Kicking = {
+          fgMade: String(values.fieldGoalsMade || 0),
+          fgAttempts: String(values.fieldGoalAttempts || 0),
+          fgLong: String(values.longFieldGoalMade || 0),
+          xpMade: String(values.extraPointsMade || 0),
+          xpAttempts: String(values.extraPointAttempts || 0)
+        };
+        break;
+    }
+  }
+
+  /**
+   * Pair ESPN stat keys with values; "made/att" keys like "completions/passingAttempts" split in two
+   */
+  private zipStats(keys: string[], stats: string[]): Record<string, number> {
+    const values: Record<string, number> = {};
+    keys.forEach((key, index) => {
+      const raw = stats[index] || '0';
+      if (key.includes('/')) {
+        const [madeKey, attemptKey] = key.split('/');
+        const [made, attempts] = raw.split('/');
+        values[madeKey] = parseFloat(made) || 0;
+        values[attemptKey] = parseFloat(attempts) || 0;
+      } else if (key.includes('-')) {
+        values[key.split('-')[0]] = parseFloat(raw.split('-')[0]) || 0;
+      } else {
+        values[key] = parseFloat(raw) || 0;
+      }
+    });
+    return values;
+  }
+
+  /**
+   * Look up Tank01 IDs for ESPN athletes not yet in the cache
+   */
+  private async resolveTank01Ids(espnIds: string[]): Promise<void> {
+    const missing = [...new Set(espnIds)].filter(id => !this.espnToTank01.has(id));
+    if (missing.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('player_mappings')
+      .select('tank01_id, espn_id')
+      .in('espn_id', missing);
+
+    if (error) {
+      debugLogger.error('ESPN_LIVE', 'Failed to reconcile ESPN player IDs', error);
+      return;
+    }
+
+    for (const id of missing) {
+      this.espnToTank01.set(id, null);
+    }
+    for (const mapping of data || []) {
+      if (mapping.espn_id) {
+        this.espnToTank01.set(mapping.espn_id, mapping.tank01_id);
+      }
+    }
+
+    debugLogger.info('ESPN_LIVE', 'Reconciled ESPN player IDs', {
+      requested: missing.length,
+      mapped: data?.length || 0
+    });
+  }
+
+  /**
+   * Tank01 game IDs are YYYYMMDD_AWAY@HOME on the Eastern-time game date
+   */
+  private toTank01GameId(date: string, away: string, home: string): string {
+    const easternDate = new Date(date).toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+    return `${easternDate.replace(/-/g, '')}_${away}@${home}`;
+  }
+
+  public getServiceStatus() {
+    return {
+      isPolling: this.isPolling,
+      lastPollTime: this.lastPollTime?.toISOString() || null,
+      requestCount: this.requestCount,
+      failedRequests: this.failedRequests,
+      finishedGames: this.finishedGames.size,
+      mappedPlayers: [...this.espnToTank01.values()].filter(Boolean).length
+    };
+  }
+}
+
+// Export singleton instance
+export const espnLiveStatService = ESPNLiveStatService.getInstance();
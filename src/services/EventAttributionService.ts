@@ -1,13 +1,24 @@
 import { debugLogger } from '../utils/debugLogger';
-import { safeLower } from '../utils/strings';
+import { safeLower, safeUpper } from '../utils/strings';
 import { playerMappingService, RosterPlayer } from './PlayerMappingService';
 import { tank01NFLDataService, NFLScoringEvent } from './Tank01NFLDataService';
 import { yahooFantasyAPI } from './YahooFantasyAPI';
-import { sleeperAPIEnhanced } from './SleeperAPIEnhanced';
+import { YahooDataService } from './YahooDataService';
+import { espnFantasyAPI, ESPNRosterEntry, ESPN_POSITIONS, ESPN_PRO_TEAMS } from './ESPNFantasyAPI';
+import { sleeperAPIEnhanced, SleeperRoster, SleeperUser } from './SleeperAPIEnhanced';
 import { sleeperService } from './SleeperService';
+import { platformRegistry, PlayerIdColumn } from './PlatformRegistry';
+import {
+  fantasyPointsCalculator,
+  ScoringEventData,
+  SleeperScoringSettings,
+  YahooScoringSettings
+} from './FantasyPointsCalculator';
 import { Platform, LeagueData, ScoringEvent } from '../types/fantasy';
+import { YahooTeamRoster } from '../types/yahoo';
 import { LeagueConfig } from '../types/config';
 import { supabase } from '../integrations/supabase/client';
+import { nflCalendarService } from './NFLCalendarService';
 
 // Configuration interfaces for scoring events
 export interface ConfigScoringEvent {
@@ -15,7 +26,7 @@ export interface ConfigScoringEvent {
   playerId: string;
   playerName: string;
   teamAbbr: string;
-  eventType: 'rushing_td' | 'passing_td' | 'receiving_td' | 'rushing_yards' | 'passing_yards' | 'receiving_yards';
+  eventType: 'rushing_td' | 'passing_td' | 'receiving_td' | 'rushing_yards' | 'passing_yards' | 'receiving_yards' | 'field_goal' | 'extra_point' | 'safety' | 'sack' | 'defensive_interception' | 'fumble_recovery' | 'defensive_td' | 'points_allowed' | 'interception' | 'fumble_lost' | 'stat_correction';
   description: string;
   fantasyPoints: number;
   timestamp: Date;
@@ -37,6 +48,9 @@ export interface StatMapping {
   points?: number;
 }
 
+// Whether an event helps our team or the opponent in this week's matchup
+export type FantasyImpactSide = 'for' | 'against';
+
 // Fantasy roster data structures
 export interface FantasyRoster {
   leagueId: string;
@@ -46,6 +60,8 @@ export interface FantasyRoster {
   platform: Platform;
   players: FantasyPlayer[];
   lastUpdated: Date;
+  isOpponent?: boolean; // This week's opponent rather than the user's team
+  emptyStarterSlots?: number; // Starting lineup slots with nobody in them
 }
 
 export interface FantasyPlayer {
@@ -56,6 +72,7 @@ export interface FantasyPlayer {
   team: string;
   isStarter: boolean;
   isActive: boolean; // Not on bye/injured
+  injuryStatus?: string; // Platform injury designation, e.g. 'Questionable' or 'OUT'
 }
 
 // League scoring settings
@@ -74,6 +91,7 @@ export interface LeagueScoringSettings {
   pointsPerFumble: number;
   pointsPerInterception: number;
   customRules: Record<string, number>; // Platform-specific rules
+  calculatorSettings?: YahooScoringSettings; // Full Yahoo/ESPN league rules, including bonuses and tiers
   lastUpdated: Date;
 }
 
@@ -91,17 +109,44 @@ export interface FantasyEventImpact {
   platform: Platform;
   player: FantasyPlayer;
   pointsScored: number;
+  impact: FantasyImpactSide;
   isStarter: boolean;
   eventType: ConfigScoringEvent['eventType'];
   description: string;
   originalEvent: NFLScoringEvent;
 }
 
+// Injury designations that keep a player out of this week's game, Yahoo's short forms included
+const OUT_INJURY_STATUSES = new Set(['OUT', 'O', 'IR', 'INJURY_RESERVE', 'PUP', 'PUP-R', 'SUS', 'SUSP', 'SUSPENSION']);
+
+// Yahoo roster slots that don't count toward the matchup
+const YAHOO_RESERVE_SLOTS = new Set(['BN', 'IR']);
+
+export const isOutInjuryStatus = (injuryStatus: string | undefined): boolean =>
+  Boolean(injuryStatus && OUT_INJURY_STATUSES.has(injuryStatus.toUpperCase()));
+
+// Sleeper fills unset starting slots with this player ID
+const SLEEPER_EMPTY_SLOT = '0';
+
+// Name key for matching players across sources: case, punctuation and spacing ignored
+const normalizePlayerName = (name: unknown): string =>
+  safeLower(name).replace(/[^a-z\s]/g, '').replace(/\s+/g, ' ').trim();
+
+type RosterLoader = (leagueConfig: LeagueConfig, rosterPlayers: RosterPlayer[]) => Promise<void>;
+
 interface RosterCache {
-  rosters: Map<string, FantasyRoster>; // leagueId -> roster
+  rosters: Map<string, FantasyRoster>; // platform-leagueId[-opponent] -> roster
   scoringSettings: Map<string, LeagueScoringSettings>; // leagueId -> settings
   lastUpdated: Date;
-  playerMappings: Map<string, RosterPlayer[]>; // Tank01 player ID -> fantasy players
+  playerMappings: Map<string, MappedRosterPlayer[]>; // Tank01 player ID -> fantasy players
+}
+
+// A rostered fantasy player a Tank01 player maps to. The roster is looked up from
+// these fields; IDs can't be split back apart (ESPN D/ST IDs are negative)
+interface MappedRosterPlayer extends RosterPlayer {
+  leagueId: string;
+  platformPlayerId: string;
+  isOpponent: boolean;
 }
 
 export class EventAttributionService {
@@ -111,6 +156,13 @@ export class EventAttributionService {
   private cacheKey = 'fantasy_roster_cache';
   private eventCallbacks: ((attribution: FantasyEventAttribution) => void)[] = [];
 
+  // Keyed by Platform so a newly registered platform won't compile without a loader
+  private readonly rosterLoaders: Record<Platform, RosterLoader> = {
+    Yahoo: (config, players) => this.loadYahooRoster(config, players),
+    Sleeper: (config, players) => this.loadSleeperRoster(config, players),
+    ESPN: (config, players) => this.loadESPNRoster(config, players)
+  };
+
   private constructor() {
     this.cache = {
       rosters: new Map(),
@@ -157,11 +209,14 @@ export class EventAttributionService {
     // Load rosters from each enabled league
     for (const leagueConfig of leagueConfigs.filter(c => c.enabled)) {
       try {
-        if (leagueConfig.platform === 'Yahoo') {
-          await this.loadYahooRoster(leagueConfig, rosterPlayers);
-        } else if (leagueConfig.platform === 'Sleeper') {
-          await this.loadSleeperRoster(leagueConfig, rosterPlayers);
+        const platform = platformRegistry.normalize(leagueConfig.platform);
+        if (!platform) {
+          debugLogger.warning('EVENT_ATTRIBUTION', `Skipping league ${leagueConfig.leagueId} with unknown platform`, {
+            platform: leagueConfig.platform
+          });
+          continue;
         }
+        await this.rosterLoaders[platform](leagueConfig, rosterPlayers);
       } catch (error) {
         debugLogger.error('EVENT_ATTRIBUTION', `Failed to load roster for ${leagueConfig.platform} league ${leagueConfig.leagueId}`, error);
       }
@@ -203,12 +258,12 @@ export class EventAttributionService {
       const fantasyEvents: FantasyEventImpact[] = [];
 
       for (const fantasyPlayer of fantasyPlayers) {
-        const roster = this.cache.rosters.get(fantasyPlayer.platform + '-' + fantasyPlayer.id.split('-')[0]); // Extract league ID
+        const roster = this.cache.rosters.get(
+          this.getRosterKey(fantasyPlayer.platform, fantasyPlayer.leagueId, fantasyPlayer.isOpponent)
+        );
         if (!roster) continue;
 
-        // Extract just the player ID from composite ID format (leagueId-playerId)
-      const playerIdOnly = fantasyPlayer.id.includes('-') ? fantasyPlayer.id.split('-')[1] : fantasyPlayer.id;
-      const rosterPlayer = roster.players.find(p => p.platformPlayerId === playerIdOnly);
+        const rosterPlayer = roster.players.find(p => p.platformPlayerId === fantasyPlayer.platformPlayerId);
 
         if (!rosterPlayer) continue;
 
@@ -225,6 +280,7 @@ export class EventAttributionService {
           platform: roster.platform,
           player: rosterPlayer,
           pointsScored: points,
+          impact: roster.isOpponent ? 'against' : 'for',
           isStarter: rosterPlayer.isStarter,
           eventType,
           description: this.generateFantasyDescription(nflEvent, points),
@@ -266,7 +322,7 @@ export class EventAttributionService {
   }
 
   /**
-   * Calculate fantasy point impact for an NFL event
+   * Calculate fantasy point impact for an NFL event using the league's own scoring
    */
   public calculateFantasyImpact(nflEvent: NFLScoringEvent, leagueId: string): number {
     const scoringSettings = this.cache.scoringSettings.get(leagueId);
@@ -275,61 +331,13 @@ export class EventAttributionService {
       return 0;
     }
 
-    let points = 0;
-    const stats = nflEvent.stats;
-
-    switch (nflEvent.eventType) {
-      case 'passingtd':
-        points = scoringSettings.pointsPerPassingTd;
-        break;
-      case 'rushingtd':
-        points = scoringSettings.pointsPerRushingTd;
-        break;
-      case 'receivingtd':
-        points = scoringSettings.pointsPerReceivingTd;
-        if (scoringSettings.pointsPerReception > 0) {
-          points += scoringSettings.pointsPerReception; // PPR bonus for TD reception
-        }
-        break;
-      case 'passingyards':
-        if (stats.passingYards) {
-          points = stats.passingYards * scoringSettings.pointsPerPassingYard;
-        }
-        break;
-      case 'rushingyards':
-        if (stats.rushingYards) {
-          points = stats.rushingYards * scoringSettings.pointsPerRushingYard;
-        }
-        break;
-      case 'receivingyards':
-        if (stats.receivingYards) {
-          points = stats.receivingYards * scoringSettings.pointsPerReceivingYard;
-          if (scoringSettings.pointsPerReception > 0) {
-            points += scoringSettings.pointsPerReception; // PPR bonus
-          }
-        }
-        break;
-      case 'fieldgoal':
-        points = scoringSettings.pointsPerFieldGoal || 0;
-        // Some leagues have distance bonuses - check custom rules
-        if (stats.fieldGoalDistance && scoringSettings.customRules[`fg_${stats.fieldGoalDistance}_plus`]) {
-          points += scoringSettings.customRules[`fg_${stats.fieldGoalDistance}_plus`];
-        }
-        break;
-      case 'safety':
-        points = scoringSettings.pointsPerSafety || 0;
-        break;
-      case 'fumble':
-      case 'fumblelost':
-        points = scoringSettings.pointsPerFumble || 0; // Usually negative
-        break;
-      case 'interception':
-        // This could be thrown (negative) or caught (positive for defense)
-        points = scoringSettings.pointsPerInterception;
-        break;
-    }
+    const result = fantasyPointsCalculator.calculatePoints(
+      this.toScoringEventData(nflEvent),
+      scoringSettings.platform,
+      this.toCalculatorSettings(scoringSettings)
+    );
 
-    return Math.round(points * 100) / 100; // Round to 2 decimal places
+    return Math.round(result.totalPoints * 100) / 100; // Round to 2 decimal places
   }
 
   /**
@@ -346,7 +354,8 @@ export class EventAttributionService {
           position: impact.player.position,
           weeklyPoints: impact.pointsScored,
           action: impact.description,
-          scoreImpact: impact.pointsScored,
+          scoreImpact: impact.impact === 'against' ? -impact.pointsScored : impact.pointsScored,
+          impact: impact.impact,
           timestamp: attribution.timestamp.toISOString(),
           isRecent: Date.now() - attribution.timestamp.getTime() < 300000 // 5 minutes
         });
@@ -390,6 +399,13 @@ export class EventAttributionService {
     };
   }
 
+  /**
+   * The user's own rosters (not this week's opponents) from the last load
+   */
+  public getUserRosters(): FantasyRoster[] {
+    return Array.from(this.cache.rosters.values()).filter(roster => !roster.isOpponent);
+  }
+
   /**
    * Force refresh roster data
    */
@@ -402,77 +418,68 @@ export class EventAttributionService {
   private async loadYahooRoster(leagueConfig: LeagueConfig, rosterPlayers: RosterPlayer[]): Promise<void> {
     try {
       debugLogger.info('EVENT_ATTRIBUTION', 'Loading Yahoo roster', { leagueId: leagueConfig.leagueId });
-      
-      // Fetch roster from Yahoo API
-      const rosterData = await yahooFantasyAPI.getTeamRoster(leagueConfig.leagueId, leagueConfig.teamId || '');
-      
-      if (!rosterData) {
-        throw new Error(`Could not fetch roster for Yahoo league ${leagueConfig.leagueId}`);
-      }
-
-      const fantasyPlayers: FantasyPlayer[] = [];
-      
-      // Process Yahoo roster players
-      for (const player of rosterData.players || []) {
-        const fantasyPlayer: FantasyPlayer = {
-          id: `${leagueConfig.leagueId}-${player.player_id}`,
-          platformPlayerId: player.player_id,
-          name: player.name?.full || player.name?.display_name || 'Unknown Player',
-          position: player.position_type || player.primary_position || 'UNKNOWN',
-          team: player.editorial_team_abbr || 'UNKNOWN',
-          isStarter: player.selected_position?.position !== 'BN' && player.selected_position?.position !== 'IR',
-          isActive: !player.status_full?.includes('Out') && !player.status_full?.includes('IR')
-        };
-
-        fantasyPlayers.push(fantasyPlayer);
 
-        // Add to roster players for mapping service
-        rosterPlayers.push({
-          id: player.player_id,
-          name: fantasyPlayer.name,
-          team: fantasyPlayer.team,
-          position: fantasyPlayer.position,
-          platform: 'Yahoo'
-        });
+      // The scoreboard names the user's team and this week's opponent
+      const { week } = await nflCalendarService.getState();
+      const scoreboard = await YahooDataService.fetchLeagueScoreboard(leagueConfig.leagueId, week);
+      const userMatchup = YahooDataService.findUserMatchup(scoreboard, leagueConfig.teamId);
+      if (!userMatchup) {
+        throw new Error(`Could not find user team in Yahoo league ${leagueConfig.leagueId}`);
       }
 
-      // Create roster entry
+      const { myTeam, opponent } = userMatchup;
+      const rosterData = await yahooFantasyAPI.getTeamRoster(myTeam.team_key, week);
+      const fantasyPlayers = this.buildYahooPlayers(leagueConfig.leagueId, rosterData, rosterPlayers);
+
       const roster: FantasyRoster = {
         leagueId: leagueConfig.leagueId,
-        teamId: leagueConfig.teamId || 'default',
-        teamName: leagueConfig.customTeamName || rosterData.team_name || `Team ${leagueConfig.teamId}`,
+        teamId: myTeam.team_id,
+        teamName: leagueConfig.customTeamName || rosterData.name || myTeam.name,
         ownerId: 'current_user',
         platform: 'Yahoo',
         players: fantasyPlayers,
         lastUpdated: new Date()
       };
 
-      this.cache.rosters.set(`Yahoo-${leagueConfig.leagueId}`, roster);
+      this.cache.rosters.set(this.getRosterKey('Yahoo', leagueConfig.leagueId, false), roster);
 
-      // Create Yahoo standard scoring settings
-      const scoringSettings: LeagueScoringSettings = {
-        leagueId: leagueConfig.leagueId,
-        platform: 'Yahoo',
-        pointsPerPassingYard: 1/25, // 1 point per 25 yards
-        pointsPerPassingTd: 4,
-        pointsPerRushingYard: 1/10, // 1 point per 10 yards
-        pointsPerRushingTd: 6,
-        pointsPerReceivingYard: 1/10, // 1 point per 10 yards
-        pointsPerReceivingTd: 6,
-        pointsPerReception: 0, // Standard scoring, not PPR
-        pointsPerFieldGoal: 3,
-        pointsPerSafety: 2,
-        pointsPerFumble: -2,
-        pointsPerInterception: -2, // For QB throwing interceptions
-        customRules: {}, // Yahoo has consistent rules
-        lastUpdated: new Date()
-      };
+      if (opponent) {
+        try {
+          const opponentRoster = await yahooFantasyAPI.getTeamRoster(opponent.team_key, week);
+          this.cache.rosters.set(this.getRosterKey('Yahoo', leagueConfig.leagueId, true), {
+            leagueId: leagueConfig.leagueId,
+            teamId: opponent.team_id,
+            teamName: opponentRoster.name || opponent.name,
+            ownerId: opponent.manager_name || 'opponent',
+            platform: 'Yahoo',
+            players: this.buildYahooPlayers(leagueConfig.leagueId, opponentRoster, rosterPlayers),
+            lastUpdated: new Date(),
+            isOpponent: true
+          });
+        } catch (opponentError) {
+          debugLogger.warning('EVENT_ATTRIBUTION', 'Failed to load Yahoo opponent roster', opponentError);
+        }
+      }
 
+      // League scoring from Yahoo's stat modifiers, falling back to Yahoo standard
+      let yahooScoring: YahooScoringSettings;
+      try {
+        yahooScoring = await YahooDataService.fetchLeagueScoring(leagueConfig.leagueId);
+      } catch (scoringError) {
+        debugLogger.warning('EVENT_ATTRIBUTION', 'Failed to load Yahoo scoring settings, using standard', {
+          leagueId: leagueConfig.leagueId,
+          error: scoringError instanceof Error ? scoringError.message : scoringError
+        });
+        yahooScoring = fantasyPointsCalculator.getYahooStandardSettings();
+      }
+
+      const scoringSettings = this.toLeagueScoringSettings(leagueConfig.leagueId, 'Yahoo', yahooScoring);
       this.cache.scoringSettings.set(leagueConfig.leagueId, scoringSettings);
 
       debugLogger.success('EVENT_ATTRIBUTION', 'Yahoo roster loaded successfully', {
         leagueId: leagueConfig.leagueId,
-        playerCount: fantasyPlayers.length
+        playerCount: fantasyPlayers.length,
+        hasOpponent: Boolean(opponent)
       });
       
     } catch (error) {
@@ -508,41 +515,7 @@ export class EventAttributionService {
       }
 
       // Convert Sleeper roster to our format
-      const fantasyPlayers: FantasyPlayer[] = [];
-      const rosterPlayerIds = [...(userRoster.players || []), ...(userRoster.starters || [])];
-
-      // Batch fetch all player names to avoid cache thrashing
-      const playerNames = await sleeperAPIEnhanced.getPlayerNames(rosterPlayerIds);
-
-      for (const playerId of rosterPlayerIds) {
-        try {
-          const playerName = playerNames[playerId] || `Player ${playerId}`;
-          
-          const fantasyPlayer: FantasyPlayer = {
-            id: `${leagueConfig.leagueId}-${playerId}`,
-            platformPlayerId: playerId,
-            name: playerName,
-            position: 'UNKNOWN', // Sleeper doesn't provide position in roster
-            team: 'UNKNOWN',     // Would need player data lookup
-            isStarter: userRoster.starters?.includes(playerId) || false,
-            isActive: true
-          };
-
-          fantasyPlayers.push(fantasyPlayer);
-
-          // Add to roster players for mapping service
-          rosterPlayers.push({
-            id: playerId,
-            name: playerName,
-            team: 'UNKNOWN', // Would need full player data
-            position: 'UNKNOWN',
-            platform: 'Sleeper'
-          });
-
-        } catch (playerError) {
-          debugLogger.warning('EVENT_ATTRIBUTION', `Could not resolve Sleeper player ${playerId}`, playerError);
-        }
-      }
+      const fantasyPlayers = await this.buildSleeperPlayers(leagueConfig.leagueId, userRoster, rosterPlayers);
 
       // Create roster entry
       const roster: FantasyRoster = {
@@ -552,10 +525,17 @@ export class EventAttributionService {
         ownerId: userRoster.owner_id,
         platform: 'Sleeper',
         players: fantasyPlayers,
-        lastUpdated: new Date()
+        lastUpdated: new Date(),
+        emptyStarterSlots: this.countEmptySleeperSlots(userRoster)
       };
 
-      this.cache.rosters.set(`Sleeper-${leagueConfig.leagueId}`, roster);
+      this.cache.rosters.set(this.getRosterKey('Sleeper', leagueConfig.leagueId, false), roster);
+
+      try {
+        await this.loadSleeperOpponentRoster(leagueConfig, userRoster, rosters, users, rosterPlayers);
+      } catch (opponentError) {
+        debugLogger.warning('EVENT_ATTRIBUTION', 'Failed to load Sleeper opponent roster', opponentError);
+      }
 
       // Fetch proper scoring settings using SleeperService
       try {
@@ -634,62 +614,363 @@ export class EventAttributionService {
     }
   }
 
+  /**
+   * Load the roster the user faces in this week's Sleeper matchup
+   */
+  private async loadSleeperOpponentRoster(
+    leagueConfig: LeagueConfig,
+    userRoster: SleeperRoster,
+    rosters: SleeperRoster[],
+    users: SleeperUser[],
+    rosterPlayers: RosterPlayer[]
+  ): Promise<void> {
+    const { week } = await nflCalendarService.getState();
+    const matchups = await sleeperAPIEnhanced.getMatchups(leagueConfig.leagueId, week);
+
+    const userMatchup = matchups.find(m => m.roster_id === userRoster.roster_id);
+    const opponentMatchup = matchups.find(m =>
+      userMatchup && m.matchup_id === userMatchup.matchup_id && m.roster_id !== userRoster.roster_id
+    );
+    const opponentRoster = rosters.find(r => r.roster_id === opponentMatchup?.roster_id);
+
+    if (!opponentRoster) {
+      debugLogger.info('EVENT_ATTRIBUTION', 'No Sleeper opponent this week', { leagueId: leagueConfig.leagueId, week });
+      return;
+    }
+
+    const opponentUser = users.find(u => u.user_id === opponentRoster.owner_id);
+    const roster: FantasyRoster = {
+      leagueId: leagueConfig.leagueId,
+      teamId: opponentRoster.roster_id.toString(),
+      teamName: opponentRoster.metadata?.team_name || `${opponentUser?.display_name || 'Opponent'}'s Team`,
+      ownerId: opponentRoster.owner_id,
+      platform: 'Sleeper',
+      players: await this.buildSleeperPlayers(leagueConfig.leagueId, opponentRoster, rosterPlayers),
+      lastUpdated: new Date(),
+      isOpponent: true
+    };
+
+    this.cache.rosters.set(this.getRosterKey('Sleeper', leagueConfig.leagueId, true), roster);
+
+    debugLogger.success('EVENT_ATTRIBUTION', 'Sleeper opponent roster loaded', {
+      leagueId: leagueConfig.leagueId,
+      opponent: roster.teamName,
+      playerCount: roster.players.length
+    });
+  }
+
+  private async loadESPNRoster(leagueConfig: LeagueConfig, rosterPlayers: RosterPlayer[]): Promise<void> {
+    try {
+      debugLogger.info('EVENT_ATTRIBUTION', 'Loading ESPN roster', { leagueId: leagueConfig.leagueId });
+
+      // This week's matchup carries both lineups, so the opponent costs no extra request
+      const { week } = await nflCalendarService.getState();
+      const league = await espnFantasyAPI.getMatchups(leagueConfig, week);
+      const userTeam = espnFantasyAPI.findUserTeam(league.teams, leagueConfig);
+
+      if (!userTeam) {
+        throw new Error(`Could not find team in ESPN league ${leagueConfig.leagueId}; set a team ID or SWID`);
+      }
+
+      const matchup = league.schedule?.find(m =>
+        m.matchupPeriodId === week && (m.home.teamId === userTeam.id || m.away?.teamId === userTeam.id)
+      );
+      const [mySide, opponentSide] = matchup?.home.teamId === userTeam.id
+        ? [matchup.home, matchup.away]
+        : [matchup?.away, matchup?.home];
+
+      // Bye weeks have no matchup lineup; fall back to the full roster
+      const myEntries = mySide?.rosterForCurrentScoringPeriod?.entries ??
+        (await espnFantasyAPI.getRosters(leagueConfig, week)).find(team => team.id === userTeam.id)?.roster?.entries ??
+        [];
+
+      const roster: FantasyRoster = {
+        leagueId: leagueConfig.leagueId,
+        teamId: String(userTeam.id),
+        teamName: leagueConfig.customTeamName || espnFantasyAPI.getTeamName(userTeam),
+        ownerId: userTeam.primaryOwner || 'current_user',
+        platform: 'ESPN',
+        players: this.buildESPNPlayers(leagueConfig.leagueId, myEntries, rosterPlayers),
+        lastUpdated: new Date(),
+        emptyStarterSlots: await this.countEmptyESPNSlots(leagueConfig, myEntries)
+      };
+
+      this.cache.rosters.set(this.getRosterKey('ESPN', leagueConfig.leagueId, false), roster);
+
+      const opponentTeam = opponentSide && league.teams.find(team => team.id === opponentSide.teamId);
+      if (opponentSide && opponentTeam) {
+        this.cache.rosters.set(this.getRosterKey('ESPN', leagueConfig.leagueId, true), {
+          leagueId: leagueConfig.leagueId,
+          teamId: String(opponentTeam.id),
+          teamName: espnFantasyAPI.getTeamName(opponentTeam),
+          ownerId: opponentTeam.primaryOwner || 'opponent',
+          platform: 'ESPN',
+          players: this.buildESPNPlayers(leagueConfig.leagueId, opponentSide.rosterForCurrentScoringPeriod?.entries ?? [], rosterPlayers),
+          lastUpdated: new Date(),
+          isOpponent: true
+        });
+      }
+
+      let espnScoring: YahooScoringSettings;
+      try {
+        espnScoring = await espnFantasyAPI.getLeagueScoring(leagueConfig);
+      } catch (scoringError) {
+        debugLogger.warning('EVENT_ATTRIBUTION', 'Failed to load ESPN scoring settings, using standard', {
+          leagueId: leagueConfig.leagueId,
+          error: scoringError instanceof Error ? scoringError.message : scoringError
+        });
+        espnScoring = fantasyPointsCalculator.getYahooStandardSettings();
+      }
+
+      this.cache.scoringSettings.set(
+        leagueConfig.leagueId,
+        this.toLeagueScoringSettings(leagueConfig.leagueId, 'ESPN', espnScoring)
+      );
+
+      debugLogger.success('EVENT_ATTRIBUTION', 'ESPN roster loaded successfully', {
+        leagueId: leagueConfig.leagueId,
+        playerCount: roster.players.length,
+        hasOpponent: Boolean(opponentTeam)
+      });
+
+    } catch (error) {
+      debugLogger.error('EVENT_ATTRIBUTION', 'Failed to load ESPN roster', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Starting slots from the league's lineup settings that no roster entry fills
+   */
+  private async countEmptyESPNSlots(leagueConfig: LeagueConfig, entries: ESPNRosterEntry[]): Promise<number | undefined> {
+    try {
+      const league = await espnFantasyAPI.getLeague(leagueConfig);
+      return espnFantasyAPI.countEmptyStarterSlots(league, entries);
+    } catch (error) {
+      debugLogger.warning('EVENT_ATTRIBUTION', 'Could not load ESPN lineup settings', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Convert ESPN roster entries to our format and register them with the mapping service
+   */
+  private buildESPNPlayers(leagueId: string, entries: ESPNRosterEntry[], rosterPlayers: RosterPlayer[]): FantasyPlayer[] {
+    return entries.map(entry => {
+      const player = entry.playerPoolEntry.player;
+      const fantasyPlayer: FantasyPlayer = {
+        id: `${leagueId}-${player.id}`,
+        platformPlayerId: String(player.id),
+        name: player.fullName,
+        position: ESPN_POSITIONS[player.defaultPositionId] || 'UNKNOWN',
+        team: ESPN_PRO_TEAMS[player.proTeamId] || 'UNKNOWN',
+        isStarter: espnFantasyAPI.isStarter(entry),
+        isActive: !isOutInjuryStatus(player.injuryStatus),
+        injuryStatus: player.injuryStatus && player.injuryStatus !== 'ACTIVE' ? player.injuryStatus : undefined
+      };
+
+      rosterPlayers.push({
+        id: fantasyPlayer.platformPlayerId,
+        name: fantasyPlayer.name,
+        team: fantasyPlayer.team,
+        position: fantasyPlayer.position,
+        platform: 'ESPN'
+      });
+
+      return fantasyPlayer;
+    });
+  }
+
+  private buildYahooPlayers(leagueId: string, roster: YahooTeamRoster, rosterPlayers: RosterPlayer[]): FantasyPlayer[] {
+    return roster.players.map(player => {
+      const fantasyPlayer: FantasyPlayer = {
+        id: `${leagueId}-${player.player_id}`,
+        platformPlayerId: player.player_id,
+        name: player.name,
+        // Multi-position players are listed like 'WR,TE'
+        position: player.display_position.split(',')[0] || 'UNKNOWN',
+        team: player.editorial_team_abbr || 'UNKNOWN',
+        isStarter: !YAHOO_RESERVE_SLOTS.has(player.selected_position),
+        isActive: !isOutInjuryStatus(player.status),
+        injuryStatus: player.status
+      };
+
+      rosterPlayers.push({
+        id: fantasyPlayer.platformPlayerId,
+        name: fantasyPlayer.name,
+        team: fantasyPlayer.team,
+        position: fantasyPlayer.position,
+        platform: 'Yahoo'
+      });
+
+      return fantasyPlayer;
+    });
+  }
+
+  /**
+   * Internal league scoring for platforms whose rules parse into the calculator's Yahoo shape
+   */
+  private toLeagueScoringSettings(leagueId: string, platform: Platform, rules: YahooScoringSettings): LeagueScoringSettings {
+    return {
+      leagueId,
+      platform,
+      pointsPerPassingYard: rules.passingYards,
+      pointsPerPassingTd: rules.passingTDs,
+      pointsPerRushingYard: rules.rushingYards,
+      pointsPerRushingTd: rules.rushingTDs,
+      pointsPerReceivingYard: rules.receivingYards,
+      pointsPerReceivingTd: rules.receivingTDs,
+      pointsPerReception: rules.receptions,
+      pointsPerFieldGoal: rules.fieldGoals['0-39'],
+      pointsPerSafety: rules.safeties,
+      pointsPerFumble: rules.fumbles,
+      pointsPerInterception: rules.interceptions, // For QB throwing interceptions
+      customRules: {},
+      calculatorSettings: rules,
+      lastUpdated: new Date()
+    };
+  }
+
+  /**
+   * Convert a Sleeper roster's players to our format and register them with the mapping service
+   */
+  private async buildSleeperPlayers(
+    leagueId: string,
+    sleeperRoster: SleeperRoster,
+    rosterPlayers: RosterPlayer[]
+  ): Promise<FantasyPlayer[]> {
+    const fantasyPlayers: FantasyPlayer[] = [];
+    const rosterPlayerIds = [...new Set([...(sleeperRoster.players || []), ...(sleeperRoster.starters || [])])]
+      .filter(playerId => playerId !== SLEEPER_EMPTY_SLOT);
+
+    // One cached fetch of the player database covers names, teams and injuries
+    const players = await sleeperAPIEnhanced.getPlayers();
+
+    for (const playerId of rosterPlayerIds) {
+      try {
+        const player = players[playerId];
+        const playerName = player?.full_name || `Player ${playerId}`;
+
+        const fantasyPlayer: FantasyPlayer = {
+          id: `${leagueId}-${playerId}`,
+          platformPlayerId: playerId,
+          name: playerName,
+          position: player?.position || 'UNKNOWN',
+          team: player?.team || 'UNKNOWN',
+          isStarter: sleeperRoster.starters?.includes(playerId) || false,
+          isActive: !isOutInjuryStatus(player?.injury_status),
+          injuryStatus: player?.injury_status || undefined
+        };
+
+        fantasyPlayers.push(fantasyPlayer);
+
+        // Add to roster players for mapping service
+        rosterPlayers.push({
+          id: playerId,
+          name: playerName,
+          team: fantasyPlayer.team,
+          position: fantasyPlayer.position,
+          platform: 'Sleeper'
+        });
+
+      } catch (playerError) {
+        debugLogger.warning('EVENT_ATTRIBUTION', `Could not resolve Sleeper player ${playerId}`, playerError);
+      }
+    }
+
+    return fantasyPlayers;
+  }
+
+  private countEmptySleeperSlots(sleeperRoster: SleeperRoster): number {
+    return (sleeperRoster.starters || []).filter(playerId => playerId === SLEEPER_EMPTY_SLOT).length;
+  }
+
+  private getRosterKey(platform: Platform, leagueId: string, isOpponent: boolean): string {
+    return `${platform}-${leagueId}${isOpponent ? '-opponent' : ''}`;
+  }
+
+  /**
+   * Composite ID stored in the player mapping cache, parsed back in attributeEvent
+   */
+  private toMappedPlayer(roster: FantasyRoster, player: FantasyPlayer, team: string, position: string): MappedRosterPlayer {
+    return {
+      id: `${roster.leagueId}-${player.platformPlayerId}${roster.isOpponent ? '-opponent' : ''}`,
+      name: player.name,
+      team,
+      position,
+      platform: roster.platform,
+      leagueId: roster.leagueId,
+      platformPlayerId: player.platformPlayerId,
+      isOpponent: Boolean(roster.isOpponent)
+    };
+  }
+
   private async buildPlayerMappingCache(): Promise<void> {
     this.cache.playerMappings.clear();
 
+    this.addDefenseMappings();
+
     debugLogger.info('EVENT_ATTRIBUTION', 'Building player mapping cache from database');
 
-    // Collect all Sleeper player IDs from rosters
-    const sleeperPlayerIds: string[] = [];
+    for (const adapter of platformRegistry.list()) {
+      if (adapter.mapsPlayersByDatabaseId) {
+        await this.addDatabaseMappings(adapter.platform, adapter.playerIdColumn);
+      } else {
+        await this.addNameMappings(adapter.platform);
+      }
+    }
+  }
+
+  /**
+   * Map a platform's rostered players to Tank01 IDs through their player_mappings ID column
+   */
+  private async addDatabaseMappings(platform: Platform, idColumn: PlayerIdColumn): Promise<void> {
+    // Collect all player IDs for this platform from rosters
+    const platformPlayerIds: string[] = [];
     for (const roster of this.cache.rosters.values()) {
-      if (roster.platform === 'Sleeper') {
+      if (roster.platform === platform) {
         for (const player of roster.players) {
-          sleeperPlayerIds.push(player.platformPlayerId);
+          platformPlayerIds.push(player.platformPlayerId);
         }
       }
     }
 
-    if (sleeperPlayerIds.length === 0) {
-      debugLogger.warning('EVENT_ATTRIBUTION', 'No Sleeper players to map');
+    if (platformPlayerIds.length === 0) {
+      debugLogger.info('EVENT_ATTRIBUTION', `No ${platform} players to map`);
       return;
     }
 
     try {
-      // Query player_mappings table to get Tank01 IDs for Sleeper players
+      // Query player_mappings table to get Tank01 IDs for the platform's players
       const { data: mappings, error } = await supabase
         .from('player_mappings')
-        .select('tank01_id, sleeper_id, name, team, position')
-        .in('sleeper_id', sleeperPlayerIds);
+        .select('tank01_id, yahoo_id, sleeper_id, espn_id, name, team, position')
+        .in(idColumn, [...new Set(platformPlayerIds)]);
 
       if (error) {
-        debugLogger.error('EVENT_ATTRIBUTION', 'Failed to query player mappings', error);
+        debugLogger.error('EVENT_ATTRIBUTION', `Failed to query ${platform} player mappings`, error);
         return;
       }
 
       if (!mappings || mappings.length === 0) {
-        debugLogger.warning('EVENT_ATTRIBUTION', 'No player mappings found in database');
+        debugLogger.warning('EVENT_ATTRIBUTION', `No ${platform} player mappings found in database`);
         return;
       }
 
       // Build Tank01 ID -> Fantasy Players mapping
       for (const mapping of mappings) {
-        if (!mapping.tank01_id || !mapping.sleeper_id) continue;
+        const platformPlayerId = mapping[idColumn];
+        if (!mapping.tank01_id || !platformPlayerId) continue;
 
-        // Find all fantasy teams that have this Sleeper player
-        const fantasyPlayers: RosterPlayer[] = [];
+        // Find all fantasy teams that have this player
+        const fantasyPlayers = this.cache.playerMappings.get(mapping.tank01_id) || [];
 
         for (const roster of this.cache.rosters.values()) {
-          if (roster.platform !== 'Sleeper') continue;
+          if (roster.platform !== platform) continue;
 
-          const player = roster.players.find(p => p.platformPlayerId === mapping.sleeper_id);
+          const player = roster.players.find(p => p.platformPlayerId === platformPlayerId);
           if (player) {
-            fantasyPlayers.push({
-              id: `${roster.leagueId}-${player.platformPlayerId}`,
-              name: player.name,
-              team: mapping.team || player.team,
-              position: mapping.position || player.position,
-              platform: 'Sleeper'
-            });
+            fantasyPlayers.push(this.toMappedPlayer(roster, player, mapping.team || player.team, mapping.position || player.position));
           }
         }
 
@@ -698,17 +979,173 @@ export class EventAttributionService {
         }
       }
 
-      debugLogger.success('EVENT_ATTRIBUTION', 'Player mapping cache built from database', {
-        sleeperPlayers: sleeperPlayerIds.length,
+      debugLogger.success('EVENT_ATTRIBUTION', `${platform} player mappings built from database`, {
+        platformPlayers: platformPlayerIds.length,
         mappingsFound: mappings.length,
         tank01MappingsCreated: this.cache.playerMappings.size
       });
 
     } catch (error) {
-      debugLogger.error('EVENT_ATTRIBUTION', 'Failed to build player mapping cache', error);
+      debugLogger.error('EVENT_ATTRIBUTION', `Failed to build ${platform} player mapping cache`, error);
+    }
+  }
+
+  /**
+   * Map a platform's rostered players to Tank01 IDs by name and NFL team, for
+   * platforms whose player IDs aren't stored in player_mappings. A name that
+   * matches more than one player and can't be split by team is left unmapped.
+   */
+  private async addNameMappings(platform: Platform): Promise<void> {
+    const adapter = platformRegistry.get(platform);
+    const rosteredPlayers: Array<{ roster: FantasyRoster; player: FantasyPlayer }> = [];
+    for (const roster of this.cache.rosters.values()) {
+      if (roster.platform !== platform) continue;
+      for (const player of roster.players) {
+        // Defenses are already mapped by team
+        if (!adapter.getDefenseTeam(player)) {
+          rosteredPlayers.push({ roster, player });
+        }
+      }
+    }
+
+    if (rosteredPlayers.length === 0) {
+      debugLogger.info('EVENT_ATTRIBUTION', `No ${platform} players to map`);
+      return;
+    }
+
+    try {
+      const { data: mappings, error } = await supabase
+        .from('player_mappings')
+        .select('tank01_id, name, team, position')
+        .in('name', [...new Set(rosteredPlayers.map(({ player }) => player.name))]);
+
+      if (error) {
+        debugLogger.error('EVENT_ATTRIBUTION', `Failed to query ${platform} player mappings by name`, error);
+        return;
+      }
+
+      const candidatesByName = new Map<string, NonNullable<typeof mappings>>();
+      for (const mapping of mappings || []) {
+        if (!mapping.tank01_id) continue;
+        const name = normalizePlayerName(mapping.name);
+        candidatesByName.set(name, [...(candidatesByName.get(name) || []), mapping]);
+      }
+
+      let matched = 0;
+      for (const { roster, player } of rosteredPlayers) {
+        const candidates = candidatesByName.get(normalizePlayerName(player.name)) || [];
+        const team = safeUpper(player.team);
+        const sameTeam = candidates.filter(candidate => safeUpper(candidate.team) === team);
+        const matches = sameTeam.length > 0 ? sameTeam : candidates;
+        if (matches.length !== 1) continue;
+
+        const [mapping] = matches;
+        const fantasyPlayers = this.cache.playerMappings.get(mapping.tank01_id) || [];
+        fantasyPlayers.push(this.toMappedPlayer(roster, player, mapping.team || player.team, mapping.position || player.position));
+        this.cache.playerMappings.set(mapping.tank01_id, fantasyPlayers);
+        matched++;
+      }
+
+      debugLogger.success('EVENT_ATTRIBUTION', `${platform} player mappings built by name`, {
+        platformPlayers: rosteredPlayers.length,
+        matched,
+        unmatched: rosteredPlayers.length - matched
+      });
+    } catch (error) {
+      debugLogger.error('EVENT_ATTRIBUTION', `Failed to match ${platform} players by name`, error);
     }
   }
 
+  /**
+   * Map team defenses to the DEF-{team} IDs Tank01 DST events use
+   */
+  private addDefenseMappings(): void {
+    for (const roster of this.cache.rosters.values()) {
+      const adapter = platformRegistry.get(roster.platform);
+      for (const player of roster.players) {
+        const teamAbbr = adapter.getDefenseTeam(player);
+        if (!teamAbbr) continue;
+
+        const key = `DEF-${teamAbbr}`;
+        const existing = this.cache.playerMappings.get(key) || [];
+        existing.push(this.toMappedPlayer(roster, player, teamAbbr, 'DEF'));
+        this.cache.playerMappings.set(key, existing);
+      }
+    }
+  }
+
+  /**
+   * Convert raw NFL stat deltas into the calculator's stat shape
+   */
+  private toScoringEventData(nflEvent: NFLScoringEvent): ScoringEventData {
+    const stats = nflEvent.stats;
+
+    return {
+      type: nflEvent.eventType,
+      player: nflEvent.player,
+      stats: {
+        passingYards: stats.passingYards,
+        passingTDs: stats.passingTouchdowns,
+        interceptions: stats.interceptions,
+        rushingYards: stats.rushingYards,
+        rushingTDs: stats.rushingTouchdowns,
+        receivingYards: stats.receivingYards,
+        receivingTDs: stats.receivingTouchdowns,
+        receptions: stats.receptions,
+        fumbles: stats.fumblesLost,
+        fieldGoalsMade: stats.fieldGoalsMade,
+        fieldGoalDistance: stats.fieldGoalDistance,
+        extraPointsMade: stats.extraPointsMade,
+        sacks: stats.sacks,
+        defenseInterceptions: stats.defensiveInterceptions,
+        fumbleRecoveries: stats.fumbleRecoveries,
+        defenseTDs: stats.defensiveTouchdowns,
+        safeties: stats.safeties,
+        defensePoints: stats.pointsAllowed,
+        previousDefensePoints: stats.previousPointsAllowed
+      }
+    };
+  }
+
+  /**
+   * Convert cached league scoring into the calculator's platform-specific settings
+   */
+  private toCalculatorSettings(settings: LeagueScoringSettings): YahooScoringSettings | SleeperScoringSettings {
+    if (platformRegistry.get(settings.platform).scoringStyle === 'standard') {
+      return {
+        ...(settings.calculatorSettings ?? fantasyPointsCalculator.getYahooStandardSettings()),
+        passingYards: settings.pointsPerPassingYard,
+        passingTDs: settings.pointsPerPassingTd,
+        interceptions: settings.pointsPerInterception,
+        rushingYards: settings.pointsPerRushingYard,
+        rushingTDs: settings.pointsPerRushingTd,
+        receivingYards: settings.pointsPerReceivingYard,
+        receivingTDs: settings.pointsPerReceivingTd,
+        receptions: settings.pointsPerReception,
+        fumbles: settings.pointsPerFumble,
+        safeties: settings.pointsPerSafety
+      };
+    }
+
+    // Sleeper-style stat keys; custom rules may carry non-numeric metadata
+    const numericRules = Object.fromEntries(
+      Object.entries(settings.customRules).filter(([, value]) => typeof value === 'number')
+    );
+
+    return {
+      ...numericRules,
+      pass_yd: settings.pointsPerPassingYard,
+      pass_td: settings.pointsPerPassingTd,
+      pass_int: settings.pointsPerInterception,
+      rush_yd: settings.pointsPerRushingYard,
+      rush_td: settings.pointsPerRushingTd,
+      rec_yd: settings.pointsPerReceivingYard,
+      rec_td: settings.pointsPerReceivingTd,
+      rec: settings.pointsPerReception,
+      fum_lost: settings.pointsPerFumble
+    };
+  }
+
   private mapNFLEventToFantasyEvent(nflEventType: NFLScoringEvent['eventType']): ConfigScoringEvent['eventType'] | null {
     const mapping: Record<NFLScoringEvent['eventType'], ConfigScoringEvent['eventType'] | null> = {
       'passingtd': 'passing_td',
@@ -717,11 +1154,18 @@ export class EventAttributionService {
       'passingyards': 'passing_yards',
       'rushingyards': 'rushing_yards',
       'receivingyards': 'receiving_yards',
-      'fieldgoal': null, // Kickers not typically tracked in basic fantasy
-      'safety': null,
-      'fumble': null,
-      'fumblelost': null,
-      'interception': null
+      'fieldgoal': 'field_goal',
+      'extrapoint': 'extra_point',
+      'safety': 'safety',
+      'sack': 'sack',
+      'defensiveinterception': 'defensive_interception',
+      'fumblerecovery': 'fumble_recovery',
+      'defensivetd': 'defensive_td',
+      'pointsallowed': 'points_allowed',
+      'fumble': 'fumble_lost',
+      'fumblelost': 'fumble_lost',
+      'interception': 'interception',
+      'correction': 'stat_correction'
     };
 
     return mapping[nflEventType] || null;
@@ -772,6 +1216,27 @@ export class EventAttributionService {
       case 'safety':
         return `Safety ${pts}`;
       
+      case 'extrapoint':
+        return `Extra point ${pts}`;
+      
+      case 'sack':
+        return `${stats.sacks || 1} sack ${pts}`;
+      
+      case 'defensiveinterception':
+        return `Defensive interception ${pts}`;
+      
+      case 'fumblerecovery':
+        return `Fumble recovery ${pts}`;
+      
+      case 'defensivetd':
+        return `Defensive TD ${pts}`;
+      
+      case 'correction':
+        return `Stat correction: ${nflEvent.description} ${pts}`;
+      
+      case 'pointsallowed':
+        return `Now allowing ${stats.pointsAllowed} pts ${pts}`;
+      
       default:
         // Fallback to original description if event type is unknown
         return `${nflEvent.description} ${pts}`;
@@ -7,12 +7,15 @@ export interface ConfigScoringEvent {
   playerId: string;
   playerName: string;
   teamAbbr: string;
-  eventType: 'rushing_td' | 'passing_td' | 'receiving_td' | 'rushing_yards' | 'passing_yards' | 'receiving_yards' | 'reception' | 'interception' | 'fumble' | 'fumble_lost' | 'field_goal' | 'safety' | 'two_point_conversion';
+  eventType: 'rushing_td' | 'passing_td' | 'receiving_td' | 'rushing_yards' | 'passing_yards' | 'receiving_yards' | 'reception' | 'interception' | 'fumble' | 'fumble_lost' | 'field_goal' | 'extra_point' | 'safety' | 'sack' | 'defensive_interception' | 'fumble_recovery' | 'defensive_td' | 'points_allowed' | 'stat_correction' | 'two_point_conversion';
   description: string;
   fantasyPoints: number;
   timestamp: Date;
   week: number;
   leagueId: string;
+  backfilled?: boolean; // Caught up after the app was closed during the play
+  impact?: 'for' | 'against'; // 'against' for the opponent's players; defaults to 'for'
+  isStarter?: boolean; // false when the player was on the bench; defaults to true
 }
 
 export interface EventFilter {
@@ -47,12 +50,18 @@ export class EventStorageService {
   }
 
   /**
-   * Add a new fantasy scoring event (dual-write to localStorage + Supabase)
+   * Add a new fantasy scoring event (dual-write to localStorage + Supabase).
+   * Event IDs are deterministic keys, so an event already stored is skipped.
    */
   addEvent(leagueId: string, event: ConfigScoringEvent): void {
     try {
-      // 1. Immediate localStorage write (for fast UI updates)
       const events = this.getAllEvents();
+      if (events.some(e => e.id === event.id)) {
+        debugLogger.info('EVENT_STORAGE', 'Duplicate event skipped', { eventId: event.id, leagueId });
+        return;
+      }
+      
+      // 1. Immediate localStorage write (for fast UI updates)
       events.push(event);
       
       // Keep only last 1000 events to prevent storage bloat
@@ -77,6 +86,42 @@ export class EventStorageService {
     }
   }
 
+  /**
+   * Merge events that originated elsewhere (Supabase hydration or Realtime) into
+   * localStorage without writing them back. Rows saved before event keys existed
+   * carry database IDs, so events are also matched on league, player, type and timestamp.
+   * Returns the number of events added.
+   */
+  mergeRemoteEvents(remoteEvents: ConfigScoringEvent[]): number {
+    try {
+      const events = this.getAllEvents();
+      const knownKeys = new Set(events.flatMap(e => [e.id, this.getMergeKey(e)]));
+
+      const newEvents = remoteEvents.filter(e => !knownKeys.has(e.id) && !knownKeys.has(this.getMergeKey(e)));
+      if (newEvents.length === 0) return 0;
+
+      const merged = [...events, ...newEvents]
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .slice(-this.maxEvents);
+
+      localStorage.setItem(this.storageKey, JSON.stringify(merged));
+
+      debugLogger.info('EVENT_STORAGE', 'Merged remote events', {
+        received: remoteEvents.length,
+        added: newEvents.length
+      });
+
+      return newEvents.length;
+    } catch (error) {
+      debugLogger.error('EVENT_STORAGE', 'Failed to merge remote events', error);
+      return 0;
+    }
+  }
+
+  private getMergeKey(event: ConfigScoringEvent): string {
+    return `${event.leagueId}|${event.playerId}|${event.eventType}|${event.timestamp.getTime()}`;
+  }
+
   /**
    * Legacy method for compatibility
    */
@@ -1,4 +1,6 @@
 import type { Platform } from '../types/fantasy';
+import { safeLower } from '../utils/strings';
+import { platformRegistry } from './PlatformRegistry';
 
 // Scoring event interface for calculations
 export interface ScoringEventData {
@@ -22,8 +24,10 @@ export interface ScoringEventData {
     fieldGoalsMade?: number;
     fieldGoalDistance?: number;
     extraPointsMade?: number;
-    defensePoints?: number;
+    defensePoints?: number; // Points allowed (cumulative)
+    previousDefensePoints?: number; // Points allowed before this change, for tier swings
     defenseTDs?: number;
+    defenseInterceptions?: number;
     sacks?: number;
     interceptionTDs?: number;
     fumbleRecoveries?: number;
@@ -46,6 +50,7 @@ export interface YahooScoringSettings {
   extraPoints: number;
   defensePoints: Record<string, number>; // points allowed ranges
   defenseTDs: number;
+  defenseInterceptions: number;
   sacks: number;
   interceptionTDs: number;
   fumbleRecoveries: number;
@@ -100,6 +105,7 @@ export class FantasyPointsCalculator {
       '35+': -4
     },
     defenseTDs: 6,
+    defenseInterceptions: 2,
     sacks: 1,
     interceptionTDs: 6,
     fumbleRecoveries: 2,
@@ -120,6 +126,17 @@ export class FantasyPointsCalculator {
     }
   };
 
+  // Sleeper points-allowed stat keys by tier range
+  private readonly SLEEPER_POINTS_ALLOWED_KEYS: Record<string, string> = {
+    '0': 'pts_allow_0',
+    '1-6': 'pts_allow_1_6',
+    '7-13': 'pts_allow_7_13',
+    '14-20': 'pts_allow_14_20',
+    '21-27': 'pts_allow_21_27',
+    '28-34': 'pts_allow_28_34',
+    '35+': 'pts_allow_35p'
+  };
+
   public static getInstance(): FantasyPointsCalculator {
     if (!FantasyPointsCalculator.instance) {
       FantasyPointsCalculator.instance = new FantasyPointsCalculator();
@@ -127,6 +144,22 @@ export class FantasyPointsCalculator {
     return FantasyPointsCalculator.instance;
   }
 
+  /**
+   * Get a copy of the Yahoo standard scoring rules (base for league overrides)
+   */
+  public getYahooStandardSettings(): YahooScoringSettings {
+    return {
+      ...this.YAHOO_STANDARD,
+      fieldGoals: { ...this.YAHOO_STANDARD.fieldGoals },
+      defensePoints: { ...this.YAHOO_STANDARD.defensePoints },
+      bonuses: {
+        passingYards: [...this.YAHOO_STANDARD.bonuses.passingYards],
+        rushingYards: [...this.YAHOO_STANDARD.bonuses.rushingYards],
+        receivingYards: [...this.YAHOO_STANDARD.bonuses.receivingYards]
+      }
+    };
+  }
+
   /**
    * Calculate points using Yahoo standard scoring rules
    */
@@ -149,7 +182,8 @@ export class FantasyPointsCalculator {
     // Process Sleeper scoring settings dynamically
     Object.entries(scoringSettings).forEach(([statKey, pointValue]) => {
       const statValue = this.getStatValue(stats, statKey);
-      if (statValue && statValue > 0) {
+      // Negative values are downward stat corrections and score negatively
+      if (statValue) {
         const points = statValue * pointValue;
         totalPoints += points;
         breakdown.push({
@@ -160,6 +194,28 @@ export class FantasyPointsCalculator {
       }
     });
 
+    // Field goals are scored by distance bucket
+    const bucketKey = stats.fieldGoalDistance ? this.getSleeperFieldGoalKey(stats.fieldGoalDistance) : null;
+    if (stats.fieldGoalsMade && bucketKey && scoringSettings[bucketKey] !== undefined) {
+      const bucketPoints = scoringSettings[bucketKey];
+      const points = stats.fieldGoalsMade * bucketPoints;
+      totalPoints += points;
+      breakdown.push({
+        category: 'Field Goals',
+        points,
+        description: `${stats.fieldGoalsMade} FG (${stats.fieldGoalDistance}yd) × ${bucketPoints} = ${points}`
+      });
+    }
+
+    // Points allowed tiers
+    const sleeperTiers: Record<string, number> = {};
+    Object.entries(this.SLEEPER_POINTS_ALLOWED_KEYS).forEach(([range, statKey]) => {
+      if (scoringSettings[statKey] !== undefined) {
+        sleeperTiers[range] = scoringSettings[statKey];
+      }
+    });
+    totalPoints += this.calculatePointsAllowedSwing(stats, sleeperTiers, breakdown);
+
     return { totalPoints, breakdown };
   }
 
@@ -171,20 +227,18 @@ export class FantasyPointsCalculator {
     platform: Platform,
     scoringSettings?: YahooScoringSettings | SleeperScoringSettings
   ): CalculationResult {
-    switch (platform) {
-      case 'Yahoo':
-        return this.calculateYahooStandard(event);
-      
-      case 'Sleeper':
-        if (!scoringSettings) {
-          throw new Error('Sleeper requires custom scoring settings');
-        }
-        return this.calculateSleeperCustom(event, scoringSettings as SleeperScoringSettings);
-      
-      default:
-        // Default to Yahoo standard for other platforms
-        return this.calculateYahooStandard(event);
+    if (platformRegistry.get(platform).scoringStyle === 'sleeper') {
+      if (!scoringSettings) {
+        throw new Error(`${platform} requires custom scoring settings`);
+      }
+      return this.calculateSleeperCustom(event, scoringSettings as SleeperScoringSettings);
+    }
+
+    // Yahoo and ESPN league rules share the modifier-based settings shape
+    if (scoringSettings) {
+      return this.calculateWithSettings(event, scoringSettings as YahooScoringSettings, safeLower(platform));
     }
+    return this.calculateYahooStandard(event);
   }
 
   /**
@@ -337,6 +391,16 @@ export class FantasyPointsCalculator {
       });
     }
 
+    if (stats.defenseInterceptions) {
+      const points = stats.defenseInterceptions * settings.defenseInterceptions;
+      totalPoints += points;
+      breakdown.push({
+        category: 'Defensive INTs',
+        points,
+        description: `${stats.defenseInterceptions} INTs × ${settings.defenseInterceptions} = ${points}`
+      });
+    }
+
     if (stats.sacks) {
       const points = stats.sacks * settings.sacks;
       totalPoints += points;
@@ -377,6 +441,9 @@ export class FantasyPointsCalculator {
       });
     }
 
+    // Points allowed tier swing
+    totalPoints += this.calculatePointsAllowedSwing(stats, settings.defensePoints, breakdown);
+
     // Bonus calculations
     totalPoints += this.calculateBonuses(stats, settings, breakdown);
 
@@ -441,6 +508,60 @@ export class FantasyPointsCalculator {
     return bonusPoints;
   }
 
+  /**
+   * Points gained or lost when a defense moves between points-allowed tiers
+   */
+  private calculatePointsAllowedSwing(
+    stats: ScoringEventData['stats'],
+    tiers: Record<string, number>,
+    breakdown: Array<{ category: string; points: number; description: string }>
+  ): number {
+    if (stats.defensePoints === undefined || stats.previousDefensePoints === undefined) {
+      return 0;
+    }
+
+    const points = this.getPointsAllowedTierValue(stats.defensePoints, tiers) -
+      this.getPointsAllowedTierValue(stats.previousDefensePoints, tiers);
+
+    if (points !== 0) {
+      breakdown.push({
+        category: 'Points Allowed',
+        points,
+        description: `${stats.previousDefensePoints} → ${stats.defensePoints} pts allowed = ${points}`
+      });
+    }
+
+    return points;
+  }
+
+  /**
+   * Look up a points-allowed total in tiers keyed like '0', '1-6' or '35+'
+   */
+  private getPointsAllowedTierValue(pointsAllowed: number, tiers: Record<string, number>): number {
+    for (const [range, points] of Object.entries(tiers)) {
+      if (range.endsWith('+')) {
+        if (pointsAllowed >= parseInt(range)) return points;
+      } else if (range.includes('-')) {
+        const [min, max] = range.split('-').map(Number);
+        if (pointsAllowed >= min && pointsAllowed <= max) return points;
+      } else if (pointsAllowed === Number(range)) {
+        return points;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Sleeper field goal stat key for a kick distance
+   */
+  private getSleeperFieldGoalKey(distance: number): string {
+    if (distance < 20) return 'fgm_0_19';
+    if (distance < 30) return 'fgm_20_29';
+    if (distance < 40) return 'fgm_30_39';
+    if (distance < 50) return 'fgm_40_49';
+    return 'fgm_50p';
+  }
+
   /**
    * Get stat value from stats object using Sleeper key format
    */
@@ -459,9 +580,13 @@ export class FantasyPointsCalculator {
       'xpm': 'extraPointsMade',
       'def_td': 'defenseTDs',
       'sack': 'sacks',
+      'def_sack': 'sacks',
+      'int': 'defenseInterceptions',
+      'def_int': 'defenseInterceptions',
       'int_td': 'interceptionTDs',
       'fum_rec': 'fumbleRecoveries',
-      'safe': 'safeties'
+      'safe': 'safeties',
+      'def_safe': 'safeties'
     };
 
     const mappedKey = mappings[statKey];
@@ -486,9 +611,13 @@ export class FantasyPointsCalculator {
       'xpm': 'Extra Points Made',
       'def_td': 'Defensive TDs',
       'sack': 'Sacks',
+      'def_sack': 'Sacks',
+      'int': 'Defensive INTs',
+      'def_int': 'Defensive INTs',
       'int_td': 'Interception TDs',
       'fum_rec': 'Fumble Recoveries',
-      'safe': 'Safeties'
+      'safe': 'Safeties',
+      'def_safe': 'Safeties'
     };
 
     return displayNames[statKey] || statKey;
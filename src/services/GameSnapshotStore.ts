@@ -0,0 +1,107 @@
+import { debugLogger } from '../utils/debugLogger';
+import { openObjectStoreDatabase } from '../utils/indexedDB';
+
+// Persisted per-game stat state; snapshots are Tank01 PlayerStatSnapshot records
+export interface PersistedGameState<TSnapshot> {
+  gameId: string;
+  savedAt: number;
+  snapshots: TSnapshot[];
+  processedPlays: string[];
+}
+
+const DB_NAME = 'fantasy-live-stats';
+const DB_VERSION = 1;
+const STORE_NAME = 'game_snapshots';
+const MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000; // Games older than 3 days are never resumed
+
+/**
+ * Game Snapshot Store
+ * IndexedDB persistence for live game stat snapshots so a reload can diff
+ * against the last seen state instead of re-seeding. All failures are logged
+ * and swallowed; without storage the caller simply falls back to seeding.
+ */
+export class GameSnapshotStore {
+  private static instance: GameSnapshotStore;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): GameSnapshotStore {
+    if (!GameSnapshotStore.instance) {
+      GameSnapshotStore.instance = new GameSnapshotStore();
+    }
+    return GameSnapshotStore.instance;
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = openObjectStoreDatabase({
+      name: DB_NAME,
+      version: DB_VERSION,
+      storeName: STORE_NAME,
+      keyPath: 'gameId',
+      logCategory: 'SNAPSHOT_STORE',
+      unavailableMessage: 'IndexedDB unavailable, snapshots will not persist'
+    }).then(db => {
+      if (db) this.pruneExpired();
+      return db;
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Load the persisted state for a game, or null if none is stored or it has expired
+   */
+  async load<TSnapshot>(gameId: string): Promise<PersistedGameState<TSnapshot> | null> {
+    const db = await this.openDatabase();
+    if (!db) return null;
+
+    return new Promise(resolve => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(gameId);
+      request.onsuccess = () => {
+        const state = request.result as PersistedGameState<TSnapshot> | undefined;
+        resolve(state && Date.now() - state.savedAt < MAX_AGE_MS ? state : null);
+      };
+      request.onerror = () => {
+        debugLogger.error('SNAPSHOT_STORE', `Failed to load snapshots for ${gameId}`, request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  /**
+   * Persist the latest state for a game (fire-and-forget)
+   */
+  async save<TSnapshot>(state: PersistedGameState<TSnapshot>): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(state);
+    transaction.onerror = () => {
+      debugLogger.error('SNAPSHOT_STORE', `Failed to save snapshots for ${state.gameId}`, transaction.error);
+    };
+  }
+
+  private pruneExpired(): void {
+    this.dbPromise?.then(db => {
+      if (!db) return;
+
+      const cutoff = Date.now() - MAX_AGE_MS;
+      const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if ((cursor.value as PersistedGameState<unknown>).savedAt < cutoff) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const gameSnapshotStore = GameSnapshotStore.getInstance();
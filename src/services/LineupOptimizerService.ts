@@ -0,0 +1,739 @@
+import { debugLogger } from '../utils/debugLogger';
+import { normalizeNameKey, safeLower } from '../utils/strings';
+import { LeagueConfig } from '../types/config';
+import { Platform } from '../types/fantasy';
+import { YahooMatchupTeam, YahooRosterPlayer, YahooTeamRoster } from '../types/yahoo';
+import { platformRegistry } from './PlatformRegistry';
+import { sleeperAPIEnhanced, SleeperLeague, SleeperPlayer, SleeperRoster, SleeperUser } from './SleeperAPIEnhanced';
+import { yahooFantasyAPI } from './YahooFantasyAPI';
+import { YahooDataService } from './YahooDataService';
+import {
+  espnFantasyAPI,
+  ESPNFantasyLeague,
+  ESPNRosterEntry,
+  ESPN_LINEUP_SLOTS,
+  ESPN_POSITIONS,
+  ESPN_PRO_TEAMS
+} from './ESPNFantasyAPI';
+import { tank01NFLDataService, NFLKickoff } from './Tank01NFLDataService';
+import { nflCalendarService } from './NFLCalendarService';
+import { isOutInjuryStatus } from './EventAttributionService';
+
+export interface LineupPlayer {
+  playerId: string;
+  name: string;
+  position: string;
+  team: string;
+  eligibleSlots: string[]; // Starting slots the player can fill, e.g. ['RB', 'FLEX']
+  slot: string | null;     // Current starting slot; null on the bench
+  projectedPoints: number;
+  isActive: boolean;       // Not listed OUT or on IR
+  injuryStatus?: string;
+  onBye: boolean;
+  locked: boolean;         // The player's game has kicked off, so they can't be moved
+}
+
+export interface LeagueLineup {
+  leagueId: string;
+  platform: Platform;
+  slots: string[]; // Starting slots in display order, e.g. ['QB', 'RB', 'RB', ..., 'FLEX', 'K', 'DEF']
+  players: LineupPlayer[];
+}
+
+export type LineupWarningType = 'inactive_starter' | 'bye_starter' | 'empty_slot' | 'bench_upgrade';
+
+export interface LineupWarning {
+  type: LineupWarningType;
+  slot: string;
+  playerId: string | null;
+  message: string;
+  pointsGained: number; // Projected points the suggested change adds
+}
+
+export interface LineupAssignment {
+  slot: string;
+  current: LineupPlayer | null;
+  optimal: LineupPlayer | null;
+}
+
+export interface LineupAnalysis {
+  warnings: LineupWarning[];
+  assignments: LineupAssignment[];
+  currentProjection: number;
+  optimalProjection: number;
+}
+
+// A past week's lineup as it was set, scored by the platform
+export interface FinishedWeekLineup {
+  lineup: LeagueLineup;
+  finalPoints: Record<string, number>; // Player ID -> points scored that week
+  matchupPoints: number;               // The team's final score as the platform reports it
+}
+
+interface LineupSource {
+  load: (config: LeagueConfig, week: number, schedule: ScheduleLookup) => Promise<LeagueLineup>;
+  loadFinishedWeek: (config: LeagueConfig, week: number) => Promise<FinishedWeekLineup>;
+}
+
+interface ScheduleLookup {
+  isOnBye: (team: string) => boolean;
+  isLocked: (team: string) => boolean;
+}
+
+// Flex slots and the positions they accept (Sleeper, Yahoo and ESPN spellings)
+const FLEX_SLOT_POSITIONS: Record<string, string[]> = {
+  FLEX: ['RB', 'WR', 'TE'],
+  'W/R/T': ['RB', 'WR', 'TE'],
+  SUPER_FLEX: ['QB', 'RB', 'WR', 'TE'],
+  'Q/W/R/T': ['QB', 'RB', 'WR', 'TE'],
+  OP: ['QB', 'RB', 'WR', 'TE'],
+  REC_FLEX: ['WR', 'TE'],
+  'W/T': ['WR', 'TE'],
+  'WR/TE': ['WR', 'TE'],
+  WRRB_FLEX: ['RB', 'WR'],
+  'W/R': ['RB', 'WR'],
+  'RB/WR': ['RB', 'WR'],
+  IDP_FLEX: ['DL', 'LB', 'DB']
+};
+
+// Platform spellings of the same position
+const POSITION_ALIASES: Record<string, string> = {
+  'D/ST': 'DEF',
+  DST: 'DEF',
+  DT: 'DEF',
+  PK: 'K'
+};
+
+const SLEEPER_RESERVE_SLOTS = new Set(['BN', 'IR', 'TAXI']);
+const YAHOO_RESERVE_SLOTS = new Set(['BN', 'IR']);
+const ESPN_IR_SLOT = 21;
+
+const normalizePosition = (position: string): string => {
+  const upper = position.toUpperCase();
+  return POSITION_ALIASES[upper] ?? upper;
+};
+
+const round = (points: number): number => Math.round(points * 10) / 10;
+
+// Sleeper projection matching a league's points per reception
+const projectionKeyFor = (receptionPoints: number): 'pts_ppr' | 'pts_half_ppr' | 'pts_std' =>
+  receptionPoints >= 1 ? 'pts_ppr' : receptionPoints >= 0.5 ? 'pts_half_ppr' : 'pts_std';
+
+// Name and team key for matching players across platforms: case, punctuation and suffixes ignored
+const playerMatchKey = (name: string, team: string): string =>
+  normalizeNameKey(
+    safeLower(name).replace(/[^a-z\s]/g, '').replace(/\s+(jr|sr|ii|iii|iv|v)$/, '').replace(/\s+/g, ' ').trim(),
+    team
+  );
+
+// Outweighs any projection, so the optimal lineup fills as many slots as it can first
+const FILLED_SLOT_BONUS = 1000;
+
+/**
+ * Assign each row at most one distinct column, maximizing the total weight
+ * (Hungarian method). null weights can't be assigned. Returns each row's column, or -1.
+ */
+const maxWeightAssignment = (weights: (number | null)[][], columns: number): number[] => {
+  const rows = weights.length;
+  // One "leave empty" column per row keeps every row assignable
+  const width = columns + rows;
+  const cost = (row: number, column: number): number => {
+    if (column >= columns) return 0;
+    const weight = weights[row][column];
+    return weight === null ? Number.MAX_SAFE_INTEGER : -weight;
+  };
+
+  // Potentials and matches are 1-indexed; column 0 is the search root
+  const rowPotential = new Array<number>(rows + 1).fill(0);
+  const columnPotential = new Array<number>(width + 1).fill(0);
+  const matchedRow = new Array<number>(width + 1).fill(0);
+  const previous = new Array<number>(width + 1).fill(0);
+
+  for (let row = 1; row <= rows; row++) {
+    matchedRow[0] = row;
+    let column = 0;
+    const minSlack = new Array<number>(width + 1).fill(Infinity);
+    const visited = new Array<boolean>(width + 1).fill(false);
+
+    do {
+      visited[column] = true;
+      const currentRow = matchedRow[column];
+      let delta = Infinity;
+      let nextColumn = 0;
+
+      for (let j = 1; j <= width; j++) {
+        if (visited[j]) continue;
+        const slack = cost(currentRow - 1, j - 1) - rowPotential[currentRow] - columnPotential[j];
+        if (slack < minSlack[j]) {
+          minSlack[j] = slack;
+          previous[j] = column;
+        }
+        if (minSlack[j] < delta) {
+          delta = minSlack[j];
+          nextColumn = j;
+        }
+      }
+
+      for (let j = 0; j <= width; j++) {
+        if (visited[j]) {
+          rowPotential[matchedRow[j]] += delta;
+          columnPotential[j] -= delta;
+        } else {
+          minSlack[j] -= delta;
+        }
+      }
+      column = nextColumn;
+    } while (matchedRow[column] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const prior = previous[column];
+      matchedRow[column] = matchedRow[prior];
+      column = prior;
+    } while (column !== 0);
+  }
+
+  const assignment = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= columns; j++) {
+    const row = matchedRow[j] - 1;
+    if (row >= 0 && weights[row][j - 1] !== null) {
+      assignment[row] = j - 1;
+    }
+  }
+  return assignment;
+};
+
+/**
+ * Lineup Optimizer Service
+ * Loads a league's full roster with projections and lineup slots, flags
+ * starters who are OUT or on bye, empty slots and bench players projected to
+ * outscore a starter they could replace, and builds the best legal lineup.
+ */
+export class LineupOptimizerService {
+  private static instance: LineupOptimizerService;
+
+  // Keyed by Platform so a newly registered platform won't compile without a source
+  private readonly lineupSources: Record<Platform, LineupSource> = {
+    Yahoo: {
+      load: (config, week, schedule) => this.loadYahooLineup(config, week, schedule),
+      loadFinishedWeek: (config, week) => this.loadYahooFinishedWeek(config, week)
+    },
+    Sleeper: {
+      load: (config, week, schedule) => this.loadSleeperLineup(config, week, schedule),
+      loadFinishedWeek: (config, week) => this.loadSleeperFinishedWeek(config, week)
+    },
+    ESPN: {
+      load: (config, week, schedule) => this.loadESPNLineup(config, week, schedule),
+      loadFinishedWeek: (config, week) => this.loadESPNFinishedWeek(config, week)
+    }
+  };
+
+  private constructor() {}
+
+  public static getInstance(): LineupOptimizerService {
+    if (!LineupOptimizerService.instance) {
+      LineupOptimizerService.instance = new LineupOptimizerService();
+    }
+    return LineupOptimizerService.instance;
+  }
+
+  /**
+   * This week's lineup for a league with bye and kickoff information filled in
+   */
+  async loadLineup(config: LeagueConfig): Promise<LeagueLineup> {
+    const source = this.getLineupSource(config);
+    const { week, season } = await nflCalendarService.getState();
+    let schedule: NFLKickoff[] = [];
+    try {
+      schedule = await tank01NFLDataService.getWeekSchedule(week, season);
+    } catch (error) {
+      debugLogger.warning('LINEUP_OPTIMIZER', 'No NFL schedule; bye and lock checks are skipped', error);
+    }
+
+    const lineup = await source.load(config, week, this.buildScheduleLookup(schedule));
+    debugLogger.info('LINEUP_OPTIMIZER', `Loaded ${lineup.platform} lineup for league ${config.leagueId}`, {
+      slots: lineup.slots.length,
+      players: lineup.players.length
+    });
+    return lineup;
+  }
+
+  /**
+   * A past week's lineup as it was set, with each player's final points and the
+   * team's final matchup score
+   */
+  async loadFinishedWeek(config: LeagueConfig, week: number): Promise<FinishedWeekLineup> {
+    return this.getLineupSource(config).loadFinishedWeek(config, week);
+  }
+
+  /**
+   * Check a lineup and work out the highest-projected legal one. Locked players
+   * stay where they are; OUT and bye-week players count as zero.
+   */
+  analyze(lineup: LeagueLineup): LineupAnalysis {
+    const value = (player: LineupPlayer | null) => player ? this.effectivePoints(player) : 0;
+    const warnings: LineupWarning[] = [];
+    const current = this.layoutCurrentLineup(lineup);
+
+    current.forEach((player, index) => {
+      const slot = lineup.slots[index];
+      if (!player) {
+        warnings.push({ type: 'empty_slot', slot, playerId: null, message: `${slot} slot is empty`, pointsGained: 0 });
+      } else if (!player.isActive) {
+        warnings.push({
+          type: 'inactive_starter',
+          slot,
+          playerId: player.playerId,
+          message: `${player.name} is listed ${player.injuryStatus || 'OUT'}`,
+          pointsGained: 0
+        });
+      } else if (player.onBye) {
+        warnings.push({ type: 'bye_starter', slot, playerId: player.playerId, message: `${player.name} is on bye`, pointsGained: 0 });
+      }
+    });
+
+    // Bench players who outproject a movable starter in a slot they can fill; biggest gains first
+    const bench = lineup.players.filter(player => player.slot === null && !player.locked);
+    const suggested = new Set<string>();
+    current
+      .map((player, index) => ({ player, slot: lineup.slots[index] }))
+      .filter(({ player }) => !player?.locked)
+      .map(({ player, slot }) => {
+        const best = bench
+          .filter(candidate => candidate.eligibleSlots.includes(slot))
+          .sort((a, b) => value(b) - value(a))[0];
+        return { player, slot, best, gain: best ? value(best) - value(player) : 0 };
+      })
+      .filter(({ gain }) => gain > 0)
+      .sort((a, b) => b.gain - a.gain)
+      .forEach(({ player, slot, best, gain }) => {
+        if (!best || suggested.has(best.playerId)) return;
+        suggested.add(best.playerId);
+        warnings.push({
+          type: 'bench_upgrade',
+          slot,
+          playerId: best.playerId,
+          message: player
+            ? `Start ${best.name} (${round(value(best))}) over ${player.name} (${round(value(player))})`
+            : `Start ${best.name} (${round(value(best))}) in the empty ${slot} slot`,
+          pointsGained: round(gain)
+        });
+      });
+
+    const optimal = this.buildOptimalLineup(lineup, current);
+
+    return {
+      warnings,
+      assignments: lineup.slots.map((slot, index) => ({ slot, current: current[index], optimal: optimal[index] })),
+      currentProjection: round(current.reduce((sum, player) => sum + value(player), 0)),
+      optimalProjection: round(optimal.reduce((sum, player) => sum + value(player), 0))
+    };
+  }
+
+  /**
+   * Score a finished week in hindsight: what the lineup scored and what the best
+   * legal lineup would have scored, given each player's final points
+   */
+  scoreFinishedWeek(lineup: LeagueLineup, pointsFor: (player: LineupPlayer) => number): { actualPoints: number; optimalPoints: number } {
+    // Every game is over, so nobody is locked and byes and injuries already show up as zero points
+    const finished: LeagueLineup = {
+      ...lineup,
+      players: lineup.players.map(player => ({
+        ...player,
+        projectedPoints: pointsFor(player),
+        isActive: true,
+        onBye: false,
+        locked: false
+      }))
+    };
+
+    const total = (players: (LineupPlayer | null)[]) =>
+      round(players.reduce((sum, player) => sum + (player?.projectedPoints ?? 0), 0));
+    const current = this.layoutCurrentLineup(finished);
+    return {
+      actualPoints: total(current),
+      optimalPoints: total(this.buildOptimalLineup(finished, current))
+    };
+  }
+
+  /**
+   * Starting slots from a league's slot names that accept any of a player's positions
+   */
+  getEligibleSlots(positions: string[], slots: string[]): string[] {
+    const normalized = positions.map(normalizePosition);
+    return [...new Set(slots)].filter(slot => {
+      const accepts = FLEX_SLOT_POSITIONS[slot] ?? [normalizePosition(slot)];
+      return normalized.some(position => accepts.includes(position));
+    });
+  }
+
+  private getLineupSource(config: LeagueConfig): LineupSource {
+    const platform = platformRegistry.normalize(config.platform);
+    if (!platform) {
+      throw new Error(`Unknown platform ${config.platform}`);
+    }
+    return this.lineupSources[platform];
+  }
+
+  /**
+   * Current starters laid out against the league's slots, null where a slot is empty
+   */
+  private layoutCurrentLineup(lineup: LeagueLineup): (LineupPlayer | null)[] {
+    const current: (LineupPlayer | null)[] = lineup.slots.map(() => null);
+    for (const starter of lineup.players.filter(player => player.slot !== null)) {
+      const index = lineup.slots.findIndex((slot, i) => slot === starter.slot && current[i] === null);
+      if (index >= 0) current[index] = starter;
+    }
+    return current;
+  }
+
+  private effectivePoints(player: LineupPlayer): number {
+    return player.isActive && !player.onBye ? player.projectedPoints : 0;
+  }
+
+  /**
+   * Best legal lineup around the locked starters. Flex rules needn't nest (Yahoo
+   * players can be eligible for unrelated slots), so this is solved as an
+   * assignment problem rather than filled greedily. Filling a slot always beats
+   * leaving it empty, even with a zero-point player.
+   */
+  private buildOptimalLineup(lineup: LeagueLineup, current: (LineupPlayer | null)[]): (LineupPlayer | null)[] {
+    const optimal: (LineupPlayer | null)[] = current.map(player => player?.locked ? player : null);
+    const used = new Set(optimal.filter((player): player is LineupPlayer => player !== null).map(player => player.playerId));
+    const candidates = lineup.players
+      .filter(player => !player.locked && !used.has(player.playerId))
+      .sort((a, b) => this.effectivePoints(b) - this.effectivePoints(a));
+
+    const openSlots = lineup.slots
+      .map((slot, index) => ({ slot, index }))
+      .filter(({ index }) => optimal[index] === null);
+
+    const assignment = maxWeightAssignment(
+      openSlots.map(({ slot }) => candidates.map(player =>
+        player.eligibleSlots.includes(slot) ? this.effectivePoints(player) + FILLED_SLOT_BONUS : null
+      )),
+      candidates.length
+    );
+
+    openSlots.forEach(({ index }, row) => {
+      if (assignment[row] >= 0) optimal[index] = candidates[assignment[row]];
+    });
+
+    return optimal;
+  }
+
+  private buildScheduleLookup(schedule: NFLKickoff[]): ScheduleLookup {
+    const kickoffs = new Map<string, Date>();
+    for (const game of schedule) {
+      kickoffs.set(game.away, game.kickoff);
+      kickoffs.set(game.home, game.kickoff);
+    }
+
+    const kickoffFor = (team: string) => kickoffs.get(tank01NFLDataService.toTank01Team(team));
+    const isKnownTeam = (team: string) => Boolean(team) && team !== 'UNKNOWN';
+    return {
+      // Without a schedule nobody can be called out as on bye
+      isOnBye: team => schedule.length > 0 && isKnownTeam(team) && !kickoffFor(team),
+      isLocked: team => (kickoffFor(team)?.getTime() ?? Infinity) <= Date.now()
+    };
+  }
+
+  private async loadSleeperLineup(config: LeagueConfig, week: number, schedule: ScheduleLookup): Promise<LeagueLineup> {
+    const { season } = await nflCalendarService.getState();
+    const [{ league, users, rosters }, players, projections] = await Promise.all([
+      sleeperAPIEnhanced.getStaticLeagueData(config.leagueId),
+      sleeperAPIEnhanced.getPlayers(),
+      sleeperAPIEnhanced.getProjections(season, week)
+    ]);
+    const roster = this.findSleeperRoster(config, users, rosters);
+
+    // Match the projection to the league's points-per-reception setting
+    const projectionKey = projectionKeyFor(league.scoring_settings?.rec ?? 0);
+
+    const lineupPlayers = this.buildSleeperPlayers(league, roster, roster.players || [], roster.starters || [], players)
+      .map(player => ({
+        ...player,
+        projectedPoints: projections[player.playerId]?.stats?.[projectionKey] || 0,
+        onBye: schedule.isOnBye(player.team),
+        locked: schedule.isLocked(player.team)
+      }));
+
+    return { leagueId: config.leagueId, platform: 'Sleeper', slots: this.getSleeperSlots(league), players: lineupPlayers };
+  }
+
+  private async loadSleeperFinishedWeek(config: LeagueConfig, week: number): Promise<FinishedWeekLineup> {
+    const [{ league, users, rosters }, players, matchups] = await Promise.all([
+      sleeperAPIEnhanced.getStaticLeagueData(config.leagueId),
+      sleeperAPIEnhanced.getPlayers(),
+      sleeperAPIEnhanced.getMatchups(config.leagueId, week)
+    ]);
+    const roster = this.findSleeperRoster(config, users, rosters);
+    const matchup = matchups.find(m => m.roster_id === roster.roster_id);
+    if (!matchup) {
+      throw new Error(`No week ${week} matchup in Sleeper league ${config.leagueId}`);
+    }
+
+    const finalPoints = matchup.players_points || {};
+    // The week's matchup lists who was on the roster then, which may differ from today
+    const playerIds = matchup.players ?? Object.keys(finalPoints);
+    return {
+      lineup: {
+        leagueId: config.leagueId,
+        platform: 'Sleeper',
+        slots: this.getSleeperSlots(league),
+        players: this.buildSleeperPlayers(league, roster, playerIds, matchup.starters || [], players)
+      },
+      finalPoints,
+      matchupPoints: matchup.points ?? 0
+    };
+  }
+
+  private findSleeperRoster(config: LeagueConfig, users: SleeperUser[], rosters: SleeperRoster[]): SleeperRoster {
+    const user = config.sleeperUsername
+      ? users.find(u =>
+          safeLower(u.username) === safeLower(config.sleeperUsername) ||
+          safeLower(u.display_name) === safeLower(config.sleeperUsername)
+        )
+      : undefined;
+    const roster = rosters.find(r => user && r.owner_id === user.user_id) ?? rosters[0];
+    if (!roster) {
+      throw new Error(`Could not find roster in Sleeper league ${config.leagueId}`);
+    }
+    return roster;
+  }
+
+  private getSleeperSlots(league: SleeperLeague): string[] {
+    return league.roster_positions.filter(slot => !SLEEPER_RESERVE_SLOTS.has(slot));
+  }
+
+  /**
+   * Lineup players without projections or schedule details. Starters line up
+   * with the non-bench roster positions, in order; IR and taxi players are left out
+   */
+  private buildSleeperPlayers(
+    league: SleeperLeague,
+    roster: SleeperRoster,
+    playerIds: string[],
+    starters: string[],
+    players: Record<string, SleeperPlayer>
+  ): LineupPlayer[] {
+    const slots = this.getSleeperSlots(league);
+    const starterSlots = new Map<string, string>();
+    starters.forEach((playerId, index) => {
+      if (playerId !== '0' && slots[index]) starterSlots.set(playerId, slots[index]);
+    });
+
+    const reserved = new Set([...(roster.reserve || []), ...(roster.taxi || [])]);
+    return playerIds
+      .filter(playerId => !reserved.has(playerId))
+      .map(playerId => {
+        const player = players[playerId];
+        // Team defenses are keyed by team abbreviation
+        const isDefense = isNaN(Number(playerId));
+        const team = player?.team || (isDefense ? playerId : 'UNKNOWN');
+        const position = player?.position || (isDefense ? 'DEF' : 'UNKNOWN');
+        return {
+          playerId,
+          name: player?.full_name || (isDefense ? `${playerId} D/ST` : `Player ${playerId}`),
+          position,
+          team,
+          eligibleSlots: this.getEligibleSlots(player?.fantasy_positions ?? [position], slots),
+          slot: starterSlots.get(playerId) ?? null,
+          projectedPoints: 0,
+          isActive: !isOutInjuryStatus(player?.injury_status),
+          injuryStatus: player?.injury_status || undefined,
+          onBye: false,
+          locked: false
+        };
+      });
+  }
+
+  private async loadYahooLineup(config: LeagueConfig, week: number, schedule: ScheduleLookup): Promise<LeagueLineup> {
+    const { season } = await nflCalendarService.getState();
+    const [{ roster }, slots, scoring, sleeperPlayers, projections] = await Promise.all([
+      this.fetchYahooRoster(config, week),
+      YahooDataService.fetchStartingSlots(config.leagueId),
+      YahooDataService.fetchLeagueScoring(config.leagueId),
+      sleeperAPIEnhanced.getPlayers(),
+      sleeperAPIEnhanced.getProjections(season, week)
+    ]);
+
+    // Yahoo has no player projections behind the API proxy, so Sleeper's stand in,
+    // matched by name and team. Team defenses are keyed by team abbreviation
+    const sleeperIds = new Map<string, string>();
+    Object.entries(sleeperPlayers).forEach(([playerId, player]) => {
+      if (player.full_name && player.team) sleeperIds.set(playerMatchKey(player.full_name, player.team), playerId);
+    });
+    const projectionKey = projectionKeyFor(scoring.receptions);
+
+    const lineupPlayers = roster.players
+      .filter(player => player.selected_position !== 'IR')
+      .map(player => {
+        const lineupPlayer = this.toYahooLineupPlayer(player, slots);
+        const sleeperId = lineupPlayer.position === 'DEF'
+          ? lineupPlayer.team
+          : sleeperIds.get(playerMatchKey(lineupPlayer.name, lineupPlayer.team));
+        return {
+          ...lineupPlayer,
+          projectedPoints: (sleeperId && projections[sleeperId]?.stats?.[projectionKey]) || 0,
+          onBye: schedule.isOnBye(lineupPlayer.team),
+          locked: schedule.isLocked(lineupPlayer.team)
+        };
+      });
+
+    return { leagueId: config.leagueId, platform: 'Yahoo', slots, players: lineupPlayers };
+  }
+
+  private async loadYahooFinishedWeek(config: LeagueConfig, week: number): Promise<FinishedWeekLineup> {
+    const [{ roster, team }, slots] = await Promise.all([
+      this.fetchYahooRoster(config, week),
+      YahooDataService.fetchStartingSlots(config.leagueId)
+    ]);
+
+    const players = roster.players.filter(player => player.selected_position !== 'IR');
+    return {
+      lineup: {
+        leagueId: config.leagueId,
+        platform: 'Yahoo',
+        slots,
+        players: players.map(player => this.toYahooLineupPlayer(player, slots))
+      },
+      finalPoints: Object.fromEntries(players.map(player => [player.player_id, player.points ?? 0])),
+      matchupPoints: team.points
+    };
+  }
+
+  /**
+   * The user's team in a week's scoreboard and its roster for that week
+   */
+  private async fetchYahooRoster(config: LeagueConfig, week: number): Promise<{ team: YahooMatchupTeam; roster: YahooTeamRoster }> {
+    const scoreboard = await YahooDataService.fetchLeagueScoreboard(config.leagueId, week);
+    const userMatchup = YahooDataService.findUserMatchup(scoreboard, config.teamId);
+    if (!userMatchup) {
+      throw new Error(`No week ${week} matchup in Yahoo league ${config.leagueId}`);
+    }
+
+    const roster = await yahooFantasyAPI.getTeamRoster(userMatchup.myTeam.team_key, week);
+    return { team: userMatchup.myTeam, roster };
+  }
+
+  /**
+   * A roster player as a lineup player, without projections or schedule details
+   */
+  private toYahooLineupPlayer(player: YahooRosterPlayer, slots: string[]): LineupPlayer {
+    // Multi-position players are listed like 'WR,TE'
+    const positions = player.display_position.split(',').filter(Boolean).map(normalizePosition);
+    const position = positions[0] ?? 'UNKNOWN';
+    // Yahoo's eligible positions already name the flex slots ('W/R/T')
+    const eligibleSlots = player.eligible_positions.filter(slot => slots.includes(slot));
+    return {
+      playerId: player.player_id,
+      name: player.name,
+      position,
+      team: player.editorial_team_abbr || 'UNKNOWN',
+      eligibleSlots: eligibleSlots.length > 0 ? eligibleSlots : this.getEligibleSlots(positions, slots),
+      slot: YAHOO_RESERVE_SLOTS.has(player.selected_position) ? null : player.selected_position,
+      projectedPoints: 0,
+      isActive: !isOutInjuryStatus(player.status),
+      injuryStatus: player.status,
+      onBye: false,
+      locked: false
+    };
+  }
+
+  private async loadESPNLineup(config: LeagueConfig, week: number, schedule: ScheduleLookup): Promise<LeagueLineup> {
+    const [league, teams] = await Promise.all([
+      espnFantasyAPI.getLeague(config),
+      espnFantasyAPI.getRosters(config, week)
+    ]);
+    const team = espnFantasyAPI.findUserTeam(teams, config);
+    if (!team) {
+      throw new Error(`Could not find team in ESPN league ${config.leagueId}; set a team ID or SWID`);
+    }
+
+    const slots = this.getESPNSlots(league);
+    const lineupPlayers = (team.roster?.entries ?? [])
+      .filter(entry => entry.lineupSlotId !== ESPN_IR_SLOT)
+      .map(entry => {
+        const player = this.toESPNLineupPlayer(entry, slots);
+        return {
+          ...player,
+          projectedPoints: espnFantasyAPI.getPlayerPoints(entry, week, 1),
+          onBye: schedule.isOnBye(player.team),
+          locked: schedule.isLocked(player.team)
+        };
+      });
+
+    return { leagueId: config.leagueId, platform: 'ESPN', slots, players: lineupPlayers };
+  }
+
+  private async loadESPNFinishedWeek(config: LeagueConfig, week: number): Promise<FinishedWeekLineup> {
+    const [league, matchups] = await Promise.all([
+      espnFantasyAPI.getLeague(config),
+      espnFantasyAPI.getMatchups(config, week)
+    ]);
+    const team = espnFantasyAPI.findUserTeam(matchups.teams, config);
+    if (!team) {
+      throw new Error(`Could not find team in ESPN league ${config.leagueId}; set a team ID or SWID`);
+    }
+
+    const matchup = matchups.schedule?.find(m =>
+      m.matchupPeriodId === week && (m.home.teamId === team.id || m.away?.teamId === team.id)
+    );
+    const side = matchup?.home.teamId === team.id ? matchup.home : matchup?.away;
+    if (!side) {
+      throw new Error(`No week ${week} matchup in ESPN league ${config.leagueId}`);
+    }
+
+    const slots = this.getESPNSlots(league);
+    const entries = (side.rosterForCurrentScoringPeriod?.entries ?? []).filter(entry => entry.lineupSlotId !== ESPN_IR_SLOT);
+    return {
+      lineup: {
+        leagueId: config.leagueId,
+        platform: 'ESPN',
+        slots,
+        players: entries.map(entry => this.toESPNLineupPlayer(entry, slots))
+      },
+      finalPoints: Object.fromEntries(entries.map(entry =>
+        [String(entry.playerPoolEntry.player.id), espnFantasyAPI.getPlayerPoints(entry, week, 0)]
+      )),
+      matchupPoints: side.totalPoints
+    };
+  }
+
+  private getESPNSlots(league: ESPNFantasyLeague): string[] {
+    const slotCounts = league.settings?.rosterSettings?.lineupSlotCounts ?? {};
+    return Object.entries(slotCounts)
+      .filter(([slotId, count]) => count > 0 && ESPN_LINEUP_SLOTS[Number(slotId)])
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .flatMap(([slotId, count]) => Array<string>(count).fill(ESPN_LINEUP_SLOTS[Number(slotId)]));
+  }
+
+  /**
+   * A roster entry as a lineup player, without projections or schedule details
+   */
+  private toESPNLineupPlayer(entry: ESPNRosterEntry, slots: string[]): LineupPlayer {
+    const player = entry.playerPoolEntry.player;
+    const position = ESPN_POSITIONS[player.defaultPositionId] || 'UNKNOWN';
+    const proTeam = ESPN_PRO_TEAMS[player.proTeamId] || 'UNKNOWN';
+    const eligibleSlots = (player.eligibleSlots ?? [])
+      .map(slotId => ESPN_LINEUP_SLOTS[slotId])
+      .filter(slot => slot && slots.includes(slot));
+    return {
+      playerId: String(player.id),
+      name: player.fullName,
+      position,
+      team: proTeam,
+      eligibleSlots: eligibleSlots.length > 0 ? eligibleSlots : this.getEligibleSlots([position], slots),
+      slot: espnFantasyAPI.isStarter(entry) ? ESPN_LINEUP_SLOTS[entry.lineupSlotId] ?? null : null,
+      projectedPoints: 0,
+      isActive: !isOutInjuryStatus(player.injuryStatus),
+      injuryStatus: player.injuryStatus && player.injuryStatus !== 'ACTIVE' ? player.injuryStatus : undefined,
+      onBye: false,
+      locked: false
+    };
+  }
+}
+
+// Export singleton instance
+export const lineupOptimizerService = LineupOptimizerService.getInstance();
@@ -0,0 +1,186 @@
+import { debugLogger } from '../utils/debugLogger';
+import { LeagueConfig } from '../types/config';
+import { Platform } from '../types/fantasy';
+import { eventAttributionService, FantasyRoster } from './EventAttributionService';
+import { tank01NFLDataService, NFLKickoff } from './Tank01NFLDataService';
+import { nflCalendarService } from './NFLCalendarService';
+
+export type LineupReminderReason = 'bye' | 'out' | 'empty_slot';
+
+export interface LineupReminder {
+  id: string; // Stable across refreshes so a reminder is only delivered once
+  leagueId: string;
+  teamName: string;
+  platform: Platform;
+  reason: LineupReminderReason;
+  playerName: string | null;
+  message: string;
+  kickoff: Date;  // When the affected lineup spot locks
+  remindAt: Date;
+}
+
+const DELIVERED_KEY = 'fantasy_lineup_reminders_delivered';
+const MAX_DELIVERED = 200;
+
+/**
+ * Lineup Reminder Service
+ * Cross-references the user's starters with this week's Tank01 kickoff times
+ * and flags starters on bye, starters listed OUT and empty lineup slots,
+ * each due a configurable number of minutes before the lineup spot locks.
+ */
+export class LineupReminderService {
+  private static instance: LineupReminderService;
+  private delivered: Set<string>;
+
+  private constructor() {
+    this.delivered = new Set(this.loadDelivered());
+  }
+
+  public static getInstance(): LineupReminderService {
+    if (!LineupReminderService.instance) {
+      LineupReminderService.instance = new LineupReminderService();
+    }
+    return LineupReminderService.instance;
+  }
+
+  /**
+   * Lineup problems for the enabled leagues whose lineup spot hasn't locked yet, soonest kickoff first
+   */
+  async getReminders(leagueConfigs: LeagueConfig[], leadMinutes: number): Promise<LineupReminder[]> {
+    const enabled = leagueConfigs.filter(config => config.enabled);
+    if (enabled.length === 0) return [];
+
+    const { week, season } = await nflCalendarService.getState();
+    const [schedule] = await Promise.all([
+      tank01NFLDataService.getWeekSchedule(week, season),
+      eventAttributionService.loadRosters(enabled)
+    ]);
+
+    // Without a schedule every team would look like it's on bye
+    if (schedule.length === 0) {
+      debugLogger.warning('LINEUP_REMINDERS', `No schedule for week ${week}; skipping reminders`);
+      return [];
+    }
+
+    const now = Date.now();
+    const kickoffs = this.kickoffsByTeam(schedule);
+    const nextKickoff = schedule
+      .map(game => game.kickoff)
+      .filter(kickoff => kickoff.getTime() > now)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+
+    if (!nextKickoff) return [];
+
+    const leagueIds = new Set(enabled.map(config => config.leagueId));
+    const reminders = eventAttributionService.getUserRosters()
+      .filter(roster => leagueIds.has(roster.leagueId))
+      .flatMap(roster => this.checkRoster(roster, kickoffs, nextKickoff, season, week))
+      .filter(reminder => reminder.kickoff.getTime() > now)
+      .map(reminder => ({ ...reminder, remindAt: new Date(reminder.kickoff.getTime() - leadMinutes * 60 * 1000) }))
+      .sort((a, b) => a.kickoff.getTime() - b.kickoff.getTime());
+
+    debugLogger.info('LINEUP_REMINDERS', `Found ${reminders.length} lineup issues for week ${week}`);
+    return reminders;
+  }
+
+  /**
+   * Reminders that are due and haven't been delivered yet
+   */
+  getDue(reminders: LineupReminder[], now = new Date()): LineupReminder[] {
+    return reminders.filter(reminder =>
+      reminder.remindAt <= now && reminder.kickoff > now && !this.delivered.has(reminder.id)
+    );
+  }
+
+  /**
+   * Record reminders as delivered so they aren't sent again. Only call this for
+   * reminders that were actually queued; held-back ones stay due until kickoff.
+   */
+  markDelivered(reminders: LineupReminder[]): void {
+    if (reminders.length === 0) return;
+    reminders.forEach(reminder => this.delivered.add(reminder.id));
+    this.saveDelivered();
+  }
+
+  private checkRoster(
+    roster: FantasyRoster,
+    kickoffs: Map<string, Date>,
+    nextKickoff: Date,
+    season: number,
+    week: number
+  ): Omit<LineupReminder, 'remindAt'>[] {
+    const base = { leagueId: roster.leagueId, teamName: roster.teamName, platform: roster.platform };
+    // Season included so week 1's IDs don't collide with last season's delivered ones
+    const idPrefix = `${roster.leagueId}-${season}-${week}`;
+    const reminders: Omit<LineupReminder, 'remindAt'>[] = [];
+
+    for (const player of roster.players.filter(p => p.isStarter && p.team !== 'UNKNOWN')) {
+      const kickoff = kickoffs.get(tank01NFLDataService.toTank01Team(player.team));
+
+      if (!kickoff) {
+        // Bye-week starters can be swapped until the next game starts
+        reminders.push({
+          ...base,
+          id: `${idPrefix}-bye-${player.platformPlayerId}`,
+          reason: 'bye',
+          playerName: player.name,
+          message: `${player.name} (${player.team}) is on bye`,
+          kickoff: nextKickoff
+        });
+      } else if (!player.isActive) {
+        reminders.push({
+          ...base,
+          id: `${idPrefix}-out-${player.platformPlayerId}`,
+          reason: 'out',
+          playerName: player.name,
+          message: `${player.name} is listed ${player.injuryStatus || 'OUT'}`,
+          kickoff
+        });
+      }
+    }
+
+    if (roster.emptyStarterSlots) {
+      reminders.push({
+        ...base,
+        id: `${idPrefix}-empty`,
+        reason: 'empty_slot',
+        playerName: null,
+        message: roster.emptyStarterSlots === 1
+          ? '1 starting slot is empty'
+          : `${roster.emptyStarterSlots} starting slots are empty`,
+        kickoff: nextKickoff
+      });
+    }
+
+    return reminders;
+  }
+
+  private kickoffsByTeam(schedule: NFLKickoff[]): Map<string, Date> {
+    const kickoffs = new Map<string, Date>();
+    for (const game of schedule) {
+      kickoffs.set(game.away, game.kickoff);
+      kickoffs.set(game.home, game.kickoff);
+    }
+    return kickoffs;
+  }
+
+  private loadDelivered(): string[] {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(DELIVERED_KEY) || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveDelivered(): void {
+    try {
+      localStorage.setItem(DELIVERED_KEY, JSON.stringify([...this.delivered].slice(-MAX_DELIVERED)));
+    } catch (error) {
+      debugLogger.error('LINEUP_REMINDERS', 'Failed to save delivered reminders', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const lineupReminderService = LineupReminderService.getInstance();
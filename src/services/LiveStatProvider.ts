@@ -0,0 +1,142 @@
+import { debugLogger } from "../utils/debugLogger";
+import type { NFLScoringEvent } from "./Tank01NFLDataService";
+import { tank01NFLDataService } from "./Tank01NFLDataService";
+import { espnLiveStatService } from "./ESPNLiveStatService";
+import { serverIngestionEventService } from "./ServerIngestionEventService";
+import { FEATURE_FLAGS } from "../config/features";
+
+// A source of live NFL stats that produces NFLScoringEvents keyed by Tank01 player IDs
+export interface LiveStatProvider {
+  readonly name: string;
+  startPolling(intervalMs?: number): Promise<void>;
+  stopPolling(): void;
+  onScoringEvent(callback: (event: NFLScoringEvent) => void): () => void;
+  isAvailable(): boolean;
+}
+
+/**
+ * Live Stat Provider Manager
+ * Runs the primary provider (client-side Tank01 polling, or the server ingestion
+ * worker's Realtime feed when SERVER_SIDE_INGESTION is on) and fails over to ESPN
+ * while it is unavailable, switching back once it recovers.
+ */
+export class LiveStatProviderManager {
+  private static instance: LiveStatProviderManager;
+  private readonly primary: LiveStatProvider = FEATURE_FLAGS.SERVER_SIDE_INGESTION
+    ? serverIngestionEventService
+    : tank01NFLDataService;
+  private readonly fallback: LiveStatProvider = espnLiveStatService;
+  private activeProvider: LiveStatProvider = this.primary;
+  private eventCallbacks: ((event: NFLScoringEvent) => void)[] = [];
+  private healthCheckInterval: NodeJS.Timeout | null = null;
+  private pollingIntervalMs = 90000;
+  private failoverCount = 0;
+  private lastFailoverAt: Date | null = null;
+
+  private readonly HEALTH_CHECK_INTERVAL = 30000;
+
+  private constructor() {
+    // ESPN feeds Tank01's stat differ, so these two buses cover every provider
+    tank01NFLDataService.onScoringEvent(event => this.emitEvent(event));
+    serverIngestionEventService.onScoringEvent(event => this.emitEvent(event));
+  }
+
+  public static getInstance(): LiveStatProviderManager {
+    if (!LiveStatProviderManager.instance) {
+      LiveStatProviderManager.instance = new LiveStatProviderManager();
+    }
+    return LiveStatProviderManager.instance;
+  }
+
+  /**
+   * Register callback for scoring events from whichever provider is active
+   */
+  public onScoringEvent(callback: (event: NFLScoringEvent) => void): () => void {
+    this.eventCallbacks.push(callback);
+
+    return () => {
+      const index = this.eventCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.eventCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  private emitEvent(event: NFLScoringEvent): void {
+    for (const callback of this.eventCallbacks) {
+      try {
+        callback(event);
+      } catch (error) {
+        debugLogger.error('LIVE_STATS', 'Error in event callback', error);
+      }
+    }
+  }
+
+  /**
+   * Start the primary provider and begin watching its health
+   */
+  public async startPolling(intervalMs: number = 90000): Promise<void> {
+    this.pollingIntervalMs = intervalMs;
+
+    await this.primary.startPolling(intervalMs);
+    await this.checkProviderHealth();
+
+    if (!this.healthCheckInterval) {
+      this.healthCheckInterval = setInterval(() => {
+        this.checkProviderHealth().catch(error => {
+          debugLogger.error('LIVE_STATS', 'Provider health check failed', error);
+        });
+      }, this.HEALTH_CHECK_INTERVAL);
+    }
+  }
+
+  /**
+   * Stop all providers
+   */
+  public stopPolling(): void {
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+      this.healthCheckInterval = null;
+    }
+    this.primary.stopPolling();
+    this.fallback.stopPolling();
+    this.activeProvider = this.primary;
+    debugLogger.info('LIVE_STATS', 'All live stat providers stopped');
+  }
+
+  /**
+   * Fail over to the fallback while the primary is unavailable, and back once it recovers.
+   * The primary keeps its own polling loop so it can close its breaker on its own.
+   */
+  private async checkProviderHealth(): Promise<void> {
+    const primaryAvailable = this.primary.isAvailable();
+
+    if (this.activeProvider === this.primary && !primaryAvailable) {
+      debugLogger.warning('LIVE_STATS', `${this.primary.name} unavailable, failing over to ${this.fallback.name}`);
+      this.activeProvider = this.fallback;
+      this.failoverCount++;
+      this.lastFailoverAt = new Date();
+      await this.fallback.startPolling(this.pollingIntervalMs);
+    } else if (this.activeProvider === this.fallback && primaryAvailable) {
+      debugLogger.success('LIVE_STATS', `${this.primary.name} recovered, switching back from ${this.fallback.name}`);
+      this.fallback.stopPolling();
+      this.activeProvider = this.primary;
+    }
+  }
+
+  public getActiveProviderName(): string {
+    return this.activeProvider.name;
+  }
+
+  public getServiceStatus() {
+    return {
+      activeProvider: this.activeProvider.name,
+      primaryAvailable: this.primary.isAvailable(),
+      failoverCount: this.failoverCount,
+      lastFailoverAt: this.lastFailoverAt?.toISOString() || null
+    };
+  }
+}
+
+// Export singleton instance
+export const liveStatProviderManager = LiveStatProviderManager.getInstance();
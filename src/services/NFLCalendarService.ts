@@ -0,0 +1,139 @@
+import { debugLogger } from '@/utils/debugLogger';
+import { sleeperAPIEnhanced, SleeperState } from './SleeperAPIEnhanced';
+
+export type NFLSeasonType = 'pre' | 'regular' | 'post' | 'off';
+
+export interface NFLCalendarState {
+  season: number;          // Season year; January/February playoffs belong to the previous year
+  week: number;            // 1-18 regular season, 19-23 postseason (wild card .. Super Bowl)
+  seasonType: NFLSeasonType;
+  isBye: boolean;          // Open week between the conference championships and the Super Bowl
+  source: 'sleeper' | 'fallback';
+}
+
+export const REGULAR_SEASON_WEEKS = 18;
+const POSTSEASON_WEEKS = 5; // Wild card, divisional, conference, bye, Super Bowl
+const POSTSEASON_BYE_WEEK = REGULAR_SEASON_WEEKS + 4;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const CACHE_DURATION = 60 * 60 * 1000; // 1 hour
+
+/**
+ * NFL Calendar Service
+ * Single source for the current NFL season and week. Uses Sleeper's state
+ * endpoint and falls back to a computed schedule (week 1 starts the Tuesday
+ * after Labor Day, weeks roll over on Tuesdays) when Sleeper is unreachable.
+ */
+export class NFLCalendarService {
+  private static instance: NFLCalendarService;
+  private cachedState: NFLCalendarState | null = null;
+  private cachedAt = 0;
+  private pendingRequest: Promise<NFLCalendarState> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): NFLCalendarService {
+    if (!NFLCalendarService.instance) {
+      NFLCalendarService.instance = new NFLCalendarService();
+    }
+    return NFLCalendarService.instance;
+  }
+
+  /**
+   * Current calendar state, refreshed from Sleeper at most once an hour
+   */
+  async getState(): Promise<NFLCalendarState> {
+    if (this.cachedState && Date.now() - this.cachedAt < CACHE_DURATION) {
+      return this.cachedState;
+    }
+
+    if (!this.pendingRequest) {
+      this.pendingRequest = this.fetchState().finally(() => {
+        this.pendingRequest = null;
+      });
+    }
+    return this.pendingRequest;
+  }
+
+  /**
+   * Synchronous best guess for callers that can't wait: the last fetched state, or the computed schedule
+   */
+  getCachedState(): NFLCalendarState {
+    return this.cachedState ?? this.computeFallbackState();
+  }
+
+  private async fetchState(): Promise<NFLCalendarState> {
+    let state: NFLCalendarState;
+
+    try {
+      const sleeperState = await sleeperAPIEnhanced.getState();
+      state = this.fromSleeperState(sleeperState);
+    } catch (error) {
+      debugLogger.warning('NFL_CALENDAR', 'Sleeper state unavailable, using local schedule', error);
+      state = this.computeFallbackState();
+    }
+
+    this.cachedState = state;
+    this.cachedAt = Date.now();
+
+    debugLogger.info('NFL_CALENDAR', `Season ${state.season} week ${state.week} (${state.seasonType})`, {
+      source: state.source
+    });
+
+    return state;
+  }
+
+  private fromSleeperState(sleeperState: SleeperState): NFLCalendarState {
+    const seasonType = (['pre', 'regular', 'post', 'off'] as const).find(t => t === sleeperState.season_type) ?? 'regular';
+    let week = sleeperState.week || 1;
+
+    // Sleeper restarts its week count in the postseason
+    if (seasonType === 'post' && week <= POSTSEASON_WEEKS) {
+      week += REGULAR_SEASON_WEEKS;
+    }
+    // Nothing scores before week 1, so preseason and offseason point at the next week 1
+    if (seasonType === 'pre' || seasonType === 'off') {
+      week = 1;
+    }
+
+    return {
+      season: parseInt(sleeperState.season),
+      week,
+      seasonType,
+      isBye: seasonType === 'post' && week === POSTSEASON_BYE_WEEK,
+      source: 'sleeper'
+    };
+  }
+
+  /**
+   * Derive the calendar from the date alone
+   */
+  private computeFallbackState(now: Date = new Date()): NFLCalendarState {
+    // The season straddles New Year; January and February are the previous season's playoffs
+    const season = now.getMonth() < 2 ? now.getFullYear() - 1 : now.getFullYear();
+    const weekIndex = Math.floor((now.getTime() - this.getWeekOneStart(season).getTime()) / WEEK_MS);
+
+    if (weekIndex < 0) {
+      return { season, week: 1, seasonType: now.getMonth() >= 7 ? 'pre' : 'off', isBye: false, source: 'fallback' };
+    }
+
+    const week = weekIndex + 1;
+    if (week <= REGULAR_SEASON_WEEKS) {
+      return { season, week, seasonType: 'regular', isBye: false, source: 'fallback' };
+    }
+    if (week <= REGULAR_SEASON_WEEKS + POSTSEASON_WEEKS) {
+      return { season, week, seasonType: 'post', isBye: week === POSTSEASON_BYE_WEEK, source: 'fallback' };
+    }
+    return { season: season + 1, week: 1, seasonType: 'off', isBye: false, source: 'fallback' };
+  }
+
+  /**
+   * Week 1 opens the Tuesday after Labor Day (first Monday of September)
+   */
+  private getWeekOneStart(season: number): Date {
+    const septemberFirst = new Date(season, 8, 1);
+    const daysToMonday = (8 - septemberFirst.getDay()) % 7;
+    return new Date(season, 8, 1 + daysToMonday + 1);
+  }
+}
+
+export const nflCalendarService = NFLCalendarService.getInstance();
@@ -0,0 +1,254 @@
+import { debugLogger } from '../utils/debugLogger';
+import {
+  NotificationConfig,
+  QuietHoursConfig,
+  ScoringNotificationRule,
+  WinProbabilityNotificationRule
+} from '../types/config';
+import { LeagueData } from '../types/fantasy';
+import { FantasyEventAttribution, FantasyEventImpact } from './EventAttributionService';
+import { LineupReminder } from './LineupReminderService';
+
+interface PendingNotification {
+  title: string;
+  body: string;
+  tag: string;
+}
+
+const SERVICE_WORKER_URL = '/notification-sw.js';
+// Own scope so the worker never takes over from the MSW simulation worker at '/'
+const SERVICE_WORKER_SCOPE = '/notifications/';
+// Events that land in one poll arrive together; collect them into one notification
+const BATCH_WINDOW_MS = 4000;
+
+const TOUCHDOWN_EVENTS = new Set<FantasyEventImpact['eventType']>([
+  'passing_td',
+  'rushing_td',
+  'receiving_td',
+  'defensive_td'
+]);
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Notification Service
+ * Turns attributed fantasy events, win probability moves and lineup reminders
+ * into browser notifications, filtered by the user's rules and quiet hours, and batched
+ * so a burst of plays from one poll becomes a single notification.
+ */
+export class NotificationService {
+  private static instance: NotificationService;
+  private config: NotificationConfig | null = null;
+  private registration: ServiceWorkerRegistration | null = null;
+  private pending: PendingNotification[] = [];
+  private flushTimeout: NodeJS.Timeout | null = null;
+  private leagueNames = new Map<string, string>();
+  private lastWinProbability = new Map<string, number>();
+
+  private constructor() {}
+
+  public static getInstance(): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService();
+    }
+    return NotificationService.instance;
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+  }
+
+  getPermission(): NotificationPermission | 'unsupported' {
+    return this.isSupported() ? Notification.permission : 'unsupported';
+  }
+
+  /**
+   * Ask for notification permission and register the service worker that displays them
+   */
+  async requestPermission(): Promise<NotificationPermission | 'unsupported'> {
+    if (!this.isSupported()) {
+      return 'unsupported';
+    }
+
+    const permission = await Notification.requestPermission();
+    debugLogger.info('NOTIFICATIONS', `Notification permission ${permission}`);
+    if (permission === 'granted') {
+      await this.registerServiceWorker();
+    }
+    return permission;
+  }
+
+  configure(config: NotificationConfig): void {
+    this.config = config;
+    if (config.browserNotifications && this.getPermission() === 'granted') {
+      this.registerServiceWorker();
+    }
+  }
+
+  /**
+   * Queue notifications for attributed events that match an enabled scoring rule
+   */
+  handleAttribution(attribution: FantasyEventAttribution): void {
+    if (!this.config?.scoringEvents || attribution.nflEvent.backfilled) {
+      return;
+    }
+
+    const rules = this.config.rules.filter((rule): rule is ScoringNotificationRule =>
+      rule.type === 'scoring' && rule.enabled
+    );
+
+    for (const impact of attribution.fantasyEvents) {
+      if (!rules.some(rule => this.matchesScoringRule(rule, impact))) continue;
+
+      const leagueName = this.leagueNames.get(impact.leagueId) ?? impact.teamName;
+      const points = `${impact.pointsScored > 0 ? '+' : ''}${impact.pointsScored.toFixed(1)}`;
+      this.enqueue({
+        title: impact.impact === 'against'
+          ? `${impact.player.name} scored against you`
+          : `${impact.player.name} ${points} pts`,
+        body: `${impact.description} · ${leagueName}`,
+        tag: `scoring-${impact.leagueId}`
+      });
+    }
+  }
+
+  /**
+   * Track win probability per league and queue a notification when it crosses a rule's threshold
+   */
+  handleLeagueUpdates(leagues: LeagueData[]): void {
+    for (const league of leagues) {
+      this.leagueNames.set(league.id, league.leagueName);
+
+      if (league.winProbability === undefined) continue;
+      const previous = this.lastWinProbability.get(league.id);
+      this.lastWinProbability.set(league.id, league.winProbability);
+      if (previous === undefined || !this.config?.winProbabilityChanges) continue;
+
+      const crossed = this.config.rules
+        .filter((rule): rule is WinProbabilityNotificationRule =>
+          rule.type === 'win_probability' && rule.enabled && (rule.leagueId === null || rule.leagueId === league.id)
+        )
+        .find(rule => (previous < rule.threshold) !== (league.winProbability! < rule.threshold));
+
+      if (crossed) {
+        const rising = league.winProbability >= crossed.threshold;
+        this.enqueue({
+          title: `${league.leagueName}: ${Math.round(league.winProbability)}% to win`,
+          body: `Win probability ${rising ? 'rose above' : 'fell below'} ${crossed.threshold}% (${league.myScore.toFixed(1)}-${league.opponentScore.toFixed(1)} vs ${league.opponentName})`,
+          tag: `win-probability-${league.id}`
+        });
+      }
+    }
+  }
+
+  /**
+   * Queue due lineup reminders (bye, OUT or empty slot before kickoff). Returns the
+   * reminders that were queued; the rest were held back (quiet hours, no permission).
+   */
+  handleLineupReminders(reminders: LineupReminder[]): LineupReminder[] {
+    if (!this.config?.gameStartReminders) {
+      return [];
+    }
+
+    return reminders.filter(reminder => {
+      const kickoff = reminder.kickoff.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+      return this.enqueue({
+        title: `${reminder.teamName}: lineup locks at ${kickoff}`,
+        body: reminder.message,
+        tag: `lineup-${reminder.id}`
+      });
+    });
+  }
+
+  private matchesScoringRule(rule: ScoringNotificationRule, impact: FantasyEventImpact): boolean {
+    if (rule.leagueId !== null && rule.leagueId !== impact.leagueId) return false;
+    if (rule.playerName && !impact.player.name.toLowerCase().includes(rule.playerName.toLowerCase())) return false;
+    if (rule.events === 'touchdowns' && !TOUCHDOWN_EVENTS.has(impact.eventType)) return false;
+    if (rule.startersOnly && !impact.isStarter) return false;
+    if (rule.side !== 'both' && rule.side !== impact.impact) return false;
+    return Math.abs(impact.pointsScored) >= rule.minPoints;
+  }
+
+  // Whether the notification was queued to be shown
+  private enqueue(notification: PendingNotification): boolean {
+    if (!this.config?.browserNotifications || this.getPermission() !== 'granted') {
+      return false;
+    }
+    if (this.isQuietTime(this.config.quietHours)) {
+      debugLogger.info('NOTIFICATIONS', 'Suppressed during quiet hours', { title: notification.title });
+      return false;
+    }
+
+    this.pending.push(notification);
+    if (!this.flushTimeout) {
+      this.flushTimeout = setTimeout(() => this.flush(), BATCH_WINDOW_MS);
+    }
+    return true;
+  }
+
+  private async flush(): Promise<void> {
+    const batch = this.pending;
+    this.pending = [];
+    this.flushTimeout = null;
+    if (batch.length === 0) return;
+
+    const notification: PendingNotification = batch.length === 1
+      ? batch[0]
+      : {
+          title: `${batch.length} fantasy updates`,
+          body: batch.map(n => n.title).join('\n'),
+          tag: 'fantasy-batch'
+        };
+
+    try {
+      const registration = await this.registerServiceWorker();
+      const options: NotificationOptions = {
+        body: notification.body,
+        tag: notification.tag,
+        icon: '/favicon.ico',
+        data: { url: window.location.href }
+      };
+
+      if (registration) {
+        await registration.showNotification(notification.title, options);
+      } else {
+        new Notification(notification.title, options);
+      }
+
+      debugLogger.success('NOTIFICATIONS', `Shown: ${notification.title}`, { batched: batch.length });
+    } catch (error) {
+      debugLogger.error('NOTIFICATIONS', 'Failed to show notification', error);
+    }
+  }
+
+  private isQuietTime(quietHours: QuietHoursConfig, now = new Date()): boolean {
+    if (!quietHours.enabled) return false;
+
+    const current = now.getHours() * 60 + now.getMinutes();
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    return start <= end
+      ? current >= start && current < end
+      : current >= start || current < end; // Spans midnight
+  }
+
+  private async registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+    if (this.registration || !this.isSupported()) {
+      return this.registration;
+    }
+
+    try {
+      this.registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: SERVICE_WORKER_SCOPE });
+      debugLogger.info('NOTIFICATIONS', 'Notification service worker registered');
+    } catch (error) {
+      debugLogger.error('NOTIFICATIONS', 'Service worker registration failed; using page notifications', error);
+    }
+    return this.registration;
+  }
+}
+
+// Export singleton instance
+export const notificationService = NotificationService.getInstance();
@@ -0,0 +1,104 @@
+import { Platform, PLATFORMS } from '../types/fantasy';
+import { safeLower } from '../utils/strings';
+
+// player_mappings columns holding each platform's player IDs
+export type PlayerIdColumn = 'yahoo_id' | 'sleeper_id' | 'espn_id';
+
+// The roster player fields adapters need to classify a player
+export interface PlatformPlayer {
+  platformPlayerId: string;
+  position: string;
+  team: string;
+}
+
+export interface PlatformAdapter {
+  platform: Platform;
+  displayName: string;
+  aliases: string[]; // Other spellings found in stored configs and API payloads
+  playerIdColumn: PlayerIdColumn;
+  mapsPlayersByDatabaseId: boolean; // Whether roster player IDs resolve to Tank01 through player_mappings
+  scoringStyle: 'standard' | 'sleeper'; // Calculator settings shape: Yahoo-style modifiers or Sleeper stat keys
+  getDefenseTeam(player: PlatformPlayer): string | null; // Team abbreviation when the player is a team defense
+}
+
+/**
+ * Platform Registry
+ * Single place that knows how each fantasy platform is identified and
+ * treated. Services look adapters up here instead of branching on strings.
+ */
+export class PlatformRegistry {
+  private static instance: PlatformRegistry;
+  private adapters = new Map<Platform, PlatformAdapter>();
+  private aliases = new Map<string, Platform>();
+
+  private constructor() {}
+
+  public static getInstance(): PlatformRegistry {
+    if (!PlatformRegistry.instance) {
+      PlatformRegistry.instance = new PlatformRegistry();
+    }
+    return PlatformRegistry.instance;
+  }
+
+  public register(adapter: PlatformAdapter): void {
+    this.adapters.set(adapter.platform, adapter);
+    [adapter.platform, adapter.displayName, ...adapter.aliases].forEach(alias => {
+      this.aliases.set(safeLower(alias), adapter.platform);
+    });
+  }
+
+  public get(platform: Platform): PlatformAdapter {
+    const adapter = this.adapters.get(platform);
+    if (!adapter) {
+      throw new Error(`No adapter registered for platform ${platform}`);
+    }
+    return adapter;
+  }
+
+  public list(): PlatformAdapter[] {
+    return PLATFORMS.filter(platform => this.adapters.has(platform)).map(platform => this.get(platform));
+  }
+
+  /**
+   * Resolve any known spelling ('yahoo', 'SLEEPER', 'espn') to its canonical platform
+   */
+  public normalize(value: unknown): Platform | null {
+    return this.aliases.get(safeLower(value).trim()) ?? null;
+  }
+}
+
+// Export singleton instance
+export const platformRegistry = PlatformRegistry.getInstance();
+
+platformRegistry.register({
+  platform: 'Yahoo',
+  displayName: 'Yahoo Fantasy',
+  aliases: ['yahoo'],
+  playerIdColumn: 'yahoo_id',
+  // Yahoo player keys aren't stored in player_mappings; EventAttributionService matches rostered players by name and team
+  mapsPlayersByDatabaseId: false,
+  scoringStyle: 'standard',
+  getDefenseTeam: player =>
+    player.position === 'DEF' || player.position === 'DT' ? player.team.toUpperCase() : null
+});
+
+platformRegistry.register({
+  platform: 'Sleeper',
+  displayName: 'Sleeper',
+  aliases: ['sleeper'],
+  playerIdColumn: 'sleeper_id',
+  mapsPlayersByDatabaseId: true,
+  scoringStyle: 'sleeper',
+  // Sleeper identifies defenses by team abbreviation
+  getDefenseTeam: player => /^[A-Z]{2,3}$/.test(player.platformPlayerId) ? player.platformPlayerId : null
+});
+
+platformRegistry.register({
+  platform: 'ESPN',
+  displayName: 'ESPN Fantasy',
+  aliases: ['espn'],
+  playerIdColumn: 'espn_id',
+  mapsPlayersByDatabaseId: true,
+  scoringStyle: 'standard',
+  getDefenseTeam: player => player.position === 'DEF' ? player.team.toUpperCase() : null
+});
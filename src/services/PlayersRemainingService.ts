@@ -0,0 +1,60 @@
+import type { StarterGameStatus, PlayersRemaining } from '../types/fantasy';
+import { tank01NFLDataService } from './Tank01NFLDataService';
+
+// Starter identity as reported by the fantasy platform
+export type MatchupStarter = Pick<StarterGameStatus, 'playerId' | 'name' | 'position' | 'team'>;
+
+/**
+ * Players Remaining Service
+ * Joins each side's starters with the Tank01 scoreboard so league cards can show
+ * who is yet to play, who is on the field and who is done.
+ */
+export class PlayersRemainingService {
+  private static instance: PlayersRemainingService;
+
+  private constructor() {}
+
+  public static getInstance(): PlayersRemainingService {
+    if (!PlayersRemainingService.instance) {
+      PlayersRemainingService.instance = new PlayersRemainingService();
+    }
+    return PlayersRemainingService.instance;
+  }
+
+  public buildPlayersRemaining(myStarters: MatchupStarter[], opponentStarters: MatchupStarter[]): PlayersRemaining {
+    return {
+      myStarters: myStarters.map(starter => this.getStarterStatus(starter)),
+      opponentStarters: opponentStarters.map(starter => this.getStarterStatus(starter))
+    };
+  }
+
+  public getStarterStatus({ playerId, name, position, team }: MatchupStarter): StarterGameStatus {
+    const starter = { playerId, name, position, team };
+    const game = tank01NFLDataService.getTeamGameStatus(team);
+    if (!game) {
+      return { ...starter, state: 'unknown' };
+    }
+
+    const state: StarterGameStatus['state'] = game.status === 'final'
+      ? 'finished'
+      : game.status === 'in_progress' ? 'in_progress' : 'yet_to_play';
+
+    return {
+      ...starter,
+      state,
+      opponent: game.opponent,
+      period: state === 'in_progress' ? game.period : undefined,
+      clock: state === 'in_progress' ? game.clock : undefined
+    };
+  }
+
+  /**
+   * Starters who can still add points
+   */
+  public countRemaining(starters: StarterGameStatus[]): number {
+    return starters.filter(starter => starter.state === 'yet_to_play' || starter.state === 'in_progress').length;
+  }
+}
+
+// Export singleton instance
+export const playersRemainingService = PlayersRemainingService.getInstance();
@@ -0,0 +1,96 @@
+import { tank01NFLDataService } from './Tank01NFLDataService';
+
+// A starter's standing in the current matchup
+export interface StarterOutlook {
+  playerId: string;
+  position: string;
+  team: string;            // NFL team abbreviation
+  currentPoints: number;
+  projectedPoints?: number; // Pregame projection for the full game; undefined when the platform has none
+}
+
+export interface StarterProjection {
+  remainingFraction: number; // Share of the starter's game still to play
+  remainingPoints: number;   // Pregame projection scaled to the time remaining
+  projectedFinal: number;    // Points so far plus remainingPoints
+}
+
+// Used when a platform has no projection for a starter
+const POSITION_BASELINE_PROJECTION: Record<string, number> = {
+  QB: 17,
+  RB: 10,
+  WR: 10,
+  TE: 7,
+  K: 8,
+  DEF: 7
+};
+const DEFAULT_BASELINE_PROJECTION = 8;
+
+/**
+ * Projection Service
+ * Live projected finals: each starter keeps the points they have scored and adds
+ * their pregame projection for the share of their NFL game still to play.
+ */
+export class ProjectionService {
+  private static instance: ProjectionService;
+
+  private constructor() {}
+
+  public static getInstance(): ProjectionService {
+    if (!ProjectionService.instance) {
+      ProjectionService.instance = new ProjectionService();
+    }
+    return ProjectionService.instance;
+  }
+
+  public projectStarter(starter: StarterOutlook): StarterProjection {
+    const remainingFraction = this.getRemainingFraction(starter);
+    const remainingPoints = this.getPregameProjection(starter) * remainingFraction;
+
+    return {
+      remainingFraction,
+      remainingPoints,
+      projectedFinal: starter.currentPoints + remainingPoints
+    };
+  }
+
+  /**
+   * Projected final score for a lineup, rounded to one decimal
+   */
+  public projectTeam(starters: StarterOutlook[]): number {
+    const total = starters.reduce((sum, starter) => sum + this.projectStarter(starter).projectedFinal, 0);
+    return Math.round(total * 10) / 10;
+  }
+
+  /**
+   * Share of a starter's game still to play. Falls back to their points against
+   * projection when the Tank01 scoreboard doesn't know the team's game.
+   */
+  public getRemainingFraction(starter: StarterOutlook): number {
+    const game = tank01NFLDataService.getTeamGameStatus(starter.team);
+    if (game) {
+      return game.remainingFraction;
+    }
+
+    const projected = this.getPregameProjection(starter);
+    if (starter.currentPoints <= 0 || projected <= 0) {
+      return 1;
+    }
+    return Math.max(0, 1 - starter.currentPoints / projected);
+  }
+
+  /**
+   * Typical points for a position, for players with no platform projection
+   */
+  public getBaselineProjection(position: string): number {
+    return POSITION_BASELINE_PROJECTION[position] ?? DEFAULT_BASELINE_PROJECTION;
+  }
+
+  // A projection of 0 is real (an inactive or injured player), so only a missing one uses the baseline
+  private getPregameProjection(starter: StarterOutlook): number {
+    return starter.projectedPoints ?? this.getBaselineProjection(starter.position);
+  }
+}
+
+// Export singleton instance
+export const projectionService = ProjectionService.getInstance();
@@ -0,0 +1,212 @@
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { debugLogger } from "../utils/debugLogger";
+import { supabase } from "../integrations/supabase/client";
+import type { Database } from "../integrations/supabase/types";
+import type { LiveStatProvider } from "./LiveStatProvider";
+import { tank01NFLDataService, type NFLScoringEvent } from "./Tank01NFLDataService";
+
+type NFLStatEventRow = Database['public']['Tables']['nfl_stat_events']['Row'];
+type NFLGameStatusRow = Database['public']['Tables']['nfl_game_status']['Row'];
+
+// created_at of the newest event received, so a reload catches up from there
+const CURSOR_KEY = 'nfl_stat_events_cursor';
+// Events older than one game window aren't caught up
+const CATCH_UP_WINDOW_MS = 12 * 60 * 60 * 1000;
+const CATCH_UP_LIMIT = 1000;
+
+/**
+ * Server Ingestion Event Service - REALTIME PROVIDER
+ * Receives canonical NFL events written by the nfl-ingestion-worker edge function
+ * over Supabase Realtime, so dashboards share one Tank01 poller instead of each
+ * spending the RapidAPI quota. Game status rows from the worker feed Tank01's
+ * team game status, and every (re)subscribe catches up on events missed while
+ * the dashboard was closed or disconnected, flagged as backfilled.
+ */
+export class ServerIngestionEventService implements LiveStatProvider {
+  private static instance: ServerIngestionEventService;
+  public readonly name = 'server';
+  private channel: RealtimeChannel | null = null;
+  private channelStatus = 'CLOSED';
+  private eventCallbacks: ((event: NFLScoringEvent) => void)[] = [];
+  private seenEventIds = new Set<string>();
+  private eventsReceived = 0;
+  private lastSeenAt: string | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ServerIngestionEventService {
+    if (!ServerIngestionEventService.instance) {
+      ServerIngestionEventService.instance = new ServerIngestionEventService();
+    }
+    return ServerIngestionEventService.instance;
+  }
+
+  /**
+   * Register callback for scoring events
+   */
+  public onScoringEvent(callback: (event: NFLScoringEvent) => void): () => void {
+    this.eventCallbacks.push(callback);
+
+    return () => {
+      const index = this.eventCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.eventCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to new nfl_stat_events and nfl_game_status rows. The interval is unused; the worker's schedule sets the pace.
+   */
+  public async startPolling(): Promise<void> {
+    if (this.channel) {
+      debugLogger.warning('SERVER_INGEST', 'Already subscribed');
+      return;
+    }
+
+    this.lastSeenAt = localStorage.getItem(CURSOR_KEY);
+    if (!this.lastSeenAt) {
+      // Nothing seen on this device yet; catch up from here on the next reload
+      this.advanceCursor(new Date().toISOString());
+    }
+
+    this.channelStatus = 'CONNECTING';
+    this.channel = supabase
+      .channel('nfl-stat-events')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'nfl_stat_events' },
+        payload => this.handleRow(payload.new as NFLStatEventRow)
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'nfl_game_status' },
+        payload => this.handleGameStatus(payload.new as NFLGameStatusRow)
+      )
+      .subscribe(status => {
+        this.channelStatus = status;
+        if (status === 'SUBSCRIBED') {
+          debugLogger.success('SERVER_INGEST', 'Subscribed to nfl_stat_events');
+          this.catchUp().catch(error => {
+            debugLogger.error('SERVER_INGEST', 'Failed to catch up on missed events', error);
+          });
+        } else if (status !== 'CLOSED') {
+          debugLogger.warning('SERVER_INGEST', `Realtime channel status: ${status}`);
+        }
+      });
+  }
+
+  public stopPolling(): void {
+    if (this.channel) {
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+      debugLogger.info('SERVER_INGEST', 'Unsubscribed from nfl_stat_events');
+    }
+    this.channelStatus = 'CLOSED';
+  }
+
+  /**
+   * Available until the channel reports an error or timeout; Realtime rejoins on its own
+   */
+  public isAvailable(): boolean {
+    return this.channelStatus !== 'CHANNEL_ERROR' && this.channelStatus !== 'TIMED_OUT';
+  }
+
+  /**
+   * Load every game's status and the events written since the last one seen
+   */
+  private async catchUp(): Promise<void> {
+    const { data: games, error: statusError } = await supabase.from('nfl_game_status').select('*');
+    if (statusError) throw statusError;
+    games.forEach(game => this.handleGameStatus(game));
+
+    const windowStart = new Date(Date.now() - CATCH_UP_WINDOW_MS).toISOString();
+    const since = this.lastSeenAt && Date.parse(this.lastSeenAt) > Date.parse(windowStart) ? this.lastSeenAt : windowStart;
+
+    const { data: rows, error } = await supabase
+      .from('nfl_stat_events')
+      .select('*')
+      .gt('created_at', since)
+      .order('created_at', { ascending: true })
+      .limit(CATCH_UP_LIMIT);
+    if (error) throw error;
+
+    debugLogger.info('SERVER_INGEST', `Caught up on ${rows.length} events since ${since}`, { games: games.length });
+    rows.forEach(row => this.handleRow(row, true));
+  }
+
+  private handleGameStatus(row: NFLGameStatusRow): void {
+    if (!row.game_id) return;
+    tank01NFLDataService.updateTeamGameStatus({
+      gameID: row.game_id,
+      away: row.away,
+      home: row.home,
+      gameClock: row.game_clock,
+      gameStatus: row.game_status,
+      gameStatusCode: row.game_status_code,
+      lineScore: { period: row.period, gameClock: row.game_clock }
+    });
+  }
+
+  private advanceCursor(createdAt: string): void {
+    if (this.lastSeenAt && Date.parse(this.lastSeenAt) >= Date.parse(createdAt)) return;
+    this.lastSeenAt = createdAt;
+    try {
+      localStorage.setItem(CURSOR_KEY, createdAt);
+    } catch (error) {
+      debugLogger.warning('SERVER_INGEST', 'Could not persist the event cursor', error);
+    }
+  }
+
+  private handleRow(row: NFLStatEventRow, backfilled = false): void {
+    if (this.seenEventIds.has(row.id)) return;
+    this.seenEventIds.add(row.id);
+    this.eventsReceived++;
+    this.advanceCursor(row.created_at);
+
+    const event: NFLScoringEvent = {
+      id: row.id,
+      player: {
+        id: row.player_id,
+        name: row.player_name,
+        position: row.position || '',
+        team: row.team
+      },
+      team: row.team,
+      eventType: row.event_type as NFLScoringEvent['eventType'],
+      description: row.description,
+      timestamp: new Date(row.created_at),
+      stats: row.stats as Record<string, number>,
+      gameId: row.game_id,
+      period: row.period,
+      clock: row.clock || '',
+      scoringPlay: row.scoring_play,
+      backfilled: backfilled || undefined
+    };
+
+    debugLogger.info('SERVER_INGEST', 'Received NFL event', {
+      eventId: event.id,
+      player: event.player.name,
+      type: event.eventType
+    });
+
+    for (const callback of this.eventCallbacks) {
+      try {
+        callback(event);
+      } catch (error) {
+        debugLogger.error('SERVER_INGEST', 'Error in event callback', error);
+      }
+    }
+  }
+
+  public getServiceStatus() {
+    return {
+      channelStatus: this.channelStatus,
+      eventsReceived: this.eventsReceived,
+      lastSeenAt: this.lastSeenAt
+    };
+  }
+}
+
+// Export singleton instance
+export const serverIngestionEventService = ServerIngestionEventService.getInstance();
@@ -29,6 +29,8 @@ export interface SleeperRoster {
   owner_id: string;
   players: string[];
   starters: string[];
+  reserve?: string[]; // Injured reserve
+  taxi?: string[];
   settings: {
     wins: number;
     losses: number;
@@ -48,15 +50,29 @@ export interface SleeperMatchup {
   matchup_id: number;
   points: number;
   players_points: Record<string, number>;
+  players?: string[]; // Everyone on the roster that week
+  starters: string[];
   starters_points: number[];
 }
 
+// Weekly projection row; stats holds projected fantasy points per scoring format
+export interface SleeperProjection {
+  player_id: string;
+  stats: {
+    pts_ppr?: number;
+    pts_half_ppr?: number;
+    pts_std?: number;
+    [key: string]: number | undefined;
+  };
+}
+
 export interface SleeperPlayer {
   player_id: string;
   full_name: string;
   first_name: string;
   last_name: string;
   position: string;
+  fantasy_positions?: string[]; // Every position the player is eligible at
   team: string;
   status: string;
   injury_status?: string;
@@ -67,17 +83,21 @@ export interface SleeperState {
   season_type: string;
   season: string;
   leg: number;
+  display_week?: number;
+  previous_season?: string;
+  season_start_date?: string;
 }
 
 export class SleeperAPIEnhanced {
   private static instance: SleeperAPIEnhanced;
-  private playersCache: Record<string, SleeperPlayer> | null = null;
-  private playersCacheTimestamp: number = 0;
-  private readonly CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+  // The players database is several MB and changes at most daily, so it's fetched once per session
+  private playersRequest: Promise<Record<string, SleeperPlayer>> | null = null;
   
   // Smart caching for league data
   private leagueDataCache = new Map<string, {data: any, timestamp: number}>();
   private readonly STATIC_CACHE_DURATION = 300000; // 5 minutes
+  private projectionsCache = new Map<string, {data: Record<string, SleeperProjection>, timestamp: number}>();
+  private readonly PROJECTIONS_CACHE_DURATION = 60 * 60 * 1000; // 1 hour
 
   static getInstance(): SleeperAPIEnhanced {
     if (!SleeperAPIEnhanced.instance) {
@@ -144,27 +164,48 @@ export class SleeperAPIEnhanced {
   }
 
   async getPlayers(): Promise<Record<string, SleeperPlayer>> {
-    const now = Date.now();
-    
-    // Check if in-memory cache is still valid (5 minutes)
-    if (this.playersCache && (now - this.playersCacheTimestamp) < this.CACHE_DURATION) {
-      return this.playersCache;
+    // Concurrent callers share the in-flight request; a failed fetch is retried on the next call.
+    // Kept in memory only: localStorage can't hold it without a QuotaExceededError
+    if (!this.playersRequest) {
+      this.playersRequest = this.callAPI('players').catch(error => {
+        this.playersRequest = null;
+        throw error;
+      });
     }
 
-    // Fetch fresh data from API
-    // Note: localStorage caching removed to prevent QuotaExceededError
-    // In-memory cache is sufficient for a single session
-    const players = await this.callAPI('players');
-    
-    // Cache in memory only
-    this.playersCache = players;
-    this.playersCacheTimestamp = now;
+    return this.playersRequest;
+  }
+
+  async getState(): Promise<SleeperState> {
+    return this.callAPI('state');
+  }
+
+  /**
+   * Weekly player projections keyed by Sleeper player ID
+   */
+  async getProjections(season: number, week: number): Promise<Record<string, SleeperProjection>> {
+    const cacheKey = `${season}-${week}`;
+    const cached = this.projectionsCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.PROJECTIONS_CACHE_DURATION) {
+      return cached.data;
+    }
+
+    const rows: SleeperProjection[] = await this.callAPI('projections', {
+      season: season.toString(),
+      week: week.toString()
+    });
+
+    const projections: Record<string, SleeperProjection> = {};
+    for (const row of rows || []) {
+      projections[row.player_id] = row;
+    }
 
-    return players;
+    this.projectionsCache.set(cacheKey, { data: projections, timestamp: Date.now() });
+    return projections;
   }
 
   async getCurrentWeek(): Promise<number> {
-    const state: SleeperState = await this.callAPI('state');
+    const state = await this.getState();
     return state.week;
   }
 
@@ -1,4 +1,5 @@
 import { sleeperAPIEnhanced, SleeperLeague, SleeperUser } from './SleeperAPIEnhanced';
+import { nflCalendarService } from './NFLCalendarService';
 import { SleeperScoringSettings } from './FantasyPointsCalculator';
 import { debugLogger } from '@/utils/debugLogger';
 
@@ -55,6 +56,13 @@ export interface StandardizedScoringRules {
   def_safe: number;
   def_pa: number; // Points allowed
   def_yds_allowed: number; // Yards allowed
+  pts_allow_0: number;
+  pts_allow_1_6: number;
+  pts_allow_7_13: number;
+  pts_allow_14_20: number;
+  pts_allow_21_27: number;
+  pts_allow_28_34: number;
+  pts_allow_35p: number;
   
   // Bonus thresholds (if supported)
   bonus_pass_yd_300?: number;
@@ -85,7 +93,10 @@ export class SleeperService {
   /**
    * Fetch all leagues for a user (requires username)
    */
-  async fetchSleeperLeagues(username: string, season: string = '2024'): Promise<SleeperUserLeague[]> {
+  async fetchSleeperLeagues(
+    username: string,
+    season: string = String(nflCalendarService.getCachedState().season)
+  ): Promise<SleeperUserLeague[]> {
     debugLogger.info('SLEEPER_SERVICE', `Fetching leagues for user: ${username}, season: ${season}`);
     
     try {
@@ -224,6 +235,13 @@ export class SleeperService {
       def_safe: scoringSettings.def_safe || 2,
       def_pa: scoringSettings.def_pa || 0,
       def_yds_allowed: scoringSettings.def_yds_allowed || 0,
+      pts_allow_0: scoringSettings.pts_allow_0 ?? 10,
+      pts_allow_1_6: scoringSettings.pts_allow_1_6 ?? 7,
+      pts_allow_7_13: scoringSettings.pts_allow_7_13 ?? 4,
+      pts_allow_14_20: scoringSettings.pts_allow_14_20 ?? 1,
+      pts_allow_21_27: scoringSettings.pts_allow_21_27 ?? 0,
+      pts_allow_28_34: scoringSettings.pts_allow_28_34 ?? -1,
+      pts_allow_35p: scoringSettings.pts_allow_35p ?? -4,
       
       // Bonus scoring (if present)
       bonus_pass_yd_300: scoringSettings.bonus_pass_yd_300 || undefined,
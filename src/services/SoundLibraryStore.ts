@@ -0,0 +1,133 @@
+import { debugLogger } from '../utils/debugLogger';
+import { openObjectStoreDatabase } from '../utils/indexedDB';
+
+// A user-uploaded sound file
+export interface CustomSound {
+  id: string;
+  name: string;
+  data: Blob;
+  createdAt: number;
+}
+
+const DB_NAME = 'fantasy-sounds';
+const DB_VERSION = 1;
+const STORE_NAME = 'custom_sounds';
+export const MAX_SOUND_BYTES = 1024 * 1024; // Cues are short; 1 MB keeps the library small
+
+/**
+ * Sound Library Store
+ * IndexedDB storage for user-uploaded sound cues. Reads fail soft (an empty
+ * library); writes reject so the settings UI can show what went wrong.
+ */
+export class SoundLibraryStore {
+  private static instance: SoundLibraryStore;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): SoundLibraryStore {
+    if (!SoundLibraryStore.instance) {
+      SoundLibraryStore.instance = new SoundLibraryStore();
+    }
+    return SoundLibraryStore.instance;
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = openObjectStoreDatabase({
+      name: DB_NAME,
+      version: DB_VERSION,
+      storeName: STORE_NAME,
+      keyPath: 'id',
+      logCategory: 'SOUND_LIBRARY',
+      unavailableMessage: 'IndexedDB unavailable, custom sounds are disabled'
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Every uploaded sound, oldest first
+   */
+  async list(): Promise<CustomSound[]> {
+    const db = await this.openDatabase();
+    if (!db) return [];
+
+    return new Promise(resolve => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+      request.onsuccess = () => {
+        const sounds = request.result as CustomSound[];
+        resolve(sounds.sort((a, b) => a.createdAt - b.createdAt));
+      };
+      request.onerror = () => {
+        debugLogger.error('SOUND_LIBRARY', 'Failed to list sounds', request.error);
+        resolve([]);
+      };
+    });
+  }
+
+  async get(id: string): Promise<CustomSound | null> {
+    const db = await this.openDatabase();
+    if (!db) return null;
+
+    return new Promise(resolve => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(id);
+      request.onsuccess = () => resolve((request.result as CustomSound | undefined) ?? null);
+      request.onerror = () => {
+        debugLogger.error('SOUND_LIBRARY', `Failed to load sound ${id}`, request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  /**
+   * Store an uploaded audio file
+   */
+  async add(file: File): Promise<CustomSound> {
+    if (!file.type.startsWith('audio/')) {
+      throw new Error('Choose an audio file');
+    }
+    if (file.size > MAX_SOUND_BYTES) {
+      throw new Error('Sound files must be 1 MB or smaller');
+    }
+
+    const db = await this.openDatabase();
+    if (!db) {
+      throw new Error('This browser cannot store custom sounds');
+    }
+
+    const sound: CustomSound = {
+      id: `sound_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: file.name.replace(/\.[^.]+$/, ''),
+      data: file,
+      createdAt: Date.now()
+    };
+
+    await this.write(db, store => store.put(sound));
+    debugLogger.success('SOUND_LIBRARY', `Added sound ${sound.name}`, { bytes: file.size });
+    return sound;
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    await this.write(db, store => store.delete(id));
+  }
+
+  private write(db: IDBDatabase, operation: (store: IDBObjectStore) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        debugLogger.error('SOUND_LIBRARY', 'Failed to update sound library', transaction.error);
+        reject(transaction.error ?? new Error('Failed to update sound library'));
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const soundLibraryStore = SoundLibraryStore.getInstance();
@@ -0,0 +1,272 @@
+import { debugLogger } from '../utils/debugLogger';
+import { SoundConfig, SoundCueEvent } from '../types/config';
+import { LeagueData } from '../types/fantasy';
+import { FantasyEventAttribution, FantasyEventImpact } from './EventAttributionService';
+import { soundLibraryStore } from './SoundLibraryStore';
+
+interface Tone {
+  frequency: number;
+  duration: number; // seconds
+  type: OscillatorType;
+}
+
+export interface SoundPlaybackSettings {
+  enabled: boolean;
+  volume: number; // 0-100
+  muted: boolean;
+  sounds: SoundConfig;
+  reducedMotion: boolean;
+}
+
+interface PendingCue {
+  event: SoundCueEvent;
+  leagueId: string;
+}
+
+export const CUSTOM_SOUND_PREFIX = 'custom:';
+const REDUCED_SOUND_ID = 'builtin:soft';
+
+// Synthesized cues, so the default pack needs no audio assets
+export const BUILTIN_SOUNDS: Record<string, { name: string; tones: Tone[] }> = {
+  'builtin:fanfare': {
+    name: 'Fanfare',
+    tones: [
+      { frequency: 523, duration: 0.12, type: 'triangle' },
+      { frequency: 659, duration: 0.12, type: 'triangle' },
+      { frequency: 784, duration: 0.12, type: 'triangle' },
+      { frequency: 1047, duration: 0.3, type: 'triangle' }
+    ]
+  },
+  'builtin:chime': {
+    name: 'Chime',
+    tones: [
+      { frequency: 880, duration: 0.15, type: 'sine' },
+      { frequency: 1175, duration: 0.25, type: 'sine' }
+    ]
+  },
+  'builtin:buzzer': {
+    name: 'Buzzer',
+    tones: [
+      { frequency: 220, duration: 0.18, type: 'sawtooth' },
+      { frequency: 165, duration: 0.3, type: 'sawtooth' }
+    ]
+  },
+  'builtin:alert': {
+    name: 'Alert',
+    tones: [
+      { frequency: 660, duration: 0.1, type: 'square' },
+      { frequency: 660, duration: 0.1, type: 'square' },
+      { frequency: 880, duration: 0.2, type: 'square' }
+    ]
+  },
+  [REDUCED_SOUND_ID]: {
+    name: 'Soft',
+    tones: [{ frequency: 660, duration: 0.2, type: 'sine' }]
+  }
+};
+
+// When a burst of cues lands together only the most important one plays
+const CUE_PRIORITY: Record<SoundCueEvent, number> = {
+  touchdown: 4,
+  interception_against: 3,
+  lead_change: 2,
+  field_goal: 1
+};
+
+const BURST_WINDOW_MS = 500;
+const MIN_GAP_MS = 2500;
+
+/**
+ * Sound Service
+ * Maps attributed fantasy events and lead changes to per-league audio cues,
+ * collapsing bursts into one sound and spacing sounds out so a poll full of
+ * plays doesn't turn into noise. Built-in cues are synthesized with Web Audio;
+ * uploaded cues are decoded from the IndexedDB sound library.
+ */
+export class SoundService {
+  private static instance: SoundService;
+  private settings: SoundPlaybackSettings | null = null;
+  private audioContext: AudioContext | null = null;
+  private decodedSounds = new Map<string, AudioBuffer>();
+  private pending: PendingCue[] = [];
+  private flushTimeout: NodeJS.Timeout | null = null;
+  private lastPlayedAt = 0;
+  private lastLeader = new Map<string, 'me' | 'opponent'>();
+
+  private constructor() {}
+
+  public static getInstance(): SoundService {
+    if (!SoundService.instance) {
+      SoundService.instance = new SoundService();
+    }
+    return SoundService.instance;
+  }
+
+  configure(settings: SoundPlaybackSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Queue cues for touchdowns, field goals and interceptions involving the user's starters
+   */
+  handleAttribution(attribution: FantasyEventAttribution): void {
+    if (!this.settings?.enabled || attribution.nflEvent.backfilled) {
+      return;
+    }
+
+    for (const impact of attribution.fantasyEvents) {
+      const event = this.toCueEvent(impact);
+      if (event && impact.isStarter) {
+        this.enqueue({ event, leagueId: impact.leagueId });
+      }
+    }
+  }
+
+  /**
+   * Queue a lead-change cue when the team ahead in a matchup flips
+   */
+  handleLeagueUpdates(leagues: LeagueData[]): void {
+    for (const league of leagues) {
+      if (league.myScore === league.opponentScore) continue;
+
+      const leader = league.myScore > league.opponentScore ? 'me' : 'opponent';
+      const previous = this.lastLeader.get(league.id);
+      this.lastLeader.set(league.id, leader);
+
+      if (previous && previous !== leader && this.settings?.enabled) {
+        this.enqueue({ event: 'lead_change', leagueId: league.id });
+      }
+    }
+  }
+
+  /**
+   * Play a sound right away at the configured volume, ignoring mute (for test-play buttons)
+   */
+  async preview(soundId: string): Promise<void> {
+    await this.play(soundId, this.settings?.volume ?? 70);
+  }
+
+  /**
+   * The sound a league uses for an event: its own override, else the default cue
+   */
+  resolveCue(sounds: SoundConfig, event: SoundCueEvent, leagueId: string): string | null {
+    const override = sounds.leagueCues[leagueId];
+    return override && event in override ? override[event] ?? null : sounds.cues[event];
+  }
+
+  /**
+   * Drop a deleted upload's decoded audio
+   */
+  forget(soundId: string): void {
+    this.decodedSounds.delete(soundId);
+  }
+
+  private toCueEvent(impact: FantasyEventImpact): SoundCueEvent | null {
+    if (impact.impact === 'for') {
+      if (impact.eventType.endsWith('_td')) return 'touchdown';
+      if (impact.eventType === 'field_goal') return 'field_goal';
+      if (impact.eventType === 'interception') return 'interception_against'; // Our QB threw it
+    } else if (impact.eventType === 'defensive_interception') {
+      return 'interception_against'; // Their defense picked it off
+    }
+    return null;
+  }
+
+  private enqueue(cue: PendingCue): void {
+    this.pending.push(cue);
+    if (this.flushTimeout) return;
+
+    const delay = Math.max(BURST_WINDOW_MS, this.lastPlayedAt + MIN_GAP_MS - Date.now());
+    this.flushTimeout = setTimeout(() => this.flush(), delay);
+  }
+
+  private async flush(): Promise<void> {
+    const burst = this.pending;
+    this.pending = [];
+    this.flushTimeout = null;
+
+    const settings = this.settings;
+    if (burst.length === 0 || !settings?.enabled || settings.muted) return;
+
+    const cue = burst.reduce((best, next) => CUE_PRIORITY[next.event] > CUE_PRIORITY[best.event] ? next : best);
+    const soundId = this.resolveCue(settings.sounds, cue.event, cue.leagueId);
+    if (!soundId) return;
+
+    this.lastPlayedAt = Date.now();
+    if (settings.reducedMotion && settings.sounds.respectReducedMotion) {
+      await this.play(REDUCED_SOUND_ID, settings.volume / 2);
+    } else {
+      await this.play(soundId, settings.volume);
+    }
+
+    debugLogger.info('SOUND', `Played ${cue.event} cue`, { leagueId: cue.leagueId, soundId, collapsed: burst.length });
+  }
+
+  private async play(soundId: string, volume: number): Promise<void> {
+    try {
+      const context = this.getAudioContext();
+      if (!context) return;
+      if (context.state === 'suspended') {
+        await context.resume(); // Browsers keep audio suspended until the page has had a user gesture
+      }
+
+      const gain = context.createGain();
+      gain.gain.value = Math.min(100, Math.max(0, volume)) / 100;
+      gain.connect(context.destination);
+
+      const builtin = BUILTIN_SOUNDS[soundId];
+      if (builtin) {
+        let start = context.currentTime;
+        for (const tone of builtin.tones) {
+          const oscillator = context.createOscillator();
+          oscillator.type = tone.type;
+          oscillator.frequency.value = tone.frequency;
+          oscillator.connect(gain);
+          oscillator.start(start);
+          oscillator.stop(start + tone.duration);
+          start += tone.duration;
+        }
+        return;
+      }
+
+      const buffer = await this.loadCustomSound(context, soundId);
+      if (buffer) {
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.connect(gain);
+        source.start();
+      }
+    } catch (error) {
+      debugLogger.error('SOUND', `Failed to play ${soundId}`, error);
+    }
+  }
+
+  private async loadCustomSound(context: AudioContext, soundId: string): Promise<AudioBuffer | null> {
+    const cached = this.decodedSounds.get(soundId);
+    if (cached) return cached;
+    if (!soundId.startsWith(CUSTOM_SOUND_PREFIX)) {
+      debugLogger.warning('SOUND', `Unknown sound ${soundId}`);
+      return null;
+    }
+
+    const sound = await soundLibraryStore.get(soundId.slice(CUSTOM_SOUND_PREFIX.length));
+    if (!sound) {
+      debugLogger.warning('SOUND', `Custom sound ${soundId} is missing from the library`);
+      return null;
+    }
+
+    const buffer = await context.decodeAudioData(await sound.data.arrayBuffer());
+    this.decodedSounds.set(soundId, buffer);
+    return buffer;
+  }
+
+  private getAudioContext(): AudioContext | null {
+    if (!this.audioContext && typeof window !== 'undefined' && 'AudioContext' in window) {
+      this.audioContext = new AudioContext();
+    }
+    return this.audioContext;
+  }
+}
+
+// Export singleton instance
+export const soundService = SoundService.getInstance();
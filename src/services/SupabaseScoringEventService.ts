@@ -1,9 +1,17 @@
 import { supabase } from '../integrations/supabase/client';
 import { debugLogger } from '../utils/debugLogger';
+import { yahooOAuth } from '../utils/yahooOAuth';
+import { LeagueConfig } from '../types/config';
 import { ConfigScoringEvent } from './EventStorageService';
+import type { Database } from '../integrations/supabase/types';
+import { nflCalendarService } from './NFLCalendarService';
+
+type ScoringEventRow = Database['public']['Tables']['scoring_events']['Row'];
+type LineupWeekResultRow = Database['public']['Tables']['lineup_week_results']['Row'];
 
 export interface ScoringEventRecord {
   id?: string;
+  event_key: string;
   league_id: string;
   team_id?: string;
   player_id: string;
@@ -12,6 +20,8 @@ export interface ScoringEventRecord {
   event_type: string;
   description: string;
   fantasy_points: number;
+  impact: 'for' | 'against';
+  is_starter: boolean;
   nfl_week: number;
   season: number;
   timestamp: string;
@@ -20,9 +30,21 @@ export interface ScoringEventRecord {
   nfl_game_id?: string;
 }
 
+// A league's finished week: what the lineup scored against the best lineup it could have set
+export interface LineupWeekResult {
+  leagueId: string;
+  season: number;
+  week: number;
+  actualPoints: number;
+  optimalPoints: number;
+  benchPoints: number;
+}
+
 export class SupabaseScoringEventService {
   private static instance: SupabaseScoringEventService;
-  private currentSeason = 2025;
+  private get currentSeason(): number {
+    return nflCalendarService.getCachedState().season;
+  }
 
   private constructor() {}
 
@@ -34,11 +56,13 @@ export class SupabaseScoringEventService {
   }
 
   /**
-   * Save a scoring event to Supabase (fire-and-forget)
+   * Save a scoring event to Supabase (fire-and-forget).
+   * Upserts on the deterministic event key, so repeat saves are no-ops.
    */
   async saveEvent(event: ConfigScoringEvent): Promise<void> {
     try {
       const record: ScoringEventRecord = {
+        event_key: event.id,
         league_id: event.leagueId,
         player_id: event.playerId,
         player_name: event.playerName,
@@ -46,6 +70,8 @@ export class SupabaseScoringEventService {
         event_type: event.eventType,
         description: event.description,
         fantasy_points: event.fantasyPoints,
+        impact: event.impact ?? 'for',
+        is_starter: event.isStarter ?? true,
         nfl_week: event.week,
         season: this.currentSeason,
         timestamp: event.timestamp.toISOString()
@@ -53,7 +79,7 @@ export class SupabaseScoringEventService {
 
       const { error } = await supabase
         .from('scoring_events')
-        .insert(record);
+        .upsert(record, { onConflict: 'event_key', ignoreDuplicates: true });
 
       if (error) {
         debugLogger.error('SUPABASE_EVENTS', 'Failed to save event to Supabase', {
@@ -122,6 +148,105 @@ export class SupabaseScoringEventService {
     }
   }
 
+  /**
+   * Subscribe to scoring events inserted by any device for the given leagues
+   */
+  subscribeToLeagueEvents(leagueIds: string[], onEvent: (event: ConfigScoringEvent) => void): () => void {
+    const channel = supabase
+      .channel(`scoring-events-${leagueIds.join('-')}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'scoring_events',
+          filter: `league_id=in.(${leagueIds.join(',')})`
+        },
+        payload => onEvent(this.mapRecordToEvent(payload.new as ScoringEventRow))
+      )
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          debugLogger.info('SUPABASE_EVENTS', 'Subscribed to scoring events', { leagues: leagueIds.length });
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          debugLogger.error('SUPABASE_EVENTS', `Scoring events subscription ${status}`);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Record a finished week through the lineup-week-results edge function. It
+   * rescores the team from the platform with the league's credentials, so the
+   * stored result comes back; null when it couldn't be recorded.
+   */
+  async saveLineupWeekResult(config: LeagueConfig, result: LineupWeekResult): Promise<LineupWeekResult | null> {
+    try {
+      // The table has no public write policy; the edge function writes with the service role
+      const { data, error } = await supabase.functions.invoke('lineup-week-results', {
+        body: {
+          platform: config.platform,
+          leagueId: result.leagueId,
+          season: result.season,
+          week: result.week,
+          optimalPoints: result.optimalPoints,
+          sleeperUsername: config.sleeperUsername,
+          teamId: config.teamId,
+          espnS2: config.espnS2,
+          swid: config.swid,
+          yahooAccessToken: config.platform === 'Yahoo' ? await yahooOAuth.getValidAccessToken() : undefined
+        }
+      });
+
+      if (error) {
+        debugLogger.error('SUPABASE_EVENTS', 'Failed to save lineup week result', {
+          error: error.message,
+          league: result.leagueId,
+          week: result.week
+        });
+        return null;
+      }
+
+      return (data?.result as LineupWeekResult) ?? null;
+    } catch (error) {
+      debugLogger.error('SUPABASE_EVENTS', 'Exception saving lineup week result', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get every finished week's lineup result for a league this season, oldest first
+   */
+  async getLineupWeekResults(leagueId: string): Promise<LineupWeekResult[]> {
+    try {
+      const { data, error } = await supabase
+        .from('lineup_week_results')
+        .select('*')
+        .eq('league_id', leagueId)
+        .eq('season', this.currentSeason)
+        .order('nfl_week', { ascending: true });
+
+      if (error) {
+        debugLogger.error('SUPABASE_EVENTS', 'Failed to fetch lineup week results', error);
+        return [];
+      }
+
+      return (data || []).map((row: LineupWeekResultRow) => ({
+        leagueId: row.league_id,
+        season: row.season,
+        week: row.nfl_week,
+        actualPoints: Number(row.actual_points),
+        optimalPoints: Number(row.optimal_points),
+        benchPoints: Number(row.bench_points)
+      }));
+    } catch (error) {
+      debugLogger.error('SUPABASE_EVENTS', 'Exception fetching lineup week results', error);
+      return [];
+    }
+  }
+
   /**
    * Clean up old events (keep only current week + 1 previous week)
    */
@@ -197,18 +322,24 @@ export class SupabaseScoringEventService {
    * Map database records to ConfigScoringEvent format
    */
   private mapRecordsToEvents(records: any[]): ConfigScoringEvent[] {
-    return records.map(record => ({
-      id: record.id,
+    return records.map(record => this.mapRecordToEvent(record));
+  }
+
+  private mapRecordToEvent(record: ScoringEventRow): ConfigScoringEvent {
+    return {
+      id: record.event_key ?? record.id,
       playerId: record.player_id,
       playerName: record.player_name,
       teamAbbr: record.team_abbr,
       eventType: record.event_type as ConfigScoringEvent['eventType'],
       description: record.description,
-      fantasyPoints: parseFloat(record.fantasy_points),
+      fantasyPoints: Number(record.fantasy_points),
       timestamp: new Date(record.timestamp),
       week: record.nfl_week,
-      leagueId: record.league_id
-    }));
+      leagueId: record.league_id,
+      impact: record.impact === 'against' ? 'against' : 'for',
+      isStarter: record.is_starter
+    };
   }
 }
 
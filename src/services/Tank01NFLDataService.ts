@@ -1,5 +1,22 @@
 import { debugLogger } from "../utils/debugLogger";
 import { supabase } from "../integrations/supabase/client";
+import type { LiveStatProvider } from "./LiveStatProvider";
+import { gameSnapshotStore } from "./GameSnapshotStore";
+import {
+  StatChange,
+  StatEventType,
+  StatSnapshot,
+  StatTotals,
+  SNAPSHOT_STAT_FIELDS,
+  createEmptySnapshot,
+  parsePlayerStatBlocks,
+  parseDefenseStats,
+  buildSnapshot,
+  addStats,
+  getStatDeltas,
+  diffSnapshots,
+  parsePeriod
+} from "../../supabase/functions/_shared/statDiffer.ts";
 
 // NFL Scoring Event - matches your existing type
 export interface NFLScoringEvent {
@@ -11,7 +28,7 @@ export interface NFLScoringEvent {
     team: string;
   };
   team: string;
-  eventType: 'passingtd' | 'rushingtd' | 'receivingtd' | 'passingyards' | 'rushingyards' | 'receivingyards' | 'fumblelost' | 'fumble' | 'interception' | 'fieldgoal' | 'safety';
+  eventType: StatEventType;
   description: string;
   timestamp: Date;
   stats: Record<string, number>;
@@ -19,6 +36,7 @@ export interface NFLScoringEvent {
   period: number;
   clock: string;
   scoringPlay: boolean;
+  backfilled?: boolean; // Catch-up event for stats that changed while the app was closed
 }
 
 // Tank01 Game from getNFLScoresOnly
@@ -62,7 +80,7 @@ interface Tank01Game {
 }
 
 // Tank01 Player Stats - NEW STRUCTURE
-interface Tank01PlayerStats {
+export interface Tank01PlayerStats {
   gameID: string;
   longName?: string;
   playerName?: string;
@@ -90,6 +108,30 @@ interface Tank01PlayerStats {
     targets: string;
     longRec: string;
   };
+  Defense?: {
+    fumbles?: string;
+    fumblesLost?: string;
+  };
+  Kicking?: {
+    fgMade: string;
+    fgAttempts: string;
+    fgLong: string;
+    fgYds?: string;
+    xpMade: string;
+    xpAttempts: string;
+  };
+}
+
+// Tank01 team defense (DST) box score block
+export interface Tank01DefenseStats {
+  teamAbv: string;
+  teamID: string;
+  sacks?: string;
+  defensiveInterceptions?: string;
+  fumblesRecovered?: string;
+  defTD?: string;
+  safeties?: string;
+  ptsAllowed?: string;
 }
 
 // Tank01 Box Score Response - NEW STRUCTURE
@@ -106,33 +148,71 @@ interface Tank01BoxScoreResponse {
     gameStatus: string;
     gameStatusCode: string;
     playerStats: Record<string, Tank01PlayerStats>;
+    DST?: {
+      away: Tank01DefenseStats;
+      home: Tank01DefenseStats;
+    };
     scoringPlays?: any[];
-    allPlayByPlay?: any[];
+    allPlayByPlay?: Tank01Play[];
   };
 }
 
+// Tank01 play-by-play entry; playerStats holds only the stats from this play
+interface Tank01Play {
+  play: string;
+  playPeriod: string;
+  playClock: string;
+  teamID?: string;
+  playerStats?: Record<string, Partial<Tank01PlayerStats>>;
+}
+
+// Box score payload shape other providers normalize into before ingestion
+export type Tank01BoxScoreBody = Tank01BoxScoreResponse['body'];
+
+// 'boxscore' diffs cumulative stats; 'playbyplay' emits one event per play
+export type Tank01IngestionMode = 'boxscore' | 'playbyplay';
+
+// The scoreboard fields a team's game status is read from; the ingestion worker publishes these too
+export type Tank01GameStatusFields = Pick<Tank01Game, 'gameID' | 'away' | 'home' | 'gameClock' | 'gameStatus' | 'gameStatusCode'> & {
+  lineScore?: Pick<NonNullable<Tank01Game['lineScore']>, 'period' | 'gameClock'>;
+};
+
+// Where an NFL team's game stands this week, from the last scoreboard poll or nfl_game_status row
+export interface NFLTeamGameStatus {
+  gameId: string;
+  team: string;
+  opponent: string;
+  status: 'scheduled' | 'in_progress' | 'final';
+  period: number;           // 0 before kickoff, 5 for overtime
+  clock: string;
+  remainingFraction: number; // Share of regulation still to play, 1 before kickoff and 0 once final
+}
+
+// Tank01 game from getNFLGamesForWeek
+interface Tank01ScheduledGame {
+  gameID: string;
+  away: string;
+  home: string;
+  gameTime_epoch?: string; // Kickoff, seconds since epoch
+}
+
+// One game on this week's NFL schedule
+export interface NFLKickoff {
+  gameId: string;
+  away: string;
+  home: string;
+  kickoff: Date;
+}
+
 interface GamePollingState {
   gameId: string;
   lastPolledAt: number;
   isActive: boolean;
-  playerStats: Map<string, PlayerStatSnapshot>;
-}
-
-interface PlayerStatSnapshot {
-  playerId: string;
-  playerName: string;
-  position: string;
-  team: string;
-  passingYards: number;
-  passingTDs: number;
-  passingInts: number;
-  rushingYards: number;
-  rushingTDs: number;
-  receptions: number;
-  receivingYards: number;
-  receivingTDs: number;
-  totalFantasyPoints: number;
-  lastUpdated: number;
+  playerStats: Map<string, StatSnapshot>;
+  processedPlays: Set<string>;
+  playAccountedStats: Map<string, StatTotals>; // playerId -> stats already emitted from plays since the last snapshot
+  restoreAttempted: boolean; // Persisted snapshots have been looked up
+  backfillPending: boolean; // Next ingest diffs against restored snapshots
 }
 
 interface CircuitBreakerState {
@@ -157,21 +237,34 @@ interface DailyQuotaTracker {
   lastReset: Date;
 }
 
+// Other platforms' abbreviations for teams Tank01 spells differently
+const TEAM_ABBREVIATION_ALIASES: Record<string, string> = {
+  WAS: 'WSH',
+  JAC: 'JAX',
+  LVR: 'LV',
+  LAS: 'LV'
+};
+
 /**
  * Tank01 NFL Data Service - STAT-BASED TRACKING
- * Polls cumulative player stats and emits events when stats change
+ * Polls cumulative player stats and emits raw stat deltas when stats change.
+ * Fantasy points are computed downstream per league by EventAttributionService.
  */
-export class Tank01NFLDataService {
+export class Tank01NFLDataService implements LiveStatProvider {
+  public readonly name = 'tank01';
   private static instance: Tank01NFLDataService;
   
   private pollingInterval: NodeJS.Timeout | null = null;
   private gameStates: Map<string, GamePollingState> = new Map();
+  private teamGameStatus: Map<string, NFLTeamGameStatus> = new Map();
+  private weekSchedule: { key: string; games: NFLKickoff[]; fetchedAt: number } | null = null;
   private eventCallbacks: ((event: NFLScoringEvent) => void)[] = [];
   
   private pollingIntervalMs = 90000; // Start with 90 seconds
   private isPolling = false;
   private emergencyStop = false;
   private lastPollTime = 0;
+  private ingestionMode: Tank01IngestionMode = 'boxscore';
   
   // Circuit breaker
   private circuitBreaker: CircuitBreakerState = {
@@ -205,6 +298,7 @@ export class Tank01NFLDataService {
   private readonly MAX_DAILY_REQUESTS = 1000;
   private readonly DAILY_QUOTA_WARNING_THRESHOLD = 0.8;
   private readonly MIN_POLL_INTERVAL = 45000; // 45 seconds minimum
+  private readonly SCHEDULE_CACHE_DURATION = 6 * 60 * 60 * 1000; // Kickoff times rarely move
   
   // Adaptive polling based on game state
   private readonly POLLING_INTERVALS = {
@@ -320,17 +414,14 @@ export class Tank01NFLDataService {
       // Find active games
       const activeGames: Tank01Game[] = [];
       for (const game of gamesArray) {
+        this.updateTeamGameStatus(game);
+
         if (this.isGameActive(game)) {
           activeGames.push(game);
           
           // Initialize or update game state
           if (!this.gameStates.has(game.gameID)) {
-            this.gameStates.set(game.gameID, {
-              gameId: game.gameID,
-              lastPolledAt: now,
-              isActive: true,
-              playerStats: new Map()
-            });
+            this.gameStates.set(game.gameID, this.createGameState(game.gameID));
           }
         }
       }
@@ -377,33 +468,15 @@ export class Tank01NFLDataService {
       }
       
       const data = response.data as Tank01BoxScoreResponse;
-      const playerStats = data.body?.playerStats;
       
-      if (!playerStats) {
+      if (!data.body?.playerStats) {
         debugLogger.warning('TANK01', `No player stats for ${gameId}`);
         return;
       }
       
       this.recordRequestSuccess();
       
-      // Get game state
-      let gameState = this.gameStates.get(gameId);
-      if (!gameState) {
-        gameState = {
-          gameId,
-          lastPolledAt: Date.now(),
-          isActive: true,
-          playerStats: new Map()
-        };
-        this.gameStates.set(gameId, gameState);
-      }
-      
-      // Process each player's stats
-      for (const [playerId, stats] of Object.entries(playerStats)) {
-        await this.processPlayerStatChange(playerId, stats, gameState, data.body);
-      }
-      
-      gameState.lastPolledAt = Date.now();
+      await this.ingestBoxScore(data.body);
       
     } catch (error) {
       this.recordRequestFailure();
@@ -411,6 +484,91 @@ export class Tank01NFLDataService {
     }
   }
   
+  /**
+   * Diff a box score against the stored snapshots and emit events.
+   * Shared with fallback providers so snapshots survive a provider switch.
+   */
+  public async ingestBoxScore(body: Tank01BoxScoreBody): Promise<void> {
+    const gameId = body.gameID;
+    
+    // Get game state
+    let gameState = this.gameStates.get(gameId);
+    if (!gameState) {
+      gameState = this.createGameState(gameId);
+      this.gameStates.set(gameId, gameState);
+    }
+    
+    if (!gameState.restoreAttempted) {
+      await this.restoreGameState(gameState);
+    }
+    
+    // Plays are always tracked so switching modes mid-game never replays history;
+    // they only emit in play-by-play mode once the game has been seeded
+    const isSeeding = gameState.playerStats.size === 0;
+    this.processPlayByPlay(gameState, body, this.ingestionMode === 'playbyplay' && !isSeeding);
+    
+    // Process each player's stats
+    for (const [playerId, stats] of Object.entries(body.playerStats)) {
+      await this.processPlayerStatChange(playerId, stats, gameState, body);
+    }
+    
+    // Process team defenses
+    if (body.DST) {
+      for (const defense of [body.DST.away, body.DST.home]) {
+        if (defense) {
+          this.processStatSnapshot(this.buildDefenseSnapshot(defense, gameState), gameState, body);
+        }
+      }
+    }
+    
+    gameState.lastPolledAt = Date.now();
+    gameState.backfillPending = false;
+    
+    gameSnapshotStore.save({
+      gameId,
+      savedAt: gameState.lastPolledAt,
+      snapshots: [...gameState.playerStats.values()],
+      processedPlays: [...gameState.processedPlays]
+    });
+  }
+  
+  private createGameState(gameId: string): GamePollingState {
+    return {
+      gameId,
+      lastPolledAt: Date.now(),
+      isActive: true,
+      playerStats: new Map(),
+      processedPlays: new Set(),
+      playAccountedStats: new Map(),
+      restoreAttempted: false,
+      backfillPending: false
+    };
+  }
+  
+  /**
+   * Seed a fresh game state from persisted snapshots so the first poll after a
+   * reload emits whatever changed while the app was closed, flagged as backfilled
+   */
+  private async restoreGameState(gameState: GamePollingState): Promise<void> {
+    gameState.restoreAttempted = true;
+    if (gameState.playerStats.size > 0) return;
+    
+    const persisted = await gameSnapshotStore.load<StatSnapshot>(gameState.gameId);
+    if (!persisted) return;
+    
+    for (const snapshot of persisted.snapshots) {
+      gameState.playerStats.set(snapshot.playerId, snapshot);
+    }
+    for (const playKey of persisted.processedPlays) {
+      gameState.processedPlays.add(playKey);
+    }
+    gameState.backfillPending = true;
+    
+    debugLogger.info('TANK01', `Restored ${persisted.snapshots.length} snapshots for ${gameState.gameId}`, {
+      savedAt: new Date(persisted.savedAt).toISOString()
+    });
+  }
+  
   /**
    * Process player stat changes and emit events
    */
@@ -418,108 +576,129 @@ export class Tank01NFLDataService {
     playerId: string,
     currentStats: Tank01PlayerStats,
     gameState: GamePollingState,
-    gameInfo: any
+    gameInfo: Tank01BoxScoreBody
   ): Promise<void> {
-    // Create current snapshot
-    const currentSnapshot: PlayerStatSnapshot = {
-      playerId,
-      playerName: currentStats.longName || currentStats.playerName || 'Unknown',
-      position: currentStats.pos,
-      team: currentStats.teamAbv,
-      passingYards: parseInt(currentStats.Passing?.passYds || '0'),
-      passingTDs: parseInt(currentStats.Passing?.passTD || '0'),
-      passingInts: parseInt(currentStats.Passing?.int || '0'),
-      rushingYards: parseInt(currentStats.Rushing?.rushYds || '0'),
-      rushingTDs: parseInt(currentStats.Rushing?.rushTD || '0'),
-      receptions: parseInt(currentStats.Receiving?.receptions || '0'),
-      receivingYards: parseInt(currentStats.Receiving?.recYds || '0'),
-      receivingTDs: parseInt(currentStats.Receiving?.recTD || '0'),
-      totalFantasyPoints: 0,
-      lastUpdated: Date.now()
-    };
+    const currentSnapshot = buildSnapshot(
+      createEmptySnapshot(
+        playerId,
+        currentStats.longName || currentStats.playerName || 'Unknown',
+        currentStats.pos,
+        currentStats.teamAbv
+      ),
+      parsePlayerStatBlocks(currentStats),
+      gameState.playerStats.get(playerId)
+    );
+    
+    this.processStatSnapshot(currentSnapshot, gameState, gameInfo);
+  }
+  
+  /**
+   * Emit one event per new play, stamped with the play's own quarter, clock and text.
+   * Emitted stats are recorded so the box-score diff only emits what plays missed.
+   */
+  private processPlayByPlay(
+    gameState: GamePollingState,
+    gameInfo: Tank01BoxScoreBody,
+    emit: boolean
+  ): void {
+    const plays = gameInfo.allPlayByPlay || [];
+    const occurrences = new Map<string, number>();
     
-    // Calculate fantasy points (PPR scoring)
-    currentSnapshot.totalFantasyPoints = 
-      currentSnapshot.passingYards * 0.04 +
-      currentSnapshot.passingTDs * 4 +
-      currentSnapshot.passingInts * -2 +
-      currentSnapshot.rushingYards * 0.1 +
-      currentSnapshot.rushingTDs * 6 +
-      currentSnapshot.receptions * 1 +
-      currentSnapshot.receivingYards * 0.1 +
-      currentSnapshot.receivingTDs * 6;
-    
-    // Get previous snapshot
-    const previousSnapshot = gameState.playerStats.get(playerId);
-    
-    if (previousSnapshot) {
-      // Check if stats changed
-      const pointsDelta = currentSnapshot.totalFantasyPoints - previousSnapshot.totalFantasyPoints;
+    for (const play of plays) {
+      // Tank01 plays have no ID; key them on their content so inserted or reordered
+      // plays keep their keys, numbering exact repeats in order
+      const content = `${play.playPeriod}-${play.playClock}-${play.play}`;
+      const occurrence = occurrences.get(content) ?? 0;
+      occurrences.set(content, occurrence + 1);
+      const playKey = occurrence > 0 ? `${content}-${occurrence}` : content;
       
-      if (pointsDelta > 0) {
-        debugLogger.info('TANK01', `Stat change detected for ${currentSnapshot.playerName}`, {
-          previousPoints: previousSnapshot.totalFantasyPoints,
-          currentPoints: currentSnapshot.totalFantasyPoints,
-          delta: pointsDelta
-        });
+      if (gameState.processedPlays.has(playKey)) continue;
+      gameState.processedPlays.add(playKey);
+      
+      if (!emit || !play.playerStats) continue;
+      
+      for (const [playerId, playStats] of Object.entries(play.playerStats)) {
+        const player = gameInfo.playerStats[playerId];
+        const baseline = createEmptySnapshot(
+          playerId,
+          player?.longName || player?.playerName || 'Unknown',
+          player?.pos || '',
+          player?.teamAbv || ''
+        );
+        const playSnapshot: StatSnapshot = { ...baseline, ...parsePlayerStatBlocks(playStats) };
+        
+        if (!Object.values(getStatDeltas(playSnapshot, baseline)).some(delta => delta !== 0)) continue;
+        
+        // Cumulative totals either side of the play, so the event is keyed the same
+        // way as the box-score diff and the two never emit the same change twice
+        const accounted = gameState.playAccountedStats.get(playerId) || {};
+        const before = addStats(gameState.playerStats.get(playerId) ?? baseline, accounted);
+        const after = addStats(before, playSnapshot);
+        for (const field of SNAPSHOT_STAT_FIELDS) {
+          accounted[field] = (accounted[field] || 0) + playSnapshot[field];
+        }
+        gameState.playAccountedStats.set(playerId, accounted);
         
-        // Create fantasy event
-        const event = this.createFantasyEvent(currentSnapshot, previousSnapshot, gameInfo);
-        this.emitEvent(event);
+        const change = diffSnapshots(gameInfo.gameID, after, before);
+        if (!change) continue;
+        
+        this.emitEvent({
+          ...this.toScoringEvent(change, after, gameInfo),
+          backfilled: gameState.backfillPending || undefined,
+          description: `${after.playerName} - ${play.play}`,
+          period: parsePeriod(play.playPeriod || ''),
+          clock: play.playClock || ''
+        });
       }
     }
-    
-    // Store current snapshot
-    gameState.playerStats.set(playerId, currentSnapshot);
   }
   
   /**
-   * Create NFL Scoring Event from stat change
+   * Build a snapshot for a team defense, keyed as DEF-{team}
    */
-  private createFantasyEvent(
-    current: PlayerStatSnapshot,
-    previous: PlayerStatSnapshot,
-    gameInfo: any
-  ): NFLScoringEvent {
-    // Build description
-    const descParts: string[] = [];
-    
-    if (current.receptions > previous.receptions) {
-      descParts.push(`${current.receptions} rec`);
-    }
-    if (current.receivingYards > previous.receivingYards) {
-      descParts.push(`${current.receivingYards} rec yds`);
-    }
-    if (current.receivingTDs > previous.receivingTDs) {
-      descParts.push(`${current.receivingTDs} rec TD`);
-    }
-    if (current.rushingYards > previous.rushingYards) {
-      descParts.push(`${current.rushingYards} rush yds`);
-    }
-    if (current.rushingTDs > previous.rushingTDs) {
-      descParts.push(`${current.rushingTDs} rush TD`);
-    }
-    if (current.passingYards > previous.passingYards) {
-      descParts.push(`${current.passingYards} pass yds`);
-    }
-    if (current.passingTDs > previous.passingTDs) {
-      descParts.push(`${current.passingTDs} pass TD`);
-    }
-    
-    const description = `${current.playerName} - ${descParts.join(', ')}`;
+  private buildDefenseSnapshot(defense: Tank01DefenseStats, gameState: GamePollingState): StatSnapshot {
+    const playerId = `DEF-${defense.teamAbv}`;
+    return buildSnapshot(
+      createEmptySnapshot(playerId, `${defense.teamAbv} D/ST`, 'DEF', defense.teamAbv),
+      parseDefenseStats(defense),
+      gameState.playerStats.get(playerId)
+    );
+  }
+  
+  /**
+   * Diff a snapshot against the previous one, emit an event on change and store it
+   */
+  private processStatSnapshot(
+    currentSnapshot: StatSnapshot,
+    gameState: GamePollingState,
+    gameInfo: Tank01BoxScoreBody
+  ): void {
+    // Previous snapshot plus anything already emitted play-by-play since it was taken
+    const storedSnapshot = gameState.playerStats.get(currentSnapshot.playerId);
+    const accounted = gameState.playAccountedStats.get(currentSnapshot.playerId);
+    gameState.playAccountedStats.delete(currentSnapshot.playerId);
+    const previousSnapshot = storedSnapshot && accounted ? addStats(storedSnapshot, accounted) : storedSnapshot;
     
-    // Determine event type
-    let eventType: NFLScoringEvent['eventType'] = 'receivingyards';
-    if (current.receivingTDs > previous.receivingTDs) {
-      eventType = 'receivingtd';
-    } else if (current.rushingTDs > previous.rushingTDs) {
-      eventType = 'rushingtd';
-    } else if (current.passingTDs > previous.passingTDs) {
-      eventType = 'passingtd';
+    const change = previousSnapshot && diffSnapshots(gameInfo.gameID, currentSnapshot, previousSnapshot);
+    if (change) {
+      debugLogger.info('TANK01', `Stat change detected for ${currentSnapshot.playerName}`, {
+        deltas: change.stats
+      });
+      
+      const event = this.toScoringEvent(change, currentSnapshot, gameInfo);
+      this.emitEvent(gameState.backfillPending ? { ...event, backfilled: true } : event);
     }
     
+    // Store current snapshot
+    gameState.playerStats.set(currentSnapshot.playerId, currentSnapshot);
+  }
+  
+  /**
+   * Create NFL Scoring Event from a stat change
+   */
+  private toScoringEvent(change: StatChange, current: StatSnapshot, gameInfo: Tank01BoxScoreBody): NFLScoringEvent {
     return {
-      id: `${gameInfo.gameID}-${current.playerId}-${Date.now()}`,
+      id: change.id,
       player: {
         id: current.playerId,
         name: current.playerName,
@@ -527,20 +706,12 @@ export class Tank01NFLDataService {
         team: current.team
       },
       team: current.team,
-      eventType,
-      description,
+      eventType: change.eventType,
+      description: change.description,
       timestamp: new Date(),
-      stats: {
-        passingYards: current.passingYards - previous.passingYards,
-        passingTouchdowns: current.passingTDs - previous.passingTDs,
-        rushingYards: current.rushingYards - previous.rushingYards,
-        rushingTouchdowns: current.rushingTDs - previous.rushingTDs,
-        receptions: current.receptions - previous.receptions,
-        receivingYards: current.receivingYards - previous.receivingYards,
-        receivingTouchdowns: current.receivingTDs - previous.receivingTDs
-      },
+      stats: change.stats,
       gameId: gameInfo.gameID,
-      period: this.parsePeriod(gameInfo.currentPeriod),
+      period: parsePeriod(gameInfo.currentPeriod),
       clock: gameInfo.gameClock || '',
       scoringPlay: true
     };
@@ -549,24 +720,100 @@ export class Tank01NFLDataService {
   /**
    * Check if game is active
    */
-  private isGameActive(game: Tank01Game): boolean {
+  private isGameActive(game: Pick<Tank01Game, 'gameStatus' | 'gameStatusCode'>): boolean {
     return game.gameStatusCode === '1' || 
            game.gameStatus?.includes('Live') || 
            game.gameStatus?.includes('In Progress');
   }
   
   /**
-   * Parse period string to number
+   * Record the game status for both teams in a scoreboard game
    */
-  private parsePeriod(period: string): number {
-    if (period.includes('Q1') || period.includes('1st')) return 1;
-    if (period.includes('Q2') || period.includes('2nd')) return 2;
-    if (period.includes('Q3') || period.includes('3rd')) return 3;
-    if (period.includes('Q4') || period.includes('4th')) return 4;
-    if (period.includes('OT')) return 5;
-    return 1;
+  public updateTeamGameStatus(game: Tank01GameStatusFields): void {
+    const isFinal = game.gameStatusCode === '2' || game.gameStatus?.includes('Final');
+    const isLive = this.isGameActive(game);
+    const period = isLive ? parsePeriod(game.lineScore?.period || '') : 0;
+    const clock = game.lineScore?.gameClock || game.gameClock || '';
+
+    let remainingFraction = 1;
+    if (isFinal) {
+      remainingFraction = 0;
+    } else if (isLive) {
+      const [minutes, seconds] = clock.split(':').map(part => parseInt(part) || 0);
+      const quarterRemaining = period > 4 ? 0 : (4 - period) * 15 + minutes + seconds / 60;
+      remainingFraction = Math.min(1, Math.max(0, quarterRemaining / 60));
+    }
+
+    const status: NFLTeamGameStatus['status'] = isFinal ? 'final' : isLive ? 'in_progress' : 'scheduled';
+    for (const [team, opponent] of [[game.away, game.home], [game.home, game.away]]) {
+      this.teamGameStatus.set(team, { gameId: game.gameID, team, opponent, status, period, clock, remainingFraction });
+    }
   }
-  
+
+  /**
+   * This week's game status for an NFL team, or null if the scoreboard hasn't been polled or the team is on bye
+   */
+  public getTeamGameStatus(team: string): NFLTeamGameStatus | null {
+    return this.teamGameStatus.get(this.toTank01Team(team)) ?? null;
+  }
+
+  /**
+   * A team abbreviation in Tank01's spelling
+   */
+  public toTank01Team(team: string): string {
+    const abbreviation = team.toUpperCase();
+    return TEAM_ABBREVIATION_ALIASES[abbreviation] ?? abbreviation;
+  }
+
+  /**
+   * Kickoff times for a week's games (cached for 6 hours). Teams missing from the result are on bye.
+   */
+  public async getWeekSchedule(week: number, season: number): Promise<NFLKickoff[]> {
+    const key = `${season}-${week}`;
+    if (this.weekSchedule?.key === key && Date.now() - this.weekSchedule.fetchedAt < this.SCHEDULE_CACHE_DURATION) {
+      return this.weekSchedule.games;
+    }
+
+    if (!this.canMakeRequest()) {
+      debugLogger.warning('TANK01', `Cannot fetch week ${week} schedule - rate limit`);
+      return this.weekSchedule?.key === key ? this.weekSchedule.games : [];
+    }
+
+    try {
+      this.recordRequestStart();
+      debugLogger.api('TANK01', `Fetching week ${week} schedule (getNFLGamesForWeek)`);
+
+      const response = await supabase.functions.invoke('tank01-api', {
+        body: { endpoint: 'games', week, season }
+      });
+
+      if (response.error) {
+        throw new Error(`Tank01 API error: ${response.error.message}`);
+      }
+
+      const body: unknown = response.data?.body;
+      const scheduled: Tank01ScheduledGame[] = Array.isArray(body) ? body : Object.values(body ?? {});
+      const games = scheduled
+        .filter(game => game.gameTime_epoch)
+        .map(game => ({
+          gameId: game.gameID,
+          away: this.toTank01Team(game.away),
+          home: this.toTank01Team(game.home),
+          kickoff: new Date(parseFloat(game.gameTime_epoch!) * 1000)
+        }));
+
+      this.recordRequestSuccess();
+      this.weekSchedule = { key, games, fetchedAt: Date.now() };
+
+      debugLogger.success('TANK01', `Loaded week ${week} schedule`, { games: games.length });
+      return games;
+    } catch (error) {
+      this.recordRequestFailure();
+      debugLogger.error('TANK01', `Failed to fetch week ${week} schedule`, error);
+      throw error;
+    }
+  }
+
   /**
    * Start polling with adaptive intervals
    */
@@ -623,6 +870,33 @@ export class Tank01NFLDataService {
     debugLogger.info('TANK01', 'Polling stopped');
   }
   
+  /**
+   * Whether Tank01 can currently serve requests. Unlike canMakeRequest this has
+   * no side effects; an open breaker past its retry time counts as available.
+   */
+  public isAvailable(): boolean {
+    if (this.emergencyStop) return false;
+    if (this.dailyQuota.date === new Date().toISOString().split('T')[0] && this.dailyQuota.requestCount >= this.MAX_DAILY_REQUESTS) {
+      return false;
+    }
+    if (this.circuitBreaker.isOpen) {
+      return !!this.circuitBreaker.nextRetryTime && new Date() > this.circuitBreaker.nextRetryTime;
+    }
+    return true;
+  }
+  
+  /**
+   * Switch between cumulative box-score diffs and per-play ingestion
+   */
+  public setIngestionMode(mode: Tank01IngestionMode): void {
+    this.ingestionMode = mode;
+    debugLogger.info('TANK01', `Ingestion mode set to ${mode}`);
+  }
+  
+  public getIngestionMode(): Tank01IngestionMode {
+    return this.ingestionMode;
+  }
+  
   /**
    * Emergency stop
    */
@@ -743,6 +1017,7 @@ export class Tank01NFLDataService {
     return {
       isPolling: this.isPolling,
       pollingInterval: this.pollingIntervalMs,
+      ingestionMode: this.ingestionMode,
       activeGames: this.gameStates.size,
       emergencyStop: this.emergencyStop,
       circuitBreaker: {
@@ -0,0 +1,155 @@
+import { debugLogger } from '../utils/debugLogger';
+import { projectionService, StarterOutlook } from './ProjectionService';
+
+// Team-level scores for platforms that only report matchup totals
+export interface TeamTotals {
+  currentPoints: number;
+  projectedPoints: number; // Projected final, already including points scored
+}
+
+export interface WinProbabilityResult {
+  winProbability: number;      // 0-100
+  winProbabilityTrend: number; // Change since the previous distinct probability for this league
+}
+
+// Standard deviation of a full game's fantasy points by position
+const POSITION_STD_DEV: Record<string, number> = {
+  QB: 7.5,
+  RB: 7,
+  WR: 7,
+  TE: 5.5,
+  K: 4,
+  DEF: 6
+};
+const DEFAULT_STD_DEV = 6.5;
+
+// Full-game standard deviation of a typical nine-starter lineup
+const TEAM_STD_DEV = 20;
+
+// Keep live probabilities off the extremes until every game is final
+const MIN_LIVE_PROBABILITY = 1;
+const MAX_LIVE_PROBABILITY = 99;
+
+/**
+ * Win Probability Service
+ * Models each side's final score as a normal distribution around its live
+ * projected final, with each starter's position variance scaled by the share
+ * of their NFL game still to play.
+ */
+export class WinProbabilityService {
+  private static instance: WinProbabilityService;
+  private history = new Map<string, WinProbabilityResult>();
+
+  private constructor() {}
+
+  public static getInstance(): WinProbabilityService {
+    if (!WinProbabilityService.instance) {
+      WinProbabilityService.instance = new WinProbabilityService();
+    }
+    return WinProbabilityService.instance;
+  }
+
+  /**
+   * Win probability from per-starter points, projections and game clocks
+   */
+  public calculateForStarters(
+    leagueId: string,
+    myStarters: StarterOutlook[],
+    opponentStarters: StarterOutlook[]
+  ): WinProbabilityResult {
+    const mine = this.summarizeStarters(myStarters);
+    const theirs = this.summarizeStarters(opponentStarters);
+
+    return this.record(
+      leagueId,
+      mine.expected - theirs.expected,
+      Math.sqrt(mine.variance + theirs.variance)
+    );
+  }
+
+  /**
+   * Win probability from team totals when per-starter data isn't available
+   */
+  public calculateForTeamTotals(leagueId: string, myTeam: TeamTotals, opponentTeam: TeamTotals): WinProbabilityResult {
+    const mine = this.summarizeTeam(myTeam);
+    const theirs = this.summarizeTeam(opponentTeam);
+
+    return this.record(
+      leagueId,
+      mine.expected - theirs.expected,
+      Math.sqrt(mine.variance + theirs.variance)
+    );
+  }
+
+  private summarizeStarters(starters: StarterOutlook[]): { expected: number; variance: number } {
+    let expected = 0;
+    let variance = 0;
+
+    for (const starter of starters) {
+      const { remainingFraction, projectedFinal } = projectionService.projectStarter(starter);
+      const stdDev = POSITION_STD_DEV[starter.position] ?? DEFAULT_STD_DEV;
+
+      expected += projectedFinal;
+      variance += stdDev * stdDev * remainingFraction;
+    }
+
+    return { expected, variance };
+  }
+
+  private summarizeTeam(team: TeamTotals): { expected: number; variance: number } {
+    const remainingPoints = Math.max(0, team.projectedPoints - team.currentPoints);
+    const remaining = team.projectedPoints > 0 ? Math.min(1, remainingPoints / team.projectedPoints) : 1;
+
+    return {
+      expected: team.currentPoints + remainingPoints,
+      variance: TEAM_STD_DEV * TEAM_STD_DEV * remaining
+    };
+  }
+
+  /**
+   * Convert the expected margin into a probability and track its trend per league
+   */
+  private record(leagueId: string, expectedMargin: number, stdDev: number): WinProbabilityResult {
+    let probability: number;
+    if (stdDev < 0.01) {
+      // Nothing left to play
+      probability = expectedMargin > 0 ? 100 : expectedMargin < 0 ? 0 : 50;
+    } else {
+      probability = this.normalCdf(expectedMargin / stdDev) * 100;
+      probability = Math.min(MAX_LIVE_PROBABILITY, Math.max(MIN_LIVE_PROBABILITY, probability));
+    }
+    probability = Math.round(probability * 10) / 10;
+
+    const previous = this.history.get(leagueId);
+    if (previous && previous.winProbability === probability) {
+      return previous;
+    }
+
+    const result: WinProbabilityResult = {
+      winProbability: probability,
+      winProbabilityTrend: previous ? Math.round((probability - previous.winProbability) * 10) / 10 : 0
+    };
+    this.history.set(leagueId, result);
+
+    debugLogger.info('WIN_PROBABILITY', `League ${leagueId}: ${probability}%`, {
+      expectedMargin: Math.round(expectedMargin * 10) / 10,
+      stdDev: Math.round(stdDev * 10) / 10,
+      trend: result.winProbabilityTrend
+    });
+
+    return result;
+  }
+
+  /**
+   * Standard normal CDF (Abramowitz & Stegun 26.2.17)
+   */
+  private normalCdf(z: number): number {
+    const t = 1 / (1 + 0.2316419 * Math.abs(z));
+    const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+    const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+    return z >= 0 ? 1 - tail : tail;
+  }
+}
+
+// Export singleton instance
+export const winProbabilityService = WinProbabilityService.getInstance();
@@ -1,9 +1,75 @@
-import { YahooLeague, YahooAPIResponse } from '../types/yahoo';
+import {
+  YahooLeague,
+  YahooAPIResponse,
+  YahooMatchupTeam,
+  YahooScoreboard,
+  YahooRosterPlayer,
+  YahooScoreboardMatchup,
+  YahooStandingsTeam,
+  YahooTeamRoster
+} from '../types/yahoo';
 import { yahooOAuth } from '../utils/yahooOAuth';
+import { fantasyPointsCalculator, YahooScoringSettings } from './FantasyPointsCalculator';
+
+// Yahoo's JSON is loosely typed: arrays of single-key objects and count-keyed maps
+type YahooNode = Record<string, unknown>;
+
+const STANDINGS_CACHE_DURATION = 5 * 60 * 1000; // Standings only change between weeks
+const SCORING_CACHE_DURATION = 60 * 60 * 1000; // 1 hour, matching Sleeper scoring rules
+const SCORING_STORAGE_PREFIX = 'yahoo_scoring_';
+
+type YahooModifierKey = Exclude<keyof YahooScoringSettings, 'fieldGoals' | 'defensePoints' | 'bonuses'>;
+
+// Yahoo NFL stat_id -> calculator setting for per-unit modifiers
+const YAHOO_STAT_MODIFIERS: Record<string, YahooModifierKey> = {
+  '4': 'passingYards',
+  '5': 'passingTDs',
+  '6': 'interceptions',
+  '9': 'rushingYards',
+  '10': 'rushingTDs',
+  '11': 'receptions',
+  '12': 'receivingYards',
+  '13': 'receivingTDs',
+  '18': 'fumbles',
+  '29': 'extraPoints',
+  '32': 'sacks',
+  '33': 'defenseInterceptions',
+  '34': 'fumbleRecoveries',
+  '35': 'defenseTDs',
+  '36': 'safeties'
+};
+
+// Field goal stat_ids by calculator distance bucket, most representative first
+const YAHOO_FIELD_GOAL_STATS: Record<string, string[]> = {
+  '0-39': ['21', '20', '19'],
+  '40-49': ['22'],
+  '50+': ['23']
+};
+
+// Points-allowed tier stat_ids
+const YAHOO_POINTS_ALLOWED_STATS: Record<string, string> = {
+  '50': '0',
+  '51': '1-6',
+  '52': '7-13',
+  '53': '14-20',
+  '54': '21-27',
+  '55': '28-34',
+  '56': '35+'
+};
+
+// Yardage stats whose bonuses the calculator understands
+const YAHOO_BONUS_STATS: Record<string, keyof YahooScoringSettings['bonuses']> = {
+  '4': 'passingYards',
+  '9': 'rushingYards',
+  '12': 'receivingYards'
+};
 
 export class YahooDataService {
   private static supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
   private static supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+  private static standingsCache = new Map<string, { teams: YahooStandingsTeam[]; cachedAt: number }>();
+  private static scoringCache = new Map<string, { settings: YahooScoringSettings; cachedAt: number }>();
+  private static slotsCache = new Map<string, { slots: string[]; cachedAt: number }>();
 
   /**
    * Parse Yahoo API response into clean league objects
@@ -48,7 +114,7 @@ export class YahooDataService {
             felo_tier: raw.felo_tier,
             matchup_week: parseInt(raw.matchup_week || '1'),
             draft_status: raw.draft_status,
-            platform: 'yahoo'
+            platform: 'Yahoo'
           };
           
           leagues.push(league);
@@ -121,4 +187,433 @@ export class YahooDataService {
       throw error;
     }
   }
+
+  /**
+   * Fetch the weekly scoreboard for a league (current week when omitted)
+   */
+  static async fetchLeagueScoreboard(leagueKey: string, week?: number, signal?: AbortSignal): Promise<YahooScoreboard> {
+    console.log(`🚀 [YAHOO_SERVICE] Fetching scoreboard for ${leagueKey}${week ? ` week ${week}` : ''}`);
+
+    const responseData = await this.postToYahooAPI({ endpoint: 'getLeagueScoreboard', leagueKey, week }, signal);
+    const scoreboard = this.parseScoreboardResponse(responseData, leagueKey);
+
+    console.log(`✅ [YAHOO_SERVICE] Scoreboard for ${leagueKey}: ${scoreboard.matchups.length} matchups`);
+    return scoreboard;
+  }
+
+  /**
+   * Fetch a team's roster for a week with each player's eligible positions and points
+   */
+  static async fetchTeamRoster(teamKey: string, week: number, signal?: AbortSignal): Promise<YahooTeamRoster> {
+    console.log(`🚀 [YAHOO_SERVICE] Fetching roster for ${teamKey} week ${week}`);
+
+    const responseData = await this.postToYahooAPI({ endpoint: 'getTeamRoster', teamKey, week }, signal);
+    const roster = this.parseRosterResponse(responseData, teamKey);
+
+    console.log(`✅ [YAHOO_SERVICE] Roster for ${teamKey}: ${roster.players.length} players`);
+    return roster;
+  }
+
+  /**
+   * The user's team and their opponent in a scoreboard. A configured team ID
+   * wins over the team Yahoo marks as owned by the login.
+   */
+  static findUserMatchup(
+    scoreboard: YahooScoreboard,
+    teamId?: string
+  ): { myTeam: YahooMatchupTeam; opponent: YahooMatchupTeam | undefined } | null {
+    const isMyTeam = (team: YahooMatchupTeam) => teamId
+      ? team.team_id === teamId || team.team_key === teamId
+      : team.is_owned_by_current_login;
+
+    const matchup = scoreboard.matchups.find(m => m.teams.some(isMyTeam));
+    const myTeam = matchup?.teams.find(isMyTeam);
+    if (!matchup || !myTeam) {
+      return null;
+    }
+    return { myTeam, opponent: matchup.teams.find(team => team.team_key !== myTeam.team_key) };
+  }
+
+  /**
+   * Fetch season standings for a league, cached for a few minutes
+   */
+  static async fetchLeagueStandings(leagueKey: string, signal?: AbortSignal): Promise<YahooStandingsTeam[]> {
+    const cached = this.standingsCache.get(leagueKey);
+    if (cached && Date.now() - cached.cachedAt < STANDINGS_CACHE_DURATION) {
+      return cached.teams;
+    }
+
+    console.log(`🚀 [YAHOO_SERVICE] Fetching standings for ${leagueKey}`);
+
+    const responseData = await this.postToYahooAPI({ endpoint: 'getLeagueStandings', leagueKey }, signal);
+    const teams = this.parseStandingsResponse(responseData);
+    this.standingsCache.set(leagueKey, { teams, cachedAt: Date.now() });
+
+    console.log(`✅ [YAHOO_SERVICE] Standings for ${leagueKey}: ${teams.length} teams`);
+    return teams;
+  }
+
+  /**
+   * Fetch a league's scoring rules from its stat modifiers, cached in memory and localStorage
+   */
+  static async fetchLeagueScoring(leagueKey: string): Promise<YahooScoringSettings> {
+    const cached = this.getCachedScoring(leagueKey);
+    if (cached) {
+      return cached;
+    }
+
+    console.log(`🚀 [YAHOO_SERVICE] Fetching scoring settings for ${leagueKey}`);
+
+    const responseData = await this.postToYahooAPI({ endpoint: 'getLeagueSettings', leagueKey });
+    const settings = this.parseScoringSettings(responseData);
+    this.cacheScoring(leagueKey, settings);
+
+    console.log(`✅ [YAHOO_SERVICE] Scoring for ${leagueKey}: ${settings.passingTDs} pt passing TD, ${settings.receptions} PPR`);
+    return settings;
+  }
+
+  /**
+   * Fetch a league's starting lineup slots from its roster positions, cached in memory
+   */
+  static async fetchStartingSlots(leagueKey: string): Promise<string[]> {
+    const cached = this.slotsCache.get(leagueKey);
+    if (cached && Date.now() - cached.cachedAt < SCORING_CACHE_DURATION) {
+      return cached.slots;
+    }
+
+    console.log(`🚀 [YAHOO_SERVICE] Fetching roster positions for ${leagueKey}`);
+
+    const responseData = await this.postToYahooAPI({ endpoint: 'getLeagueSettings', leagueKey });
+    const slots = this.parseStartingSlots(responseData);
+    if (slots.length === 0) {
+      throw new Error(`No roster positions in Yahoo league ${leagueKey} settings`);
+    }
+    this.slotsCache.set(leagueKey, { slots, cachedAt: Date.now() });
+
+    console.log(`✅ [YAHOO_SERVICE] Starting slots for ${leagueKey}: ${slots.join(', ')}`);
+    return slots;
+  }
+
+  /**
+   * Parse roster_positions from a league settings response into starting slots,
+   * one per opening, e.g. ['QB', 'WR', 'WR', 'W/R/T']. Bench and IR are left out.
+   */
+  static parseStartingSlots(responseData: unknown): string[] {
+    try {
+      const league = this.asArray(this.flatten(this.flatten(responseData).fantasy_content).league);
+      const settingsNode = this.flatten(this.flatten(league[1]).settings ?? this.flatten(league[0]).settings);
+
+      return this.countedEntries(settingsNode.roster_positions).flatMap(entry => {
+        const rosterPosition = ((entry as YahooNode).roster_position ?? entry) as YahooNode;
+        const position = String(rosterPosition.position ?? '');
+        const isStarting = rosterPosition.is_starting_position === undefined
+          ? !['BN', 'IR'].includes(position)
+          : Number(rosterPosition.is_starting_position) === 1;
+        const count = parseInt(String(rosterPosition.count ?? 0)) || 0;
+        return position && isStarting ? Array<string>(count).fill(position) : [];
+      });
+    } catch (error) {
+      console.error('❌ [YAHOO_PARSER] Failed to parse roster positions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Parse stat_modifiers from a league settings response. Stats the league
+   * doesn't score are zeroed; unreadable responses fall back to Yahoo standard.
+   */
+  static parseScoringSettings(responseData: unknown): YahooScoringSettings {
+    const standard = fantasyPointsCalculator.getYahooStandardSettings();
+
+    try {
+      const league = this.asArray(this.flatten(this.flatten(responseData).fantasy_content).league);
+      const settingsNode = this.flatten(this.flatten(league[1]).settings ?? this.flatten(league[0]).settings);
+      const modifiersNode = settingsNode.stat_modifiers as YahooNode | undefined;
+
+      if (!modifiersNode) {
+        console.warn('⚠️ [YAHOO_PARSER] No stat_modifiers in settings, using Yahoo standard scoring');
+        return standard;
+      }
+
+      const modifiers = new Map<string, YahooNode>();
+      this.countedEntries(modifiersNode.stats).forEach(entry => {
+        const stat = ((entry as YahooNode).stat ?? entry) as YahooNode;
+        modifiers.set(String(stat.stat_id), stat);
+      });
+      const valueOf = (statId: string): number => parseFloat(String(modifiers.get(statId)?.value ?? 0)) || 0;
+
+      const settings: YahooScoringSettings = {
+        ...standard,
+        fieldGoals: {},
+        defensePoints: {},
+        bonuses: { passingYards: [], rushingYards: [], receivingYards: [] }
+      };
+
+      Object.entries(YAHOO_STAT_MODIFIERS).forEach(([statId, key]) => {
+        settings[key] = valueOf(statId);
+      });
+      // Yahoo has no separate pick-six stat; defensive TDs cover it
+      settings.interceptionTDs = settings.defenseTDs;
+
+      Object.entries(YAHOO_FIELD_GOAL_STATS).forEach(([bucket, statIds]) => {
+        const statId = statIds.find(id => modifiers.has(id));
+        settings.fieldGoals[bucket] = statId ? valueOf(statId) : 0;
+      });
+
+      Object.entries(YAHOO_POINTS_ALLOWED_STATS).forEach(([statId, range]) => {
+        settings.defensePoints[range] = valueOf(statId);
+      });
+
+      Object.entries(YAHOO_BONUS_STATS).forEach(([statId, key]) => {
+        settings.bonuses[key] = this.countedEntries(modifiers.get(statId)?.bonuses)
+          .map(entry => ((entry as YahooNode).bonus ?? entry) as YahooNode)
+          .map(bonus => ({
+            threshold: parseFloat(String(bonus.target ?? 0)) || 0,
+            points: parseFloat(String(bonus.points ?? 0)) || 0
+          }))
+          .filter(bonus => bonus.threshold > 0 && bonus.points !== 0)
+          .sort((a, b) => a.threshold - b.threshold);
+      });
+
+      return settings;
+    } catch (error) {
+      console.error('❌ [YAHOO_PARSER] Failed to parse scoring settings, using Yahoo standard:', error);
+      return standard;
+    }
+  }
+
+  /**
+   * Parse a scoreboard response. Handles Yahoo's nested format as well as the
+   * flattened shape served by the simulation snapshots.
+   */
+  static parseScoreboardResponse(responseData: unknown, leagueKey: string): YahooScoreboard {
+    try {
+      const league = this.asArray(this.flatten(this.flatten(responseData).fantasy_content).league);
+      const leagueMeta = this.flatten(league[0]);
+      const scoreboardNode = (this.flatten(league[1]).scoreboard ?? leagueMeta.scoreboard) as YahooNode | undefined;
+
+      if (!scoreboardNode) {
+        console.warn('⚠️ [YAHOO_PARSER] Scoreboard missing from response');
+        return { league_key: leagueKey, week: 0, matchups: [] };
+      }
+
+      const matchupsNode = (scoreboardNode['0'] as YahooNode | undefined)?.matchups ?? scoreboardNode.matchups;
+      const matchups: YahooScoreboardMatchup[] = this.countedEntries(matchupsNode).map(entry => {
+        const matchup = ((entry as YahooNode).matchup ?? entry) as YahooNode;
+        const teamsNode = (matchup['0'] as YahooNode | undefined)?.teams ?? matchup.teams;
+
+        return {
+          week: parseInt(String(matchup.week ?? scoreboardNode.week ?? 0)) || 0,
+          status: String(matchup.status ?? ''),
+          teams: this.countedEntries(teamsNode).map(teamEntry => this.parseMatchupTeam(teamEntry))
+        };
+      });
+
+      return {
+        league_key: String(leagueMeta.league_key ?? leagueKey),
+        league_name: leagueMeta.name as string | undefined,
+        week: parseInt(String(scoreboardNode.week ?? leagueMeta.current_week ?? 0)) || 0,
+        matchups
+      };
+    } catch (error) {
+      console.error('❌ [YAHOO_PARSER] Failed to parse scoreboard response:', error);
+      return { league_key: leagueKey, week: 0, matchups: [] };
+    }
+  }
+
+  /**
+   * Parse a team roster response. Players without a selected position are dropped.
+   */
+  static parseRosterResponse(responseData: unknown, teamKey: string): YahooTeamRoster {
+    try {
+      const team = this.flatten(this.flatten(this.flatten(responseData).fantasy_content).team);
+      const rosterNode = (team.roster ?? {}) as YahooNode;
+      const playersNode = (rosterNode['0'] as YahooNode | undefined)?.players ?? rosterNode.players;
+
+      const players = this.countedEntries(playersNode)
+        .map(entry => this.parseRosterPlayer(entry))
+        .filter((player): player is YahooRosterPlayer => player !== null);
+
+      return {
+        team_key: String(team.team_key ?? teamKey),
+        team_id: String(team.team_id ?? ''),
+        name: String(team.name ?? ''),
+        week: parseInt(String(rosterNode.week ?? 0)) || 0,
+        players
+      };
+    } catch (error) {
+      console.error('❌ [YAHOO_PARSER] Failed to parse roster response:', error);
+      return { team_key: teamKey, team_id: '', name: '', week: 0, players: [] };
+    }
+  }
+
+  /**
+   * Parse a standings response into rank and record per team
+   */
+  static parseStandingsResponse(responseData: unknown): YahooStandingsTeam[] {
+    try {
+      const league = this.asArray(this.flatten(this.flatten(responseData).fantasy_content).league);
+      const standingsNode = this.asArray(this.flatten(league[1]).standings ?? this.flatten(league[0]).standings);
+      const teamsNode = this.flatten(standingsNode[0]).teams;
+
+      return this.countedEntries(teamsNode).map(entry => {
+        const team = this.flatten((entry as YahooNode).team ?? entry);
+        const standings = (team.team_standings ?? {}) as YahooNode;
+        const totals = (standings.outcome_totals ?? {}) as YahooNode;
+
+        return {
+          team_key: String(team.team_key ?? ''),
+          team_id: String(team.team_id ?? ''),
+          name: String(team.name ?? ''),
+          rank: parseInt(String(standings.rank ?? 0)) || 0,
+          wins: parseInt(String(totals.wins ?? 0)) || 0,
+          losses: parseInt(String(totals.losses ?? 0)) || 0,
+          ties: parseInt(String(totals.ties ?? 0)) || 0
+        };
+      });
+    } catch (error) {
+      console.error('❌ [YAHOO_PARSER] Failed to parse standings response:', error);
+      return [];
+    }
+  }
+
+  private static parseMatchupTeam(entry: unknown): YahooMatchupTeam {
+    const team = this.flatten((entry as YahooNode).team ?? entry);
+    const points = (team.team_points ?? team.points ?? {}) as YahooNode;
+    const projected = (team.team_projected_points ?? team.projected_points) as YahooNode | undefined;
+    const manager = this.asArray(team.managers)
+      .map(m => ((m as YahooNode).manager ?? m) as YahooNode)[0];
+
+    return {
+      team_key: String(team.team_key ?? ''),
+      team_id: String(team.team_id ?? ''),
+      name: String(team.name ?? ''),
+      manager_name: manager?.nickname as string | undefined,
+      points: parseFloat(String(points.total ?? 0)) || 0,
+      projected_points: projected ? parseFloat(String(projected.total ?? 0)) || 0 : undefined,
+      is_owned_by_current_login: Number(team.is_owned_by_current_login) === 1
+    };
+  }
+
+  private static parseRosterPlayer(entry: unknown): YahooRosterPlayer | null {
+    const player = this.flatten((entry as YahooNode).player ?? entry);
+    const selected = this.flatten(player.selected_position).position;
+    if (!selected) {
+      return null;
+    }
+
+    const name = (player.name ?? {}) as YahooNode;
+    const eligible = player.eligible_positions;
+    const points = (player.player_points ?? {}) as YahooNode;
+
+    return {
+      player_key: String(player.player_key ?? ''),
+      player_id: String(player.player_id ?? ''),
+      name: String(name.full ?? name.display_name ?? 'Unknown Player'),
+      editorial_team_abbr: String(player.editorial_team_abbr ?? '').toUpperCase(),
+      display_position: String(player.display_position ?? player.primary_position ?? ''),
+      eligible_positions: (Array.isArray(eligible) ? eligible : [eligible])
+        .map(position => ((position as YahooNode | undefined)?.position))
+        .filter((position): position is string => typeof position === 'string'),
+      selected_position: String(selected),
+      status: player.status ? String(player.status) : undefined,
+      points: points.total !== undefined ? parseFloat(String(points.total)) || 0 : undefined
+    };
+  }
+
+  private static getCachedScoring(leagueKey: string): YahooScoringSettings | null {
+    const memoryCache = this.scoringCache.get(leagueKey);
+    if (memoryCache && Date.now() - memoryCache.cachedAt < SCORING_CACHE_DURATION) {
+      return memoryCache.settings;
+    }
+
+    try {
+      const stored = localStorage.getItem(`${SCORING_STORAGE_PREFIX}${leagueKey}`);
+      if (stored) {
+        const parsed: { settings: YahooScoringSettings; cachedAt: number } = JSON.parse(stored);
+        if (Date.now() - parsed.cachedAt < SCORING_CACHE_DURATION) {
+          this.scoringCache.set(leagueKey, parsed);
+          return parsed.settings;
+        }
+        localStorage.removeItem(`${SCORING_STORAGE_PREFIX}${leagueKey}`);
+      }
+    } catch (error) {
+      console.warn(`⚠️ [YAHOO_SERVICE] Failed to read cached scoring for ${leagueKey}:`, error);
+    }
+
+    return null;
+  }
+
+  private static cacheScoring(leagueKey: string, settings: YahooScoringSettings): void {
+    const entry = { settings, cachedAt: Date.now() };
+    this.scoringCache.set(leagueKey, entry);
+
+    try {
+      localStorage.setItem(`${SCORING_STORAGE_PREFIX}${leagueKey}`, JSON.stringify(entry));
+    } catch (error) {
+      console.warn(`⚠️ [YAHOO_SERVICE] Failed to cache scoring for ${leagueKey}:`, error);
+    }
+  }
+
+  /**
+   * POST to the yahoo-api edge function and return the parsed JSON body
+   */
+  private static async postToYahooAPI(
+    payload: { endpoint: string; leagueKey?: string; teamKey?: string; week?: number },
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    const accessToken = await yahooOAuth.getValidAccessToken();
+
+    if (!accessToken) {
+      throw new Error('No Yahoo access token available');
+    }
+
+    const response = await fetch(`${this.supabaseUrl}/functions/v1/yahoo-api`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': this.supabaseAnonKey,
+      },
+      body: JSON.stringify({ ...payload, accessToken, method: 'GET' }),
+      signal
+    });
+
+    if (response.status === 401) {
+      console.log('❌ [YAHOO_SERVICE] 401 Unauthorized - token may be expired');
+      throw new Error('REAUTH_REQUIRED');
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`📡 [YAHOO_SERVICE] ${payload.endpoint} error response:`, errorText);
+      throw new Error(`Yahoo API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Merge Yahoo's array-of-single-key-objects (possibly nested) into one object
+   */
+  private static flatten(node: unknown): YahooNode {
+    if (Array.isArray(node)) {
+      return node.reduce<YahooNode>((merged, item) => Object.assign(merged, this.flatten(item)), {});
+    }
+    return node && typeof node === 'object' ? (node as YahooNode) : {};
+  }
+
+  /**
+   * Entries of a plain array or a Yahoo count-keyed map ({"0": ..., "1": ..., count: 2})
+   */
+  private static countedEntries(node: unknown): unknown[] {
+    if (Array.isArray(node)) return node;
+    if (!node || typeof node !== 'object') return [];
+    return Object.entries(node as YahooNode)
+      .filter(([key]) => /^\d+$/.test(key))
+      .map(([, value]) => value);
+  }
+
+  private static asArray(node: unknown): unknown[] {
+    return Array.isArray(node) ? node : [];
+  }
 }
@@ -1,30 +1,8 @@
 import { Platform } from '../types/fantasy';
 import { debugLogger } from '../utils/debugLogger';
-
-interface YahooRosterResponse {
-  team: Array<{
-    team_id: string;
-    name: string;
-    roster: {
-      players: {
-        player: Array<{
-          player_id: string;
-          name: {
-            full: string;
-            display_name?: string;
-          };
-          position_type?: string;
-          primary_position?: string;
-          editorial_team_abbr?: string;
-          selected_position?: {
-            position: string;
-          };
-          status_full?: string;
-        }>;
-      };
-    };
-  }>;
-}
+import { YahooTeamRoster } from '../types/yahoo';
+import { nflCalendarService } from './NFLCalendarService';
+import { YahooDataService } from './YahooDataService';
 
 export class YahooFantasyAPIService {
   private static instance: YahooFantasyAPIService;
@@ -52,7 +30,7 @@ export class YahooFantasyAPIService {
         {
           league_id: 'mock-league-1',
           name: 'Mock League 1',
-          season: season || '2024',
+          season: season || String(nflCalendarService.getCachedState().season),
           is_finished: 0
         }
       ];
@@ -76,38 +54,23 @@ export class YahooFantasyAPIService {
   }
 
   /**
-   * Get team roster for a specific league and team
+   * Get a team's roster for a week through the yahoo-api edge function
    */
-  async getTeamRoster(leagueId: string, teamId: string): Promise<any> {
+  async getTeamRoster(teamKey: string, week: number): Promise<YahooTeamRoster> {
     try {
-      debugLogger.info('YAHOO_API', 'Fetching team roster', { leagueId, teamId });
-      
-      // Mock implementation for now - replace with actual API call
-      const mockRoster = {
-        team_id: teamId,
-        team_name: `Team ${teamId}`,
-        players: [
-          {
-            player_id: 'mock-player-1',
-            name: { full: 'Mock Player 1', display_name: 'M. Player' },
-            position_type: 'RB',
-            primary_position: 'RB',
-            editorial_team_abbr: 'NFL',
-            selected_position: { position: 'RB' },
-            status_full: 'Active'
-          }
-        ]
-      };
+      debugLogger.info('YAHOO_API', 'Fetching team roster', { teamKey, week });
+
+      const roster = await YahooDataService.fetchTeamRoster(teamKey, week);
 
       debugLogger.success('YAHOO_API', 'Team roster fetched successfully', {
-        leagueId,
-        teamId,
-        playerCount: mockRoster.players.length
+        teamKey,
+        week,
+        playerCount: roster.players.length
       });
 
-      return mockRoster;
+      return roster;
     } catch (error) {
-      debugLogger.error('YAHOO_API', 'Failed to fetch team roster', { leagueId, teamId, error });
+      debugLogger.error('YAHOO_API', 'Failed to fetch team roster', { teamKey, week, error });
       throw error;
     }
   }
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { benchPointsService } from '../BenchPointsService';
+import { lineupOptimizerService, FinishedWeekLineup } from '../LineupOptimizerService';
+import { supabaseScoringEventService, LineupWeekResult } from '../SupabaseScoringEventService';
+import { nflCalendarService } from '../NFLCalendarService';
+import { tank01NFLDataService } from '../Tank01NFLDataService';
+import { LeagueConfig } from '../../types/config';
+import { YAHOO_NON_NESTED_LINEUP } from './fixtures/lineups';
+
+const SLEEPER_CONFIG: LeagueConfig = { id: 'league_1', leagueId: '1180110000', platform: 'Sleeper', enabled: true };
+
+const storedWeek = (week: number): LineupWeekResult => ({
+  leagueId: SLEEPER_CONFIG.leagueId, season: 2026, week, actualPoints: 100, optimalPoints: 110, benchPoints: 30
+});
+
+// The W/R and W/T lineup as played: the benched RB had the big game
+const finishedWeek = (matchupPoints: number): FinishedWeekLineup => ({
+  lineup: { ...YAHOO_NON_NESTED_LINEUP, leagueId: SLEEPER_CONFIG.leagueId, platform: 'Sleeper' },
+  finalPoints: { '423.p.1': 21.4, '423.p.2': 30.2, '423.p.3': 2.1 },
+  matchupPoints
+});
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+describe('BenchPointsService.getWeekResults', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(nflCalendarService, 'getState')
+      .mockResolvedValue({ season: 2026, week: 4, seasonType: 'regular', isBye: false, source: 'sleeper' });
+    vi.spyOn(supabaseScoringEventService, 'getLineupWeekResults').mockResolvedValue([storedWeek(2)]);
+    vi.spyOn(supabaseScoringEventService, 'saveLineupWeekResult').mockImplementation(async (_, result) => result);
+  });
+
+  it('backfills missing past weeks from the platform\'s final scores', async () => {
+    // This week's last game kicked off an hour ago
+    vi.spyOn(tank01NFLDataService, 'getWeekSchedule')
+      .mockResolvedValue([{ gameId: 'g1', away: 'KC', home: 'BUF', kickoff: hoursAgo(1) }]);
+    vi.spyOn(lineupOptimizerService, 'loadFinishedWeek').mockImplementation(async (_, week) => finishedWeek(20 + week));
+
+    const results = await benchPointsService.getWeekResults(SLEEPER_CONFIG);
+
+    expect(lineupOptimizerService.loadFinishedWeek).toHaveBeenCalledTimes(2);
+    expect(results.map(result => result.week)).toEqual([1, 2, 3]);
+    expect(results[0]).toEqual({
+      leagueId: SLEEPER_CONFIG.leagueId,
+      season: 2026,
+      week: 1,
+      actualPoints: 21,
+      optimalPoints: 51.6,
+      benchPoints: 30.2
+    });
+    expect(supabaseScoringEventService.saveLineupWeekResult)
+      .toHaveBeenCalledWith(SLEEPER_CONFIG, expect.objectContaining({ week: 3, actualPoints: 23 }));
+  });
+
+  it('records this week once its games are final', async () => {
+    vi.spyOn(supabaseScoringEventService, 'getLineupWeekResults').mockResolvedValue([1, 2, 3].map(storedWeek));
+    vi.spyOn(tank01NFLDataService, 'getWeekSchedule')
+      .mockResolvedValue([{ gameId: 'g1', away: 'KC', home: 'BUF', kickoff: hoursAgo(5) }]);
+    vi.spyOn(lineupOptimizerService, 'loadFinishedWeek').mockResolvedValue(finishedWeek(60));
+
+    const results = await benchPointsService.getWeekResults(SLEEPER_CONFIG);
+
+    expect(lineupOptimizerService.loadFinishedWeek).toHaveBeenCalledWith(SLEEPER_CONFIG, 4);
+    // The platform's score can top the lineup's own total after stat corrections
+    expect(results[3]).toMatchObject({ week: 4, actualPoints: 60, optimalPoints: 60 });
+  });
+
+  it('rescores the latest recorded week once a session for stat corrections', async () => {
+    const config = { ...SLEEPER_CONFIG, leagueId: '1180118888' };
+    vi.spyOn(supabaseScoringEventService, 'getLineupWeekResults').mockImplementation(async () => [1, 2, 3].map(storedWeek));
+    // This week's games are still on
+    vi.spyOn(tank01NFLDataService, 'getWeekSchedule')
+      .mockResolvedValue([{ gameId: 'g1', away: 'KC', home: 'BUF', kickoff: hoursAgo(1) }]);
+    vi.spyOn(lineupOptimizerService, 'loadFinishedWeek').mockResolvedValue(finishedWeek(102.5));
+
+    const results = await benchPointsService.getWeekResults(config);
+    await benchPointsService.getWeekResults(config);
+
+    expect(lineupOptimizerService.loadFinishedWeek).toHaveBeenCalledTimes(1);
+    expect(lineupOptimizerService.loadFinishedWeek).toHaveBeenCalledWith(config, 3);
+    expect(results[2]).toMatchObject({ week: 3, actualPoints: 102.5 });
+  });
+
+  it('does not retry a week that could not be recorded until reload', async () => {
+    const config = { ...SLEEPER_CONFIG, leagueId: '1180119999' };
+    vi.spyOn(supabaseScoringEventService, 'getLineupWeekResults').mockImplementation(async () => []);
+    vi.spyOn(tank01NFLDataService, 'getWeekSchedule').mockResolvedValue([]);
+    vi.spyOn(lineupOptimizerService, 'loadFinishedWeek').mockImplementation(async (_, week) => {
+      if (week === 2) throw new Error('No week 2 matchup');
+      return finishedWeek(50);
+    });
+
+    await benchPointsService.getWeekResults(config);
+    const results = await benchPointsService.getWeekResults(config);
+
+    // Weeks 1-3, then only 1 and 3 again since the mocked store never fills
+    expect(lineupOptimizerService.loadFinishedWeek).toHaveBeenCalledTimes(3 + 2);
+    expect(results.map(result => result.week)).toEqual([1, 3]);
+  });
+
+  it('leaves the preseason and offseason alone', async () => {
+    const loadFinishedWeek = vi.spyOn(lineupOptimizerService, 'loadFinishedWeek');
+
+    for (const seasonType of ['pre', 'off'] as const) {
+      vi.spyOn(nflCalendarService, 'getState')
+        .mockResolvedValue({ season: 2026, week: 1, seasonType, isBye: false, source: 'sleeper' });
+      expect(await benchPointsService.getWeekResults(SLEEPER_CONFIG)).toEqual([storedWeek(2)]);
+    }
+    expect(loadFinishedWeek).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,330 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { lineupOptimizerService, LineupAnalysis, LineupPlayer } from '../LineupOptimizerService';
+import { sleeperAPIEnhanced } from '../SleeperAPIEnhanced';
+import { espnFantasyAPI } from '../ESPNFantasyAPI';
+import { nflCalendarService } from '../NFLCalendarService';
+import { tank01NFLDataService } from '../Tank01NFLDataService';
+import { YahooDataService } from '../YahooDataService';
+import { fantasyPointsCalculator } from '../FantasyPointsCalculator';
+import {
+  SLEEPER_LINEUP,
+  ESPN_LINEUP,
+  YAHOO_NON_NESTED_LINEUP,
+  SLEEPER_LEAGUE,
+  SLEEPER_USERS,
+  SLEEPER_ROSTERS,
+  SLEEPER_PLAYERS,
+  SLEEPER_PROJECTIONS,
+  ESPN_LEAGUE,
+  ESPN_TEAMS,
+  SLEEPER_WEEK_5_MATCHUPS,
+  ESPN_WEEK_5_MATCHUPS,
+  YAHOO_SETTINGS_RESPONSE,
+  YAHOO_ROSTER_RESPONSE,
+  weekSchedule,
+  yahooScoreboard
+} from './fixtures/lineups';
+
+// Yahoo responses run through the real parsers
+const mockYahooLeague = () => {
+  vi.spyOn(YahooDataService, 'fetchLeagueScoreboard').mockImplementation(async (_, week) => yahooScoreboard(week!));
+  vi.spyOn(YahooDataService, 'fetchTeamRoster')
+    .mockImplementation(async teamKey => YahooDataService.parseRosterResponse(YAHOO_ROSTER_RESPONSE, teamKey));
+  vi.spyOn(YahooDataService, 'fetchStartingSlots')
+    .mockImplementation(async () => YahooDataService.parseStartingSlots(YAHOO_SETTINGS_RESPONSE));
+};
+
+// Player IDs in each slot, sorted where a slot repeats
+const optimalBySlot = (analysis: LineupAnalysis): Record<string, string[]> => {
+  const bySlot: Record<string, string[]> = {};
+  analysis.assignments.forEach(({ slot, optimal }) => {
+    bySlot[slot] = [...(bySlot[slot] ?? []), optimal?.playerId ?? 'empty'].sort();
+  });
+  return bySlot;
+};
+
+const pick = (player: LineupPlayer) => ({
+  playerId: player.playerId,
+  slot: player.slot,
+  eligibleSlots: player.eligibleSlots,
+  projectedPoints: player.projectedPoints,
+  isActive: player.isActive,
+  onBye: player.onBye,
+  locked: player.locked
+});
+
+describe('LineupOptimizerService', () => {
+  describe('analyze', () => {
+    it('flags OUT, bye and empty starters and suggests each bench player once', () => {
+      const { warnings } = lineupOptimizerService.analyze(SLEEPER_LINEUP);
+
+      expect(warnings).toEqual([
+        { type: 'inactive_starter', slot: 'RB', playerId: 'rb2', message: 'Kyren Williams is listed Out', pointsGained: 0 },
+        { type: 'bye_starter', slot: 'TE', playerId: 'te1', message: 'Sam LaPorta is on bye', pointsGained: 0 },
+        { type: 'empty_slot', slot: 'K', playerId: null, message: 'K slot is empty', pointsGained: 0 },
+        { type: 'bench_upgrade', slot: 'RB', playerId: 'rb3', message: 'Start James Cook (12) over Kyren Williams (0)', pointsGained: 12 },
+        { type: 'bench_upgrade', slot: 'K', playerId: 'k1', message: 'Start Jake Elliott (8) in the empty K slot', pointsGained: 8 },
+        { type: 'bench_upgrade', slot: 'TE', playerId: 'te2', message: 'Start Dallas Goedert (6) over Sam LaPorta (0)', pointsGained: 6 }
+      ]);
+    });
+
+    it('builds the optimal lineup around locked players', () => {
+      const analysis = lineupOptimizerService.analyze(SLEEPER_LINEUP);
+
+      expect(analysis.assignments.map(({ slot, current }) => [slot, current?.playerId ?? null])).toEqual([
+        ['QB', 'qb1'], ['RB', 'rb1'], ['RB', 'rb2'], ['WR', 'wr1'], ['TE', 'te1'], ['FLEX', 'wr2'], ['SUPER_FLEX', 'qb2'], ['K', null]
+      ]);
+      // The locked bench WR stays on the bench despite the best projection
+      expect(optimalBySlot(analysis)).toEqual({
+        QB: ['qb1'],
+        RB: ['rb1', 'rb3'],
+        WR: ['wr1'],
+        TE: ['te2'],
+        FLEX: ['wr3'],
+        SUPER_FLEX: ['qb2'],
+        K: ['k1']
+      });
+      expect(analysis.currentProjection).toBe(82);
+      expect(analysis.optimalProjection).toBe(110);
+    });
+
+    it('fills ESPN RB/WR, WR/TE and OP slots', () => {
+      const analysis = lineupOptimizerService.analyze(ESPN_LINEUP);
+
+      expect(analysis.warnings).toEqual([
+        expect.objectContaining({ type: 'bench_upgrade', slot: 'OP', playerId: '102', pointsGained: 10 }),
+        expect.objectContaining({ type: 'bench_upgrade', slot: 'WR/TE', playerId: '302', pointsGained: 7 })
+      ]);
+      expect(optimalBySlot(analysis)).toEqual({
+        QB: ['101'],
+        RB: ['201'],
+        'RB/WR': ['202'],
+        WR: ['301'],
+        'WR/TE': ['302'],
+        TE: ['401'],
+        OP: ['102'],
+        DEF: ['-16001']
+      });
+      expect(analysis.currentProjection).toBe(87);
+      expect(analysis.optimalProjection).toBe(104);
+    });
+
+    it('finds the best lineup when Yahoo flex slots do not nest', () => {
+      const analysis = lineupOptimizerService.analyze(YAHOO_NON_NESTED_LINEUP);
+
+      // No single bench swap helps; only moving the WR does
+      expect(analysis.warnings).toEqual([]);
+      expect(optimalBySlot(analysis)).toEqual({ 'W/R': ['423.p.2'], 'W/T': ['423.p.1'] });
+      expect(analysis.currentProjection).toBe(25);
+      expect(analysis.optimalProjection).toBe(35);
+    });
+
+    it('fills a slot with a zero-point player rather than leaving it empty', () => {
+      const analysis = lineupOptimizerService.analyze({
+        ...SLEEPER_LINEUP,
+        slots: ['K'],
+        players: [{ ...SLEEPER_LINEUP.players[11], isActive: false, injuryStatus: 'Out' }]
+      });
+
+      expect(optimalBySlot(analysis)).toEqual({ K: ['k1'] });
+      expect(analysis.optimalProjection).toBe(0);
+    });
+  });
+
+  describe('scoreFinishedWeek', () => {
+    it('scores the lineup as set and the best legal lineup in hindsight', () => {
+      const finalPoints: Record<string, number> = { '423.p.1': 21.4, '423.p.2': 30.2, '423.p.3': 2.1 };
+
+      expect(lineupOptimizerService.scoreFinishedWeek(YAHOO_NON_NESTED_LINEUP, player => finalPoints[player.playerId]))
+        .toEqual({ actualPoints: 23.5, optimalPoints: 51.6 });
+    });
+
+    it('ignores locks, byes and injury designations once the week is over', () => {
+      const { actualPoints, optimalPoints } = lineupOptimizerService.scoreFinishedWeek(SLEEPER_LINEUP, player => player.projectedPoints);
+
+      expect(actualPoints).toBe(106);
+      // The locked bench WR would have started
+      expect(optimalPoints).toBe(130);
+    });
+  });
+
+  describe('getEligibleSlots', () => {
+    it('matches positions to starting and flex slots', () => {
+      expect(lineupOptimizerService.getEligibleSlots(['WR'], ['QB', 'WR', 'WR', 'FLEX', 'W/T', 'OP', 'BN']))
+        .toEqual(['WR', 'FLEX', 'W/T', 'OP']);
+      expect(lineupOptimizerService.getEligibleSlots(['RB', 'WR'], ['RB/WR', 'WR/TE'])).toEqual(['RB/WR', 'WR/TE']);
+    });
+
+    it('treats platform spellings of a position as the same', () => {
+      expect(lineupOptimizerService.getEligibleSlots(['D/ST'], ['K', 'DEF'])).toEqual(['DEF']);
+      expect(lineupOptimizerService.getEligibleSlots(['PK'], ['K', 'DEF'])).toEqual(['K']);
+    });
+  });
+
+  describe('loadLineup', () => {
+    const now = new Date('2026-10-18T19:00:00Z');
+
+    beforeEach(() => {
+      vi.restoreAllMocks();
+      vi.useFakeTimers({ now, toFake: ['Date'] });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(nflCalendarService, 'getState')
+        .mockResolvedValue({ season: 2026, week: 6, seasonType: 'regular', isBye: false, source: 'sleeper' });
+      vi.spyOn(tank01NFLDataService, 'getWeekSchedule').mockResolvedValue(weekSchedule(now));
+    });
+
+    it('loads the Sleeper roster with the league\'s reception scoring', async () => {
+      vi.spyOn(sleeperAPIEnhanced, 'getStaticLeagueData')
+        .mockResolvedValue({ league: SLEEPER_LEAGUE, users: SLEEPER_USERS, rosters: SLEEPER_ROSTERS });
+      vi.spyOn(sleeperAPIEnhanced, 'getPlayers').mockResolvedValue(SLEEPER_PLAYERS);
+      vi.spyOn(sleeperAPIEnhanced, 'getProjections').mockResolvedValue(SLEEPER_PROJECTIONS);
+
+      const lineup = await lineupOptimizerService.loadLineup({
+        id: 'league_1', leagueId: '1180110000', platform: 'Sleeper', enabled: true, sleeperUsername: 'Gridiron_Greg'
+      });
+
+      expect(sleeperAPIEnhanced.getProjections).toHaveBeenCalledWith(2026, 6);
+      expect(lineup.slots).toEqual(['QB', 'RB', 'WR', 'FLEX', 'DEF']);
+      // IR and taxi players are left out
+      expect(lineup.players.map(pick)).toEqual([
+        { playerId: '4984', slot: 'QB', eligibleSlots: ['QB'], projectedPoints: 23.5, isActive: true, onBye: false, locked: true },
+        { playerId: '4866', slot: 'RB', eligibleSlots: ['RB', 'FLEX'], projectedPoints: 16.5, isActive: true, onBye: false, locked: false },
+        { playerId: '6794', slot: 'WR', eligibleSlots: ['WR', 'FLEX'], projectedPoints: 15, isActive: false, onBye: false, locked: false },
+        { playerId: '7564', slot: null, eligibleSlots: ['WR', 'FLEX'], projectedPoints: 17, isActive: true, onBye: false, locked: false },
+        { playerId: '8150', slot: null, eligibleSlots: ['RB', 'FLEX'], projectedPoints: 13, isActive: true, onBye: true, locked: false },
+        { playerId: 'PHI', slot: 'DEF', eligibleSlots: ['DEF'], projectedPoints: 0, isActive: true, onBye: false, locked: false }
+      ]);
+      expect(lineup.players[5]).toMatchObject({ name: 'PHI D/ST', position: 'DEF', team: 'PHI' });
+    });
+
+    it('loads the ESPN team found by SWID with its lineup slots', async () => {
+      vi.spyOn(espnFantasyAPI, 'getLeague').mockResolvedValue(ESPN_LEAGUE);
+      vi.spyOn(espnFantasyAPI, 'getRosters').mockResolvedValue(ESPN_TEAMS);
+
+      const lineup = await lineupOptimizerService.loadLineup({
+        id: 'league_2', leagueId: '8675309', platform: 'ESPN', enabled: true, swid: '{a1b2c3d4-0000-0000-0000-000000000000}'
+      });
+
+      expect(lineup.slots).toEqual(['QB', 'RB', 'WR/TE', 'OP']);
+      // Injured reserve is left out
+      expect(lineup.players.map(pick)).toEqual([
+        { playerId: '3918298', slot: 'QB', eligibleSlots: ['QB', 'OP'], projectedPoints: 22.4, isActive: true, onBye: false, locked: true },
+        { playerId: '3929630', slot: 'RB', eligibleSlots: ['RB', 'OP'], projectedPoints: 17.1, isActive: true, onBye: false, locked: false },
+        { playerId: '4362628', slot: null, eligibleSlots: ['WR/TE', 'OP'], projectedPoints: 18.6, isActive: true, onBye: false, locked: false },
+        { playerId: '3116406', slot: 'WR/TE', eligibleSlots: ['WR/TE', 'OP'], projectedPoints: 12.2, isActive: true, onBye: true, locked: false },
+        { playerId: '4040715', slot: 'OP', eligibleSlots: ['QB', 'OP'], projectedPoints: 20.3, isActive: true, onBye: false, locked: false }
+      ]);
+      expect(lineup.players[3].injuryStatus).toBe('QUESTIONABLE');
+    });
+
+    it('skips bye and lock checks without a schedule', async () => {
+      vi.spyOn(tank01NFLDataService, 'getWeekSchedule').mockRejectedValue(new Error('Tank01 unavailable'));
+      vi.spyOn(espnFantasyAPI, 'getLeague').mockResolvedValue(ESPN_LEAGUE);
+      vi.spyOn(espnFantasyAPI, 'getRosters').mockResolvedValue(ESPN_TEAMS);
+
+      const lineup = await lineupOptimizerService.loadLineup({
+        id: 'league_2', leagueId: '8675309', platform: 'ESPN', enabled: true, teamId: '2'
+      });
+
+      expect(lineup.players.every(player => !player.onBye && !player.locked)).toBe(true);
+    });
+
+    it('loads the Yahoo roster with its flex eligibility and Sleeper projections', async () => {
+      mockYahooLeague();
+      vi.spyOn(YahooDataService, 'fetchLeagueScoring')
+        .mockResolvedValue({ ...fantasyPointsCalculator.getYahooStandardSettings(), receptions: 1 });
+      vi.spyOn(sleeperAPIEnhanced, 'getPlayers').mockResolvedValue(SLEEPER_PLAYERS);
+      vi.spyOn(sleeperAPIEnhanced, 'getProjections').mockResolvedValue(SLEEPER_PROJECTIONS);
+
+      const lineup = await lineupOptimizerService.loadLineup({ id: 'league_3', leagueId: '461.l.55555', platform: 'Yahoo', enabled: true });
+
+      expect(YahooDataService.fetchTeamRoster).toHaveBeenCalledWith('461.l.55555.t.3', 6);
+      expect(lineup.slots).toEqual(['QB', 'WR', 'RB', 'W/R/T', 'DEF']);
+      // IR is left out; projections are PPR and matched across the platforms by name and team
+      expect(lineup.players.map(pick)).toEqual([
+        { playerId: '30977', slot: 'QB', eligibleSlots: ['QB'], projectedPoints: 24, isActive: true, onBye: false, locked: true },
+        { playerId: '33393', slot: 'WR', eligibleSlots: ['WR', 'W/R/T'], projectedPoints: 19, isActive: true, onBye: false, locked: false },
+        { playerId: '30972', slot: 'RB', eligibleSlots: ['RB', 'W/R/T'], projectedPoints: 18, isActive: true, onBye: false, locked: false },
+        { playerId: '33012', slot: 'W/R/T', eligibleSlots: ['RB', 'W/R/T'], projectedPoints: 14, isActive: true, onBye: true, locked: false },
+        { playerId: '32692', slot: null, eligibleSlots: ['WR', 'W/R/T'], projectedPoints: 17, isActive: false, onBye: false, locked: false },
+        { playerId: '100021', slot: 'DEF', eligibleSlots: ['DEF'], projectedPoints: 0, isActive: true, onBye: false, locked: false }
+      ]);
+      expect(lineup.players[4]).toMatchObject({ name: 'Justin Jefferson', team: 'MIN', injuryStatus: 'O' });
+    });
+
+    it('rejects an ESPN league without an identifiable team', async () => {
+      vi.spyOn(espnFantasyAPI, 'getLeague').mockResolvedValue(ESPN_LEAGUE);
+      vi.spyOn(espnFantasyAPI, 'getRosters').mockResolvedValue(ESPN_TEAMS);
+
+      await expect(lineupOptimizerService.loadLineup({ id: 'league_2', leagueId: '8675309', platform: 'ESPN', enabled: true }))
+        .rejects.toThrow('Could not find team in ESPN league 8675309');
+    });
+  });
+
+  describe('loadFinishedWeek', () => {
+    beforeEach(() => {
+      vi.restoreAllMocks();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('loads a Sleeper week as it was set, with final and matchup points', async () => {
+      vi.spyOn(sleeperAPIEnhanced, 'getStaticLeagueData')
+        .mockResolvedValue({ league: SLEEPER_LEAGUE, users: SLEEPER_USERS, rosters: SLEEPER_ROSTERS });
+      vi.spyOn(sleeperAPIEnhanced, 'getPlayers').mockResolvedValue(SLEEPER_PLAYERS);
+      vi.spyOn(sleeperAPIEnhanced, 'getMatchups').mockResolvedValue(SLEEPER_WEEK_5_MATCHUPS);
+
+      const { lineup, finalPoints, matchupPoints } = await lineupOptimizerService.loadFinishedWeek({
+        id: 'league_1', leagueId: '1180110000', platform: 'Sleeper', enabled: true, sleeperUsername: 'gridiron_greg'
+      }, 5);
+
+      expect(sleeperAPIEnhanced.getMatchups).toHaveBeenCalledWith('1180110000', 5);
+      expect(matchupPoints).toBe(55.8);
+      expect(finalPoints['6794']).toBe(31.4);
+      // The week's starters, not today's; IR is left out
+      expect(lineup.players.map(player => [player.playerId, player.slot])).toEqual([
+        ['4984', 'QB'], ['4866', 'RB'], ['6794', null], ['7564', 'WR'], ['8150', 'FLEX'], ['PHI', 'DEF']
+      ]);
+      expect(lineupOptimizerService.scoreFinishedWeek(lineup, player => finalPoints[player.playerId] ?? 0))
+        .toEqual({ actualPoints: 55.8, optimalPoints: 80.7 });
+    });
+
+    it('loads an ESPN week from the user\'s side of that week\'s matchup', async () => {
+      vi.spyOn(espnFantasyAPI, 'getLeague').mockResolvedValue(ESPN_LEAGUE);
+      vi.spyOn(espnFantasyAPI, 'getMatchups').mockResolvedValue(ESPN_WEEK_5_MATCHUPS);
+
+      const { lineup, finalPoints, matchupPoints } = await lineupOptimizerService.loadFinishedWeek({
+        id: 'league_2', leagueId: '8675309', platform: 'ESPN', enabled: true, teamId: '2'
+      }, 5);
+
+      expect(matchupPoints).toBe(59);
+      expect(lineup.players.map(player => player.playerId)).not.toContain('3054850');
+      expect(finalPoints).toEqual({ '3918298': 18, '3929630': 20, '4362628': 25, '3116406': 7, '4040715': 14 });
+      expect(lineupOptimizerService.scoreFinishedWeek(lineup, player => finalPoints[player.playerId] ?? 0))
+        .toEqual({ actualPoints: 59, optimalPoints: 77 });
+    });
+
+    it('loads a Yahoo week with the roster\'s points and the scoreboard\'s team score', async () => {
+      mockYahooLeague();
+
+      const { lineup, finalPoints, matchupPoints } = await lineupOptimizerService.loadFinishedWeek({
+        id: 'league_3', leagueId: '461.l.55555', platform: 'Yahoo', enabled: true
+      }, 5);
+
+      expect(YahooDataService.fetchLeagueScoreboard).toHaveBeenCalledWith('461.l.55555', 5);
+      expect(YahooDataService.fetchTeamRoster).toHaveBeenCalledWith('461.l.55555.t.3', 5);
+      expect(matchupPoints).toBe(55.8);
+      expect(finalPoints).not.toHaveProperty('30123');
+      expect(lineupOptimizerService.scoreFinishedWeek(lineup, player => finalPoints[player.playerId] ?? 0))
+        .toEqual({ actualPoints: 55.8, optimalPoints: 80.7 });
+    });
+
+    it('rejects a week without a matchup', async () => {
+      vi.spyOn(espnFantasyAPI, 'getLeague').mockResolvedValue(ESPN_LEAGUE);
+      vi.spyOn(espnFantasyAPI, 'getMatchups').mockResolvedValue(ESPN_WEEK_5_MATCHUPS);
+
+      await expect(lineupOptimizerService.loadFinishedWeek({
+        id: 'league_2', leagueId: '8675309', platform: 'ESPN', enabled: true, teamId: '2'
+      }, 7)).rejects.toThrow('No week 7 matchup in ESPN league 8675309');
+    });
+  });
+});
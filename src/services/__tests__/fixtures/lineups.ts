@@ -0,0 +1,333 @@
+import type { LeagueLineup, LineupPlayer } from '../../LineupOptimizerService';
+import type {
+  SleeperLeague,
+  SleeperMatchup,
+  SleeperPlayer,
+  SleeperProjection,
+  SleeperRoster,
+  SleeperUser
+} from '../../SleeperAPIEnhanced';
+import type { ESPNFantasyLeague, ESPNRosterEntry, ESPNTeam } from '../../ESPNFantasyAPI';
+import type { NFLKickoff } from '../../Tank01NFLDataService';
+import type { YahooScoreboard } from '../../../types/yahoo';
+
+const player = (overrides: Partial<LineupPlayer> & Pick<LineupPlayer, 'playerId' | 'position' | 'eligibleSlots'>): LineupPlayer => ({
+  name: overrides.playerId,
+  team: 'KC',
+  slot: null,
+  projectedPoints: 0,
+  isActive: true,
+  onBye: false,
+  locked: false,
+  ...overrides
+});
+
+const SLEEPER_FLEX = ['FLEX', 'SUPER_FLEX'];
+
+// Sleeper superflex lineup: a starter OUT, a starter on bye, an empty K slot,
+// a locked starter and a locked bench player who can't be moved in
+export const SLEEPER_LINEUP: LeagueLineup = {
+  leagueId: '1180110000',
+  platform: 'Sleeper',
+  slots: ['QB', 'RB', 'RB', 'WR', 'TE', 'FLEX', 'SUPER_FLEX', 'K'],
+  players: [
+    player({ playerId: 'qb1', name: 'Josh Allen', position: 'QB', eligibleSlots: ['QB', 'SUPER_FLEX'], slot: 'QB', projectedPoints: 22, locked: true }),
+    player({ playerId: 'qb2', name: 'Jalen Hurts', position: 'QB', eligibleSlots: ['QB', 'SUPER_FLEX'], slot: 'SUPER_FLEX', projectedPoints: 20 }),
+    player({ playerId: 'rb1', name: 'Bijan Robinson', position: 'RB', eligibleSlots: ['RB', ...SLEEPER_FLEX], slot: 'RB', projectedPoints: 16 }),
+    player({ playerId: 'rb2', name: 'Kyren Williams', position: 'RB', eligibleSlots: ['RB', ...SLEEPER_FLEX], slot: 'RB', projectedPoints: 14, isActive: false, injuryStatus: 'Out' }),
+    player({ playerId: 'rb3', name: 'James Cook', position: 'RB', eligibleSlots: ['RB', ...SLEEPER_FLEX], projectedPoints: 12 }),
+    player({ playerId: 'wr1', name: 'Puka Nacua', position: 'WR', eligibleSlots: ['WR', ...SLEEPER_FLEX], slot: 'WR', projectedPoints: 15 }),
+    player({ playerId: 'wr2', name: 'Jaylen Waddle', position: 'WR', eligibleSlots: ['WR', ...SLEEPER_FLEX], slot: 'FLEX', projectedPoints: 9 }),
+    player({ playerId: 'wr3', name: 'DK Metcalf', position: 'WR', eligibleSlots: ['WR', ...SLEEPER_FLEX], projectedPoints: 11 }),
+    player({ playerId: 'wr4', name: 'Tyreek Hill', position: 'WR', eligibleSlots: ['WR', ...SLEEPER_FLEX], projectedPoints: 25, locked: true }),
+    player({ playerId: 'te1', name: 'Sam LaPorta', position: 'TE', eligibleSlots: ['TE', ...SLEEPER_FLEX], slot: 'TE', projectedPoints: 10, onBye: true }),
+    player({ playerId: 'te2', name: 'Dallas Goedert', position: 'TE', eligibleSlots: ['TE', ...SLEEPER_FLEX], projectedPoints: 6 }),
+    player({ playerId: 'k1', name: 'Jake Elliott', position: 'K', eligibleSlots: ['K'], projectedPoints: 8 })
+  ]
+};
+
+// ESPN's RB/WR, WR/TE and OP slots, with a QB on the bench who belongs in OP
+export const ESPN_LINEUP: LeagueLineup = {
+  leagueId: '8675309',
+  platform: 'ESPN',
+  slots: ['QB', 'RB', 'RB/WR', 'WR', 'WR/TE', 'TE', 'OP', 'DEF'],
+  players: [
+    player({ playerId: '101', position: 'QB', eligibleSlots: ['QB', 'OP'], slot: 'QB', projectedPoints: 18 }),
+    player({ playerId: '102', position: 'QB', eligibleSlots: ['QB', 'OP'], projectedPoints: 17 }),
+    player({ playerId: '201', position: 'RB', eligibleSlots: ['RB', 'RB/WR', 'OP'], slot: 'RB', projectedPoints: 14 }),
+    player({ playerId: '202', position: 'RB', eligibleSlots: ['RB', 'RB/WR', 'OP'], slot: 'RB/WR', projectedPoints: 13 }),
+    player({ playerId: '301', position: 'WR', eligibleSlots: ['WR', 'RB/WR', 'WR/TE', 'OP'], slot: 'WR', projectedPoints: 15 }),
+    player({ playerId: '302', position: 'WR', eligibleSlots: ['WR', 'RB/WR', 'WR/TE', 'OP'], projectedPoints: 12 }),
+    player({ playerId: '303', position: 'WR', eligibleSlots: ['WR', 'RB/WR', 'WR/TE', 'OP'], slot: 'OP', projectedPoints: 7 }),
+    player({ playerId: '401', position: 'TE', eligibleSlots: ['TE', 'WR/TE', 'OP'], slot: 'TE', projectedPoints: 9 }),
+    player({ playerId: '402', position: 'TE', eligibleSlots: ['TE', 'WR/TE', 'OP'], slot: 'WR/TE', projectedPoints: 5 }),
+    player({ playerId: '-16001', position: 'DEF', eligibleSlots: ['DEF'], slot: 'DEF', projectedPoints: 6 })
+  ]
+};
+
+// Yahoo flex slots that don't nest: the WR fits both, the RB and TE one each.
+// Filling the slots greedily by projection starts the WR and TE for 25; the best
+// lineup moves the WR to W/T to make room for the RB, for 35
+export const YAHOO_NON_NESTED_LINEUP: LeagueLineup = {
+  leagueId: '423.l.55555',
+  platform: 'Yahoo',
+  slots: ['W/R', 'W/T'],
+  players: [
+    player({ playerId: '423.p.1', name: 'Ja\'Marr Chase', position: 'WR', eligibleSlots: ['W/R', 'W/T'], slot: 'W/R', projectedPoints: 20 }),
+    player({ playerId: '423.p.2', name: 'Saquon Barkley', position: 'RB', eligibleSlots: ['W/R'], projectedPoints: 15 }),
+    player({ playerId: '423.p.3', name: 'Tucker Kraft', position: 'TE', eligibleSlots: ['W/T'], slot: 'W/T', projectedPoints: 5 })
+  ]
+};
+
+// Raw Sleeper league data: half PPR, a player on IR and one on the taxi squad
+export const SLEEPER_LEAGUE = {
+  league_id: '1180110000',
+  name: 'Gridiron Greats',
+  season: '2026',
+  scoring_settings: { rec: 0.5 },
+  roster_positions: ['QB', 'RB', 'WR', 'FLEX', 'DEF', 'BN', 'BN', 'IR', 'TAXI']
+} as unknown as SleeperLeague;
+
+export const SLEEPER_USERS = [
+  { user_id: 'u1', username: 'someone_else', display_name: 'Someone Else' },
+  { user_id: 'u2', username: 'gridiron_greg', display_name: 'Greg' }
+] as SleeperUser[];
+
+export const SLEEPER_ROSTERS = [
+  { roster_id: 1, owner_id: 'u1', players: ['9999'], starters: ['9999'] },
+  {
+    roster_id: 2,
+    owner_id: 'u2',
+    players: ['4984', '4866', '6794', '7564', '8150', 'PHI', '4881', '9500'],
+    // Empty FLEX slot
+    starters: ['4984', '4866', '6794', '0', 'PHI'],
+    reserve: ['4881'],
+    taxi: ['9500']
+  }
+] as unknown as SleeperRoster[];
+
+export const SLEEPER_PLAYERS = {
+  '4984': { player_id: '4984', full_name: 'Josh Allen', position: 'QB', fantasy_positions: ['QB'], team: 'BUF' },
+  '4866': { player_id: '4866', full_name: 'Saquon Barkley', position: 'RB', fantasy_positions: ['RB'], team: 'PHI' },
+  '6794': { player_id: '6794', full_name: 'Justin Jefferson', position: 'WR', fantasy_positions: ['WR'], team: 'MIN', injury_status: 'Out' },
+  '7564': { player_id: '7564', full_name: 'Ja\'Marr Chase', position: 'WR', fantasy_positions: ['WR'], team: 'CIN' },
+  '8150': { player_id: '8150', full_name: 'Kyren Williams', position: 'RB', fantasy_positions: ['RB'], team: 'LAR' },
+  '4881': { player_id: '4881', full_name: 'Lamar Jackson', position: 'QB', fantasy_positions: ['QB'], team: 'BAL' }
+} as unknown as Record<string, SleeperPlayer>;
+
+export const SLEEPER_PROJECTIONS = {
+  '4984': { player_id: '4984', stats: { pts_ppr: 24, pts_half_ppr: 23.5, pts_std: 23 } },
+  '4866': { player_id: '4866', stats: { pts_ppr: 18, pts_half_ppr: 16.5, pts_std: 15 } },
+  '6794': { player_id: '6794', stats: { pts_ppr: 17, pts_half_ppr: 15, pts_std: 13 } },
+  '7564': { player_id: '7564', stats: { pts_ppr: 19, pts_half_ppr: 17, pts_std: 15 } },
+  '8150': { player_id: '8150', stats: { pts_ppr: 14, pts_half_ppr: 13, pts_std: 12 } }
+} as unknown as Record<string, SleeperProjection>;
+
+// Week 5 as played: the bench WR outscored everyone and the IR QB's points don't count
+export const SLEEPER_WEEK_5_MATCHUPS = [
+  { roster_id: 1, matchup_id: 1, points: 97.2, players: ['9999'], starters: ['9999'], players_points: { '9999': 97.2 } },
+  {
+    roster_id: 2,
+    matchup_id: 1,
+    points: 55.8,
+    players: ['4984', '4866', '6794', '7564', '8150', 'PHI', '4881'],
+    starters: ['4984', '4866', '7564', '8150', 'PHI'],
+    players_points: { '4984': 25.1, '4866': 8.2, '6794': 31.4, '7564': 12, '8150': 6.5, PHI: 4, '4881': 30 }
+  }
+] as unknown as SleeperMatchup[];
+
+// Week 6 kickoffs: BUF has played, MIN plays on Monday, and LAR and MIA are on bye
+export const weekSchedule = (now: Date): NFLKickoff[] => {
+  const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+  return [
+    { gameId: '20261018_BUF@NYJ', away: 'BUF', home: 'NYJ', kickoff: hoursFromNow(-2) },
+    { gameId: '20261018_PHI@CIN', away: 'PHI', home: 'CIN', kickoff: hoursFromNow(1) },
+    { gameId: '20261019_MIN@WSH', away: 'MIN', home: 'WSH', kickoff: hoursFromNow(26) },
+    { gameId: '20261018_JAX@BAL', away: 'JAX', home: 'BAL', kickoff: hoursFromNow(1) }
+  ];
+};
+
+const espnEntry = (
+  id: number,
+  fullName: string,
+  defaultPositionId: number,
+  proTeamId: number,
+  lineupSlotId: number,
+  eligibleSlots: number[],
+  projected: number,
+  injuryStatus = 'ACTIVE'
+): ESPNRosterEntry => ({
+  playerId: id,
+  lineupSlotId,
+  playerPoolEntry: {
+    id,
+    player: {
+      id,
+      fullName,
+      defaultPositionId,
+      proTeamId,
+      injuryStatus,
+      eligibleSlots,
+      stats: [
+        { scoringPeriodId: 6, statSourceId: 1, appliedTotal: projected },
+        { scoringPeriodId: 5, statSourceId: 1, appliedTotal: 99 }
+      ]
+    }
+  }
+});
+
+// One QB, RB, WR/TE and OP slot; bench is 20 and injured reserve 21
+export const ESPN_LEAGUE = {
+  id: 8675309,
+  seasonId: 2026,
+  scoringPeriodId: 6,
+  settings: {
+    name: 'Work League',
+    rosterSettings: { lineupSlotCounts: { '0': 1, '2': 1, '5': 1, '7': 1, '20': 6, '21': 1, '4': 0 } }
+  },
+  teams: []
+} as ESPNFantasyLeague;
+
+export const ESPN_TEAMS: ESPNTeam[] = [
+  { id: 1, abbrev: 'OTH', primaryOwner: '{OTHER}', roster: { entries: [] } },
+  {
+    id: 2,
+    abbrev: 'ME',
+    primaryOwner: '{A1B2C3D4-0000-0000-0000-000000000000}',
+    roster: {
+      entries: [
+        espnEntry(3918298, 'Josh Allen', 1, 2, 0, [0, 7, 20, 21], 22.4),
+        espnEntry(3929630, 'Saquon Barkley', 2, 21, 2, [2, 3, 23, 7, 20, 21], 17.1),
+        espnEntry(4362628, 'Ja\'Marr Chase', 3, 4, 20, [3, 4, 5, 23, 7, 20, 21], 18.6),
+        espnEntry(3116406, 'Tyreek Hill', 3, 15, 5, [3, 4, 5, 23, 7, 20, 21], 12.2, 'QUESTIONABLE'),
+        espnEntry(4040715, 'Jalen Hurts', 1, 21, 7, [0, 7, 20, 21], 20.3),
+        espnEntry(3054850, 'Alvin Kamara', 2, 18, 21, [2, 3, 23, 7, 20, 21], 0, 'INJURY_RESERVE')
+      ]
+    }
+  }
+];
+
+// Week 5 actual points by player; the benched WR scored the most
+const ESPN_WEEK_5_POINTS: Record<number, number> = {
+  3918298: 18, 3929630: 20, 4362628: 25, 3116406: 7, 4040715: 14, 3054850: 0
+};
+
+export const ESPN_WEEK_5_MATCHUPS = {
+  ...ESPN_LEAGUE,
+  scoringPeriodId: 5,
+  teams: ESPN_TEAMS,
+  schedule: [
+    { id: 40, matchupPeriodId: 4, home: { teamId: 2, totalPoints: 88 }, away: { teamId: 1, totalPoints: 80 } },
+    {
+      id: 50,
+      matchupPeriodId: 5,
+      home: { teamId: 1, totalPoints: 90 },
+      away: {
+        teamId: 2,
+        totalPoints: 59,
+        rosterForCurrentScoringPeriod: {
+          entries: ESPN_TEAMS[1].roster!.entries.map(entry => ({
+            ...entry,
+            playerPoolEntry: {
+              ...entry.playerPoolEntry,
+              player: {
+                ...entry.playerPoolEntry.player,
+                stats: [{ scoringPeriodId: 5, statSourceId: 0, appliedTotal: ESPN_WEEK_5_POINTS[entry.playerId] }]
+              }
+            }
+          }))
+        }
+      }
+    }
+  ]
+} as ESPNFantasyLeague;
+
+// Raw Yahoo roster player in the API's nested array-of-objects shape
+const yahooPlayer = (
+  id: string,
+  fullName: string,
+  team: string,
+  displayPosition: string,
+  eligiblePositions: string[],
+  selectedPosition: string,
+  points: number,
+  status?: string
+) => ({
+  player: [
+    [
+      { player_key: `461.p.${id}` },
+      { player_id: id },
+      { name: { full: fullName, ascii_first: fullName.split(' ')[0] } },
+      ...(status ? [{ status }] : []),
+      { editorial_team_abbr: team },
+      [],
+      { display_position: displayPosition },
+      { eligible_positions: eligiblePositions.map(position => ({ position })) }
+    ],
+    { selected_position: [{ coverage_type: 'week' }, { week: '6' }, { position: selectedPosition }] },
+    { player_points: { coverage_type: 'week', week: '6', total: String(points) } }
+  ]
+});
+
+// One QB, WR, RB, W/R/T and DEF slot, three bench spots and one IR
+export const YAHOO_SETTINGS_RESPONSE = {
+  fantasy_content: {
+    league: [
+      { league_key: '461.l.55555' },
+      {
+        settings: [{
+          roster_positions: [
+            { roster_position: { position: 'QB', position_type: 'O', count: 1, is_starting_position: 1 } },
+            { roster_position: { position: 'WR', position_type: 'O', count: 1, is_starting_position: 1 } },
+            { roster_position: { position: 'RB', position_type: 'O', count: 1, is_starting_position: 1 } },
+            { roster_position: { position: 'W/R/T', position_type: 'O', count: 1, is_starting_position: 1 } },
+            { roster_position: { position: 'DEF', position_type: 'DT', count: 1, is_starting_position: 1 } },
+            { roster_position: { position: 'BN', count: 3, is_starting_position: 0 } },
+            { roster_position: { position: 'IR', count: 1, is_starting_position: 0 } }
+          ]
+        }]
+      }
+    ]
+  }
+};
+
+// The user's roster with the week's points: the benched WR is OUT and outscored
+// everyone, and the IR QB's points don't count
+export const YAHOO_ROSTER_RESPONSE = {
+  fantasy_content: {
+    team: [
+      [{ team_key: '461.l.55555.t.3' }, { team_id: '3' }, { name: 'Sunday Funday' }],
+      {
+        roster: {
+          coverage_type: 'week',
+          week: '6',
+          '0': {
+            players: {
+              '0': yahooPlayer('30977', 'Josh Allen', 'Buf', 'QB', ['QB'], 'QB', 25.1),
+              '1': yahooPlayer('33393', 'Ja\'Marr Chase', 'Cin', 'WR', ['WR', 'W/R/T'], 'WR', 12),
+              '2': yahooPlayer('30972', 'Saquon Barkley', 'Phi', 'RB', ['RB', 'W/R/T'], 'RB', 8.2),
+              '3': yahooPlayer('33012', 'Kyren Williams', 'LAR', 'RB', ['RB', 'W/R/T'], 'W/R/T', 6.5),
+              '4': yahooPlayer('32692', 'Justin Jefferson', 'Min', 'WR', ['WR', 'W/R/T'], 'BN', 31.4, 'O'),
+              '5': yahooPlayer('30123', 'Lamar Jackson', 'Bal', 'QB', ['QB', 'IR'], 'IR', 30, 'IR'),
+              '6': yahooPlayer('100021', 'Philadelphia', 'Phi', 'DEF', ['DEF'], 'DEF', 4),
+              count: 7
+            }
+          }
+        }
+      }
+    ]
+  }
+};
+
+export const yahooScoreboard = (week: number): YahooScoreboard => ({
+  league_key: '461.l.55555',
+  week,
+  matchups: [{
+    week,
+    status: 'postevent',
+    teams: [
+      { team_key: '461.l.55555.t.7', team_id: '7', name: 'Rivals', points: 97.2, is_owned_by_current_login: false },
+      { team_key: '461.l.55555.t.3', team_id: '3', name: 'Sunday Funday', points: 55.8, is_owned_by_current_login: true }
+    ]
+  }]
+});
@@ -7,7 +7,9 @@ export interface LeagueConfig {
   platform: Platform;
   enabled: boolean;
   sleeperUsername?: string; // For identifying user's team in Sleeper leagues
-  teamId?: string; // Yahoo team ID when needed
+  teamId?: string; // Yahoo or ESPN team ID when needed
+  espnS2?: string; // ESPN private league cookie
+  swid?: string; // ESPN private league cookie, e.g. {XXXXXXXX-...}
 }
 
 export interface PollingConfig {
@@ -16,11 +18,58 @@ export interface PollingConfig {
   gameHourPolling: boolean;
 }
 
+// Notify on attributed scoring plays that match every set filter
+export interface ScoringNotificationRule {
+  id: string;
+  type: 'scoring';
+  enabled: boolean;
+  leagueId: string | null; // null = every league
+  playerName: string | null; // Case-insensitive match; null = every player
+  events: 'touchdowns' | 'all';
+  startersOnly: boolean;
+  side: 'for' | 'against' | 'both'; // My team, my opponent, or either
+  minPoints: number;
+}
+
+// Notify when a league's win probability crosses the threshold in either direction
+export interface WinProbabilityNotificationRule {
+  id: string;
+  type: 'win_probability';
+  enabled: boolean;
+  leagueId: string | null;
+  threshold: number; // 0-100
+}
+
+export type NotificationRule = ScoringNotificationRule | WinProbabilityNotificationRule;
+
+export interface QuietHoursConfig {
+  enabled: boolean;
+  start: string; // HH:MM, local time
+  end: string;   // HH:MM; may be earlier than start to span midnight
+}
+
+// Fantasy moments that can play a sound
+export type SoundCueEvent = 'touchdown' | 'field_goal' | 'interception_against' | 'lead_change';
+
+// Each cue is a built-in ('builtin:<name>'), an uploaded sound ('custom:<id>'), or null for silence
+export type SoundCueMap = Record<SoundCueEvent, string | null>;
+
+export interface SoundConfig {
+  cues: SoundCueMap;
+  leagueCues: Record<string, Partial<SoundCueMap>>; // leagueId -> cues that replace the defaults
+  respectReducedMotion: boolean; // Play one soft tone instead when the system prefers reduced motion
+}
+
 export interface NotificationConfig {
   scoringEvents: boolean;
   winProbabilityChanges: boolean;
   gameStartReminders: boolean;
+  reminderLeadMinutes: number; // How long before kickoff lineup reminders go out
   playSound: boolean;
+  browserNotifications: boolean; // System notifications via the service worker
+  quietHours: QuietHoursConfig;
+  rules: NotificationRule[];
+  sounds: SoundConfig; // Audio cues, played when playSound is on
 }
 
 export interface DebugConfig {
@@ -37,6 +86,8 @@ export interface DisplayConfig {
   compactView: boolean;
   showWinProbabilityTrends: boolean;
   showPerformanceMetrics: boolean;
+  soundVolume: number; // 0-100
+  soundMuted: boolean;
 }
 
 export interface AdvancedPollingConfig extends PollingConfig {
@@ -79,7 +130,44 @@ export const DEFAULT_CONFIG: DashboardConfig = {
     scoringEvents: true,
     winProbabilityChanges: true,
     gameStartReminders: false,
+    reminderLeadMinutes: 60,
     playSound: false,
+    browserNotifications: false,
+    quietHours: {
+      enabled: false,
+      start: '23:00',
+      end: '08:00',
+    },
+    rules: [
+      {
+        id: 'rule_starter_tds',
+        type: 'scoring',
+        enabled: true,
+        leagueId: null,
+        playerName: null,
+        events: 'touchdowns',
+        startersOnly: true,
+        side: 'for',
+        minPoints: 0,
+      },
+      {
+        id: 'rule_win_probability_50',
+        type: 'win_probability',
+        enabled: true,
+        leagueId: null,
+        threshold: 50,
+      },
+    ],
+    sounds: {
+      cues: {
+        touchdown: 'builtin:fanfare',
+        field_goal: 'builtin:chime',
+        interception_against: 'builtin:buzzer',
+        lead_change: 'builtin:alert',
+      },
+      leagueCues: {},
+      respectReducedMotion: true,
+    },
   },
   debug: {
     enabled: false,
@@ -93,8 +181,10 @@ export const DEFAULT_CONFIG: DashboardConfig = {
     compactView: false,
     showWinProbabilityTrends: true,
     showPerformanceMetrics: false,
+    soundVolume: 70,
+    soundMuted: false,
   },
-  version: '1.0.0',
+  version: '1.4.0',
 };
 
 export const GAME_HOURS = {
@@ -1,5 +1,6 @@
-// Platform type for fantasy platforms  
-export type Platform = 'yahoo' | 'sleeper' | 'Yahoo' | 'Sleeper';
+// Canonical fantasy platform identifiers; stored configs are migrated to these spellings
+export const PLATFORMS = ['Yahoo', 'Sleeper', 'ESPN'] as const;
+export type Platform = typeof PLATFORMS[number];
 
 // Common league interface used across Yahoo and Sleeper
 export interface League {
@@ -103,13 +104,16 @@ export interface ScoringEvent {
   scoreImpact?: number;           // Fantasy points impact
   weeklyPoints?: number;          // Total weekly fantasy points
   isRecent?: boolean;             // Whether this is a recent event
+  isBackfilled?: boolean;         // Caught up after the app was closed
+  impact?: 'for' | 'against';     // 'against' when the opponent's player scored
+  isBench?: boolean;              // Scored on the bench, so it doesn't count toward the matchup
   
   // Make core fields optional for legacy compatibility
   league_id?: string;             // League this event affects (optional)
   team_id?: string;               // Team that owns the player (optional)
   player_id?: string;             // Player who scored (optional)
   platform?: Platform;           // Platform (optional)
-  event_type?: 'touchdown' | 'field_goal' | 'interception' | 'fumble' | 'yardage' | 'other';
+  event_type?: 'touchdown' | 'field_goal' | 'interception' | 'fumble' | 'yardage' | 'correction' | 'other';
   description?: string;           // Human-readable event description (optional)
   points?: number;                // Fantasy points awarded (optional)
   nfl_week?: number;              // NFL week number (optional)
@@ -132,11 +136,33 @@ export interface LeagueData {
   status: 'winning' | 'losing' | 'neutral';
   scoringEvents: (ScoringEventForDisplay | ScoringEvent)[];
   lastUpdated: string;
+  scoresFetchedAt?: string;        // ISO time the platform's scores were fetched
   winProbability?: number;
   winProbabilityTrend?: number;
+  myProjectedScore?: number;       // Live projected final score
+  opponentProjectedScore?: number;
+  playersRemaining?: PlayersRemaining;
   week?: number;
 }
 
+// Where a fantasy starter's NFL game stands
+export interface StarterGameStatus {
+  playerId: string;
+  name: string;
+  position: string;
+  team: string;
+  state: 'yet_to_play' | 'in_progress' | 'finished' | 'unknown'; // unknown until the NFL scoreboard is polled
+  opponent?: string;
+  period?: number;
+  clock?: string;
+}
+
+// Starter game statuses for both sides of a matchup
+export interface PlayersRemaining {
+  myStarters: StarterGameStatus[];
+  opponentStarters: StarterGameStatus[];
+}
+
 // Scoring event specifically for UI display (legacy format)
 export interface ScoringEventForDisplay {
   id: string;
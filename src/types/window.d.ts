@@ -0,0 +1,10 @@
+import type { espnLiveStatService } from '../services/ESPNLiveStatService';
+import type { liveStatProviderManager } from '../services/LiveStatProvider';
+
+// Debug handles useWindowServiceExposure puts on window for the browser console
+declare global {
+  interface Window {
+    espnLiveStatService?: typeof espnLiveStatService;
+    liveStatProviderManager?: typeof liveStatProviderManager;
+  }
+}
@@ -59,4 +59,59 @@ export interface YahooAPIResponse {
       };
     };
   };
-}
\ No newline at end of file
+}
+
+// Team in a weekly scoreboard matchup, flattened from Yahoo's array-of-objects shape
+export interface YahooMatchupTeam {
+  team_key: string;
+  team_id: string;
+  name: string;
+  manager_name?: string;
+  points: number;
+  projected_points?: number;
+  is_owned_by_current_login: boolean;
+}
+
+export interface YahooScoreboardMatchup {
+  week: number;
+  status: string; // preevent | midevent | postevent
+  teams: YahooMatchupTeam[];
+}
+
+export interface YahooScoreboard {
+  league_key: string;
+  league_name?: string;
+  week: number;
+  matchups: YahooScoreboardMatchup[];
+}
+
+export interface YahooStandingsTeam {
+  team_key: string;
+  team_id: string;
+  name: string;
+  rank: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// Player on a team's weekly roster, flattened from Yahoo's array-of-objects shape
+export interface YahooRosterPlayer {
+  player_key: string;
+  player_id: string;
+  name: string;
+  editorial_team_abbr: string;
+  display_position: string;
+  eligible_positions: string[]; // Includes the flex slots the player can fill, e.g. ['RB', 'W/R/T']
+  selected_position: string;    // 'BN' and 'IR' are reserve slots
+  status?: string;              // Injury designation, e.g. 'Q', 'O', 'IR'
+  points?: number;              // The week's fantasy points, when Yahoo reports them
+}
+
+export interface YahooTeamRoster {
+  team_key: string;
+  team_id: string;
+  name: string;
+  week: number;
+  players: YahooRosterPlayer[];
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_CONFIG } from '../../types/config';
+import { CONFIG_VERSION, ConfigMigrationError, migrateConfig } from '../configMigrations';
+import { CONFIG_QUARANTINE_KEY } from '../configQuarantine';
+import {
+  UNVERSIONED_CONFIG,
+  VERSION_0_0_0_CONFIG,
+  VERSION_1_0_0_CONFIG,
+  VERSION_1_1_0_CONFIG,
+  VERSION_1_2_0_CONFIG,
+  VERSION_1_3_0_CONFIG
+} from './fixtures/configVersions';
+
+const migrationIssues = (stored: unknown): string[] => {
+  try {
+    migrateConfig(stored);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigMigrationError);
+    return (error as ConfigMigrationError).issues;
+  }
+  throw new Error('Expected migration to fail');
+};
+
+describe('migrateConfig', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it.each([
+    ['unversioned', UNVERSIONED_CONFIG],
+    ['0.0.0', VERSION_0_0_0_CONFIG]
+  ])('upgrades an %s config', (_, stored) => {
+    const migrated = migrateConfig(stored);
+
+    expect(migrated.version).toBe(CONFIG_VERSION);
+    expect(migrated.leagues).toEqual([
+      { id: 'league_migrated_0', leagueId: '1180110000', platform: 'Sleeper', enabled: true, sleeperUsername: 'gridiron_greg' },
+      { id: 'league_migrated_1', leagueId: '423.l.55555', platform: 'Yahoo', enabled: true, customTeamName: 'Sunday Funday' }
+    ]);
+    // The live interval starts at the saved update frequency
+    expect(migrated.polling.interval).toBe(15);
+    expect(migrated.polling.smartPolling).toBe(false);
+    expect(migrated.notifications).toEqual({
+      ...DEFAULT_CONFIG.notifications,
+      scoringEvents: true,
+      winProbabilityChanges: false,
+      gameStartReminders: true,
+      playSound: true
+    });
+    expect(migrated.debug.enabled).toBe(true);
+  });
+
+  it('deep-merges partial game hour intervals with the defaults', () => {
+    const migrated = migrateConfig(UNVERSIONED_CONFIG);
+
+    expect(migrated.polling.gameHourIntervals).toEqual({
+      sunday: 10,
+      monday: DEFAULT_CONFIG.polling.gameHourIntervals.monday,
+      normal: DEFAULT_CONFIG.polling.gameHourIntervals.normal
+    });
+  });
+
+  it('keeps fully saved game hour intervals', () => {
+    expect(migrateConfig(VERSION_1_0_0_CONFIG).polling.gameHourIntervals).toEqual({ sunday: 20, monday: 25, normal: 90 });
+  });
+
+  it('canonicalizes 1.0.0 platform names and quarantines leagues on unsupported platforms', () => {
+    const migrated = migrateConfig(VERSION_1_0_0_CONFIG);
+
+    expect(migrated.leagues.map(league => [league.id, league.platform, league.enabled])).toEqual([
+      ['league_1', 'Yahoo', true],
+      ['league_2', 'Sleeper', false],
+      ['league_3', 'ESPN', true]
+    ]);
+    const quarantined = JSON.parse(localStorage.getItem(CONFIG_QUARANTINE_KEY) || '[]');
+    expect(quarantined).toEqual([
+      expect.objectContaining({ reason: 'League ff-123 has unknown platform fleaflicker', issues: [] })
+    ]);
+    expect(JSON.parse(quarantined[0].raw)).toMatchObject({ leagueId: 'ff-123', platform: 'fleaflicker' });
+  });
+
+  it('1.1.0 -> 1.2.0 fills browser delivery, quiet hours and rules from defaults', () => {
+    const { notifications } = migrateConfig(VERSION_1_1_0_CONFIG);
+
+    expect(notifications.browserNotifications).toBe(DEFAULT_CONFIG.notifications.browserNotifications);
+    expect(notifications.quietHours).toEqual(DEFAULT_CONFIG.notifications.quietHours);
+    expect(notifications.rules).toEqual(DEFAULT_CONFIG.notifications.rules);
+    expect(notifications.gameStartReminders).toBe(true);
+  });
+
+  it('1.2.0 -> 1.3.0 adds the reminder lead time and keeps saved rules and quiet hours', () => {
+    const { notifications } = migrateConfig(VERSION_1_2_0_CONFIG);
+
+    expect(notifications.reminderLeadMinutes).toBe(DEFAULT_CONFIG.notifications.reminderLeadMinutes);
+    expect(notifications.browserNotifications).toBe(true);
+    expect(notifications.quietHours).toEqual({ enabled: true, start: '22:30', end: '07:00' });
+    // Arrays are taken as saved, not merged with the default rules
+    expect(notifications.rules).toEqual(VERSION_1_2_0_CONFIG.notifications.rules);
+  });
+
+  it('1.3.0 -> 1.4.0 adds sound cues, volume and mute', () => {
+    const migrated = migrateConfig(VERSION_1_3_0_CONFIG);
+
+    expect(migrated.notifications.reminderLeadMinutes).toBe(90);
+    expect(migrated.notifications.sounds).toEqual(DEFAULT_CONFIG.notifications.sounds);
+    expect(migrated.display).toEqual({
+      compactView: true,
+      showWinProbabilityTrends: false,
+      showPerformanceMetrics: true,
+      soundVolume: DEFAULT_CONFIG.display.soundVolume,
+      soundMuted: DEFAULT_CONFIG.display.soundMuted
+    });
+  });
+
+  it('leaves a current config as saved', () => {
+    const current = { ...DEFAULT_CONFIG, display: { ...DEFAULT_CONFIG.display, soundVolume: 30 } };
+
+    expect(migrateConfig(current)).toEqual(current);
+  });
+
+  it('rejects configs that are not objects', () => {
+    expect(() => migrateConfig(null)).toThrow(ConfigMigrationError);
+    expect(() => migrateConfig([DEFAULT_CONFIG])).toThrow('Config is not an object');
+  });
+
+  it('rejects unknown versions', () => {
+    expect(() => migrateConfig({ ...DEFAULT_CONFIG, version: '9.0.0' })).toThrow('Unknown config version 9.0.0');
+  });
+
+  it('reports every validation failure', () => {
+    const issues = migrationIssues({
+      ...VERSION_1_3_0_CONFIG,
+      leagues: [{ id: 'league_1', platform: 'Yahoo', enabled: 'yes' }],
+      notifications: {
+        ...VERSION_1_3_0_CONFIG.notifications,
+        quietHours: { enabled: true, start: '25:00', end: '07:00' }
+      }
+    });
+
+    expect(issues).toEqual([
+      'leagues[0] is missing its id or leagueId',
+      'leagues[0].enabled should be a boolean',
+      'notifications.quietHours should have enabled and HH:MM start and end'
+    ]);
+  });
+
+  it.each([
+    [20, 15],
+    [45, 60],
+    [600, 60],
+    ['fast', DEFAULT_CONFIG.polling.updateFrequency]
+  ])('snaps an update frequency of %s to %s instead of rejecting the config', (stored, expected) => {
+    const migrated = migrateConfig({ ...VERSION_1_3_0_CONFIG, polling: { ...VERSION_1_3_0_CONFIG.polling, updateFrequency: stored } });
+
+    expect(migrated.polling.updateFrequency).toBe(expected);
+  });
+
+  it('rejects values that defaults cannot repair', () => {
+    expect(migrationIssues({ ...DEFAULT_CONFIG, display: { ...DEFAULT_CONFIG.display, soundVolume: 150 } }))
+      .toEqual(['display.soundVolume should be between 0 and 100']);
+    expect(migrationIssues({ ...DEFAULT_CONFIG, leagues: 'none' })).toEqual(['leagues is not an array']);
+  });
+});
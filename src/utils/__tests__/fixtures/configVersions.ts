@@ -0,0 +1,96 @@
+// Configs as each released version saved them, for exercising the migration chain
+
+const LEGACY_DISPLAY = {
+  compactView: true,
+  showWinProbabilityTrends: false,
+  showPerformanceMetrics: true,
+};
+
+const LEGACY_NOTIFICATIONS = {
+  scoringEvents: true,
+  winProbabilityChanges: false,
+  gameStartReminders: true,
+  playSound: true,
+};
+
+// Saved before the version field existed: leagues have no id or enabled flag, polling has no interval
+export const UNVERSIONED_CONFIG = {
+  leagues: [
+    { leagueId: '1180110000', platform: 'Sleeper', sleeperUsername: 'gridiron_greg' },
+    { leagueId: '423.l.55555', platform: 'Yahoo', customTeamName: 'Sunday Funday' },
+  ],
+  polling: {
+    updateFrequency: 15,
+    smartPolling: false,
+    gameHourPolling: true,
+    gameHourIntervals: { sunday: 10 },
+    enableLiveMode: true,
+    backgroundRefresh: true,
+  },
+  notifications: LEGACY_NOTIFICATIONS,
+  debug: { enabled: true, showInProduction: false },
+  demoMode: { enabled: false, updateInterval: 30 },
+  display: LEGACY_DISPLAY,
+};
+
+export const VERSION_0_0_0_CONFIG = {
+  ...UNVERSIONED_CONFIG,
+  version: '0.0.0',
+};
+
+// 1.0.0 stored platform names in whatever case the form sent
+export const VERSION_1_0_0_CONFIG = {
+  leagues: [
+    { id: 'league_1', leagueId: '423.l.55555', platform: 'yahoo', enabled: true },
+    { id: 'league_2', leagueId: '1180110000', platform: 'SLEEPER', enabled: false, sleeperUsername: 'gridiron_greg' },
+    { id: 'league_3', leagueId: '80211', platform: 'espn', enabled: true, teamId: '4' },
+    { id: 'league_4', leagueId: 'ff-123', platform: 'fleaflicker', enabled: true },
+  ],
+  polling: {
+    updateFrequency: 60,
+    smartPolling: true,
+    gameHourPolling: false,
+    gameHourIntervals: { sunday: 20, monday: 25, normal: 90 },
+    interval: 60,
+    enableLiveMode: false,
+    backgroundRefresh: false,
+  },
+  notifications: LEGACY_NOTIFICATIONS,
+  debug: { enabled: false, showInProduction: false },
+  demoMode: { enabled: true, updateInterval: 10 },
+  display: LEGACY_DISPLAY,
+  version: '1.0.0',
+};
+
+export const VERSION_1_1_0_CONFIG = {
+  ...VERSION_1_0_0_CONFIG,
+  leagues: [
+    { id: 'league_1', leagueId: '423.l.55555', platform: 'Yahoo', enabled: true },
+    { id: 'league_3', leagueId: '80211', platform: 'ESPN', enabled: true, teamId: '4' },
+  ],
+  version: '1.1.0',
+};
+
+// 1.2.0 added browser delivery, quiet hours and rules
+export const VERSION_1_2_0_CONFIG = {
+  ...VERSION_1_1_0_CONFIG,
+  notifications: {
+    ...LEGACY_NOTIFICATIONS,
+    browserNotifications: true,
+    quietHours: { enabled: true, start: '22:30', end: '07:00' },
+    rules: [
+      { id: 'rule_custom', type: 'win_probability', enabled: true, leagueId: '423.l.55555', threshold: 75 },
+    ],
+  },
+  version: '1.2.0',
+};
+
+// 1.3.0 added the lineup reminder lead time
+export const VERSION_1_3_0_CONFIG = {
+  ...VERSION_1_2_0_CONFIG,
+  notifications: {
+    ...VERSION_1_2_0_CONFIG.notifications,
+    reminderLeadMinutes: 90,
+  },
+  version: '1.3.0',
+};
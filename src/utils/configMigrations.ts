@@ -0,0 +1,293 @@
+import { DashboardConfig, DEFAULT_CONFIG } from '../types/config';
+import { platformRegistry } from '../services/PlatformRegistry';
+import { quarantineConfig } from './configQuarantine';
+
+type ConfigShape = Record<string, unknown>;
+
+interface ConfigMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (config: ConfigShape) => ConfigShape;
+}
+
+// Configs saved before the version field existed
+const UNVERSIONED = '0.0.0';
+
+export class ConfigMigrationError extends Error {
+  constructor(
+    message: string,
+    public issues: string[] = []
+  ) {
+    super(message);
+    this.name = 'ConfigMigrationError';
+  }
+}
+
+const isPlainObject = (value: unknown): value is ConfigShape =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mapLeagues = (config: ConfigShape, migrate: (league: ConfigShape, index: number) => ConfigShape): ConfigShape => ({
+  ...config,
+  leagues: Array.isArray(config.leagues)
+    ? config.leagues.map((league, index) => isPlainObject(league) ? migrate(league, index) : league)
+    : config.leagues
+});
+
+/**
+ * Ordered steps, each upgrading one version's shape to the next
+ */
+const MIGRATIONS: ConfigMigration[] = [
+  {
+    from: UNVERSIONED,
+    to: '1.0.0',
+    description: 'Leagues gain ids and an enabled flag; polling gains a live interval',
+    migrate: config => {
+      const polling = isPlainObject(config.polling) ? config.polling : undefined;
+      const migrated = mapLeagues(config, (league, index) => ({
+        ...league,
+        id: league.id ?? `league_migrated_${index}`,
+        enabled: league.enabled ?? true
+      }));
+      return {
+        ...migrated,
+        polling: polling && polling.interval === undefined && typeof polling.updateFrequency === 'number'
+          ? { ...polling, interval: polling.updateFrequency }
+          : polling
+      };
+    }
+  },
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: "Platform names are canonical ('yahoo' -> 'Yahoo'); leagues on unsupported platforms are quarantined",
+    migrate: config => {
+      const migrated = mapLeagues(config, league => ({
+        ...league,
+        platform: platformRegistry.normalize(league.platform) ?? league.platform
+      }));
+      if (!Array.isArray(migrated.leagues)) {
+        return migrated;
+      }
+      return {
+        ...migrated,
+        leagues: migrated.leagues.filter(league => {
+          if (!isPlainObject(league) || platformRegistry.normalize(league.platform) !== null) {
+            return true;
+          }
+          quarantineConfig(JSON.stringify(league), `League ${String(league.leagueId)} has unknown platform ${String(league.platform)}`);
+          return false;
+        })
+      };
+    }
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Notifications gain browser delivery, quiet hours and rules (filled from defaults)',
+    migrate: config => config
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Notifications gain a lead time for lineup reminders (filled from defaults)',
+    migrate: config => config
+  },
+  {
+    from: '1.3.0',
+    to: '1.4.0',
+    description: 'Sound cues per event and league; display gains volume and mute (filled from defaults)',
+    migrate: config => config
+  }
+];
+
+export const CONFIG_VERSION = DEFAULT_CONFIG.version;
+
+const UPDATE_FREQUENCIES = [15, 30, 60] as const;
+
+/**
+ * Snap an out-of-range update frequency to the nearest allowed one (ties go to
+ * the slower), or the default when it isn't a number, rather than rejecting the config
+ */
+const repairUpdateFrequency = (config: DashboardConfig): DashboardConfig => {
+  const polling: unknown = config.polling;
+  if (!isPlainObject(polling) || (UPDATE_FREQUENCIES as readonly unknown[]).includes(polling.updateFrequency)) {
+    return config;
+  }
+
+  const frequency = polling.updateFrequency;
+  const repaired = typeof frequency === 'number' && Number.isFinite(frequency)
+    ? [...UPDATE_FREQUENCIES].reverse().reduce((best, option) =>
+        Math.abs(option - frequency) < Math.abs(best - frequency) ? option : best)
+    : DEFAULT_CONFIG.polling.updateFrequency;
+  return { ...config, polling: { ...config.polling, updateFrequency: repaired } };
+};
+
+/**
+ * Recursively fill missing keys from defaults; arrays and primitives from the stored value win
+ */
+export const deepMergeWithDefaults = <T>(defaults: T, stored: unknown): T => {
+  if (!isPlainObject(defaults) || !isPlainObject(stored)) {
+    return (stored === undefined ? defaults : stored) as T;
+  }
+
+  const merged: ConfigShape = { ...stored };
+  for (const [key, defaultValue] of Object.entries(defaults)) {
+    merged[key] = deepMergeWithDefaults(defaultValue, stored[key]);
+  }
+  return merged as T;
+};
+
+/**
+ * Check a fully migrated config against the current schema
+ */
+export const validateConfig = (config: unknown): string[] => {
+  const issues: string[] = [];
+  if (!isPlainObject(config)) {
+    return ['Config is not an object'];
+  }
+
+  const expectTypes = (section: string, fields: Record<string, 'boolean' | 'number'>) => {
+    const value = config[section];
+    if (!isPlainObject(value)) {
+      issues.push(`${section} is not an object`);
+      return;
+    }
+    Object.entries(fields).forEach(([field, type]) => {
+      if (typeof value[field] !== type) {
+        issues.push(`${section}.${field} should be a ${type}`);
+      }
+    });
+  };
+
+  if (!Array.isArray(config.leagues)) {
+    issues.push('leagues is not an array');
+  } else {
+    config.leagues.forEach((league, index) => {
+      if (!isPlainObject(league)) {
+        issues.push(`leagues[${index}] is not an object`);
+        return;
+      }
+      if (typeof league.id !== 'string' || typeof league.leagueId !== 'string') {
+        issues.push(`leagues[${index}] is missing its id or leagueId`);
+      }
+      if (platformRegistry.normalize(league.platform) !== league.platform) {
+        issues.push(`leagues[${index}] has unknown platform ${String(league.platform)}`);
+      }
+      if (typeof league.enabled !== 'boolean') {
+        issues.push(`leagues[${index}].enabled should be a boolean`);
+      }
+    });
+  }
+
+  expectTypes('polling', {
+    updateFrequency: 'number',
+    smartPolling: 'boolean',
+    gameHourPolling: 'boolean',
+    interval: 'number',
+    enableLiveMode: 'boolean',
+    backgroundRefresh: 'boolean'
+  });
+  if (isPlainObject(config.polling)) {
+    if (!(UPDATE_FREQUENCIES as readonly unknown[]).includes(config.polling.updateFrequency)) {
+      issues.push('polling.updateFrequency should be 15, 30 or 60');
+    }
+    const intervals = config.polling.gameHourIntervals;
+    if (!isPlainObject(intervals) || ['sunday', 'monday', 'normal'].some(day => typeof intervals[day] !== 'number')) {
+      issues.push('polling.gameHourIntervals should have numeric sunday, monday and normal');
+    }
+  }
+  expectTypes('notifications', {
+    scoringEvents: 'boolean',
+    winProbabilityChanges: 'boolean',
+    gameStartReminders: 'boolean',
+    reminderLeadMinutes: 'number',
+    playSound: 'boolean',
+    browserNotifications: 'boolean'
+  });
+  if (isPlainObject(config.notifications)) {
+    const { quietHours, rules, reminderLeadMinutes } = config.notifications;
+    const isTime = (value: unknown) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+    if (!isPlainObject(quietHours) || typeof quietHours.enabled !== 'boolean' || !isTime(quietHours.start) || !isTime(quietHours.end)) {
+      issues.push('notifications.quietHours should have enabled and HH:MM start and end');
+    }
+    if (typeof reminderLeadMinutes === 'number' && reminderLeadMinutes <= 0) {
+      issues.push('notifications.reminderLeadMinutes should be positive');
+    }
+    const { sounds } = config.notifications;
+    const isCueMap = (value: unknown) => isPlainObject(value) &&
+      Object.values(value).every(cue => cue === null || typeof cue === 'string');
+    if (!isPlainObject(sounds) || !isCueMap(sounds.cues) || typeof sounds.respectReducedMotion !== 'boolean' ||
+      !isPlainObject(sounds.leagueCues) || !Object.values(sounds.leagueCues).every(isCueMap)) {
+      issues.push('notifications.sounds should have cues, leagueCues and respectReducedMotion');
+    }
+    if (!Array.isArray(rules)) {
+      issues.push('notifications.rules is not an array');
+    } else {
+      rules.forEach((rule, index) => {
+        if (!isPlainObject(rule) || typeof rule.id !== 'string' || typeof rule.enabled !== 'boolean') {
+          issues.push(`notifications.rules[${index}] is missing its id or enabled flag`);
+        } else if (rule.type === 'win_probability' ? typeof rule.threshold !== 'number' : rule.type !== 'scoring') {
+          issues.push(`notifications.rules[${index}] is not a valid rule`);
+        }
+      });
+    }
+  }
+  expectTypes('debug', { enabled: 'boolean', showInProduction: 'boolean' });
+  expectTypes('demoMode', { enabled: 'boolean', updateInterval: 'number' });
+  expectTypes('display', {
+    compactView: 'boolean',
+    showWinProbabilityTrends: 'boolean',
+    showPerformanceMetrics: 'boolean',
+    soundVolume: 'number',
+    soundMuted: 'boolean'
+  });
+  if (isPlainObject(config.display) && typeof config.display.soundVolume === 'number' &&
+    (config.display.soundVolume < 0 || config.display.soundVolume > 100)) {
+    issues.push('display.soundVolume should be between 0 and 100');
+  }
+
+  if (config.version !== CONFIG_VERSION) {
+    issues.push(`version should be ${CONFIG_VERSION}`);
+  }
+
+  return issues;
+};
+
+/**
+ * Upgrade a stored or imported config to the current version: run each step
+ * from its saved version, deep-merge with defaults, then validate. Throws
+ * ConfigMigrationError when the config can't be trusted.
+ */
+export const migrateConfig = (stored: unknown): DashboardConfig => {
+  if (!isPlainObject(stored)) {
+    throw new ConfigMigrationError('Config is not an object');
+  }
+
+  let version = typeof stored.version === 'string' ? stored.version : UNVERSIONED;
+  if (version !== CONFIG_VERSION && !MIGRATIONS.some(step => step.from === version)) {
+    throw new ConfigMigrationError(`Unknown config version ${version}`);
+  }
+
+  let config = stored;
+  for (const step of MIGRATIONS) {
+    if (step.from !== version) continue;
+    try {
+      config = { ...step.migrate(config), version: step.to };
+    } catch (error) {
+      throw new ConfigMigrationError(
+        `Migration ${step.from} -> ${step.to} failed`,
+        [error instanceof Error ? error.message : String(error)]
+      );
+    }
+    version = step.to;
+  }
+
+  const merged = repairUpdateFrequency(deepMergeWithDefaults(DEFAULT_CONFIG, config));
+  const issues = validateConfig(merged);
+  if (issues.length > 0) {
+    throw new ConfigMigrationError('Config failed validation', issues);
+  }
+
+  return merged;
+};
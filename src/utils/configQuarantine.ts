@@ -0,0 +1,24 @@
+export const CONFIG_QUARANTINE_KEY = 'fantasy_dashboard_config_quarantine';
+const MAX_QUARANTINED = 5;
+
+export interface QuarantinedConfig {
+  raw: string;
+  reason: string;
+  issues: string[];
+  quarantinedAt: string;
+}
+
+/**
+ * Set aside config data we couldn't load (a whole config or one league) so it
+ * can be recovered by hand instead of being wiped. Keeps the most recent entries.
+ */
+export const quarantineConfig = (raw: string, reason: string, issues: string[] = []): void => {
+  try {
+    const entry: QuarantinedConfig = { raw, reason, issues, quarantinedAt: new Date().toISOString() };
+    const existing: QuarantinedConfig[] = JSON.parse(localStorage.getItem(CONFIG_QUARANTINE_KEY) || '[]');
+    localStorage.setItem(CONFIG_QUARANTINE_KEY, JSON.stringify([...existing, entry].slice(-MAX_QUARANTINED)));
+    console.error('Config data could not be loaded and was quarantined:', reason, issues);
+  } catch (quarantineError) {
+    console.error('Failed to quarantine config:', quarantineError);
+  }
+};
@@ -0,0 +1,43 @@
+import { debugLogger } from './debugLogger';
+
+export interface ObjectStoreDatabase {
+  name: string;
+  version: number;
+  storeName: string;
+  keyPath: string;
+  logCategory: string;
+  unavailableMessage: string; // Logged when the browser has no IndexedDB
+}
+
+/**
+ * Open a database holding one object store, creating the store on first use.
+ * Resolves null when IndexedDB is unavailable or fails to open, so callers can
+ * carry on without storage.
+ */
+export const openObjectStoreDatabase = ({
+  name,
+  version,
+  storeName,
+  keyPath,
+  logCategory,
+  unavailableMessage
+}: ObjectStoreDatabase): Promise<IDBDatabase | null> =>
+  new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      debugLogger.warning(logCategory, unavailableMessage);
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName, { keyPath });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      debugLogger.error(logCategory, 'Failed to open IndexedDB', request.error);
+      resolve(null);
+    };
+  });
@@ -0,0 +1,85 @@
+// Client-side encryption for synced config profiles. The passphrase never leaves
+// the device: the server sees a lookup ID and AES-GCM ciphertext, both derived
+// from the passphrase with PBKDF2.
+
+const PBKDF2_ITERATIONS = 310000;
+// Fixed so every device derives the same lookup ID from the same passphrase
+const SYNC_ID_SALT = 'fantasy-dashboard:profile-sync-id';
+
+export interface EncryptedProfiles {
+  version: 1;
+  iterations: number;
+  salt: string;       // base64, random per upload
+  iv: string;         // base64
+  ciphertext: string; // base64 AES-GCM of the profiles JSON
+}
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const importPassphrase = (passphrase: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits', 'deriveKey']);
+
+const deriveEncryptionKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> =>
+  crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    await importPassphrase(passphrase),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+
+/**
+ * The ID profiles are stored under, as hex. Derived separately from the
+ * encryption key, so knowing it doesn't help decrypt the profiles.
+ */
+export const deriveSyncId = async (passphrase: string): Promise<string> => {
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(SYNC_ID_SALT), iterations: PBKDF2_ITERATIONS },
+    await importPassphrase(passphrase),
+    256
+  );
+  return Array.from(new Uint8Array(bits)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const encryptProfiles = async (passphrase: string, profiles: unknown): Promise<EncryptedProfiles> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveEncryptionKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(profiles)));
+
+  return {
+    version: 1,
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+};
+
+/**
+ * Decrypt profiles uploaded under the passphrase. Throws if the passphrase is
+ * wrong or the payload was tampered with.
+ */
+export const decryptProfiles = async (passphrase: string, payload: EncryptedProfiles): Promise<unknown> => {
+  const key = await deriveEncryptionKey(passphrase, fromBase64(payload.salt), payload.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+      key,
+      fromBase64(payload.ciphertext)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new Error('Could not decrypt synced profiles with this passphrase');
+  }
+};
@@ -23,4 +23,12 @@ export const normalizeNameKey = (name: unknown, team?: unknown, pos?: unknown):
   [safeLower(name), safeLower(team || ''), safeLower(pos || '')].filter(Boolean).join('|');
 
 export const isNonEmptyString = (value: unknown): value is string =>
-  typeof value === 'string' && value.trim().length > 0;
\ No newline at end of file
+  typeof value === 'string' && value.trim().length > 0;
+export const getOrdinalSuffix = (num: number): string => {
+  const j = num % 10;
+  const k = num % 100;
+  if (j === 1 && k !== 11) return 'st';
+  if (j === 2 && k !== 12) return 'nd';
+  if (j === 3 && k !== 13) return 'rd';
+  return 'th';
+};
@@ -0,0 +1,36 @@
+/**
+ * Current NFL season and week for edge functions. Mirrors the client's
+ * NFLCalendarService: Sleeper's state endpoint first, then a computed schedule
+ * (week 1 starts the Tuesday after Labor Day).
+ */
+
+export interface NFLWeek {
+  season: number;
+  week: number;
+}
+
+const REGULAR_SEASON_WEEKS = 18;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export async function getCurrentNFLWeek(): Promise<NFLWeek> {
+  try {
+    const response = await fetch('https://api.sleeper.app/v1/state/nfl');
+    if (!response.ok) throw new Error(`Sleeper state request failed: ${response.status}`);
+
+    const state = await response.json();
+    // Sleeper restarts its week count in the postseason
+    const week = state.season_type === 'post' && state.week <= 5 ? REGULAR_SEASON_WEEKS + state.week : state.week;
+    return { season: parseInt(state.season), week: week || 1 };
+  } catch (error) {
+    console.warn('[NFL_CALENDAR] Sleeper state unavailable, using local schedule:', error);
+    return computeFallbackWeek();
+  }
+}
+
+function computeFallbackWeek(now: Date = new Date()): NFLWeek {
+  const season = now.getUTCMonth() < 2 ? now.getUTCFullYear() - 1 : now.getUTCFullYear();
+  const septemberFirst = new Date(Date.UTC(season, 8, 1));
+  const weekOneStart = Date.UTC(season, 8, 2 + (8 - septemberFirst.getUTCDay()) % 7);
+  const week = Math.floor((now.getTime() - weekOneStart) / WEEK_MS) + 1;
+  return { season, week: Math.max(1, week) };
+}
@@ -0,0 +1,406 @@
+/**
+ * Stat differ shared by the dashboard's Tank01 service and the nfl-ingestion-worker
+ * edge function. Parses Tank01 box-score stat blocks into cumulative snapshots and
+ * diffs two snapshots into a raw stat change with a deterministic event key, so
+ * both producers emit the same ID for the same change and dedupe against each other.
+ * No imports, so it loads under both Vite and Deno.
+ */
+
+export type StatEventType = 'passingtd' | 'rushingtd' | 'receivingtd' | 'passingyards' | 'rushingyards' | 'receivingyards' | 'fumblelost' | 'fumble' | 'interception' | 'fieldgoal' | 'extrapoint' | 'safety' | 'sack' | 'defensiveinterception' | 'fumblerecovery' | 'defensivetd' | 'pointsallowed' | 'correction';
+
+// Cumulative stats for one player, or a team defense keyed as DEF-{team}
+export interface StatSnapshot {
+  playerId: string;
+  playerName: string;
+  position: string;
+  team: string;
+  passingYards: number;
+  passingTDs: number;
+  passingInts: number;
+  rushingYards: number;
+  rushingTDs: number;
+  receptions: number;
+  receivingYards: number;
+  receivingTDs: number;
+  fumblesLost: number;
+  // Attempt counters - distinguish real loss plays from downward corrections
+  passCompletions: number;
+  carries: number;
+  // Kicking
+  fieldGoalsMade: number;
+  fieldGoalYards: number;
+  fieldGoalLong: number;
+  extraPointsMade: number;
+  // Team defense (DST snapshots only)
+  sacks: number;
+  defensiveInterceptions: number;
+  fumbleRecoveries: number;
+  defensiveTDs: number;
+  safeties: number;
+  pointsAllowed: number;
+  lastUpdated: number;
+}
+
+// Numeric stat fields of a snapshot
+export type StatField = Exclude<keyof StatSnapshot, 'playerId' | 'playerName' | 'position' | 'team' | 'lastUpdated'>;
+export type StatTotals = Partial<Record<StatField, number>>;
+
+// The Tank01 player stat blocks the differ reads (box score totals or a single play)
+export interface Tank01StatBlocks {
+  Passing?: { passYds?: string; passTD?: string; int?: string; passCompletions?: string };
+  Rushing?: { rushYds?: string; rushTD?: string; carries?: string };
+  Receiving?: { receptions?: string; recYds?: string; recTD?: string };
+  Defense?: { fumblesLost?: string };
+  Kicking?: { fgMade?: string; fgYds?: string; fgLong?: string; xpMade?: string };
+}
+
+// The Tank01 team defense (DST) fields the differ reads
+export interface Tank01DefenseLine {
+  teamAbv: string;
+  sacks?: string;
+  defensiveInterceptions?: string;
+  fumblesRecovered?: string;
+  defTD?: string;
+  safeties?: string;
+  ptsAllowed?: string;
+}
+
+// One snapshot diff: raw stat deltas (no scoring applied) and the event they add up to
+export interface StatChange {
+  id: string;
+  eventType: StatEventType;
+  description: string;
+  stats: Record<string, number>;
+}
+
+export const SNAPSHOT_STAT_FIELDS: StatField[] = [
+  'passingYards', 'passingTDs', 'passingInts', 'rushingYards', 'rushingTDs', 'receptions',
+  'receivingYards', 'receivingTDs', 'fumblesLost', 'passCompletions', 'carries', 'fieldGoalsMade',
+  'fieldGoalYards', 'fieldGoalLong', 'extraPointsMade', 'sacks', 'defensiveInterceptions',
+  'fumbleRecoveries', 'defensiveTDs', 'safeties', 'pointsAllowed'
+];
+
+// Snapshot field -> stat key emitted on events (raw deltas, no scoring applied)
+const STAT_DELTA_KEYS: Array<[StatField, string]> = [
+  ['passingYards', 'passingYards'],
+  ['passingTDs', 'passingTouchdowns'],
+  ['passingInts', 'interceptions'],
+  ['rushingYards', 'rushingYards'],
+  ['rushingTDs', 'rushingTouchdowns'],
+  ['receptions', 'receptions'],
+  ['receivingYards', 'receivingYards'],
+  ['receivingTDs', 'receivingTouchdowns'],
+  ['fumblesLost', 'fumblesLost'],
+  ['fieldGoalsMade', 'fieldGoalsMade'],
+  ['extraPointsMade', 'extraPointsMade'],
+  ['sacks', 'sacks'],
+  ['defensiveInterceptions', 'defensiveInterceptions'],
+  ['fumbleRecoveries', 'fumbleRecoveries'],
+  ['defensiveTDs', 'defensiveTouchdowns'],
+  ['safeties', 'safeties']
+];
+
+// Delta key, snapshot field and label used to describe a stat change
+const DESCRIPTION_PARTS: Array<[string, StatField, string]> = [
+  ['receptions', 'receptions', 'rec'],
+  ['receivingYards', 'receivingYards', 'rec yds'],
+  ['receivingTouchdowns', 'receivingTDs', 'rec TD'],
+  ['rushingYards', 'rushingYards', 'rush yds'],
+  ['rushingTouchdowns', 'rushingTDs', 'rush TD'],
+  ['passingYards', 'passingYards', 'pass yds'],
+  ['passingTouchdowns', 'passingTDs', 'pass TD'],
+  ['fieldGoalsMade', 'fieldGoalsMade', 'FG'],
+  ['extraPointsMade', 'extraPointsMade', 'XP'],
+  ['sacks', 'sacks', 'sacks'],
+  ['defensiveInterceptions', 'defensiveInterceptions', 'INT'],
+  ['fumbleRecoveries', 'fumbleRecoveries', 'fum rec'],
+  ['defensiveTouchdowns', 'defensiveTDs', 'def TD'],
+  ['safeties', 'safeties', 'safety'],
+  ['interceptions', 'passingInts', 'INT thrown'],
+  ['fumblesLost', 'fumblesLost', 'fumble lost']
+];
+
+// Cumulative snapshot field that identifies each event type in its event key
+const EVENT_KEY_FIELDS: Record<Exclude<StatEventType, 'correction'>, StatField> = {
+  passingtd: 'passingTDs',
+  rushingtd: 'rushingTDs',
+  receivingtd: 'receivingTDs',
+  passingyards: 'passingYards',
+  rushingyards: 'rushingYards',
+  receivingyards: 'receivingYards',
+  fumblelost: 'fumblesLost',
+  fumble: 'fumblesLost',
+  interception: 'passingInts',
+  fieldgoal: 'fieldGoalsMade',
+  extrapoint: 'extraPointsMade',
+  safety: 'safeties',
+  sack: 'sacks',
+  defensiveinterception: 'defensiveInterceptions',
+  fumblerecovery: 'fumbleRecoveries',
+  defensivetd: 'defensiveTDs',
+  pointsallowed: 'pointsAllowed'
+};
+
+// Attempt counter paired with each yardage total in event keys. Yards can return to an
+// earlier total after a loss play, but the attempt count only ever goes up
+const YARDAGE_ATTEMPT_FIELDS: Partial<Record<StatEventType, StatField>> = {
+  passingyards: 'passCompletions',
+  rushingyards: 'carries',
+  receivingyards: 'receptions'
+};
+
+// Counting stats that only go down through a stat correction
+const COUNTING_FIELDS: StatField[] = [
+  'passingTDs', 'passingInts', 'rushingTDs', 'receptions', 'receivingTDs', 'fumblesLost',
+  'fieldGoalsMade', 'extraPointsMade', 'sacks', 'defensiveInterceptions',
+  'fumbleRecoveries', 'defensiveTDs', 'safeties', 'passCompletions', 'carries'
+];
+
+// Lower bounds of the standard points-allowed tiers (0, 1-6, 7-13, 14-20, 21-27, 28-34, 35+)
+const POINTS_ALLOWED_TIER_FLOORS = [0, 1, 7, 14, 21, 28, 35];
+
+export function createEmptySnapshot(playerId: string, playerName: string, position: string, team: string): StatSnapshot {
+  return {
+    playerId,
+    playerName,
+    position,
+    team,
+    passingYards: 0,
+    passingTDs: 0,
+    passingInts: 0,
+    rushingYards: 0,
+    rushingTDs: 0,
+    receptions: 0,
+    receivingYards: 0,
+    receivingTDs: 0,
+    fumblesLost: 0,
+    passCompletions: 0,
+    carries: 0,
+    fieldGoalsMade: 0,
+    fieldGoalYards: 0,
+    fieldGoalLong: 0,
+    extraPointsMade: 0,
+    sacks: 0,
+    defensiveInterceptions: 0,
+    fumbleRecoveries: 0,
+    defensiveTDs: 0,
+    safeties: 0,
+    pointsAllowed: 0,
+    lastUpdated: Date.now()
+  };
+}
+
+/**
+ * Parse Tank01 offensive/kicking stat blocks. Fields missing from the payload are
+ * left out rather than read as zero.
+ */
+export function parsePlayerStatBlocks(stats: Tank01StatBlocks): StatTotals {
+  return reportedStats({
+    passingYards: parseStat(stats.Passing?.passYds),
+    passingTDs: parseStat(stats.Passing?.passTD),
+    passingInts: parseStat(stats.Passing?.int),
+    rushingYards: parseStat(stats.Rushing?.rushYds),
+    rushingTDs: parseStat(stats.Rushing?.rushTD),
+    receptions: parseStat(stats.Receiving?.receptions),
+    receivingYards: parseStat(stats.Receiving?.recYds),
+    receivingTDs: parseStat(stats.Receiving?.recTD),
+    fumblesLost: parseStat(stats.Defense?.fumblesLost),
+    passCompletions: parseStat(stats.Passing?.passCompletions),
+    carries: parseStat(stats.Rushing?.carries),
+    fieldGoalsMade: parseStat(stats.Kicking?.fgMade),
+    fieldGoalYards: parseStat(stats.Kicking?.fgYds),
+    fieldGoalLong: parseStat(stats.Kicking?.fgLong),
+    extraPointsMade: parseStat(stats.Kicking?.xpMade)
+  });
+}
+
+/**
+ * Parse a Tank01 team defense line, leaving out fields missing from the payload
+ */
+export function parseDefenseStats(defense: Tank01DefenseLine): StatTotals {
+  return reportedStats({
+    sacks: parseStat(defense.sacks, parseFloat),
+    defensiveInterceptions: parseStat(defense.defensiveInterceptions),
+    fumbleRecoveries: parseStat(defense.fumblesRecovered),
+    defensiveTDs: parseStat(defense.defTD),
+    safeties: parseStat(defense.safeties),
+    pointsAllowed: parseStat(defense.ptsAllowed)
+  });
+}
+
+/**
+ * Snapshot from parsed stats. Stats the provider didn't report keep their last known
+ * value, so switching to a provider that lacks a field (ESPN has no safeties or FG
+ * yards) never reads as that stat dropping to zero.
+ */
+export function buildSnapshot(empty: StatSnapshot, parsed: StatTotals, previous?: StatSnapshot): StatSnapshot {
+  const snapshot = { ...empty, ...parsed };
+  if (previous) {
+    for (const field of SNAPSHOT_STAT_FIELDS) {
+      if (parsed[field] === undefined) snapshot[field] = previous[field];
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * A snapshot with stat totals (e.g. from individual plays) added on top
+ */
+export function addStats(snapshot: StatSnapshot, totals: StatTotals): StatSnapshot {
+  const sum = { ...snapshot };
+  for (const field of SNAPSHOT_STAT_FIELDS) {
+    sum[field] = snapshot[field] + (totals[field] || 0);
+  }
+  return sum;
+}
+
+/**
+ * Raw stat differences between two snapshots, keyed by event stat names
+ */
+export function getStatDeltas(current: StatSnapshot, previous: StatSnapshot): Record<string, number> {
+  const deltas: Record<string, number> = {};
+  for (const [field, statKey] of STAT_DELTA_KEYS) {
+    deltas[statKey] = current[field] - previous[field];
+  }
+  return deltas;
+}
+
+/**
+ * Diff a snapshot against the previous one. Any stat movement, up or down, is a
+ * change - scoring weights are applied per league downstream. Returns null when
+ * nothing moved and the points-allowed tier is unchanged.
+ */
+export function diffSnapshots(gameId: string, current: StatSnapshot, previous: StatSnapshot): StatChange | null {
+  const deltas = getStatDeltas(current, previous);
+  const hasChange = Object.values(deltas).some(delta => delta !== 0);
+  const tierChanged = getPointsAllowedTier(current.pointsAllowed) !== getPointsAllowedTier(previous.pointsAllowed);
+  if (!hasChange && !tierChanged) return null;
+
+  if (tierChanged) {
+    // Tier scoring needs both cumulative values, not a delta
+    deltas.pointsAllowed = current.pointsAllowed;
+    deltas.previousPointsAllowed = previous.pointsAllowed;
+  }
+
+  // Build description from the stats that moved, showing cumulative totals
+  const descParts: string[] = [];
+  for (const [deltaKey, field, label] of DESCRIPTION_PARTS) {
+    if (deltas[deltaKey] > 0) {
+      descParts.push(`${current[field]} ${label}`);
+    }
+  }
+  if (tierChanged) {
+    descParts.push(`${current.pointsAllowed} pts allowed`);
+  }
+
+  const isCorrection = isStatCorrection(current, previous);
+  if (isCorrection) {
+    for (const [key, delta] of Object.entries(deltas)) {
+      if (delta < 0) descParts.push(`${key} ${delta}`);
+    }
+  }
+
+  // Kick distance: exact for a single new FG when yardage is reported, otherwise best known
+  if (deltas.fieldGoalsMade > 0) {
+    const fgYardsDelta = current.fieldGoalYards - previous.fieldGoalYards;
+    deltas.fieldGoalDistance = fgYardsDelta > 0
+      ? Math.round(fgYardsDelta / deltas.fieldGoalsMade)
+      : current.fieldGoalLong;
+  }
+
+  const eventType = isCorrection ? 'correction' : determineEventType(deltas);
+
+  return {
+    id: buildEventKey(gameId, current, eventType),
+    eventType,
+    description: `${current.playerName} - ${descParts.join(', ')}`,
+    stats: deltas
+  };
+}
+
+export function parsePeriod(period: string): number {
+  if (period.includes('Q1') || period.includes('1st')) return 1;
+  if (period.includes('Q2') || period.includes('2nd')) return 2;
+  if (period.includes('Q3') || period.includes('3rd')) return 3;
+  if (period.includes('Q4') || period.includes('4th')) return 4;
+  if (period.includes('OT')) return 5;
+  return 1;
+}
+
+function parseStat(value: string | undefined, parse: (value: string) => number = parseInt): number | undefined {
+  return value === undefined ? undefined : parse(value) || 0;
+}
+
+function reportedStats(stats: Partial<Record<StatField, number | undefined>>): StatTotals {
+  const reported: StatTotals = {};
+  for (const field of SNAPSHOT_STAT_FIELDS) {
+    const value = stats[field];
+    if (value !== undefined) reported[field] = value;
+  }
+  return reported;
+}
+
+/**
+ * Deterministic event key from game, player, stat category and cumulative value,
+ * so the same stat change produces the same ID across replays, reloads, tabs and
+ * producers. Yardage keys add the attempt count; corrections can touch several
+ * stats, so they key on the full stat line.
+ */
+function buildEventKey(gameId: string, current: StatSnapshot, eventType: StatEventType): string {
+  if (eventType === 'correction') {
+    const statLine = STAT_DELTA_KEYS.map(([field]) => current[field]).join('.');
+    return `${gameId}-${current.playerId}-correction-${statLine}`;
+  }
+
+  const field = EVENT_KEY_FIELDS[eventType];
+  const attemptField = YARDAGE_ATTEMPT_FIELDS[eventType];
+  const value = attemptField ? `${current[field]}-${current[attemptField]}` : current[field];
+  return `${gameId}-${current.playerId}-${field}-${value}`;
+}
+
+/**
+ * Pick the most significant event type for a set of stat deltas
+ */
+function determineEventType(deltas: Record<string, number>): StatEventType {
+  if (deltas.receivingTouchdowns > 0) return 'receivingtd';
+  if (deltas.rushingTouchdowns > 0) return 'rushingtd';
+  if (deltas.passingTouchdowns > 0) return 'passingtd';
+  if (deltas.defensiveTouchdowns > 0) return 'defensivetd';
+  if (deltas.fieldGoalsMade > 0) return 'fieldgoal';
+  if (deltas.safeties > 0) return 'safety';
+  if (deltas.defensiveInterceptions > 0) return 'defensiveinterception';
+  if (deltas.fumbleRecoveries > 0) return 'fumblerecovery';
+  if (deltas.sacks > 0) return 'sack';
+  if (deltas.extraPointsMade > 0) return 'extrapoint';
+  if (deltas.interceptions > 0) return 'interception';
+  if (deltas.fumblesLost > 0) return 'fumblelost';
+  if (deltas.passingYards) return 'passingyards';
+  if (deltas.rushingYards) return 'rushingyards';
+  if (deltas.previousPointsAllowed !== undefined) return 'pointsallowed';
+  return 'receivingyards';
+}
+
+/**
+ * A downward stat correction: a counting stat went backwards, or yards dropped
+ * without a new attempt (a real loss play always adds a carry/completion/catch)
+ */
+function isStatCorrection(current: StatSnapshot, previous: StatSnapshot): boolean {
+  if (COUNTING_FIELDS.some(field => current[field] < previous[field])) {
+    return true;
+  }
+
+  return (current.passingYards < previous.passingYards && current.passCompletions === previous.passCompletions) ||
+    (current.rushingYards < previous.rushingYards && current.carries === previous.carries) ||
+    (current.receivingYards < previous.receivingYards && current.receptions === previous.receptions);
+}
+
+/**
+ * Index of the points-allowed tier a total falls into
+ */
+function getPointsAllowedTier(pointsAllowed: number): number {
+  let tier = 0;
+  POINTS_ALLOWED_TIER_FLOORS.forEach((floor, index) => {
+    if (pointsAllowed >= floor) tier = index;
+  });
+  return tier;
+}
@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getCurrentNFLWeek } from '../_shared/nflCalendar.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -32,14 +33,14 @@ Deno.serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Parse request body for current week (or use default)
-    const { currentWeek, weeksToKeep = 2 } = await req.json().catch(() => ({
-      currentWeek: 11, // Default to week 11
-      weeksToKeep: 2
-    }));
+    // Parse request body for current week (or use the live NFL calendar)
+    const body = await req.json().catch(() => ({}));
+    const calendar = await getCurrentNFLWeek();
+    const currentWeek: number = body.currentWeek ?? calendar.week;
+    const weeksToKeep: number = body.weeksToKeep ?? 2;
 
     const cutoffWeek = currentWeek - weeksToKeep;
-    const season = 2025;
+    const season: number = body.season ?? calendar.season;
 
     console.log('[CLEANUP] Parameters:', {
       currentWeek,
@@ -0,0 +1,147 @@
+/**
+ * Config profile sync – Supabase Edge Function
+ * Stores and returns a device's dashboard config profiles, so the same leagues
+ * can be loaded on another TV or browser.
+ *
+ *   Body: { "action": "push", "syncId": "...", "payload": {...}, "updatedAt": "...", "force": false }
+ *         { "action": "pull", "syncId": "..." }
+ *
+ * Profiles are encrypted on the device with a key derived from the user's
+ * passphrase; syncId is derived from it separately with PBKDF2. This function
+ * never sees the passphrase or plaintext. Only a hash of syncId is stored, and
+ * requests are rate limited per client. A push is refused with 409 when the
+ * stored profiles were edited more recently, unless forced.
+ *
+ * The table has RLS with no policies, so this function (service role) is its
+ * only reader and writer.
+ *
+ * Environment:
+ *   • SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+const MAX_PAYLOAD_BYTES = 512 * 1024;
+const RATE_LIMIT_REQUESTS = 20;
+const RATE_LIMIT_WINDOW = '10 minutes';
+
+interface EncryptedPayload {
+  version?: number;
+  iterations?: number;
+  salt?: string;
+  iv?: string;
+  ciphertext?: string;
+}
+
+interface ProfileSyncRequest {
+  action?: 'push' | 'pull';
+  syncId?: string;
+  payload?: EncryptedPayload;
+  updatedAt?: string;
+  force?: boolean;
+}
+
+const sha256 = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`fantasy-dashboard:${value}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const isEncryptedPayload = (payload: EncryptedPayload | undefined): boolean =>
+  !!payload && payload.version === 1 && typeof payload.iterations === 'number' &&
+  [payload.salt, payload.iv, payload.ciphertext].every(value => typeof value === 'string' && value.length > 0);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, syncId, payload, updatedAt, force }: ProfileSyncRequest = await req.json();
+
+    if (action !== 'push' && action !== 'pull') {
+      throw new Error(`Unknown action: ${action}`);
+    }
+    if (!syncId || !/^[0-9a-f]{64}$/.test(syncId)) {
+      throw new Error('A derived sync ID is required');
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase credentials');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const client = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown';
+    const { data: allowed, error: rateLimitError } = await supabase.rpc('config_profile_sync_allow_request', {
+      p_client_key: await sha256(client),
+      p_max_requests: RATE_LIMIT_REQUESTS,
+      p_window: RATE_LIMIT_WINDOW,
+    });
+    if (rateLimitError) throw rateLimitError;
+    if (!allowed) {
+      return json({ error: 'Too many sync requests; try again in a few minutes' }, 429);
+    }
+
+    const syncKey = await sha256(syncId);
+
+    if (action === 'push') {
+      if (!isEncryptedPayload(payload)) {
+        throw new Error('An encrypted profile payload is required');
+      }
+      if (JSON.stringify(payload).length > MAX_PAYLOAD_BYTES) {
+        throw new Error('Profiles are too large to sync');
+      }
+      if (!updatedAt || Number.isNaN(Date.parse(updatedAt))) {
+        throw new Error('updatedAt is required');
+      }
+
+      if (!force) {
+        const { data: existing, error } = await supabase
+          .from('config_profile_sync')
+          .select('updated_at')
+          .eq('sync_key', syncKey)
+          .maybeSingle();
+        if (error) throw error;
+
+        if (existing && Date.parse(existing.updated_at) > Date.parse(updatedAt)) {
+          return json({ error: 'Profiles in the cloud are newer', updatedAt: existing.updated_at }, 409);
+        }
+      }
+
+      const { error } = await supabase
+        .from('config_profile_sync')
+        .upsert({ sync_key: syncKey, payload, updated_at: updatedAt });
+      if (error) throw error;
+
+      console.log('[PROFILE-SYNC] Pushed profiles');
+      return json({ updatedAt });
+    }
+
+    const { data, error } = await supabase
+      .from('config_profile_sync')
+      .select('payload, updated_at')
+      .eq('sync_key', syncKey)
+      .maybeSingle();
+    if (error) throw error;
+
+    if (!data) {
+      return json({ error: 'No profiles saved under this passphrase' }, 404);
+    }
+
+    console.log('[PROFILE-SYNC] Pulled profiles');
+    return json({ payload: data.payload, updatedAt: data.updated_at });
+  } catch (error) {
+    console.error('[PROFILE-SYNC] Error:', error);
+
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400);
+  }
+});
@@ -0,0 +1,105 @@
+/**
+ * ESPN Fantasy Football proxy – Supabase Edge Function
+ * Endpoints (POST body `view`):
+ *   • league    – league name, status, members and teams with records
+ *   • roster    – team rosters for a scoring period
+ *   • matchup   – weekly schedule with live scores and lineups
+ *   • scoring   – league scoring settings
+ *
+ *   Body: { "view": "matchup", "leagueId": "123456", "season": 2026, "week": 7,
+ *           "espnS2": "...", "swid": "{...}" }
+ *
+ * Private leagues require the `espn_s2` and `SWID` cookies from a logged-in
+ * ESPN session; they are passed in the body so they never appear in URLs.
+ */
+
+import { corsHeaders } from '../_shared/cors.ts';
+
+const ESPN_FANTASY_BASE = 'https://lm-api-reads.fantasy.espn.com/apis/v3/games/ffl/seasons';
+
+// ESPN `view` parameters backing each endpoint
+const VIEWS: Record<string, string[]> = {
+  league: ['mSettings', 'mTeam', 'mStatus'],
+  roster: ['mRoster', 'mTeam'],
+  matchup: ['mMatchupScore', 'mScoreboard', 'mTeam'],
+  scoring: ['mSettings'],
+};
+
+interface ESPNFantasyRequest {
+  view?: string;
+  leagueId?: string;
+  season?: number;
+  week?: number;
+  espnS2?: string;
+  swid?: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { view, leagueId, season, week, espnS2, swid }: ESPNFantasyRequest = await req.json();
+
+    if (!view || !VIEWS[view]) {
+      throw new Error(`Unknown view: ${view}`);
+    }
+    if (!leagueId || !/^\d+$/.test(leagueId)) {
+      throw new Error('A numeric leagueId is required');
+    }
+    if (!season) {
+      throw new Error('season is required');
+    }
+
+    const params = new URLSearchParams();
+    VIEWS[view].forEach(v => params.append('view', v));
+    if (week && (view === 'roster' || view === 'matchup')) {
+      params.set('scoringPeriodId', String(week));
+    }
+
+    const apiUrl = `${ESPN_FANTASY_BASE}/${season}/segments/0/leagues/${leagueId}?${params}`;
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'User-Agent': 'Fantasy Dashboard/1.0',
+    };
+
+    if (espnS2 && swid) {
+      headers.Cookie = `espn_s2=${espnS2}; SWID=${swid}`;
+    }
+
+    // Only matchups for the requested week, to keep the payload small
+    if (view === 'matchup' && week) {
+      headers['X-Fantasy-Filter'] = JSON.stringify({
+        schedule: { filterMatchupPeriodIds: { value: [week] } },
+      });
+    }
+
+    console.log(`[ESPN-FANTASY] ${view} → league ${leagueId} season ${season}${week ? ` week ${week}` : ''}`);
+
+    const response = await fetch(apiUrl, { headers, redirect: 'manual' });
+
+    // ESPN redirects private leagues to a login page instead of returning 401
+    if (response.status >= 300 && response.status < 400) {
+      return new Response(JSON.stringify({ error: 'ESPN league is private; espn_s2 and SWID cookies are required' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 401,
+      });
+    }
+
+    const body = await response.text();
+
+    /* Forward ESPN's status so the client can handle 401/404/etc. */
+    return new Response(body, {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: response.status,
+    });
+  } catch (error) {
+    console.error('[ESPN-FANTASY] Error:', error);
+
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400,
+    });
+  }
+});
@@ -0,0 +1,320 @@
+/**
+ * Lineup week results – Supabase Edge Function
+ * Records what a league's lineup scored in a finished week against the best
+ * lineup that could have been set, for the dashboard's season bench tally.
+ *
+ *   Body: { "platform": "Sleeper", "leagueId": "...", "season": 2026, "week": 6,
+ *           "optimalPoints": 131.9, "sleeperUsername": "..." }
+ *
+ * The caller's league credentials come along with the result: a Sleeper
+ * username, ESPN's `espn_s2` and `SWID` cookies (private leagues) or a team
+ * ID, and a Yahoo access token. The function loads the week from the
+ * platform with them, so a league the caller can't read is refused with 403,
+ * and the team's score and bench points are the platform's own rather than the
+ * caller's. Only the optimal lineup comes from the caller; it must fall
+ * between the team's score and every rostered player's points together.
+ *
+ * The table is readable with the anon key but has no write policy, so this
+ * function (service role) is its only writer. A week is rewritten each time
+ * it's recorded, so stat corrections to the platform's final score carry over.
+ *
+ * Environment:
+ *   • SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+const MAX_WEEK = 23; // Regular season and postseason
+const MAX_POINTS = 500;
+
+const SLEEPER_BASE = 'https://api.sleeper.app/v1';
+const ESPN_FANTASY_BASE = 'https://lm-api-reads.fantasy.espn.com/apis/v3/games/ffl/seasons';
+const YAHOO_BASE = 'https://fantasysports.yahooapis.com/fantasy/v2';
+
+const ESPN_BENCH_SLOT = 20;
+const ESPN_IR_SLOT = 21;
+
+interface LineupWeekResultRequest {
+  platform?: string;
+  leagueId?: string;
+  season?: number;
+  week?: number;
+  optimalPoints?: number;
+  sleeperUsername?: string;
+  teamId?: string;
+  espnS2?: string;
+  swid?: string;
+  yahooAccessToken?: string;
+}
+
+type LeagueAccess = Pick<LineupWeekResultRequest, 'sleeperUsername' | 'teamId' | 'espnS2' | 'swid' | 'yahooAccessToken'>;
+
+// The user's side of a finished week as the platform scored it
+interface PlatformWeek {
+  actualPoints: number;
+  benchPoints: number;
+  rosterPoints: number; // Every player's points that could have started, negatives left out
+}
+
+// Yahoo's JSON is loosely typed: arrays of single-key objects and count-keyed maps
+type YahooNode = Record<string, unknown>;
+
+// The league couldn't be read with the caller's credentials
+class LeagueAccessError extends Error {}
+
+const isPoints = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= MAX_POINTS;
+
+const round = (points: number): number => Math.round(points * 10) / 10;
+
+const sum = (points: number[]): number => points.reduce((total, value) => total + value, 0);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const fetchJSON = async (url: string, init: RequestInit = {}): Promise<unknown> => {
+  const response = await fetch(url, { ...init, redirect: 'manual' });
+  // ESPN redirects private leagues to a login page; Yahoo answers 401 or 403
+  if ((response.status >= 300 && response.status < 400) || response.status === 401 || response.status === 403) {
+    throw new LeagueAccessError('The league could not be read with these credentials');
+  }
+  if (!response.ok) {
+    throw new Error(`Platform request failed: ${response.status}`);
+  }
+  return response.json();
+};
+
+async function loadSleeperWeek(leagueId: string, season: number, week: number, access: LeagueAccess): Promise<PlatformWeek> {
+  const [league, users, rosters, matchups] = await Promise.all([
+    fetchJSON(`${SLEEPER_BASE}/league/${leagueId}`),
+    fetchJSON(`${SLEEPER_BASE}/league/${leagueId}/users`),
+    fetchJSON(`${SLEEPER_BASE}/league/${leagueId}/rosters`),
+    fetchJSON(`${SLEEPER_BASE}/league/${leagueId}/matchups/${week}`),
+  ]) as [
+    { season?: string } | null,
+    Array<{ user_id: string; username?: string; display_name?: string }>,
+    Array<{ roster_id: number; owner_id: string; reserve?: string[]; taxi?: string[] }>,
+    Array<{ roster_id: number; points?: number; starters?: string[]; players?: string[]; players_points?: Record<string, number> }>,
+  ];
+
+  if (!league || league.season !== String(season)) {
+    throw new LeagueAccessError(`Sleeper league ${leagueId} isn't a ${season} league`);
+  }
+
+  // The same roster the dashboard picks: the username's, else the first
+  const username = access.sleeperUsername?.toLowerCase();
+  const user = username
+    ? users.find(u => u.username?.toLowerCase() === username || u.display_name?.toLowerCase() === username)
+    : undefined;
+  const roster = rosters.find(r => user && r.owner_id === user.user_id) ?? rosters[0];
+  const matchup = roster && matchups.find(m => m.roster_id === roster.roster_id);
+  if (!roster || !matchup) {
+    throw new Error(`No week ${week} matchup in Sleeper league ${leagueId}`);
+  }
+
+  const points = matchup.players_points ?? {};
+  const starters = new Set(matchup.starters ?? []);
+  const reserved = new Set([...(roster.reserve ?? []), ...(roster.taxi ?? [])]);
+  const available = (matchup.players ?? Object.keys(points)).filter(playerId => !reserved.has(playerId));
+  const bench = available.filter(playerId => !starters.has(playerId));
+
+  return {
+    actualPoints: matchup.points ?? 0,
+    benchPoints: sum(bench.map(playerId => points[playerId] ?? 0)),
+    rosterPoints: sum(available.map(playerId => Math.max(0, points[playerId] ?? 0))),
+  };
+}
+
+async function loadESPNWeek(leagueId: string, season: number, week: number, access: LeagueAccess): Promise<PlatformWeek> {
+  if (!/^\d+$/.test(leagueId)) {
+    throw new Error('A numeric ESPN league ID is required');
+  }
+
+  const params = new URLSearchParams();
+  ['mMatchupScore', 'mScoreboard', 'mTeam'].forEach(view => params.append('view', view));
+  params.set('scoringPeriodId', String(week));
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    'User-Agent': 'Fantasy Dashboard/1.0',
+    'X-Fantasy-Filter': JSON.stringify({ schedule: { filterMatchupPeriodIds: { value: [week] } } }),
+  };
+  if (access.espnS2 && access.swid) {
+    headers.Cookie = `espn_s2=${access.espnS2}; SWID=${access.swid}`;
+  }
+
+  type ESPNEntry = {
+    lineupSlotId: number;
+    playerPoolEntry: { appliedStatTotal?: number; player: { stats?: Array<{ scoringPeriodId: number; statSourceId: number; appliedTotal: number }> } };
+  };
+  type ESPNSide = { teamId: number; totalPoints: number; rosterForCurrentScoringPeriod?: { entries: ESPNEntry[] } };
+  const league = await fetchJSON(`${ESPN_FANTASY_BASE}/${season}/segments/0/leagues/${leagueId}?${params}`, { headers }) as {
+    teams?: Array<{ id: number; primaryOwner?: string; owners?: string[] }>;
+    schedule?: Array<{ matchupPeriodId: number; home: ESPNSide; away?: ESPNSide }>;
+  };
+
+  // The same team the dashboard picks: by team ID, else the SWID's
+  const swid = access.swid?.toUpperCase();
+  const team = (league.teams ?? []).find(t => access.teamId
+    ? String(t.id) === access.teamId
+    : Boolean(swid) && (t.primaryOwner?.toUpperCase() === swid || t.owners?.some(owner => owner.toUpperCase() === swid)));
+  const matchup = team && league.schedule?.find(m =>
+    m.matchupPeriodId === week && (m.home.teamId === team.id || m.away?.teamId === team.id)
+  );
+  const side = matchup && (matchup.home.teamId === team.id ? matchup.home : matchup.away);
+  if (!side) {
+    throw new Error(`No week ${week} matchup in ESPN league ${leagueId}`);
+  }
+
+  const pointsOf = (entry: ESPNEntry) =>
+    entry.playerPoolEntry.player.stats?.find(s => s.scoringPeriodId === week && s.statSourceId === 0)?.appliedTotal ??
+    entry.playerPoolEntry.appliedStatTotal ?? 0;
+  const available = (side.rosterForCurrentScoringPeriod?.entries ?? []).filter(entry => entry.lineupSlotId !== ESPN_IR_SLOT);
+
+  return {
+    actualPoints: side.totalPoints,
+    benchPoints: sum(available.filter(entry => entry.lineupSlotId === ESPN_BENCH_SLOT).map(pointsOf)),
+    rosterPoints: sum(available.map(entry => Math.max(0, pointsOf(entry)))),
+  };
+}
+
+/* Merge Yahoo's array-of-single-key-objects (possibly nested) into one object */
+const flatten = (node: unknown): YahooNode => {
+  if (Array.isArray(node)) {
+    return node.reduce<YahooNode>((merged, item) => Object.assign(merged, flatten(item)), {});
+  }
+  return node && typeof node === 'object' ? (node as YahooNode) : {};
+};
+
+/* Entries of a plain array or a Yahoo count-keyed map ({"0": ..., "1": ..., count: 2}) */
+const countedEntries = (node: unknown): unknown[] => {
+  if (Array.isArray(node)) return node;
+  if (!node || typeof node !== 'object') return [];
+  return Object.entries(node as YahooNode).filter(([key]) => /^\d+$/.test(key)).map(([, value]) => value);
+};
+
+async function loadYahooWeek(leagueKey: string, week: number, access: LeagueAccess): Promise<PlatformWeek> {
+  if (!access.yahooAccessToken) {
+    throw new LeagueAccessError('A Yahoo access token is required');
+  }
+  const headers = {
+    Authorization: `Bearer ${access.yahooAccessToken}`,
+    Accept: 'application/json',
+    'User-Agent': 'Fantasy Dashboard/1.0',
+  };
+
+  const scoreboardData = await fetchJSON(`${YAHOO_BASE}/league/${leagueKey}/scoreboard;week=${week}?format=json`, { headers });
+  const scoreboard = flatten(flatten(flatten(scoreboardData).fantasy_content).league).scoreboard as YahooNode | undefined;
+  const matchups = countedEntries((scoreboard?.['0'] as YahooNode | undefined)?.matchups ?? scoreboard?.matchups);
+
+  const teams = matchups.flatMap(entry => {
+    const matchup = flatten((entry as YahooNode).matchup ?? entry);
+    return countedEntries((matchup['0'] as YahooNode | undefined)?.teams ?? matchup.teams)
+      .map(teamEntry => flatten((teamEntry as YahooNode).team ?? teamEntry));
+  });
+  // The same team the dashboard picks: by team ID, else the login's
+  const team = teams.find(t => access.teamId
+    ? String(t.team_id) === access.teamId || String(t.team_key) === access.teamId
+    : Number(t.is_owned_by_current_login) === 1);
+  if (!team) {
+    throw new Error(`No week ${week} matchup in Yahoo league ${leagueKey}`);
+  }
+
+  const rosterData = await fetchJSON(
+    `${YAHOO_BASE}/team/${team.team_key}/roster;week=${week}/players/stats;type=week;week=${week}?format=json`,
+    { headers },
+  );
+  const roster = flatten(flatten(flatten(rosterData).fantasy_content).team).roster as YahooNode | undefined;
+  const players = countedEntries((roster?.['0'] as YahooNode | undefined)?.players ?? roster?.players)
+    .map(entry => {
+      const player = flatten((entry as YahooNode).player ?? entry);
+      return {
+        slot: String(flatten(player.selected_position).position ?? ''),
+        points: parseFloat(String((player.player_points as YahooNode | undefined)?.total ?? 0)) || 0,
+      };
+    })
+    .filter(player => player.slot && player.slot !== 'IR');
+
+  return {
+    actualPoints: parseFloat(String((team.team_points as YahooNode | undefined)?.total ?? 0)) || 0,
+    benchPoints: sum(players.filter(player => player.slot === 'BN').map(player => player.points)),
+    rosterPoints: sum(players.map(player => Math.max(0, player.points))),
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { platform, leagueId, season, week, optimalPoints, ...access }: LineupWeekResultRequest = await req.json();
+
+    if (!leagueId || !/^[\w.-]{1,64}$/.test(leagueId)) {
+      throw new Error('A league ID is required');
+    }
+    if (!Number.isInteger(season) || season! < 2000 || season! > new Date().getFullYear() + 1) {
+      throw new Error('A valid season is required');
+    }
+    if (!Number.isInteger(week) || week! < 1 || week! > MAX_WEEK) {
+      throw new Error('A valid week is required');
+    }
+    if (!isPoints(optimalPoints)) {
+      throw new Error('Optimal points must be a number');
+    }
+
+    let platformWeek: PlatformWeek;
+    switch (platform) {
+      case 'Sleeper':
+        platformWeek = await loadSleeperWeek(leagueId, season!, week!, access);
+        break;
+      case 'ESPN':
+        platformWeek = await loadESPNWeek(leagueId, season!, week!, access);
+        break;
+      case 'Yahoo':
+        platformWeek = await loadYahooWeek(leagueId, week!, access);
+        break;
+      default:
+        throw new Error(`Unknown platform: ${platform}`);
+    }
+
+    const actualPoints = round(platformWeek.actualPoints);
+    // The best lineup includes the one that was set, and can't beat every player's points together
+    if (optimalPoints < actualPoints || optimalPoints > Math.max(actualPoints, round(platformWeek.rosterPoints))) {
+      throw new Error('Optimal points don\'t fit the platform\'s scores for the week');
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase credentials');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const result = { leagueId, season, week, actualPoints, optimalPoints, benchPoints: round(platformWeek.benchPoints) };
+    const { error } = await supabase
+      .from('lineup_week_results')
+      .upsert({
+        league_id: leagueId,
+        season,
+        nfl_week: week,
+        actual_points: result.actualPoints,
+        optimal_points: result.optimalPoints,
+        bench_points: result.benchPoints,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'league_id,season,nfl_week' });
+    if (error) throw error;
+
+    console.log(`[LINEUP-WEEK-RESULTS] Recorded week ${week} for ${platform} league ${leagueId}`);
+    return json({ recorded: true, result });
+  } catch (error) {
+    console.error('[LINEUP-WEEK-RESULTS] Error:', error);
+
+    const status = error instanceof LeagueAccessError ? 403 : 400;
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, status);
+  }
+});
@@ -0,0 +1,420 @@
+/**
+ * NFL ingestion worker – Supabase Edge Function
+ * Polls Tank01 once for every active game, diffs cumulative player stats against
+ * the last snapshot in nfl_game_snapshots and writes canonical events to
+ * nfl_stat_events. Every scoreboard game's status goes to nfl_game_status.
+ * Dashboards receive those rows over Realtime instead of each running their own
+ * Tank01 polling loop.
+ *
+ * The 'nfl-ingestion-worker' pg_cron job ticks every minute but only calls the
+ * worker while nfl_ingestion_due() holds: a game on this week's schedule is about
+ * to kick off or hasn't finished, or the schedule is due to be reloaded. When the
+ * scoreboard shows nothing live yet the worker backs off for a few minutes, and
+ * every Tank01 request counts against a daily quota in nfl_ingestion_quota; once
+ * it's spent the worker stops until the next UTC day.
+ *
+ * Environment:
+ *   • RAPIDAPI_KEY                  Tank01 RapidAPI key
+ *   • TANK01_DAILY_QUOTA (optional) Tank01 requests per UTC day, default 1000
+ *   • TANK01_API_BASE  (optional)   Override the Tank01 base URL, e.g. the tank01-stub
+ *                                   function: http://localhost:54321/functions/v1/tank01-stub
+ *   • SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getCurrentNFLWeek } from '../_shared/nflCalendar.ts';
+import {
+  StatSnapshot,
+  Tank01DefenseLine,
+  Tank01StatBlocks,
+  buildSnapshot,
+  createEmptySnapshot,
+  diffSnapshots,
+  parseDefenseStats,
+  parsePeriod,
+  parsePlayerStatBlocks
+} from '../_shared/statDiffer.ts';
+
+const DEFAULT_TANK01_BASE = 'https://tank01-nfl-live-in-game-real-time-statistics-nfl.p.rapidapi.com';
+const DEFAULT_DAILY_QUOTA = 1000;
+const SCHEDULE_MAX_AGE_MS = 12 * 60 * 60 * 1000; // Matches nfl_ingestion_due()
+const IDLE_BACKOFF_MS = 5 * 60 * 1000; // Games on the schedule but none live yet, e.g. before kickoff or in a delay
+
+type SupabaseClient = ReturnType<typeof createClient>;
+type FetchTank01 = <T>(path: string) => Promise<T | undefined>;
+
+// The day's Tank01 requests are spent, or Tank01 itself refused with a 429
+class QuotaExceededError extends Error {}
+
+// Subset of the Tank01 payloads the worker reads
+interface Tank01Game {
+  gameID: string;
+  away: string;
+  home: string;
+  gameClock?: string;
+  gameStatus?: string;
+  gameStatusCode?: string;
+  lineScore?: { period?: string; gameClock?: string };
+}
+
+// Tank01 game from getNFLGamesForWeek
+interface Tank01ScheduledGame {
+  gameID: string;
+  away: string;
+  home: string;
+  gameTime_epoch?: string; // Kickoff, seconds since epoch
+}
+
+interface Tank01Player extends Tank01StatBlocks {
+  longName?: string;
+  playerName?: string;
+  pos?: string;
+  teamAbv?: string;
+}
+
+interface Tank01BoxScore {
+  gameID: string;
+  currentPeriod?: string;
+  gameClock?: string;
+  playerStats?: Record<string, Tank01Player>;
+  DST?: { away?: Tank01DefenseLine; home?: Tank01DefenseLine };
+}
+
+interface StatEventRow {
+  id: string;
+  game_id: string;
+  player_id: string;
+  player_name: string;
+  position: string;
+  team: string;
+  event_type: string;
+  description: string;
+  stats: Record<string, number>;
+  period: number;
+  clock: string;
+  scoring_play: boolean;
+}
+
+interface IngestionResult {
+  success: boolean;
+  activeGames: number;
+  seededGames: number;
+  eventsWritten: number;
+  skipped?: string;
+  error?: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  console.log('[INGEST] Starting ingestion run');
+
+  // Kept outside the try so a spent quota can open the breaker from the catch
+  let stateClient: SupabaseClient | null = null;
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const rapidApiKey = Deno.env.get('RAPIDAPI_KEY') ?? '';
+    const tank01Base = Deno.env.get('TANK01_API_BASE') ?? DEFAULT_TANK01_BASE;
+    const dailyQuota = parseInt(Deno.env.get('TANK01_DAILY_QUOTA') ?? '') || DEFAULT_DAILY_QUOTA;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase credentials');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    stateClient = supabase;
+
+    const fetchTank01: FetchTank01 = async <T>(path: string): Promise<T | undefined> => {
+      const { data: allowed, error } = await supabase.rpc('nfl_ingestion_allow_request', { p_max_requests: dailyQuota });
+      if (error) throw error;
+      if (!allowed) {
+        throw new QuotaExceededError(`Daily quota of ${dailyQuota} Tank01 requests reached`);
+      }
+
+      const response = await fetch(`${tank01Base}${path}`, {
+        headers: {
+          'X-RapidAPI-Host': new URL(DEFAULT_TANK01_BASE).host,
+          'X-RapidAPI-Key': rapidApiKey,
+        },
+      });
+      if (response.status === 429) {
+        throw new QuotaExceededError(`Tank01 request ${path} refused: quota exceeded (429)`);
+      }
+      if (!response.ok) {
+        throw new Error(`Tank01 request ${path} failed: ${response.status}`);
+      }
+      return (await response.json()).body;
+    };
+
+    // The cron job checks this too; it also keeps direct or overlapping calls off Tank01
+    const { data: due, error: dueError } = await supabase.rpc('nfl_ingestion_due');
+    if (dueError) throw dueError;
+    if (!due) {
+      return skippedResponse('Not due: backing off or no game on');
+    }
+
+    const { data: state, error: stateError } = await supabase
+      .from('nfl_ingestion_state')
+      .select('schedule_loaded_at')
+      .maybeSingle();
+    if (stateError) throw stateError;
+
+    if (!state?.schedule_loaded_at || Date.now() - Date.parse(state.schedule_loaded_at) > SCHEDULE_MAX_AGE_MS) {
+      await loadWeekSchedule(supabase, fetchTank01);
+    }
+
+    const { data: gamesOn, error: gamesOnError } = await supabase.rpc('nfl_ingestion_games_on');
+    if (gamesOnError) throw gamesOnError;
+    if (!gamesOn) {
+      return skippedResponse('No game about to kick off or in progress');
+    }
+
+    const games = Object.values(await fetchTank01<Record<string, Tank01Game>>('/getNFLScoresOnly') ?? {});
+    const activeGames = games.filter(game =>
+      game.gameStatusCode === '1' ||
+      game.gameStatus?.includes('Live') ||
+      game.gameStatus?.includes('In Progress')
+    );
+
+    console.log(`[INGEST] ${activeGames.length} active of ${games.length} games`);
+
+    if (games.length > 0) {
+      const { error: statusError } = await supabase
+        .from('nfl_game_status')
+        .upsert(games.map(toGameStatusRow));
+
+      if (statusError) throw statusError;
+    }
+
+    let seededGames = 0;
+    let eventsWritten = 0;
+
+    for (const game of activeGames) {
+      const boxScore = await fetchTank01<Tank01BoxScore>(`/getNFLBoxScore?gameID=${game.gameID}`);
+      if (!boxScore?.playerStats) continue;
+
+      const { data: previousRow } = await supabase
+        .from('nfl_game_snapshots')
+        .select('player_stats')
+        .eq('game_id', game.gameID)
+        .maybeSingle();
+
+      // Snapshots written before the shared differ have a different shape; reseed those games
+      const previous: Record<string, StatSnapshot> | null = previousRow &&
+        Object.values(previousRow.player_stats ?? {}).every(snapshot => typeof (snapshot as StatSnapshot).passingYards === 'number')
+        ? previousRow.player_stats
+        : null;
+      const current = buildSnapshots(boxScore, previous ?? {});
+
+      if (!previous) {
+        seededGames++;
+      } else {
+        const events = buildEventRows(game.gameID, boxScore, previous, current);
+
+        if (events.length > 0) {
+          // IDs are derived from cumulative stats, so overlapping runs cannot double-write
+          const { error } = await supabase
+            .from('nfl_stat_events')
+            .upsert(events, { onConflict: 'id', ignoreDuplicates: true });
+
+          if (error) throw error;
+          eventsWritten += events.length;
+        }
+      }
+
+      const { error: snapshotError } = await supabase
+        .from('nfl_game_snapshots')
+        .upsert({ game_id: game.gameID, player_stats: current, updated_at: new Date().toISOString() });
+
+      if (snapshotError) throw snapshotError;
+    }
+
+    // Back off while nothing on the scoreboard is live yet
+    await setNextRun(supabase, new Date(Date.now() + (activeGames.length > 0 ? 0 : IDLE_BACKOFF_MS)));
+
+    const result: IngestionResult = {
+      success: true,
+      activeGames: activeGames.length,
+      seededGames,
+      eventsWritten
+    };
+
+    console.log('[INGEST] Completed successfully:', result);
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    });
+
+  } catch (error) {
+    console.error('[INGEST] Error:', error);
+
+    const quotaExceeded = error instanceof QuotaExceededError;
+    if (quotaExceeded && stateClient) {
+      // Breaker: no more runs, and no more Tank01 requests, until the quota resets
+      const tomorrow = new Date();
+      tomorrow.setUTCHours(24, 0, 0, 0);
+      await setNextRun(stateClient, tomorrow).catch(stateError => {
+        console.error('[INGEST] Failed to open the quota breaker:', stateError);
+      });
+    }
+
+    const result: IngestionResult = {
+      success: false,
+      activeGames: 0,
+      seededGames: 0,
+      eventsWritten: 0,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: quotaExceeded ? 429 : 500
+    });
+  }
+});
+
+function skippedResponse(reason: string): Response {
+  console.log(`[INGEST] Skipped: ${reason}`);
+
+  const result: IngestionResult = {
+    success: true,
+    activeGames: 0,
+    seededGames: 0,
+    eventsWritten: 0,
+    skipped: reason
+  };
+
+  return new Response(JSON.stringify(result), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: 200
+  });
+}
+
+async function setNextRun(supabase: SupabaseClient, nextRunAt: Date): Promise<void> {
+  const { error } = await supabase
+    .from('nfl_ingestion_state')
+    .update({ next_run_at: nextRunAt.toISOString() })
+    .eq('id', true);
+
+  if (error) throw error;
+}
+
+/**
+ * Store this week's kickoff times in nfl_game_status, which nfl_ingestion_due()
+ * reads to decide when the worker runs
+ */
+async function loadWeekSchedule(supabase: SupabaseClient, fetchTank01: FetchTank01): Promise<void> {
+  const { season, week } = await getCurrentNFLWeek();
+  const body = await fetchTank01<Tank01ScheduledGame[] | Record<string, Tank01ScheduledGame>>(
+    `/getNFLGamesForWeek?week=${week}&season=${season}`
+  );
+  const scheduled = Array.isArray(body) ? body : Object.values(body ?? {});
+
+  const rows = scheduled
+    .filter(game => game.gameTime_epoch)
+    .map(game => ({
+      game_id: game.gameID,
+      away: game.away,
+      home: game.home,
+      kickoff: new Date(parseFloat(game.gameTime_epoch!) * 1000).toISOString()
+    }));
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from('nfl_game_status').upsert(rows);
+    if (error) throw error;
+  }
+
+  const { error: stateError } = await supabase
+    .from('nfl_ingestion_state')
+    .update({ schedule_loaded_at: new Date().toISOString() })
+    .eq('id', true);
+  if (stateError) throw stateError;
+
+  console.log(`[INGEST] Loaded week ${week} schedule: ${rows.length} games`);
+}
+
+/**
+ * The scoreboard fields the dashboard reads a team's game status from
+ */
+function toGameStatusRow(game: Tank01Game) {
+  return {
+    game_id: game.gameID,
+    away: game.away,
+    home: game.home,
+    game_status: game.gameStatus ?? '',
+    game_status_code: game.gameStatusCode ?? '',
+    period: game.lineScore?.period ?? '',
+    game_clock: game.lineScore?.gameClock || game.gameClock || '',
+    updated_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Parse a Tank01 box score into per-player cumulative stats, keyed by Tank01 ID.
+ * Team defenses use DEF-{team}, matching the client's attribution mapping.
+ */
+function buildSnapshots(boxScore: Tank01BoxScore, previous: Record<string, StatSnapshot>): Record<string, StatSnapshot> {
+  const snapshots: Record<string, StatSnapshot> = {};
+
+  for (const [playerId, player] of Object.entries(boxScore.playerStats ?? {})) {
+    snapshots[playerId] = buildSnapshot(
+      createEmptySnapshot(playerId, player.longName || player.playerName || 'Unknown', player.pos || '', player.teamAbv || ''),
+      parsePlayerStatBlocks(player),
+      previous[playerId]
+    );
+  }
+
+  for (const defense of [boxScore.DST?.away, boxScore.DST?.home]) {
+    if (!defense) continue;
+    const playerId = `DEF-${defense.teamAbv}`;
+    snapshots[playerId] = buildSnapshot(
+      createEmptySnapshot(playerId, `${defense.teamAbv} D/ST`, 'DEF', defense.teamAbv),
+      parseDefenseStats(defense),
+      previous[playerId]
+    );
+  }
+
+  return snapshots;
+}
+
+/**
+ * One event row per player whose cumulative stats changed since the last run.
+ * IDs come from the differ the dashboard uses, so rows dedupe against client events.
+ */
+function buildEventRows(
+  gameId: string,
+  boxScore: Tank01BoxScore,
+  previous: Record<string, StatSnapshot>,
+  current: Record<string, StatSnapshot>
+): StatEventRow[] {
+  const events: StatEventRow[] = [];
+
+  for (const snapshot of Object.values(current)) {
+    const before = previous[snapshot.playerId];
+    const change = before && diffSnapshots(gameId, snapshot, before);
+    if (!change) continue;
+
+    events.push({
+      id: change.id,
+      game_id: gameId,
+      player_id: snapshot.playerId,
+      player_name: snapshot.playerName,
+      position: snapshot.position,
+      team: snapshot.team,
+      event_type: change.eventType,
+      description: change.description,
+      stats: change.stats,
+      period: parsePeriod(boxScore.currentPeriod ?? ''),
+      clock: boxScore.gameClock ?? '',
+      scoring_play: true
+    });
+  }
+
+  return events;
+}
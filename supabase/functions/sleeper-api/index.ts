@@ -16,6 +16,7 @@ serve(async (req) => {
     const endpoint = url.searchParams.get('endpoint');
     const leagueId = url.searchParams.get('leagueId');
     const week = url.searchParams.get('week');
+    const season = url.searchParams.get('season');
 
     if (!endpoint) {
       throw new Error('Missing endpoint parameter');
@@ -52,6 +53,11 @@ serve(async (req) => {
         sleeperUrl = 'https://api.sleeper.app/v1/state/nfl';
         break;
       
+      case 'projections':
+        if (!season || !week) throw new Error('Missing season or week for projections endpoint');
+        sleeperUrl = `https://api.sleeper.app/projections/nfl/${season}/${week}?season_type=regular`;
+        break;
+      
       default:
         throw new Error(`Unknown endpoint: ${endpoint}`);
     }
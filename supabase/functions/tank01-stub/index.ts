@@ -0,0 +1,115 @@
+/**
+ * Tank01 API stub – Supabase Edge Function (local testing only)
+ * Serves a single simulated live game whose stats advance with every minute of
+ * wall-clock time, so repeated nfl-ingestion-worker runs see new scoring.
+ *
+ * Supported paths (same shape as Tank01):
+ *   • /getNFLGamesForWeek (the game kicks off at the top of every hour)
+ *   • /getNFLScoresOnly
+ *   • /getNFLBoxScore?gameID=...
+ *
+ * Point the worker at it with
+ *   TANK01_API_BASE=http://localhost:54321/functions/v1/tank01-stub
+ */
+
+import { corsHeaders } from '../_shared/cors.ts';
+
+const AWAY = 'KC';
+const HOME = 'BUF';
+
+Deno.serve((req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const today = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  const gameID = `${today}_${AWAY}@${HOME}`;
+
+  // One simulated "drive" per minute; the game loops every hour
+  const drive = new Date().getUTCMinutes();
+  const period = `Q${Math.min(4, Math.floor(drive / 15) + 1)}`;
+  const gameClock = `${14 - (drive % 15)}:00`;
+  const awayPts = Math.floor(drive / 5) * 7;
+  const homePts = Math.floor(drive / 6) * 3;
+
+  console.log(`[TANK01-STUB] ${url.pathname} (drive ${drive})`);
+
+  let body: unknown;
+  if (url.pathname.endsWith('/getNFLGamesForWeek')) {
+    const kickoff = new Date();
+    kickoff.setUTCMinutes(0, 0, 0);
+    body = [{ gameID, away: AWAY, home: HOME, gameTime_epoch: String(kickoff.getTime() / 1000) }];
+  } else if (url.pathname.endsWith('/getNFLScoresOnly')) {
+    body = {
+      [gameID]: {
+        gameID,
+        away: AWAY,
+        home: HOME,
+        awayPts: String(awayPts),
+        homePts: String(homePts),
+        gameClock,
+        gameStatus: 'Live - In Progress',
+        gameStatusCode: '1',
+        lineScore: { period, gameClock }
+      }
+    };
+  } else if (url.pathname.endsWith('/getNFLBoxScore')) {
+    body = {
+      gameID,
+      away: AWAY,
+      home: HOME,
+      awayPts: String(awayPts),
+      homePts: String(homePts),
+      currentPeriod: period,
+      gameClock,
+      gameStatus: 'Live - In Progress',
+      gameStatusCode: '1',
+      playerStats: {
+        '3139477': {
+          gameID, longName: 'Patrick Mahomes', pos: 'QB', team: AWAY, teamAbv: AWAY, teamID: '16',
+          Passing: {
+            passYds: String(drive * 6),
+            passTD: String(Math.floor(drive / 10)),
+            int: String(Math.floor(drive / 25)),
+            passCompletions: String(drive),
+            passAttempts: String(Math.floor(drive * 1.5))
+          }
+        },
+        '3116406': {
+          gameID, longName: 'Travis Kelce', pos: 'TE', team: AWAY, teamAbv: AWAY, teamID: '16',
+          Receiving: {
+            receptions: String(Math.floor(drive / 3)),
+            recYds: String(Math.floor(drive / 3) * 11),
+            recTD: String(Math.floor(drive / 10)),
+            targets: String(Math.floor(drive / 2)),
+            longRec: '24'
+          }
+        },
+        '3918298': {
+          gameID, longName: 'Tyler Bass', pos: 'K', team: HOME, teamAbv: HOME, teamID: '4',
+          Kicking: {
+            fgMade: String(Math.floor(drive / 6)),
+            fgAttempts: String(Math.floor(drive / 6)),
+            fgLong: '47',
+            xpMade: '0',
+            xpAttempts: '0'
+          }
+        }
+      },
+      DST: {
+        away: { teamAbv: AWAY, teamID: '16', sacks: String(Math.floor(drive / 12)), ptsAllowed: String(homePts) },
+        home: { teamAbv: HOME, teamID: '4', defensiveInterceptions: String(Math.floor(drive / 25)), ptsAllowed: String(awayPts) }
+      }
+    };
+  } else {
+    return new Response(JSON.stringify({ error: `Unknown stub path: ${url.pathname}` }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  return new Response(JSON.stringify({ statusCode: 200, body }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+});
@@ -5,6 +5,7 @@
  *  • getLeagueStandings   – season standings for a league
  *  • getLeagueSettings    – league rules/settings
  *  • getLeagueScoreboard  – WEEKLY scoreboard (live scoring)   ← NEW
+ *  • getTeamRoster        – a team's weekly roster with eligible positions and points
  *
  * PKCE public app – no client secret.
  */
@@ -36,7 +37,7 @@ serve(async (req) => {
   }
 
   try {
-    const { endpoint, accessToken, leagueKey, week } = await req.json();
+    const { endpoint, accessToken, leagueKey, teamKey, week } = await req.json();
     if (!accessToken) throw new Error("Access token is required");
 
     const headers = {
@@ -77,6 +78,15 @@ serve(async (req) => {
           `https://fantasysports.yahooapis.com/fantasy/v2/league/${leagueKey}/scoreboard${week ? `;week=${week}` : ""}?format=json`;
         break;
 
+      /* ─────────────── TEAM ROSTER (weekly, with player points) ─────────────── */
+      case "getTeamRoster": {
+        if (!teamKey) throw new Error("Team key is required for roster");
+        const weekParam = week ? `;week=${week}` : "";
+        apiUrl =
+          `https://fantasysports.yahooapis.com/fantasy/v2/team/${teamKey}/roster${weekParam}/players/stats;type=week${weekParam}?format=json`;
+        break;
+      }
+
       /* ─────────────── SETTINGS ─────────────── */
       case "getLeagueSettings":
         if (!leagueKey) throw new Error("League key is required for settings");
@@ -0,0 +1,42 @@
+-- Canonical NFL stat events, written once by the nfl-ingestion-worker edge function
+CREATE TABLE IF NOT EXISTS public.nfl_stat_events (
+  id text PRIMARY KEY,
+  game_id text NOT NULL,
+  player_id text NOT NULL,
+  player_name text NOT NULL,
+  position text,
+  team text NOT NULL,
+  event_type text NOT NULL,
+  description text NOT NULL,
+  stats jsonb NOT NULL DEFAULT '{}'::jsonb,
+  period integer NOT NULL DEFAULT 1,
+  clock text,
+  scoring_play boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_nfl_stat_events_game
+  ON public.nfl_stat_events(game_id);
+
+CREATE INDEX IF NOT EXISTS idx_nfl_stat_events_created_at
+  ON public.nfl_stat_events(created_at DESC);
+
+-- Last cumulative stats the worker saw per game, used to diff the next poll
+CREATE TABLE IF NOT EXISTS public.nfl_game_snapshots (
+  game_id text PRIMARY KEY,
+  player_stats jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.nfl_stat_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.nfl_game_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Public read access (no auth system); only the worker's service role writes
+CREATE POLICY "NFL stat events are publicly readable"
+  ON public.nfl_stat_events
+  FOR SELECT
+  USING (true);
+
+-- Clients receive new events over Realtime instead of polling Tank01
+ALTER PUBLICATION supabase_realtime ADD TABLE public.nfl_stat_events;
@@ -0,0 +1,2 @@
+-- Stream scoring_events to every open dashboard so devices share one feed
+ALTER PUBLICATION supabase_realtime ADD TABLE public.scoring_events;
@@ -0,0 +1,7 @@
+-- Deterministic event key (game, player, stat category, cumulative value, league)
+-- so replays, reloads and multiple tabs cannot insert the same event twice
+ALTER TABLE public.scoring_events
+  ADD COLUMN IF NOT EXISTS event_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scoring_events_event_key
+  ON public.scoring_events(event_key);
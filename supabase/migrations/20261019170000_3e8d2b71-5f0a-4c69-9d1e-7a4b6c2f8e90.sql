@@ -0,0 +1,4 @@
+-- Which side of the user's matchup an event helps: their team ('for') or this week's opponent ('against')
+ALTER TABLE public.scoring_events
+  ADD COLUMN IF NOT EXISTS impact text NOT NULL DEFAULT 'for'
+  CHECK (impact IN ('for', 'against'));
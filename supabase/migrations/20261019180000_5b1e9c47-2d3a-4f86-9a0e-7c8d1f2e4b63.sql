@@ -0,0 +1,10 @@
+-- Dashboard config profiles synced between devices, keyed by a hash of a user-chosen passphrase
+CREATE TABLE IF NOT EXISTS public.config_profile_sync (
+  sync_key text PRIMARY KEY,
+  profiles jsonb NOT NULL DEFAULT '[]'::jsonb,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS with no policies: profiles can hold league cookies, so only the
+-- config-profile-sync edge function (service role) reads and writes them
+ALTER TABLE public.config_profile_sync ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,33 @@
+-- Whether the scoring player was in the lineup; bench points don't count toward the matchup
+ALTER TABLE public.scoring_events
+  ADD COLUMN IF NOT EXISTS is_starter boolean NOT NULL DEFAULT true;
+
+-- One row per league and finished week: what the lineup scored, what the best
+-- possible lineup would have scored and what the bench put up. Kept separately
+-- from scoring_events, which is trimmed to the last couple of weeks
+CREATE TABLE IF NOT EXISTS public.lineup_week_results (
+  league_id text NOT NULL,
+  season integer NOT NULL,
+  nfl_week integer NOT NULL,
+  actual_points numeric NOT NULL,
+  optimal_points numeric NOT NULL,
+  bench_points numeric NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (league_id, season, nfl_week)
+);
+
+-- Enable RLS
+ALTER TABLE public.lineup_week_results ENABLE ROW LEVEL SECURITY;
+
+-- Public read access (no auth system)
+CREATE POLICY "Lineup week results are publicly readable"
+  ON public.lineup_week_results
+  FOR SELECT
+  USING (true);
+
+-- Written by the dashboard once a week's games are final
+CREATE POLICY "Lineup week results can be written publicly"
+  ON public.lineup_week_results
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
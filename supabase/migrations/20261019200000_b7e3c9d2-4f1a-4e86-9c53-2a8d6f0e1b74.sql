@@ -0,0 +1,21 @@
+-- Run the nfl-ingestion-worker every minute during NFL game windows (16:00-04:59 UTC
+-- covers early Sunday kickoffs through the end of Monday night games).
+-- The job reads the project URL and service role key from Vault; create them once with
+-- vault.create_secret(<value>, 'project_url') and vault.create_secret(<value>, 'service_role_key').
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'nfl-ingestion-worker',
+  '* 0-4,16-23 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/nfl-ingestion-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,43 @@
+-- Profiles are now encrypted on the device before upload. Existing rows hold
+-- plaintext configs (including ESPN cookies) under a hash of the passphrase, so
+-- they're deleted rather than kept readable; devices upload again to re-sync.
+DELETE FROM public.config_profile_sync;
+
+ALTER TABLE public.config_profile_sync DROP COLUMN IF EXISTS profiles;
+-- { version, iterations, salt, iv, ciphertext } from the client; never decrypted server-side
+ALTER TABLE public.config_profile_sync ADD COLUMN IF NOT EXISTS payload jsonb NOT NULL;
+
+-- Requests per client in the current window, so passphrases can't be guessed at speed
+CREATE TABLE IF NOT EXISTS public.config_profile_sync_rate_limits (
+  client_key text PRIMARY KEY,
+  window_started_at timestamptz NOT NULL DEFAULT now(),
+  requests integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.config_profile_sync_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Count a request and report whether the client is still under the limit
+CREATE OR REPLACE FUNCTION public.config_profile_sync_allow_request(
+  p_client_key text,
+  p_max_requests integer,
+  p_window interval
+) RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_requests integer;
+BEGIN
+  INSERT INTO public.config_profile_sync_rate_limits AS limits (client_key, window_started_at, requests)
+  VALUES (p_client_key, now(), 1)
+  ON CONFLICT (client_key) DO UPDATE
+    SET window_started_at = CASE WHEN limits.window_started_at < now() - p_window THEN now() ELSE limits.window_started_at END,
+        requests = CASE WHEN limits.window_started_at < now() - p_window THEN 1 ELSE limits.requests + 1 END
+  RETURNING requests INTO current_requests;
+
+  RETURN current_requests <= p_max_requests;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.config_profile_sync_allow_request(text, integer, interval) FROM PUBLIC, anon, authenticated;
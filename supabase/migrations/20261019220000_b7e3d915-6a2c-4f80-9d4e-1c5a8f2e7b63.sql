@@ -0,0 +1,3 @@
+-- Week results are now written by the lineup-week-results edge function with the
+-- service role, which bypasses RLS. Without a write policy the anon key can only read
+DROP POLICY IF EXISTS "Lineup week results can be written publicly" ON public.lineup_week_results;
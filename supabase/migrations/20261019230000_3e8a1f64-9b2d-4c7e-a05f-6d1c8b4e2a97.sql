@@ -0,0 +1,23 @@
+-- Where each game on the scoreboard stands, published by the nfl-ingestion-worker
+-- on every run. Dashboards on the server feed read it for players-remaining and
+-- projections instead of polling the Tank01 scoreboard themselves.
+CREATE TABLE IF NOT EXISTS public.nfl_game_status (
+  game_id text PRIMARY KEY,
+  away text NOT NULL,
+  home text NOT NULL,
+  game_status text NOT NULL DEFAULT '',
+  game_status_code text NOT NULL DEFAULT '',
+  period text NOT NULL DEFAULT '',
+  game_clock text NOT NULL DEFAULT '',
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.nfl_game_status ENABLE ROW LEVEL SECURITY;
+
+-- Public read access (no auth system); only the worker's service role writes
+CREATE POLICY "NFL game status is publicly readable"
+  ON public.nfl_game_status
+  FOR SELECT
+  USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.nfl_game_status;
@@ -0,0 +1,96 @@
+-- Kickoff times from the week's schedule, so the worker is only called around games
+ALTER TABLE public.nfl_game_status ADD COLUMN IF NOT EXISTS kickoff timestamptz;
+
+-- The worker's single row of state: when it may run again and when it last loaded the schedule
+CREATE TABLE IF NOT EXISTS public.nfl_ingestion_state (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  next_run_at timestamptz NOT NULL DEFAULT now(),
+  schedule_loaded_at timestamptz
+);
+
+INSERT INTO public.nfl_ingestion_state (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+-- Tank01 requests the worker made per UTC day
+CREATE TABLE IF NOT EXISTS public.nfl_ingestion_quota (
+  day date PRIMARY KEY,
+  requests integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.nfl_ingestion_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.nfl_ingestion_quota ENABLE ROW LEVEL SECURITY;
+
+-- Count a Tank01 request and report whether today's quota still allows it
+CREATE OR REPLACE FUNCTION public.nfl_ingestion_allow_request(p_max_requests integer)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_requests integer;
+BEGIN
+  INSERT INTO public.nfl_ingestion_quota AS quota (day, requests)
+  VALUES ((now() AT TIME ZONE 'utc')::date, 1)
+  ON CONFLICT (day) DO UPDATE SET requests = quota.requests + 1
+  RETURNING requests INTO current_requests;
+
+  RETURN current_requests <= p_max_requests;
+END;
+$$;
+
+-- A game on the schedule is about to kick off or hasn't finished
+CREATE OR REPLACE FUNCTION public.nfl_ingestion_games_on()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.nfl_game_status game
+    WHERE game.kickoff BETWEEN now() - interval '5 hours' AND now() + interval '5 minutes'
+      AND game.game_status_code <> '2'
+      AND game.game_status NOT ILIKE '%final%'
+  );
+$$;
+
+-- Whether the worker should run: it isn't backing off, and the schedule is stale or a game is on
+CREATE OR REPLACE FUNCTION public.nfl_ingestion_due()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.nfl_ingestion_state state
+    WHERE state.next_run_at <= now()
+      AND (
+        state.schedule_loaded_at IS NULL
+        OR state.schedule_loaded_at < now() - interval '12 hours'
+        OR public.nfl_ingestion_games_on()
+      )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.nfl_ingestion_allow_request(integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.nfl_ingestion_games_on() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.nfl_ingestion_due() FROM PUBLIC, anon, authenticated;
+
+-- Replace the fixed 16:00-04:59 UTC window: the job still ticks every minute, but
+-- only calls the worker when nfl_ingestion_due() says a game is on
+SELECT cron.schedule(
+  'nfl-ingestion-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/nfl-ingestion-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE public.nfl_ingestion_due();
+  $$
+);